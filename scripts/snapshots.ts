@@ -0,0 +1,152 @@
+/**
+ * Snapshot Tests
+ *
+ * Renders every demo in DEMO_LOADERS through snapshot.html in headless
+ * Chromium with SwiftShader (software WebGL2), at the page's fixed size,
+ * time, mouse position and default parameters, and compares each frame
+ * against __snapshots__/<demo>.png with the page's perceptual comparison.
+ * A failing demo writes __snapshots__/<demo>.diff.png.
+ *
+ *   npm test                      # check every demo
+ *   npm test -- voronoi bloom     # check only these
+ *   npm test -- --update          # rewrite the references
+ *
+ * PUPPETEER_EXECUTABLE_PATH picks a different Chromium build.
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import puppeteer, { type Page } from 'puppeteer';
+import { createServer } from 'vite';
+
+// Mirrors SnapshotResult in src/snapshot.ts
+interface SnapshotResult {
+  demoIds: string[];
+  demo: string | null;
+  image: string | null;
+  diff: string | null;
+  mismatchedPixels: number | null;
+  passed: boolean | null;
+  error: string | null;
+}
+
+const ROOT = join(import.meta.dirname, '..');
+const SNAPSHOT_DIR = join(ROOT, '__snapshots__');
+// Per-pixel YIQ threshold, and the share of mismatching pixels still accepted
+const THRESHOLD = 0.1;
+const TOLERANCE = 0.002;
+// SwiftShader is slow, and the first load of a demo also transforms its modules
+const DEMO_TIMEOUT = 120_000;
+
+const CHROME_ARGS = [
+  '--use-angle=swiftshader',
+  '--enable-unsafe-swiftshader',
+  '--ignore-gpu-blocklist',
+  '--no-sandbox',
+];
+
+function writeDataURL(path: string, dataURL: string): Promise<void> {
+  return writeFile(path, Buffer.from(dataURL.slice(dataURL.indexOf(',') + 1), 'base64'));
+}
+
+async function loadSnapshotPage(page: Page, url: string): Promise<SnapshotResult> {
+  await page.goto(url);
+  await page.waitForFunction("document.title === 'done' || document.title === 'error'", {
+    timeout: DEMO_TIMEOUT,
+  });
+  const result = await page.evaluate<[], () => SnapshotResult | undefined>('window.snapshotResult');
+  if (!result) {
+    throw new Error(`${url} finished without a result`);
+  }
+  return result;
+}
+
+/** Render one demo and check or update its reference; returns a failure message or null */
+async function runDemo(page: Page, baseUrl: string, demoId: string, update: boolean): Promise<string | null> {
+  const referencePath = join(SNAPSHOT_DIR, `${demoId}.png`);
+  const diffPath = join(SNAPSHOT_DIR, `${demoId}.diff.png`);
+  await rm(diffPath, { force: true });
+
+  const params = new URLSearchParams({ demo: demoId });
+  if (!update) {
+    if (!existsSync(referencePath)) {
+      return `no reference at ${relative(ROOT, referencePath)} (run npm test -- --update)`;
+    }
+    params.set('reference', `/__snapshots__/${demoId}.png`);
+    params.set('threshold', String(THRESHOLD));
+    params.set('tolerance', String(TOLERANCE));
+  }
+
+  const result = await loadSnapshotPage(page, `${baseUrl}snapshot.html?${params}`);
+  if (result.error || !result.image) {
+    return result.error ?? 'no image rendered';
+  }
+  if (update) {
+    await writeDataURL(referencePath, result.image);
+    return null;
+  }
+  if (!result.passed) {
+    if (result.diff) await writeDataURL(diffPath, result.diff);
+    return `${result.mismatchedPixels} pixels differ, see ${relative(ROOT, diffPath)}`;
+  }
+  return null;
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const only = args.filter((arg) => !arg.startsWith('--'));
+
+  await mkdir(SNAPSHOT_DIR, { recursive: true });
+  const server = await createServer({ root: ROOT, logLevel: 'warn', server: { port: 0 } });
+  const browser = await puppeteer.launch({ headless: 'shell', args: CHROME_ARGS });
+
+  try {
+    await server.listen();
+    const baseUrl = server.resolvedUrls?.local[0];
+    if (!baseUrl) {
+      throw new Error('Vite did not report a local URL');
+    }
+
+    const page = await browser.newPage();
+    page.on('pageerror', (err) => console.error(`  page error: ${(err as Error).message}`));
+
+    // The page lists the demos when given none
+    const { demoIds } = await loadSnapshotPage(page, `${baseUrl}snapshot.html`);
+    const unknown = only.filter((id) => !demoIds.includes(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown demo(s): ${unknown.join(', ')}`);
+    }
+
+    const failures: string[] = [];
+    for (const demoId of only.length > 0 ? only : demoIds) {
+      let failure: string | null;
+      try {
+        failure = await runDemo(page, baseUrl, demoId, update);
+      } catch (err) {
+        failure = (err as Error).message;
+      }
+      console.log(`${failure ? 'FAIL' : update ? 'UPDATED' : 'PASS'} ${demoId}${failure ? `: ${failure}` : ''}`);
+      if (failure) failures.push(demoId);
+    }
+
+    console.log(
+      failures.length > 0
+        ? `\n${failures.length} failed: ${failures.join(', ')}`
+        : `\n${update ? 'All references written' : 'All snapshots passed'}`
+    );
+    return failures.length > 0 ? 1 : 0;
+  } finally {
+    await browser.close();
+    await server.close();
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err: Error) => {
+    console.error(err);
+    process.exit(1);
+  }
+);
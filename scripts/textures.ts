@@ -0,0 +1,428 @@
+/**
+ * Texture Assets
+ *
+ * Generates the demo textures in public/textures/ so they can be rebuilt
+ * without an external encoder:
+ *
+ *   npx tsx scripts/textures.ts
+ *
+ * Each texture is written as a PNG fallback plus KTX2 variants with a full
+ * mip chain: BC1 (s3tc) and ETC2 RGB (etc2). The block encoders are simple
+ * fixed-strategy ones - fine for the flat, high-contrast patterns here, not
+ * a replacement for a real encoder on photographs.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { deflateSync } from 'node:zlib';
+
+const OUTPUT_DIR = join(import.meta.dirname, '..', 'public', 'textures');
+
+/** Tightly packed RGB, top row first */
+interface RgbImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// ============================================================================
+// Pool Tiles
+// ============================================================================
+
+const TILE_SIZE = 32;
+const GROUT = 2;
+
+function hash(x: number, y: number): number {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+/** Glazed square tiles with dark grout and a slight bevel; tiles seamlessly */
+function poolTiles(size: number): RgbImage {
+  const data = new Uint8Array(size * size * 3);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const tx = Math.floor(x / TILE_SIZE);
+      const ty = Math.floor(y / TILE_SIZE);
+      const u = x % TILE_SIZE;
+      const v = y % TILE_SIZE;
+      const edge = Math.min(u, v, TILE_SIZE - 1 - u, TILE_SIZE - 1 - v);
+
+      let r: number, g: number, b: number;
+      if (edge < GROUT) {
+        [r, g, b] = [70, 84, 92];
+      } else {
+        // Every few tiles one is a darker accent
+        const accent = hash(tx, ty) < 0.12;
+        const shade = 0.92 + hash(tx + 17, ty + 31) * 0.08;
+        [r, g, b] = accent ? [40, 120, 170] : [215, 238, 245];
+        // Highlight on the top-left bevel, shadow on the bottom-right
+        const bevel = edge < GROUT + 2 ? (u < v ? -18 : 14) * (u + v < TILE_SIZE ? -1 : 1) : 0;
+        r = r * shade + bevel;
+        g = g * shade + bevel;
+        b = b * shade + bevel;
+      }
+      const i = (y * size + x) * 3;
+      data[i] = clampByte(r);
+      data[i + 1] = clampByte(g);
+      data[i + 2] = clampByte(b);
+    }
+  }
+  return { width: size, height: size, data };
+}
+
+function clampByte(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+/** Box-filtered chain down to 1x1, level 0 first */
+function mipChain(image: RgbImage): RgbImage[] {
+  const levels = [image];
+  while (levels[levels.length - 1].width > 1 || levels[levels.length - 1].height > 1) {
+    const src = levels[levels.length - 1];
+    const width = Math.max(1, src.width >> 1);
+    const height = Math.max(1, src.height >> 1);
+    const data = new Uint8Array(width * height * 3);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < 3; c++) {
+          let sum = 0;
+          for (let dy = 0; dy < 2; dy++) {
+            for (let dx = 0; dx < 2; dx++) {
+              const sx = Math.min(src.width - 1, x * 2 + dx);
+              const sy = Math.min(src.height - 1, y * 2 + dy);
+              sum += src.data[(sy * src.width + sx) * 3 + c];
+            }
+          }
+          data[(y * width + x) * 3 + c] = Math.round(sum / 4);
+        }
+      }
+    }
+    levels.push({ width, height, data });
+  }
+  return levels;
+}
+
+// ============================================================================
+// Block Compression
+// ============================================================================
+
+type RGB = [number, number, number];
+
+/** 4x4 blocks in row-major block order; pixels past the edge repeat the last row/column */
+function forEachBlock(image: RgbImage, encode: (pixels: RGB[], out: Uint8Array) => void): Uint8Array {
+  const blocksX = Math.ceil(image.width / 4);
+  const blocksY = Math.ceil(image.height / 4);
+  const output = new Uint8Array(blocksX * blocksY * 8);
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      // Pixels in row-major order within the block
+      const pixels: RGB[] = [];
+      for (let y = 0; y < 4; y++) {
+        for (let x = 0; x < 4; x++) {
+          const sx = Math.min(image.width - 1, bx * 4 + x);
+          const sy = Math.min(image.height - 1, by * 4 + y);
+          const i = (sy * image.width + sx) * 3;
+          pixels.push([image.data[i], image.data[i + 1], image.data[i + 2]]);
+        }
+      }
+      encode(pixels, output.subarray((by * blocksX + bx) * 8, (by * blocksX + bx + 1) * 8));
+    }
+  }
+  return output;
+}
+
+function distance(a: RGB, b: RGB): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+function nearest(palette: RGB[], pixel: RGB): number {
+  let best = 0;
+  for (let i = 1; i < palette.length; i++) {
+    if (distance(palette[i], pixel) < distance(palette[best], pixel)) best = i;
+  }
+  return best;
+}
+
+/** BC1 (DXT1) opaque mode, endpoints from the block's bounding box */
+function encodeBc1(pixels: RGB[], out: Uint8Array): void {
+  const min: RGB = [255, 255, 255];
+  const max: RGB = [0, 0, 0];
+  for (const pixel of pixels) {
+    for (let c = 0; c < 3; c++) {
+      min[c] = Math.min(min[c], pixel[c]);
+      max[c] = Math.max(max[c], pixel[c]);
+    }
+  }
+  let c0 = to565(max);
+  let c1 = to565(min);
+  if (c0 < c1) [c0, c1] = [c1, c0];
+
+  let indices = 0;
+  if (c0 !== c1) {
+    const e0 = from565(c0);
+    const e1 = from565(c1);
+    const palette: RGB[] = [e0, e1, lerp(e0, e1, 1 / 3), lerp(e0, e1, 2 / 3)];
+    pixels.forEach((pixel, i) => {
+      indices |= nearest(palette, pixel) << (i * 2);
+    });
+  }
+  out[0] = c0 & 0xff;
+  out[1] = c0 >> 8;
+  out[2] = c1 & 0xff;
+  out[3] = c1 >> 8;
+  out[4] = indices & 0xff;
+  out[5] = (indices >>> 8) & 0xff;
+  out[6] = (indices >>> 16) & 0xff;
+  out[7] = (indices >>> 24) & 0xff;
+}
+
+function to565([r, g, b]: RGB): number {
+  return (Math.round((r * 31) / 255) << 11) | (Math.round((g * 63) / 255) << 5) | Math.round((b * 31) / 255);
+}
+
+function from565(value: number): RGB {
+  const r = (value >> 11) & 31;
+  const g = (value >> 5) & 63;
+  const b = value & 31;
+  return [(r << 3) | (r >> 2), (g << 2) | (g >> 4), (b << 3) | (b >> 2)];
+}
+
+function lerp(a: RGB, b: RGB, t: number): RGB {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+}
+
+// ETC1 modifier tables; ETC1 individual mode is also valid ETC2 RGB
+const ETC_MODIFIERS = [[2, 8], [5, 17], [9, 29], [13, 42], [18, 60], [24, 80], [33, 106], [47, 183]];
+
+interface EtcSubblock {
+  base: RGB;          // 4-bit per channel
+  table: number;
+  indices: number[];  // Per pixel: 0 +small, 1 +large, 2 -small, 3 -large
+  error: number;
+}
+
+function encodeEtcSubblock(pixels: RGB[]): EtcSubblock {
+  const average = [0, 1, 2].map((c) => pixels.reduce((sum, pixel) => sum + pixel[c], 0) / pixels.length);
+  const base = average.map((value) => Math.round(value / 17)) as RGB;
+  const expanded = base.map((value) => value * 17);
+
+  let best: EtcSubblock | null = null;
+  for (let table = 0; table < ETC_MODIFIERS.length; table++) {
+    const [small, large] = ETC_MODIFIERS[table];
+    const palette = [small, large, -small, -large].map(
+      (modifier) => expanded.map((value) => clampByte(value + modifier)) as RGB
+    );
+    let error = 0;
+    const indices = pixels.map((pixel) => {
+      const index = nearest(palette, pixel);
+      error += distance(palette[index], pixel);
+      return index;
+    });
+    if (!best || error < best.error) best = { base, table, indices, error };
+  }
+  return best!;
+}
+
+/** ETC1 individual mode, trying both subblock orientations */
+function encodeEtc2(pixels: RGB[], out: Uint8Array): void {
+  // Subblock membership by flip: 0 splits left/right, 1 splits top/bottom
+  const split = (flip: number) => [0, 1].map((half) =>
+    pixels.map((pixel, i) => ({ pixel, i })).filter(({ i }) => ((flip ? i >> 2 : i & 3) >> 1) === half)
+  );
+
+  let bestFlip = 0;
+  let bestHalves: EtcSubblock[] = [];
+  let bestError = Infinity;
+  for (const flip of [0, 1]) {
+    const halves = split(flip).map((members) => encodeEtcSubblock(members.map(({ pixel }) => pixel)));
+    const error = halves[0].error + halves[1].error;
+    if (error < bestError) {
+      bestFlip = flip;
+      bestHalves = halves;
+      bestError = error;
+    }
+  }
+
+  const [first, second] = bestHalves;
+  out[0] = (first.base[0] << 4) | second.base[0];
+  out[1] = (first.base[1] << 4) | second.base[1];
+  out[2] = (first.base[2] << 4) | second.base[2];
+  out[3] = (first.table << 5) | (second.table << 2) | bestFlip; // diff bit 0
+
+  // Pixel indices are stored column-major: bit x * 4 + y
+  let msb = 0;
+  let lsb = 0;
+  split(bestFlip).forEach((members, half) => {
+    members.forEach(({ i }, n) => {
+      const index = bestHalves[half].indices[n];
+      const bit = (i & 3) * 4 + (i >> 2);
+      msb |= (index >> 1) << bit;
+      lsb |= (index & 1) << bit;
+    });
+  });
+  out[4] = msb >> 8;
+  out[5] = msb & 0xff;
+  out[6] = lsb >> 8;
+  out[7] = lsb & 0xff;
+}
+
+// ============================================================================
+// Containers
+// ============================================================================
+
+interface BlockFormat {
+  vkFormat: number;
+  colorModel: number;   // KHR_DF_MODEL_*
+  channel: number;      // KHR_DF_CHANNEL_* of the single color sample
+  encode: (pixels: RGB[], out: Uint8Array) => void;
+}
+
+const BC1: BlockFormat = { vkFormat: 131, colorModel: 128, channel: 0, encode: encodeBc1 };
+const ETC2: BlockFormat = { vkFormat: 147, colorModel: 161, channel: 2, encode: encodeEtc2 };
+
+const KTX2_IDENTIFIER = [0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * KTX2 with one block-compressed level per mip
+ * Rows are stored bottom-up (KTXorientation "ru") so the texture samples
+ * the same way as a PNG uploaded with flipY.
+ */
+function writeKtx2(levels: RgbImage[], format: BlockFormat): Uint8Array {
+  const payloads = levels.map((level) => forEachBlock(flipRows(level), format.encode));
+
+  // Data format descriptor: one basic block with a single 64-bit color sample
+  const dfd = new DataView(new ArrayBuffer(4 + 24 + 16));
+  dfd.setUint32(0, dfd.byteLength, true);
+  dfd.setUint32(4, 0, true);                         // vendorId, descriptorType
+  dfd.setUint32(8, 2 | ((24 + 16) << 16), true);     // versionNumber, descriptorBlockSize
+  dfd.setUint8(12, format.colorModel);
+  dfd.setUint8(13, 1);                               // BT.709 primaries
+  dfd.setUint8(14, 1);                               // Linear (UNORM format)
+  dfd.setUint8(16, 3);                               // 4x4 texel blocks
+  dfd.setUint8(17, 3);
+  dfd.setUint8(20, 8);                               // 8 bytes per block
+  dfd.setUint32(28, 0 | (63 << 16) | (format.channel << 24), true);
+  dfd.setUint32(36, 0, true);
+  dfd.setUint32(40, 0xffffffff, true);
+
+  const kvd = keyValue('KTXorientation', 'ru');
+
+  const levelIndexSize = levels.length * 24;
+  const dfdOffset = 80 + levelIndexSize;
+  const kvdOffset = dfdOffset + dfd.byteLength;
+  let offset = align(kvdOffset + kvd.length, 8);
+
+  // Level data goes smallest first, each aligned to the 8-byte block size
+  const offsets: number[] = [];
+  for (let level = levels.length - 1; level >= 0; level--) {
+    offsets[level] = offset;
+    offset = align(offset + payloads[level].length, 8);
+  }
+
+  const file = new Uint8Array(offset);
+  const view = new DataView(file.buffer);
+  file.set(KTX2_IDENTIFIER, 0);
+  view.setUint32(12, format.vkFormat, true);
+  view.setUint32(16, 1, true);                       // typeSize
+  view.setUint32(20, levels[0].width, true);
+  view.setUint32(24, levels[0].height, true);
+  view.setUint32(36, 1, true);                       // faceCount
+  view.setUint32(40, levels.length, true);
+  view.setUint32(48, dfdOffset, true);
+  view.setUint32(52, dfd.byteLength, true);
+  view.setUint32(56, kvdOffset, true);
+  view.setUint32(60, kvd.length, true);
+  payloads.forEach((payload, level) => {
+    const entry = 80 + level * 24;
+    view.setUint32(entry, offsets[level], true);
+    view.setUint32(entry + 8, payload.length, true);
+    view.setUint32(entry + 16, payload.length, true);
+    file.set(payload, offsets[level]);
+  });
+  file.set(new Uint8Array(dfd.buffer), dfdOffset);
+  file.set(kvd, kvdOffset);
+  return file;
+}
+
+function keyValue(key: string, value: string): Uint8Array {
+  const text = new TextEncoder().encode(`${key}\0${value}\0`);
+  const entry = new Uint8Array(align(4 + text.length, 4));
+  new DataView(entry.buffer).setUint32(0, text.length, true);
+  entry.set(text, 4);
+  return entry;
+}
+
+function flipRows(image: RgbImage): RgbImage {
+  const stride = image.width * 3;
+  const data = new Uint8Array(image.data.length);
+  for (let y = 0; y < image.height; y++) {
+    data.set(image.data.subarray(y * stride, (y + 1) * stride), (image.height - 1 - y) * stride);
+  }
+  return { ...image, data };
+}
+
+function align(value: number, alignment: number): number {
+  return Math.ceil(value / alignment) * alignment;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** 8-bit RGB PNG, unfiltered rows */
+function writePng(image: RgbImage): Uint8Array {
+  const stride = image.width * 3;
+  const raw = new Uint8Array((stride + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    raw.set(image.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, image.width);
+  headerView.setUint32(4, image.height);
+  header.set([8, 2, 0, 0, 0], 8);                    // 8-bit, truecolor
+
+  const chunks = [chunk('IHDR', header), chunk('IDAT', deflateSync(raw, { level: 9 })), chunk('IEND', new Uint8Array(0))];
+  return Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), ...chunks]);
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(new TextEncoder().encode(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+async function writeTexture(name: string, image: RgbImage): Promise<void> {
+  const levels = mipChain(image);
+  const files: [string, Uint8Array][] = [
+    [`${name}.png`, writePng(image)],
+    [`${name}.bc1.ktx2`, writeKtx2(levels, BC1)],
+    [`${name}.etc2.ktx2`, writeKtx2(levels, ETC2)],
+  ];
+  for (const [file, bytes] of files) {
+    await writeFile(join(OUTPUT_DIR, file), bytes);
+    console.log(`${file} (${bytes.length} bytes)`);
+  }
+}
+
+await mkdir(OUTPUT_DIR, { recursive: true });
+await writeTexture('pool-tiles', poolTiles(256));
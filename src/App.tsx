@@ -6,15 +6,16 @@
 
 import { PlaygroundProvider } from './context/PlaygroundContext';
 import { AppLayout } from './components/AppLayout';
-import { getInitialDemoFromURL } from './hooks/useURLSync';
+import { getInitialDemoFromURL, getInitialStateFromURL } from './hooks/useURLSync';
 import './App.css';
 
 function App() {
-  // Get initial demo from URL query param
+  // Get initial demo, settings, and parameters from URL query params
   const initialDemoId = getInitialDemoFromURL() || 'voronoi';
+  const initialURLState = getInitialStateFromURL();
 
   return (
-    <PlaygroundProvider initialDemoId={initialDemoId}>
+    <PlaygroundProvider initialDemoId={initialDemoId} initialOverrides={initialURLState}>
       <AppLayout />
     </PlaygroundProvider>
   );
@@ -0,0 +1,251 @@
+/**
+ * Benchmark Page
+ *
+ * Entry point for benchmark.html. Runs every loadable demo (or a subset) at
+ * each quality level and shows a summary table, with JSON and CSV downloads:
+ *
+ *   /benchmark.html
+ *   /benchmark.html?autostart=1&duration=10&qualities=high,ultra&label=abc123
+ *   /benchmark.html?autostart=1&baseline=/baselines/rtx3060.json&tolerance=0.05
+ *
+ * With autostart the run needs no interaction, so it can be driven by a
+ * browser automation tool; the report (and the baseline comparison, if a
+ * baseline was given) is published on window.benchmarkResult and
+ * document.title becomes 'done' (or 'error').
+ */
+
+import { getLoadableDemoIds, loadDemo } from './gl/demoRegistry';
+import { getQualityLevels } from './gl/core/qualityPresets';
+import {
+  compareReports,
+  parseBenchmarkReport,
+  reportToCSV,
+  runBenchmark,
+  DEFAULT_BENCHMARK_OPTIONS,
+  type BenchmarkComparison,
+  type BenchmarkOptions,
+  type BenchmarkReport,
+} from './gl/core/benchmark';
+import type { QualityLevel } from './gl/core/types';
+
+interface BenchmarkPageResult {
+  report: BenchmarkReport;
+  comparison: BenchmarkComparison[] | null;
+  regressions: number | null;
+}
+
+declare global {
+  interface Window {
+    benchmarkResult?: BenchmarkPageResult;
+  }
+}
+
+const params = new URLSearchParams(window.location.search);
+let baseline: BenchmarkReport | null = null;
+let lastReport: BenchmarkReport | null = null;
+
+function readNumber(key: string, fallback: number): number {
+  const value = parseFloat(params.get(key) ?? '');
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function readList<T extends string>(key: string, valid: T[], fallback: T[]): T[] {
+  const raw = params.get(key);
+  if (!raw) return fallback;
+  const values = raw.split(',').filter((value): value is T => (valid as string[]).includes(value));
+  return values.length > 0 ? values : fallback;
+}
+
+function readOptions(): BenchmarkOptions {
+  const demoIds = getLoadableDemoIds();
+  return {
+    demoIds: readList('demos', demoIds, demoIds),
+    qualities: readList<QualityLevel>('qualities', getQualityLevels(), DEFAULT_BENCHMARK_OPTIONS.qualities),
+    warmup: readNumber('warmup', DEFAULT_BENCHMARK_OPTIONS.warmup),
+    duration: readNumber('duration', DEFAULT_BENCHMARK_OPTIONS.duration),
+    width: Math.round(readNumber('width', DEFAULT_BENCHMARK_OPTIONS.width)),
+    height: Math.round(readNumber('height', DEFAULT_BENCHMARK_OPTIONS.height)),
+  };
+}
+
+// ============================================================================
+// Page
+// ============================================================================
+
+const status = document.createElement('p');
+const controls = document.createElement('div');
+const startButton = button('Start', () => run());
+const jsonButton = button('Download JSON', () => {
+  if (lastReport) download('benchmark.json', JSON.stringify(lastReport, null, 2), 'application/json');
+});
+const csvButton = button('Download CSV', () => {
+  if (lastReport) download('benchmark.csv', reportToCSV(lastReport), 'text/csv');
+});
+const baselineInput = document.createElement('input');
+const canvas = document.createElement('canvas');
+const table = document.createElement('table');
+
+baselineInput.type = 'file';
+baselineInput.accept = 'application/json,.json';
+baselineInput.title = 'Baseline report to compare against';
+baselineInput.addEventListener('change', async () => {
+  const file = baselineInput.files?.[0];
+  if (!file) return;
+  // A bad file leaves the previous baseline in place
+  try {
+    baseline = parseBenchmarkReport(JSON.parse(await file.text()));
+  } catch (err) {
+    status.textContent = `Baseline ${file.name} not loaded: ${(err as Error).message}`;
+    baselineInput.value = '';
+    return;
+  }
+  status.textContent = `Comparing against baseline ${file.name}.`;
+  if (lastReport) showReport(lastReport);
+});
+jsonButton.disabled = true;
+csvButton.disabled = true;
+
+const baselineLabel = document.createElement('label');
+baselineLabel.append('Baseline: ', baselineInput);
+controls.append(startButton, jsonButton, csvButton, baselineLabel);
+document.body.append(controls, status, canvas, table);
+status.textContent = 'Ready.';
+
+function button(label: string, onClick: () => void): HTMLButtonElement {
+  const el = document.createElement('button');
+  el.textContent = label;
+  el.addEventListener('click', onClick);
+  return el;
+}
+
+function download(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatChange(change: number | null): string {
+  if (change === null) return '';
+  return `${change > 0 ? '+' : ''}${(change * 100).toFixed(1)}%`;
+}
+
+function showReport(report: BenchmarkReport): BenchmarkComparison[] | null {
+  const tolerance = readNumber('tolerance', 0.05);
+  const comparison = baseline ? compareReports(report, baseline, tolerance) : null;
+
+  const headings = [
+    'Demo', 'Quality', 'FPS', 'Mean', 'p50', 'p95', 'p99', 'Max', 'CPU', 'Draws', 'Tris', 'GPU',
+  ];
+  if (comparison) headings.push('Δ FPS', 'Δ p95', 'Δ GPU');
+
+  table.replaceChildren();
+  const head = table.createTHead().insertRow();
+  for (const heading of headings) {
+    const th = document.createElement('th');
+    th.textContent = heading;
+    head.append(th);
+  }
+
+  const body = table.createTBody();
+  report.results.forEach((result, i) => {
+    const row = body.insertRow();
+    const cells: string[] = result.error
+      ? [result.demoId, result.quality, result.error]
+      : [
+          result.demoId,
+          result.quality,
+          result.fps.toFixed(1),
+          result.frameTime.mean.toFixed(2),
+          result.frameTime.p50.toFixed(2),
+          result.frameTime.p95.toFixed(2),
+          result.frameTime.p99.toFixed(2),
+          result.frameTime.max.toFixed(2),
+          result.cpuTime.toFixed(2),
+          result.drawCalls.toFixed(0),
+          Math.round(result.triangles).toLocaleString(),
+          result.gpuTime === null ? '–' : result.gpuTime.toFixed(2),
+        ];
+    const entry = comparison?.[i];
+    if (entry && !result.error) {
+      cells.push(formatChange(entry.fpsChange), formatChange(entry.p95Change), formatChange(entry.gpuChange));
+    }
+    for (const text of cells) {
+      row.insertCell().textContent = text;
+    }
+    if (result.error) row.className = 'failed';
+    else if (entry) row.className = entry.verdict;
+  });
+
+  return comparison;
+}
+
+// ============================================================================
+// Run
+// ============================================================================
+
+async function start(): Promise<BenchmarkPageResult> {
+  startButton.disabled = true;
+  const gl = canvas.getContext('webgl2', {
+    alpha: false,
+    antialias: false,
+    powerPreference: 'high-performance',
+  });
+  if (!gl) {
+    throw new Error('WebGL2 not supported');
+  }
+
+  const baselineUrl = params.get('baseline');
+  if (baselineUrl) {
+    const response = await fetch(baselineUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to load baseline: ${response.status} ${baselineUrl}`);
+    }
+    baseline = parseBenchmarkReport(await response.json());
+  }
+
+  const options = readOptions();
+  const report = await runBenchmark(
+    gl,
+    async (demoId) => (await loadDemo(demoId))?.factory ?? null,
+    options,
+    ({ demoId, quality, index, total }) => {
+      status.textContent = `Running ${demoId} (${quality}) - ${index + 1}/${total}`;
+    }
+  );
+  report.label = params.get('label') ?? '';
+
+  lastReport = report;
+  const comparison = showReport(report);
+  const regressions = comparison
+    ? comparison.filter((entry) => entry.verdict === 'regression').length
+    : null;
+  status.textContent =
+    `Done: ${report.results.length} runs on ${report.renderer}` +
+    (regressions !== null ? `, ${regressions} regression(s) vs baseline` : '');
+  startButton.disabled = false;
+  jsonButton.disabled = false;
+  csvButton.disabled = false;
+
+  return { report, comparison, regressions };
+}
+
+function run(): void {
+  start()
+    .then((result) => {
+      window.benchmarkResult = result;
+      document.title = 'done';
+    })
+    .catch((err: Error) => {
+      console.error('Benchmark failed:', err);
+      status.textContent = `Benchmark failed: ${err.message}`;
+      startButton.disabled = false;
+      document.title = 'error';
+    });
+}
+
+if (params.has('autostart')) {
+  run();
+}
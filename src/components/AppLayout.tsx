@@ -13,11 +13,13 @@ import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 import { useURLSync } from '../hooks/useURLSync';
 import { usePageVisibility } from '../hooks/usePageVisibility';
 import { getDemoById } from '../gl/demoRegistry';
+import type { RecordingOptions } from '../gl/core/recorder';
 import './AppLayout.css';
 
 export function AppLayout() {
   const { state } = usePlayground();
   const [_toast, setToast] = useState<string | null>(null);
+  const [recordingProgress, setRecordingProgress] = useState<number | null>(null);
 
   // Get current demo name
   const demo = getDemoById(state.activeDemoId);
@@ -56,8 +58,69 @@ export function AppLayout() {
     setTimeout(() => setToast(null), 2000);
   }, [state.activeDemoId]);
 
+  // Handle recording
+  const handleRecord = useCallback((options: RecordingOptions) => {
+    const recordBtn = document.querySelector('[data-action="record"]') as HTMLButtonElement & {
+      _handler?: (
+        options: RecordingOptions,
+        onProgress?: (progress: number) => void
+      ) => Promise<Blob>;
+    };
+    if (!recordBtn?._handler) return;
+
+    const fileName = `webgl-${state.activeDemoId}-${Date.now()}.webm`;
+    setRecordingProgress(0);
+    recordBtn
+      ._handler(options, setRecordingProgress)
+      .then((blob) => {
+        // Create download link
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.download = fileName;
+        link.href = url;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+        setToast('Recording saved!');
+      })
+      .catch((err) => {
+        console.error('Recording failed:', err);
+        setToast('Recording failed');
+      })
+      .finally(() => {
+        setRecordingProgress(null);
+        setTimeout(() => setToast(null), 2000);
+      });
+  }, [state.activeDemoId]);
+
+  const handleStopRecording = useCallback(() => {
+    const stopBtn = document.querySelector(
+      '[data-action="stop-recording"]'
+    ) as HTMLButtonElement & { _handler?: () => void };
+    if (stopBtn?._handler) {
+      stopBtn._handler();
+    }
+  }, []);
+
+  // Largest resolution the canvas can record at, for the record menu
+  const getMaxRecordingSize = useCallback(() => {
+    const sizeBtn = document.querySelector(
+      '[data-action="max-recording-size"]'
+    ) as HTMLButtonElement & { _handler?: () => { width: number; height: number } | null };
+    return sizeBtn?._handler?.() ?? null;
+  }, []);
+
+  // Handle frame stepping
+  const handleStep = useCallback((frames: number) => {
+    const stepBtn = document.querySelector('[data-action="step"]') as HTMLButtonElement & {
+      _handler?: (frames: number) => void;
+    };
+    if (stepBtn?._handler) {
+      stepBtn._handler(frames);
+    }
+  }, []);
+
   // Custom hooks
-  useKeyboardShortcuts({ onReset: handleReset });
+  useKeyboardShortcuts({ onReset: handleReset, onStep: handleStep });
   useURLSync();
   usePageVisibility();
 
@@ -66,6 +129,10 @@ export function AppLayout() {
       <TopBar
         onReset={handleReset}
         onScreenshot={handleScreenshot}
+        onRecord={handleRecord}
+        onStopRecording={handleStopRecording}
+        getMaxRecordingSize={getMaxRecordingSize}
+        recordingProgress={recordingProgress}
         demoName={demoName}
       />
       <div className="app-content">
@@ -0,0 +1,135 @@
+/**
+ * CameraPanel Component
+ *
+ * Named camera bookmarks and a keyframed camera path for 3D demos.
+ * Both are kept per demo in PlaygroundContext next to the parameter store.
+ * Keyframes are placed at the timeline's current time; with two or more
+ * the camera follows the path as the timeline plays or is scrubbed.
+ */
+
+import { useState } from 'react';
+import { usePlayground } from '../../context/PlaygroundContext';
+import { FRAME_STEP } from '../../gl/core/clock';
+import type { CameraPose } from '../../gl/core/types';
+
+interface CameraPanelProps {
+  time: number;
+  getPose: () => CameraPose | null;
+  onFlyTo: (pose: CameraPose) => void;
+  onSeek: (time: number) => void;
+}
+
+export function CameraPanel({ time, getPose, onFlyTo, onSeek }: CameraPanelProps) {
+  const { state, addCameraBookmark, removeCameraBookmark, setCameraPath } = usePlayground();
+  const [name, setName] = useState('');
+  const demoId = state.activeDemoId;
+  const bookmarks = state.cameras[demoId]?.bookmarks ?? [];
+  const path = state.cameras[demoId]?.path ?? [];
+
+  const handleSaveBookmark = () => {
+    const pose = getPose();
+    if (!pose) return;
+    addCameraBookmark(demoId, {
+      name: name.trim() || `View ${bookmarks.length + 1}`,
+      pose,
+    });
+    setName('');
+  };
+
+  // A keyframe within half a frame of another replaces it
+  const handleAddKeyframe = () => {
+    const pose = getPose();
+    if (!pose) return;
+    const others = path.filter((keyframe) => Math.abs(keyframe.time - time) >= FRAME_STEP / 2);
+    setCameraPath(demoId, [...others, { time, pose }]);
+  };
+
+  return (
+    <div className="controls-panel camera-panel">
+      <h3 className="controls-title">Bookmarks</h3>
+      <form
+        className="camera-row"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSaveBookmark();
+        }}
+      >
+        <input
+          className="camera-name"
+          value={name}
+          placeholder={`View ${bookmarks.length + 1}`}
+          onChange={(e) => setName(e.target.value)}
+          aria-label="Bookmark name"
+        />
+        <button type="submit" className="camera-btn" title="Bookmark the current view">
+          Save
+        </button>
+      </form>
+      {bookmarks.length === 0 ? (
+        <span className="controls-empty-text">No bookmarks yet.</span>
+      ) : (
+        <ul className="camera-list">
+          {bookmarks.map((bookmark, index) => (
+            <li key={index} className="camera-row">
+              <button
+                className="camera-item"
+                onClick={() => onFlyTo(bookmark.pose)}
+                title="Fly to this view"
+              >
+                {bookmark.name}
+              </button>
+              <button
+                className="postprocess-btn"
+                onClick={() => removeCameraBookmark(demoId, index)}
+                title="Remove"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="postprocess-header camera-path-header">
+        <h3 className="controls-title">Path</h3>
+        <div className="postprocess-pass-actions">
+          <button className="camera-btn" onClick={handleAddKeyframe} title="Add a keyframe at the current time">
+            + Key at {time.toFixed(2)}s
+          </button>
+          {path.length > 0 && (
+            <button className="camera-btn" onClick={() => setCameraPath(demoId, [])} title="Remove all keyframes">
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+      {path.length < 2 && (
+        <span className="controls-empty-text">
+          Add keyframes at two or more times to move the camera along the timeline.
+        </span>
+      )}
+      {path.length > 0 && (
+        <ul className="camera-list">
+          {path.map((keyframe) => (
+            <li key={keyframe.time} className="camera-row">
+              <button
+                className="camera-item"
+                onClick={() => onSeek(keyframe.time)}
+                title="Seek to this keyframe"
+              >
+                {keyframe.time.toFixed(2)}s
+              </button>
+              <button
+                className="postprocess-btn"
+                onClick={() => setCameraPath(demoId, path.filter((other) => other !== keyframe))}
+                title="Remove"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,44 +2,38 @@
  * ControlsPanel Component
  *
  * Renders parameter controls for the active demo.
+ * Values come from the shared parameter store in PlaygroundContext,
+ * falling back to the metadata defaults.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useCallback } from 'react';
 import { usePlayground } from '../../context/PlaygroundContext';
 import { getDemoById } from '../../gl/demoRegistry';
 import { Slider, Toggle, Select } from '../ui';
-import type { ParameterDefinition } from '../../gl/core/types';
+import type { ParameterDefinition, ParameterValue } from '../../gl/core/types';
 
 interface ControlsPanelProps {
   onParameterChange?: (key: string, value: number | boolean | string) => void;
 }
 
 export function ControlsPanel({ onParameterChange }: ControlsPanelProps) {
-  const { state } = usePlayground();
-  const [parameters, setParameters] = useState<Record<string, number | boolean | string>>({});
+  const { state, setParameter } = usePlayground();
+  const activeDemoId = state.activeDemoId;
 
   // Get demo metadata
-  const demo = getDemoById(state.activeDemoId);
+  const demo = getDemoById(activeDemoId);
   const paramDefs = demo?.parameters || [];
-
-  // Initialize parameters from defaults when demo changes
-  useEffect(() => {
-    const defaults: Record<string, number | boolean | string> = {};
-    paramDefs.forEach((param) => {
-      defaults[param.key] = param.default;
-    });
-    setParameters(defaults);
-  }, [state.activeDemoId, paramDefs]);
+  const parameters = state.parameters[activeDemoId] || {};
 
   // Handle parameter changes
   const handleChange = useCallback(
-    (key: string, value: number | boolean | string) => {
-      setParameters((prev) => ({ ...prev, [key]: value }));
+    (key: string, value: ParameterValue) => {
+      setParameter(activeDemoId, key, value);
       if (onParameterChange) {
         onParameterChange(key, value);
       }
     },
-    [onParameterChange]
+    [activeDemoId, setParameter, onParameterChange]
   );
 
   if (paramDefs.length === 0) {
@@ -69,11 +63,11 @@ export function ControlsPanel({ onParameterChange }: ControlsPanelProps) {
 
 interface ParameterControlProps {
   definition: ParameterDefinition;
-  value: number | boolean | string | undefined;
-  onChange: (value: number | boolean | string) => void;
+  value: ParameterValue | undefined;
+  onChange: (value: ParameterValue) => void;
 }
 
-function ParameterControl({ definition, value, onChange }: ParameterControlProps) {
+export function ParameterControl({ definition, value, onChange }: ParameterControlProps) {
   switch (definition.type) {
     case 'slider':
       return (
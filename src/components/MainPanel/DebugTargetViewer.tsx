@@ -0,0 +1,237 @@
+/**
+ * DebugTargetViewer Component
+ *
+ * Controls and mouse handling for the picture-in-picture view of a demo's
+ * debug targets. DemoCanvas draws the texture itself, into the corner of
+ * the canvas under this overlay's view area (its last child). The overlay
+ * picks the target, channels and value range, zooms (wheel) and pans
+ * (drag) the view, and shows the raw texel value under the cursor.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_TEXTURE_VIEW,
+  getTexelAt,
+  getViewSize,
+  type TextureViewOptions,
+} from '../../gl/core/textureViewer';
+import type { DebugTarget } from '../../gl/core/types';
+
+export interface DebugTargetView {
+  target: string;
+  options: TextureViewOptions;
+}
+
+interface DebugTargetViewerProps {
+  getTargets: () => DebugTarget[];
+  onViewChange: (view: DebugTargetView | null) => void;
+  readTexel: (target: string, x: number, y: number) => Float32Array | null;
+  getValueRange: (target: string, channels: TextureViewOptions['channels']) => [number, number] | null;
+}
+
+interface Readout {
+  x: number;
+  y: number;
+  value: Float32Array | null;
+}
+
+// Targets can appear after the first frame (e.g. lazily sized framebuffers)
+const POLL_INTERVAL = 1000;
+const CHANNEL_NAMES = ['R', 'G', 'B', 'A'];
+const MAX_ZOOM = 64;
+
+export function DebugTargetViewer({
+  getTargets,
+  onViewChange,
+  readTexel,
+  getValueRange,
+}: DebugTargetViewerProps) {
+  const [targets, setTargets] = useState<DebugTarget[]>([]);
+  const [selected, setSelected] = useState('');
+  const [options, setOptions] = useState<TextureViewOptions>(DEFAULT_TEXTURE_VIEW);
+  const [readout, setReadout] = useState<Readout | null>(null);
+  const viewRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const poll = () => setTargets(getTargets());
+    const timer = window.setInterval(poll, POLL_INTERVAL);
+    const first = window.setTimeout(poll, 0);
+    return () => {
+      window.clearInterval(timer);
+      window.clearTimeout(first);
+    };
+  }, [getTargets]);
+
+  // Fall back to the first target when none (or a vanished one) is selected
+  const target = targets.find((t) => t.name === selected) ?? targets[0] ?? null;
+  const targetName = target?.name ?? null;
+
+  useEffect(() => {
+    onViewChange(targetName ? { target: targetName, options } : null);
+  }, [targetName, options, onViewChange]);
+
+  // Hide the view when the overlay goes away
+  useEffect(() => () => onViewChange(null), [onViewChange]);
+
+  // Wheel zoom around the cursor; a native listener so the page doesn't scroll
+  useEffect(() => {
+    const el = viewRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { px, py } = toViewCoords(el, e);
+      setOptions((prev) => {
+        const zoom = Math.min(MAX_ZOOM, Math.max(1, prev.zoom * Math.exp(-e.deltaY * 0.002)));
+        // Keep the texture point under the cursor in place
+        const u = prev.centerX + (px - 0.5) / prev.zoom;
+        const v = prev.centerY + (py - 0.5) / prev.zoom;
+        return { ...prev, zoom, centerX: u - (px - 0.5) / zoom, centerY: v - (py - 0.5) / zoom };
+      });
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, [targetName]);
+
+  if (!target) {
+    return (
+      <div className="debug-target-viewer">
+        <span className="controls-empty-text">This demo exposes no debug targets.</span>
+      </div>
+    );
+  }
+
+  const size = getViewSize(target);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const { px, py } = toViewCoords(e.currentTarget, e);
+    const drag = dragRef.current;
+    if (drag) {
+      const dx = px - drag.x;
+      const dy = py - drag.y;
+      dragRef.current = { x: px, y: py };
+      setOptions((prev) => ({
+        ...prev,
+        centerX: prev.centerX - dx / prev.zoom,
+        centerY: prev.centerY - dy / prev.zoom,
+      }));
+    }
+
+    const texel = getTexelAt(target, options, px, py);
+    setReadout(texel ? { ...texel, value: readTexel(target.name, texel.x, texel.y) } : null);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    const { px, py } = toViewCoords(e.currentTarget, e);
+    dragRef.current = { x: px, y: py };
+  };
+
+  const toggleChannel = (index: number) => {
+    setOptions((prev) => {
+      const channels = [...prev.channels] as TextureViewOptions['channels'];
+      channels[index] = !channels[index];
+      return { ...prev, channels };
+    });
+  };
+
+  const handleAutoRange = () => {
+    const range = getValueRange(target.name, options.channels);
+    if (range) {
+      setOptions((prev) => ({ ...prev, rangeMin: range[0], rangeMax: range[1] }));
+    }
+  };
+
+  const setRange = (key: 'rangeMin' | 'rangeMax', value: string) => {
+    const number = parseFloat(value);
+    if (Number.isFinite(number)) {
+      setOptions((prev) => ({ ...prev, [key]: number }));
+    }
+  };
+
+  return (
+    <div className="debug-target-viewer">
+      <div className="debug-target-controls">
+        <select
+          value={target.name}
+          onChange={(e) => setSelected(e.target.value)}
+          title="Debug target"
+        >
+          {targets.map((t) => (
+            <option key={t.name} value={t.name}>
+              {t.name} ({t.width}×{t.height}{t.float ? ', float' : ''})
+            </option>
+          ))}
+        </select>
+        {CHANNEL_NAMES.map((name, i) => (
+          <button
+            key={name}
+            className={`debug-target-channel ${options.channels[i] ? 'active' : ''}`}
+            onClick={() => toggleChannel(i)}
+            title={`Show the ${name} channel`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+      <div className="debug-target-controls">
+        <label>
+          Range
+          <input
+            type="number"
+            step="any"
+            value={options.rangeMin}
+            onChange={(e) => setRange('rangeMin', e.target.value)}
+          />
+          –
+          <input
+            type="number"
+            step="any"
+            value={options.rangeMax}
+            onChange={(e) => setRange('rangeMax', e.target.value)}
+          />
+        </label>
+        <button onClick={handleAutoRange} title="Fit the range to the selected channels">
+          Auto
+        </button>
+        <button
+          onClick={() => setOptions(DEFAULT_TEXTURE_VIEW)}
+          title="Reset channels, range and zoom"
+        >
+          Reset
+        </button>
+      </div>
+      <div className="debug-target-readout">
+        {readout
+          ? `${readout.x}, ${readout.y}: ${
+              readout.value ? Array.from(readout.value, formatValue).join('  ') : 'unreadable'
+            }`
+          : `${options.zoom.toFixed(1)}× · wheel to zoom, drag to pan`}
+      </div>
+      <div
+        ref={viewRef}
+        className="debug-target-view"
+        style={{ width: size.width, height: size.height }}
+        onMouseMove={handleMouseMove}
+        onMouseDown={handleMouseDown}
+        onMouseUp={() => (dragRef.current = null)}
+        onMouseLeave={() => {
+          dragRef.current = null;
+          setReadout(null);
+        }}
+      />
+    </div>
+  );
+}
+
+/** Position within an element as 0..1, y pointing up like GL */
+function toViewCoords(el: HTMLElement, e: { clientX: number; clientY: number }) {
+  const rect = el.getBoundingClientRect();
+  return {
+    px: (e.clientX - rect.left) / rect.width,
+    py: 1 - (e.clientY - rect.top) / rect.height,
+  };
+}
+
+function formatValue(value: number): string {
+  return Math.abs(value) >= 1000 ? value.toExponential(2) : value.toFixed(3);
+}
@@ -1,101 +1,301 @@
 /**
  * DemoCanvas Component
  *
- * WebGL2 canvas that renders the active demo.
- * Handles canvas resizing, DPR, and demo lifecycle.
+ * WebGL2 canvas that renders the active demo: sizing and quality, the demo's
+ * lifecycle and render loop, playback, postprocessing and dev tooling. User
+ * files, recording and context loss live in useDemoFiles, useCanvasRecording
+ * and useContextLoss.
  */
 
-import React, {
+import {
   useRef,
   useEffect,
   useCallback,
   forwardRef,
   useImperativeHandle,
+  useState,
 } from 'react';
 import { usePlayground } from '../../context/PlaygroundContext';
 import { loadDemo } from '../../gl/demoRegistry';
-import { getResolutionMultiplier } from '../../gl/core/qualityPresets';
-import type { DemoInstance, DemoContext, DemoStats } from '../../gl/core/types';
+import { getQualityScale } from '../../gl/core/qualityPresets';
+import { QualityGovernor, type QualityStatus } from '../../gl/core/qualityGovernor';
+import { PostProcessChain } from '../../gl/core/postprocess';
+import { PlaybackClock } from '../../gl/core/clock';
+import { GLResourceTracker } from '../../gl/core/resources';
+import { GLInstrumentation } from '../../gl/core/instrumentation';
+import { FrameCapture, type FrameCaptureResult } from '../../gl/core/frameCapture';
+import { TextureViewer, getViewSize } from '../../gl/core/textureViewer';
+import { PointerInput, type PointerFrame } from '../../gl/core/pointerInput';
+import { recompileShaderProgram, ShaderCompileError } from '../../gl/core/shader';
+import { validateParameterValues } from '../../gl/core/parameters';
+import { TextureCache, initWithTextures } from '../../gl/core/textureLoader';
+import { getPassFactory } from '../../gl/postprocessRegistry';
+import { getMaxRecordingSize, type RecordingOptions } from '../../gl/core/recorder';
+import type {
+  CameraPose,
+  DebugTarget,
+  DemoInstance,
+  DemoContext,
+  DemoStats,
+  DemoShaderProgram,
+  GLLeakReport,
+  GLResourceCounts,
+  ShaderDiagnostic,
+} from '../../gl/core/types';
+import { useDemoFiles } from '../../hooks/useDemoFiles';
+import { useCanvasRecording } from '../../hooks/useCanvasRecording';
+import { useContextLoss } from '../../hooks/useContextLoss';
+import { DebugTargetViewer, type DebugTargetView } from './DebugTargetViewer';
 
 export interface DemoCanvasHandle {
   reset: () => void;
   getScreenshot: () => string | null;
   getStats: () => DemoStats | null;
   setParameter: (key: string, value: number | boolean | string) => void;
+  startRecording: (
+    options: RecordingOptions,
+    onProgress?: (progress: number) => void
+  ) => Promise<Blob>;
+  stopRecording: () => void;
+  getMaxRecordingSize: () => { width: number; height: number } | null;  // null without a context
+  step: (frames: number) => void;
+  seek: (time: number) => void;
+  setPlaybackRate: (rate: number) => void;
+  updateShaderProgram: (
+    name: string,
+    vertexSource: string,
+    fragmentSource: string
+  ) => ShaderDiagnostic[];
+  loseContext: () => void;     // Debug: simulate a GPU reset via WEBGL_lose_context
+  getResourceCounts: () => GLResourceCounts | null;  // null unless tracking (dev builds)
+  captureFrame: () => Promise<FrameCaptureResult>;   // Dev builds only
+  getCameraPose: () => CameraPose | null;            // null unless the demo has a camera
+  flyToCameraPose: (pose: CameraPose) => void;
+  loadMesh: (file: File) => Promise<void>;   // Errors are shown over the canvas
+  clearMesh: () => void;
+  loadMedia: (file: File) => Promise<void>;  // Also selects it as the demo's source
+  loadPanorama: (file: File) => Promise<void>;  // Also selects it as the demo's environment
+}
+
+/** What a freshly initialized demo offers the surrounding UI */
+export interface DemoFeatures {
+  shaderPrograms: DemoShaderProgram[];
+  camera: boolean;     // Has bookmarks and camera paths
+  meshes: boolean;     // Can draw a loaded model
+  media: boolean;      // Can take the user's image or video as its source
+  panoramas: boolean;  // Can light and surround its scene with the user's panorama
+}
+
+interface PendingCapture {
+  resolve: (result: FrameCaptureResult) => void;
+  reject: (err: Error) => void;
 }
 
 interface DemoCanvasProps {
   onStatsUpdate?: (stats: DemoStats) => void;
+  onTimeUpdate?: (time: number) => void;
+  onDemoReady?: (features: DemoFeatures) => void;          // After each (re)initialization
+  onMeshChange?: (name: string | null) => void;            // Loaded model, null for the built-in one
+  onLeakReport?: (report: GLLeakReport) => void;          // After each destroy (dev builds)
+  onQualityChange?: (status: QualityStatus) => void;
+  instrumentGL?: boolean;      // Count GL calls (restarts the demo when toggled)
+  showDebugTargets?: boolean;
 }
 
+// Pointer state before the canvas has an input attached
+const IDLE_POINTER: PointerFrame = {
+  pointers: [],
+  primary: { x: 0.5, y: 0.5, down: false },
+  zoomDelta: 0,
+  dragX: 0,
+  dragY: 0,
+  keys: new Set(),
+};
+
+// Debug target view offset from the canvas's bottom-left corner, CSS pixels
+const DEBUG_VIEW_MARGIN = 8;
+
+// Seconds to ease between camera bookmarks
+const BOOKMARK_TRANSITION = 1;
+
+// Milliseconds between onTimeUpdate calls during playback (~10 Hz); paused
+// steps and seeks are reported on the frame that shows them
+const TIME_UPDATE_INTERVAL = 100;
+
 export const DemoCanvas = forwardRef<DemoCanvasHandle, DemoCanvasProps>(
-  function DemoCanvas({ onStatsUpdate }, ref) {
-    const { state } = usePlayground();
+  function DemoCanvas(
+    {
+      onStatsUpdate,
+      onTimeUpdate,
+      onDemoReady,
+      onLeakReport,
+      onQualityChange,
+      onMeshChange,
+      instrumentGL = false,
+      showDebugTargets = false,
+    },
+    ref
+  ) {
+    const { state, syncParameters, setPaused } = usePlayground();
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const demoRef = useRef<DemoInstance | null>(null);
+    const trackerRef = useRef<GLResourceTracker | null>(null);
+    const instrumentRef = useRef<GLInstrumentation | null>(null);
+    const captureRef = useRef<FrameCapture | null>(null);
+    const pendingCaptureRef = useRef<PendingCapture | null>(null);
+    const viewerRef = useRef<TextureViewer | null>(null);
+    const debugViewRef = useRef<DebugTargetView | null>(null);
     const glRef = useRef<WebGL2RenderingContext | null>(null);
+    const chainRef = useRef<PostProcessChain | null>(null);
     const rafRef = useRef<number>(0);
-    const startTimeRef = useRef<number>(0);
-    const lastTimeRef = useRef<number>(0);
-    const mouseRef = useRef({ x: 0.5, y: 0.5, down: false });
+    const clockRef = useRef(new PlaybackClock());
+    const pointerRef = useRef<PointerInput | null>(null);
     const sizeRef = useRef({ width: 0, height: 0, dpr: 1 });
+    const parametersRef = useRef(state.parameters);
+    const camerasRef = useRef(state.cameras);
+    const sizeOverrideRef = useRef<{ width: number; height: number } | null>(null);
+    // Read per frame, so governor steps don't restart the demo
+    const qualityRef = useRef({ level: state.quality, scale: getQualityScale(state.quality) });
+    const governorRef = useRef<QualityGovernor | null>(null);
+    const lastFrameRef = useRef(0);
+    const lastTimeUpdateRef = useRef({ now: 0, time: -1 });
+    const [initError, setInitError] = useState<Error | null>(null);
+    const textureCacheRef = useRef<TextureCache | null>(null);
+    const releaseTexturesRef = useRef<(() => void) | null>(null);
+
+    // Track the parameter store without restarting the demo on every change
+    useEffect(() => {
+      parametersRef.current = state.parameters;
+    }, [state.parameters]);
 
-    // Expose imperative methods
-    useImperativeHandle(ref, () => ({
-      reset: () => {
-        demoRef.current?.reset();
-      },
-      getScreenshot: () => {
-        const canvas = canvasRef.current;
-        if (!canvas) return null;
-        return canvas.toDataURL('image/png');
-      },
-      getStats: () => {
-        return demoRef.current?.getStats() || null;
-      },
-      setParameter: (key: string, value: number | boolean | string) => {
-        demoRef.current?.setParameter(key, value);
+    useEffect(() => {
+      camerasRef.current = state.cameras;
+    }, [state.cameras]);
+
+    // Pause state lives in the store; the clock follows it
+    useEffect(() => {
+      if (state.isPaused) {
+        clockRef.current.pause();
+      } else {
+        clockRef.current.play();
+      }
+    }, [state.isPaused]);
+
+    // Render a single frame at the given demo time; recordings leave out the
+    // debug target view
+    const renderFrame = useCallback(
+      (time: number, deltaTime: number, overlays = true) => {
+        if (!demoRef.current || !glRef.current || !canvasRef.current) return;
+
+        // Build context
+        const pointer = pointerRef.current?.consume() ?? IDLE_POINTER;
+        const ctx: DemoContext = {
+          gl: glRef.current,
+          canvas: canvasRef.current,
+          width: sizeRef.current.width,
+          height: sizeRef.current.height,
+          dpr: sizeRef.current.dpr,
+          time,
+          deltaTime,
+          mouseX: pointer.primary.x,
+          mouseY: pointer.primary.y,
+          mouseDown: pointer.primary.down,
+          pointers: pointer.pointers,
+          zoomDelta: pointer.zoomDelta,
+          dragX: pointer.dragX,
+          dragY: pointer.dragY,
+          keys: pointer.keys,
+          quality: qualityRef.current.level,
+          qualityScale: qualityRef.current.scale,
+          reduceMotion: state.reduceMotion,
+          outputFramebuffer: null,
+        };
+
+        // Render, redirecting the demo offscreen if any pass is enabled
+        const chain = chainRef.current;
+        const postprocess = chain !== null && chain.isActive();
+        if (postprocess) {
+          ctx.outputFramebuffer = chain.beginScene(ctx.width, ctx.height);
+        }
+        instrumentRef.current?.beginFrame();
+        captureRef.current?.beginFrame();
+        demoRef.current.render(ctx);
+        instrumentRef.current?.endFrame();
+        const captured = captureRef.current?.endFrame();
+        if (captured) {
+          pendingCaptureRef.current?.resolve(captured);
+          pendingCaptureRef.current = null;
+        }
+        if (postprocess) {
+          chain.render(ctx);
+        }
+
+        // Picture-in-picture debug target, bottom-left
+        const view = debugViewRef.current;
+        const target = view && findDebugTarget(demoRef.current, view.target);
+        if (view && target && overlays) {
+          viewerRef.current = viewerRef.current || new TextureViewer(ctx.gl);
+          const size = getViewSize(target);
+          const scale = ctx.canvas.width / Math.max(1, ctx.canvas.clientWidth);
+          viewerRef.current.render(
+            target,
+            {
+              x: Math.round(DEBUG_VIEW_MARGIN * scale),
+              y: Math.round(DEBUG_VIEW_MARGIN * scale),
+              width: Math.round(size.width * scale),
+              height: Math.round(size.height * scale),
+            },
+            view.options
+          );
+        }
       },
-    }));
+      [state.reduceMotion]
+    );
 
-    // Render loop
-    const renderLoop = useCallback(() => {
-      if (!demoRef.current || !glRef.current || !canvasRef.current) return;
+    // Show the current frame again, e.g. after a change while paused
+    const redraw = useCallback(() => {
+      clockRef.current.seek(clockRef.current.getTime());
+    }, []);
 
-      const now = performance.now();
-      const time = (now - startTimeRef.current) / 1000;
-      const deltaTime = (now - lastTimeRef.current) / 1000;
-      lastTimeRef.current = now;
-
-      // Build context
-      const ctx: DemoContext = {
-        gl: glRef.current,
-        canvas: canvasRef.current,
-        width: sizeRef.current.width,
-        height: sizeRef.current.height,
-        dpr: sizeRef.current.dpr,
-        time,
-        deltaTime: Math.min(deltaTime, 0.1), // Cap delta to avoid jumps
-        mouseX: mouseRef.current.x,
-        mouseY: mouseRef.current.y,
-        mouseDown: mouseRef.current.down,
-        quality: state.quality,
-        reduceMotion: state.reduceMotion,
-      };
+    const files = useDemoFiles({ demoRef, clockRef, redraw, onMeshChange });
+    const { applyFiles, syncVideoToClock } = files;
 
-      // Render
-      if (!state.isPaused) {
-        demoRef.current.render(ctx);
-      }
+    const getDebugTargets = useCallback(() => demoRef.current?.getDebugTargets?.() ?? [], []);
 
-      // Update stats
-      if (onStatsUpdate) {
-        onStatsUpdate(demoRef.current.getStats());
-      }
+    const handleDebugViewChange = useCallback(
+      (view: DebugTargetView | null) => {
+        debugViewRef.current = view;
+        redraw();
+      },
+      [redraw]
+    );
 
-      rafRef.current = requestAnimationFrame(renderLoop);
-    }, [state.isPaused, state.quality, state.reduceMotion, onStatsUpdate]);
+    const readDebugTexel = useCallback((name: string, x: number, y: number) => {
+      const target = findDebugTarget(demoRef.current, name);
+      return target && viewerRef.current ? viewerRef.current.readTexels(target, x, y) : null;
+    }, []);
+
+    const getDebugValueRange = useCallback(
+      (name: string, channels: [boolean, boolean, boolean, boolean]) => {
+        const target = findDebugTarget(demoRef.current, name);
+        return target && viewerRef.current ? viewerRef.current.getValueRange(target, channels) : null;
+      },
+      []
+    );
+
+    // Apply a backing-store size to the canvas and the demo
+    const applySize = useCallback((width: number, height: number, dpr: number) => {
+      const canvas = canvasRef.current;
+      const gl = glRef.current;
+      if (!canvas || !gl) return;
+
+      canvas.width = width;
+      canvas.height = height;
+      sizeRef.current = { width, height, dpr };
+      gl.viewport(0, 0, width, height);
+      demoRef.current?.resize(width, height, dpr);
+    }, []);
 
     // Handle resize
     const handleResize = useCallback(() => {
@@ -104,24 +304,244 @@ export const DemoCanvas = forwardRef<DemoCanvasHandle, DemoCanvasProps>(
       const gl = glRef.current;
       if (!container || !canvas || !gl) return;
 
+      // A recording holds the canvas at its override resolution
+      if (sizeOverrideRef.current) return;
+
       const rect = container.getBoundingClientRect();
-      const resolutionMult = getResolutionMultiplier(state.quality);
+      const resolutionMult = qualityRef.current.scale.resolution;
       const dpr = Math.min(resolutionMult, window.devicePixelRatio);
 
       const width = Math.floor(rect.width * dpr);
       const height = Math.floor(rect.height * dpr);
 
       if (canvas.width !== width || canvas.height !== height) {
-        canvas.width = width;
-        canvas.height = height;
         canvas.style.width = `${rect.width}px`;
         canvas.style.height = `${rect.height}px`;
+        applySize(width, height, dpr);
+      }
+    }, [applySize]);
 
-        sizeRef.current = { width, height, dpr };
-        gl.viewport(0, 0, width, height);
-        demoRef.current?.resize(width, height, dpr);
+    // Follow the quality setting: a fixed preset, or a governor aiming at targetFps
+    useEffect(() => {
+      let governor = governorRef.current;
+      if (state.autoQuality) {
+        if (governor) {
+          governor.setTargetFps(state.targetFps);
+        } else {
+          // Start from the preset that was selected
+          governor = new QualityGovernor(state.targetFps, state.quality);
+          governorRef.current = governor;
+        }
+        qualityRef.current = { level: governor.getNearestLevel(), scale: governor.getScale() };
+      } else {
+        governorRef.current = null;
+        qualityRef.current = { level: state.quality, scale: getQualityScale(state.quality) };
+      }
+      handleResize();
+      onQualityChange?.({
+        auto: state.autoQuality,
+        targetFps: state.targetFps,
+        ...qualityRef.current,
+        lastAdjustment: null,
+      });
+    }, [state.quality, state.autoQuality, state.targetFps, handleResize, onQualityChange]);
+
+    // Give up on a frame capture whose demo went away
+    const cancelCapture = useCallback((reason: string) => {
+      pendingCaptureRef.current?.reject(new Error(reason));
+      pendingCaptureRef.current = null;
+    }, []);
+
+    const { recordingRef, startRecording, stopRecording, abortRecording, captureDueFrame } =
+      useCanvasRecording({
+        canvasRef,
+        glRef,
+        demoRef,
+        clockRef,
+        sizeRef,
+        sizeOverrideRef,
+        renderFrame,
+        applySize,
+        handleResize,
+        isRealTimeSource: files.isShowingVideo,
+      });
+
+    // The lost context took every GL object with it, so there is nothing to
+    // destroy; the init and chain effects rebuild once it is back
+    const handleContextLost = useCallback(() => {
+      cancelAnimationFrame(rafRef.current);
+      demoRef.current = null;
+      trackerRef.current = null;
+      instrumentRef.current = null;
+      captureRef.current = null;
+      chainRef.current = null;
+      viewerRef.current = null;
+      textureCacheRef.current = null;
+      releaseTexturesRef.current = null;
+      abortRecording(new Error('GPU context lost'));
+      cancelCapture('GPU context lost');
+    }, [abortRecording, cancelCapture]);
+
+    const { contextLoss, contextRevision, restoringRef, loseContext, restoreContext } =
+      useContextLoss(canvasRef, glRef, handleContextLost);
+
+    // One iteration of the render loop
+    const runFrame = useCallback(() => {
+      if (!demoRef.current) return;
+
+      // Paused frames are skipped unless a step or seek needs showing, and a
+      // fixed-timestep recording renders its own frames meanwhile
+      const now = performance.now();
+      const frame = recordingRef.current?.fixedTimestep
+        ? { time: clockRef.current.getTime(), deltaTime: 0, changed: false }
+        : clockRef.current.tick(now);
+      if (frame.changed) {
+        renderFrame(frame.time, frame.deltaTime, !recordingRef.current);
+      }
+
+      // Update stats
+      const stats = withCallCounts(demoRef.current.getStats(), instrumentRef.current);
+      if (onStatsUpdate) {
+        onStatsUpdate(stats);
+      }
+      // The timeline doesn't need a re-render every frame
+      const lastTimeUpdate = lastTimeUpdateRef.current;
+      if (
+        onTimeUpdate &&
+        frame.time !== lastTimeUpdate.time &&
+        (!clockRef.current.isPlaying() || now - lastTimeUpdate.now >= TIME_UPDATE_INTERVAL)
+      ) {
+        lastTimeUpdateRef.current = { now, time: frame.time };
+        onTimeUpdate(frame.time);
+      }
+
+      // Only live playback says anything about the frame rate; a recording
+      // also keeps its resolution fixed
+      const recording = recordingRef.current;
+      const governor = governorRef.current;
+      if (governor && frame.changed && clockRef.current.isPlaying() && !recording) {
+        const adjustment = governor.sample(now - lastFrameRef.current, stats.gpuTime, now);
+        if (adjustment) {
+          qualityRef.current = { level: governor.getNearestLevel(), scale: governor.getScale() };
+          handleResize();
+          onQualityChange?.({
+            auto: true,
+            targetFps: governor.getTargetFps(),
+            ...qualityRef.current,
+            lastAdjustment: adjustment,
+          });
+        }
       }
-    }, [state.quality]);
+      lastFrameRef.current = now;
+
+      captureDueFrame(now);
+    }, [
+      renderFrame,
+      handleResize,
+      recordingRef,
+      captureDueFrame,
+      onStatsUpdate,
+      onTimeUpdate,
+      onQualityChange,
+    ]);
+
+    // Expose imperative methods
+    useImperativeHandle(ref, () => ({
+      reset: () => {
+        const demo = demoRef.current;
+        if (!demo) return;
+        demo.reset();
+        syncParameters(state.activeDemoId, demo.getParameters());
+      },
+      getScreenshot: () => {
+        const canvas = canvasRef.current;
+        if (!canvas) return null;
+        return canvas.toDataURL('image/png');
+      },
+      getStats: () => {
+        const demo = demoRef.current;
+        return demo ? withCallCounts(demo.getStats(), instrumentRef.current) : null;
+      },
+      setParameter: (key: string, value: number | boolean | string) => {
+        demoRef.current?.setParameter(key, value);
+      },
+      startRecording,
+      stopRecording,
+      getMaxRecordingSize: () => {
+        const gl = glRef.current;
+        return gl ? getMaxRecordingSize(gl) : null;
+      },
+      step: (frames: number) => {
+        // Stepping implies pausing, like a video player
+        clockRef.current.pause();
+        clockRef.current.step(frames);
+        setPaused(true);
+        syncVideoToClock();
+      },
+      seek: (time: number) => {
+        clockRef.current.seek(time);
+        syncVideoToClock();
+      },
+      setPlaybackRate: (rate: number) => {
+        clockRef.current.setRate(rate);
+        syncVideoToClock();
+      },
+      updateShaderProgram: (name: string, vertexSource: string, fragmentSource: string) => {
+        const demo = demoRef.current;
+        const gl = glRef.current;
+        if (!demo?.getShaderPrograms || !demo.replaceShaderProgram || !gl) return [];
+
+        const current = demo.getShaderPrograms().find((program) => program.name === name);
+        if (!current) return [];
+
+        // On failure the demo keeps running its last good program
+        const result = recompileShaderProgram(
+          trackerRef.current?.gl ?? gl,
+          current,
+          vertexSource,
+          fragmentSource
+        );
+        if (result.program) {
+          demo.replaceShaderProgram(name, result.program, vertexSource, fragmentSource);
+          // Redraw the current frame so the change shows while paused
+          clockRef.current.seek(clockRef.current.getTime());
+        }
+        return result.diagnostics;
+      },
+      loseContext,
+      getResourceCounts: () => {
+        return trackerRef.current?.getCounts() ?? null;
+      },
+      captureFrame: () => {
+        const capture = captureRef.current;
+        if (!capture) {
+          return Promise.reject(new Error('Frame capture is not available'));
+        }
+        if (pendingCaptureRef.current) {
+          return Promise.reject(new Error('A frame capture is already pending'));
+        }
+        return new Promise<FrameCaptureResult>((resolve, reject) => {
+          pendingCaptureRef.current = { resolve, reject };
+          capture.arm();
+          // Render a frame even while paused
+          clockRef.current.seek(clockRef.current.getTime());
+        });
+      },
+      getCameraPose: () => {
+        return demoRef.current?.getCamera?.().getPose() ?? null;
+      },
+      flyToCameraPose: (pose: CameraPose) => {
+        const camera = demoRef.current?.getCamera?.();
+        if (!camera) return;
+        // Nothing animates while paused, so jump straight there
+        camera.flyTo(pose, clockRef.current.isPlaying() ? BOOKMARK_TRANSITION : 0);
+        redraw();
+      },
+      loadMesh: files.loadMesh,
+      clearMesh: files.clearMesh,
+      loadMedia: files.loadMedia,
+      loadPanorama: files.loadPanorama,
+    }));
 
     // Load and initialize demo
     useEffect(() => {
@@ -142,39 +562,109 @@ export const DemoCanvas = forwardRef<DemoCanvasHandle, DemoCanvasProps>(
       }
 
       glRef.current = gl;
+      const textureCache = textureCacheRef.current ?? new TextureCache(gl);
+      textureCacheRef.current = textureCache;
 
       // Load demo
       let cancelled = false;
 
+      // Destroy a demo, hand back its textures and report anything it failed to delete
+      function destroyDemo(
+        demo: DemoInstance,
+        tracker: GLResourceTracker | null,
+        releaseTextures: (() => void) | null
+      ) {
+        demo.destroy();
+        releaseTextures?.();
+        if (tracker) {
+          onLeakReport?.(tracker.report());
+        }
+      }
+
       async function initDemo() {
         // Clean up previous demo
         if (demoRef.current) {
-          demoRef.current.destroy();
+          destroyDemo(demoRef.current, trackerRef.current, releaseTexturesRef.current);
           demoRef.current = null;
+          trackerRef.current = null;
+          releaseTexturesRef.current = null;
+          instrumentRef.current = null;
+          captureRef.current = null;
+          cancelCapture('Demo was unloaded');
         }
 
         const entry = await loadDemo(state.activeDemoId);
         if (cancelled || !entry || !glRef.current) return;
+        setInitError(null);
+        // Wait for the restore event, which runs this again
+        if (glRef.current.isContextLost()) return;
 
         try {
-          const demo = entry.factory(glRef.current);
-          await demo.init();
+          const tracker = import.meta.env.DEV
+            ? new GLResourceTracker(glRef.current, state.activeDemoId)
+            : null;
+          const baseGl = tracker?.gl ?? glRef.current;
+          const instrumentation = instrumentGL ? new GLInstrumentation(baseGl) : null;
+          const capture = import.meta.env.DEV
+            ? new FrameCapture(instrumentation?.gl ?? baseGl, state.activeDemoId)
+            : null;
+          const demo = entry.factory(capture?.gl ?? instrumentation?.gl ?? baseGl);
+          const releaseTextures = await initWithTextures(demo, textureCache);
           if (cancelled) {
-            demo.destroy();
+            destroyDemo(demo, tracker, releaseTextures);
             return;
           }
 
+          // Push stored values that still fit the definitions into the fresh
+          // instance, then read back what it accepted so the controls match
+          const stored = validateParameterValues(
+            entry.metadata.parameters,
+            parametersRef.current[state.activeDemoId]
+          );
+          for (const [key, value] of Object.entries(stored)) {
+            demo.setParameter(key, value);
+          }
+          syncParameters(state.activeDemoId, demo.getParameters());
+          demo.getCamera?.().setPath(camerasRef.current[state.activeDemoId]?.path ?? []);
+          applyFiles(demo, state.activeDemoId);
+
           demoRef.current = demo;
-          startTimeRef.current = performance.now();
-          lastTimeRef.current = startTimeRef.current;
+          trackerRef.current = tracker;
+          releaseTexturesRef.current = releaseTextures;
+          instrumentRef.current = instrumentation;
+          captureRef.current = capture;
+          // Loading hitches say nothing about how the new demo performs
+          governorRef.current?.reset();
+          // A restored context picks up where the lost one stopped
+          if (restoringRef.current) {
+            restoringRef.current = false;
+            clockRef.current.seek(clockRef.current.getTime());
+          } else {
+            clockRef.current.reset();
+          }
+          onDemoReady?.({
+            shaderPrograms: demo.getShaderPrograms?.() ?? [],
+            camera: demo.getCamera !== undefined,
+            meshes: demo.setMesh !== undefined,
+            media: demo.setMedia !== undefined,
+            panoramas: demo.setPanorama !== undefined,
+          });
 
           // Initial resize
           handleResize();
 
           // Start render loop
+          const renderLoop = () => {
+            if (!demoRef.current || !glRef.current || !canvasRef.current) return;
+            runFrame();
+            rafRef.current = requestAnimationFrame(renderLoop);
+          };
           rafRef.current = requestAnimationFrame(renderLoop);
         } catch (err) {
           console.error('Failed to initialize demo:', err);
+          if (!cancelled) {
+            setInitError(err as Error);
+          }
         }
       }
 
@@ -184,11 +674,62 @@ export const DemoCanvas = forwardRef<DemoCanvasHandle, DemoCanvasProps>(
         cancelled = true;
         cancelAnimationFrame(rafRef.current);
         if (demoRef.current) {
-          demoRef.current.destroy();
+          destroyDemo(demoRef.current, trackerRef.current, releaseTexturesRef.current);
           demoRef.current = null;
+          trackerRef.current = null;
+          releaseTexturesRef.current = null;
+          instrumentRef.current = null;
+          captureRef.current = null;
+          cancelCapture('Demo was unloaded');
         }
+        abortRecording(new Error('Recording interrupted'));
+      };
+    }, [
+      state.activeDemoId,
+      contextRevision,
+      instrumentGL,
+      handleResize,
+      runFrame,
+      abortRecording,
+      cancelCapture,
+      restoringRef,
+      applyFiles,
+      syncParameters,
+      onDemoReady,
+      onLeakReport,
+    ]);
+
+    // Follow camera path edits without restarting the demo
+    const cameraPath = state.cameras[state.activeDemoId]?.path;
+    useEffect(() => {
+      const camera = demoRef.current?.getCamera?.();
+      if (!camera) return;
+      camera.setPath(cameraPath ?? []);
+      redraw();
+    }, [cameraPath, redraw]);
+
+    // Keep the postprocess chain in step with the pass stack
+    useEffect(() => {
+      const gl = glRef.current;
+      if (!gl || gl.isContextLost()) return;
+      if (!chainRef.current) {
+        if (state.postProcessPasses.length === 0) return;
+        chainRef.current = new PostProcessChain(gl, getPassFactory);
+      }
+      chainRef.current.sync(state.postProcessPasses);
+    }, [state.postProcessPasses, contextRevision]);
+
+    // Release the chain, debug viewer and texture cache with the canvas
+    useEffect(() => {
+      return () => {
+        chainRef.current?.destroy();
+        chainRef.current = null;
+        viewerRef.current?.destroy();
+        viewerRef.current = null;
+        textureCacheRef.current?.destroy();
+        textureCacheRef.current = null;
       };
-    }, [state.activeDemoId, handleResize, renderLoop]);
+    }, []);
 
     // Resize observer
     useEffect(() => {
@@ -201,44 +742,124 @@ export const DemoCanvas = forwardRef<DemoCanvasHandle, DemoCanvasProps>(
       return () => observer.disconnect();
     }, [handleResize]);
 
-    // Mouse events
-    const handleMouseMove = useCallback((e: React.MouseEvent) => {
+    // Mouse, pen and touch input
+    useEffect(() => {
       const canvas = canvasRef.current;
       if (!canvas) return;
 
-      const rect = canvas.getBoundingClientRect();
-      mouseRef.current.x = (e.clientX - rect.left) / rect.width;
-      mouseRef.current.y = 1 - (e.clientY - rect.top) / rect.height;
-    }, []);
-
-    const handleMouseDown = useCallback(() => {
-      mouseRef.current.down = true;
-    }, []);
-
-    const handleMouseUp = useCallback(() => {
-      mouseRef.current.down = false;
-    }, []);
-
-    const handleMouseLeave = useCallback(() => {
-      mouseRef.current.down = false;
+      const input = new PointerInput(canvas);
+      pointerRef.current = input;
+      return () => {
+        input.destroy();
+        pointerRef.current = null;
+      };
     }, []);
 
     return (
-      <div ref={containerRef} className="demo-canvas-container">
-        <canvas
-          ref={canvasRef}
-          className="demo-canvas"
-          onMouseMove={handleMouseMove}
-          onMouseDown={handleMouseDown}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseLeave}
-        />
-        {state.isPaused && (
+      <div
+        ref={containerRef}
+        className="demo-canvas-container"
+        {...files.dropHandlers}
+      >
+        <canvas ref={canvasRef} className="demo-canvas" />
+        {files.dropHint && (
+          <div className="demo-canvas-drop">
+            <span>{files.dropHint}</span>
+          </div>
+        )}
+        {files.fileError && (
+          <div className="demo-canvas-notice">
+            <span>{files.fileError}</span>
+            <button onClick={files.dismissFileError} title="Dismiss">
+              ×
+            </button>
+          </div>
+        )}
+        {state.isPaused && !initError && !contextLoss && (
           <div className="demo-canvas-paused">
             <span>PAUSED</span>
           </div>
         )}
+        {initError && <ErrorOverlay error={initError} />}
+        {contextLoss && (
+          <div className="demo-canvas-context-lost">
+            <span>GPU context lost</span>
+            {contextLoss.simulated ? (
+              <button className="demo-canvas-restore" onClick={restoreContext}>
+                Restore context
+              </button>
+            ) : (
+              <p>Waiting for the browser to restore it…</p>
+            )}
+          </div>
+        )}
+        {showDebugTargets && !initError && !contextLoss && (
+          <DebugTargetViewer
+            key={state.activeDemoId}
+            getTargets={getDebugTargets}
+            onViewChange={handleDebugViewChange}
+            readTexel={readDebugTexel}
+            getValueRange={getDebugValueRange}
+          />
+        )}
       </div>
     );
   }
 );
+
+function findDebugTarget(demo: DemoInstance | null, name: string): DebugTarget | null {
+  return demo?.getDebugTargets?.().find((target) => target.name === name) ?? null;
+}
+
+/** Replace the demo's own draw counts with measured ones, when instrumented */
+function withCallCounts(stats: DemoStats, instrumentation: GLInstrumentation | null): DemoStats {
+  return instrumentation ? { ...stats, ...instrumentation.getCounts() } : stats;
+}
+
+// ============================================================================
+// Error Overlay
+// ============================================================================
+
+function ErrorOverlay({ error }: { error: Error }) {
+  if (!(error instanceof ShaderCompileError)) {
+    return (
+      <div className="demo-canvas-error">
+        <div className="demo-canvas-error-title">Demo failed to start</div>
+        <pre className="demo-canvas-error-message">{error.message}</pre>
+      </div>
+    );
+  }
+
+  const stage = error.stage === 'link' ? 'Link' : `${error.stage} shader`;
+  return (
+    <div className="demo-canvas-error">
+      <div className="demo-canvas-error-title">
+        {stage} error{error.programName && ` in '${error.programName}'`}
+      </div>
+      <ul className="demo-canvas-error-entries">
+        {error.entries.map((entry, i) => (
+          <li key={i} className={entry.severity}>
+            <div className="demo-canvas-error-message">
+              {entry.line > 0 && (
+                <span className="demo-canvas-error-location">
+                  {entry.line}{entry.column > 0 && `:${entry.column}`}
+                </span>
+              )}
+              {entry.message}
+            </div>
+            {entry.context.length > 0 && (
+              <pre className="demo-canvas-error-source">
+                {entry.context.map((line) => (
+                  <div key={line.line} className={line.isError ? 'highlight' : ''}>
+                    <span className="demo-canvas-error-line-number">{line.line}</span>
+                    {line.text}
+                  </div>
+                ))}
+              </pre>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+/**
+ * FrameCapturePanel Component
+ *
+ * Steps through a captured frame's GL calls. Selecting a call shows its
+ * arguments and, from the most recent draw call up to it, the bound state
+ * and what the render target looked like after that draw.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { CapturedImage, FrameCaptureResult } from '../../gl/core/frameCapture';
+
+interface FrameCapturePanelProps {
+  capture: FrameCaptureResult;
+  onClose: () => void;
+}
+
+export function FrameCapturePanel({ capture, onClose }: FrameCapturePanelProps) {
+  const { calls } = capture;
+  const drawIndices = calls.filter((call) => call.draw).map((call) => call.index);
+  const [selected, setSelected] = useState(drawIndices[0] ?? 0);
+  const [drawsOnly, setDrawsOnly] = useState(false);
+  const selectedRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [selected, drawsOnly]);
+
+  const call = calls[selected];
+  // The latest draw at or before the selection shows the target's state
+  const lastDraw = [...drawIndices].reverse().find((index) => index <= selected);
+  const draw = lastDraw !== undefined ? calls[lastDraw] : null;
+  const drawNumber = lastDraw !== undefined ? drawIndices.indexOf(lastDraw) + 1 : 0;
+
+  const stepDraw = (direction: 1 | -1) => {
+    const next =
+      direction > 0
+        ? drawIndices.find((index) => index > selected)
+        : [...drawIndices].reverse().find((index) => index < selected);
+    if (next !== undefined) setSelected(next);
+  };
+
+  const visibleCalls = drawsOnly ? calls.filter((c) => c.draw) : calls;
+
+  return (
+    <div className="frame-capture">
+      <div className="frame-capture-header">
+        <span className="frame-capture-title">
+          {capture.label} · {calls.length} calls · {capture.drawCount} draws
+        </span>
+        <label className="frame-capture-filter">
+          <input
+            type="checkbox"
+            checked={drawsOnly}
+            onChange={(e) => setDrawsOnly(e.target.checked)}
+          />
+          Draws only
+        </label>
+        <button className="frame-capture-step" onClick={() => stepDraw(-1)} title="Previous draw">
+          ◀
+        </button>
+        <button className="frame-capture-step" onClick={() => stepDraw(1)} title="Next draw">
+          ▶
+        </button>
+        <button className="frame-capture-close" onClick={onClose} title="Close capture">
+          ×
+        </button>
+      </div>
+
+      <div className="frame-capture-body">
+        <ul className="frame-capture-calls">
+          {visibleCalls.map((c) => (
+            <li
+              key={c.index}
+              ref={c.index === selected ? selectedRef : undefined}
+              className={`${c.draw ? 'draw' : ''} ${c.index === selected ? 'selected' : ''}`}
+              onClick={() => setSelected(c.index)}
+            >
+              <span className="frame-capture-call-index">{c.index}</span>
+              {c.name}({c.args.join(', ')})
+            </li>
+          ))}
+        </ul>
+
+        <div className="frame-capture-detail">
+          {call && (
+            <pre className="frame-capture-call">
+              {call.name}({call.args.join(', ')})
+            </pre>
+          )}
+          {draw?.draw ? (
+            <>
+              <div className="frame-capture-draw-title">
+                After draw {drawNumber} of {drawIndices.length} (call {draw.index})
+              </div>
+              {draw.draw.image ? (
+                <CapturedImageView image={draw.draw.image} />
+              ) : (
+                <span className="controls-empty-text">Rasterizer discard: nothing drawn</span>
+              )}
+              <dl className="frame-capture-state">
+                <dt>Program</dt>
+                <dd>{draw.draw.program}</dd>
+                <dt>Target</dt>
+                <dd>{draw.draw.framebuffer}</dd>
+                <dt>Viewport</dt>
+                <dd>{draw.draw.viewport.join(', ')}</dd>
+                <dt>VAO</dt>
+                <dd>{draw.draw.vertexArray}</dd>
+                <dt>Textures</dt>
+                <dd>{draw.draw.textures.length > 0 ? draw.draw.textures.join(', ') : 'none'}</dd>
+                <dt>Blend</dt>
+                <dd>{draw.draw.blend ? 'on' : 'off'}</dd>
+                <dt>Depth test</dt>
+                <dd>{draw.draw.depthTest ? 'on' : 'off'}</dd>
+              </dl>
+            </>
+          ) : (
+            <span className="controls-empty-text">No draw call yet at this point.</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CapturedImageView({ image }: { image: CapturedImage }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
+  }, [image]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="frame-capture-image"
+      width={image.width}
+      height={image.height}
+    />
+  );
+}
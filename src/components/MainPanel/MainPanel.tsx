@@ -1,29 +1,149 @@
 /**
  * MainPanel Component
  *
- * Wrapper for canvas, controls, and description.
+ * Wrapper for canvas, timeline, controls, and description.
  */
 
 import { useRef, useState, useCallback } from 'react';
-import { DemoCanvas, type DemoCanvasHandle } from './DemoCanvas';
+import { DemoCanvas, type DemoCanvasHandle, type DemoFeatures } from './DemoCanvas';
+import { TimelineScrubber } from './TimelineScrubber';
+import { ShaderEditorPanel } from './ShaderEditorPanel';
 import { ControlsPanel } from './ControlsPanel';
+import { PostProcessPanel } from './PostProcessPanel';
+import { CameraPanel } from './CameraPanel';
+import { ResourcePanel } from './ResourcePanel';
+import { FrameCapturePanel } from './FrameCapturePanel';
 import { DemoDescription } from './DemoDescription';
 import { PerformanceHUD } from '../PerformanceHUD';
-import type { DemoStats } from '../../gl/core/types';
+import { MESH_FILE_EXTENSIONS } from '../../gl/core/mesh';
+import { MEDIA_FILE_TYPES } from '../../gl/core/media';
+import { PANORAMA_FILE_EXTENSIONS } from '../../gl/core/environment';
+import type { CameraPose, DemoShaderProgram, DemoStats, GLLeakReport } from '../../gl/core/types';
+import type { RecordingOptions } from '../../gl/core/recorder';
+import type { QualityStatus } from '../../gl/core/qualityGovernor';
+import type { FrameCaptureResult } from '../../gl/core/frameCapture';
 import './MainPanel.css';
 
 interface MainPanelProps {
   onScreenshot?: (dataUrl: string) => void;
 }
 
+// Destroyed demos kept in the resource panel's history
+const MAX_LEAK_REPORTS = 10;
+
 export function MainPanel({ onScreenshot }: MainPanelProps) {
   const canvasRef = useRef<DemoCanvasHandle>(null);
   const [stats, setStats] = useState<DemoStats | null>(null);
+  const [time, setTime] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [shaderPrograms, setShaderPrograms] = useState<DemoShaderProgram[]>([]);
+  const [demoRevision, setDemoRevision] = useState(0);
+  const [hasCamera, setHasCamera] = useState(false);
+  const [acceptsMeshes, setAcceptsMeshes] = useState(false);
+  const [meshName, setMeshName] = useState<string | null>(null);
+  const meshInputRef = useRef<HTMLInputElement>(null);
+  const [acceptsMedia, setAcceptsMedia] = useState(false);
+  const mediaInputRef = useRef<HTMLInputElement>(null);
+  const [acceptsPanoramas, setAcceptsPanoramas] = useState(false);
+  const panoramaInputRef = useRef<HTMLInputElement>(null);
+  const [shaderEditorOpen, setShaderEditorOpen] = useState(false);
+  const [instrumentGL, setInstrumentGL] = useState(false);
+  const [showDebugTargets, setShowDebugTargets] = useState(false);
+  const [frameCapture, setFrameCapture] = useState<FrameCaptureResult | null>(null);
+  const [leakReports, setLeakReports] = useState<GLLeakReport[]>([]);
+  const [qualityStatus, setQualityStatus] = useState<QualityStatus | null>(null);
 
   const handleStatsUpdate = useCallback((newStats: DemoStats) => {
     setStats(newStats);
   }, []);
 
+  const handleQualityChange = useCallback((status: QualityStatus) => {
+    setQualityStatus(status);
+  }, []);
+
+  const handleTimeUpdate = useCallback((newTime: number) => {
+    setTime(newTime);
+  }, []);
+
+  // Each (re)initialized demo gets a fresh editor with its shipped sources
+  const handleDemoReady = useCallback((features: DemoFeatures) => {
+    setShaderPrograms(features.shaderPrograms);
+    setHasCamera(features.camera);
+    setAcceptsMeshes(features.meshes);
+    setAcceptsMedia(features.media);
+    setAcceptsPanoramas(features.panoramas);
+    setDemoRevision((revision) => revision + 1);
+  }, []);
+
+  const handleShaderCompile = useCallback(
+    (name: string, vertexSource: string, fragmentSource: string) =>
+      canvasRef.current?.updateShaderProgram(name, vertexSource, fragmentSource) ?? [],
+    []
+  );
+
+  const handleLeakReport = useCallback((report: GLLeakReport) => {
+    setLeakReports((reports) => [report, ...reports].slice(0, MAX_LEAK_REPORTS));
+  }, []);
+
+  const getResourceCounts = useCallback(() => {
+    return canvasRef.current?.getResourceCounts() ?? null;
+  }, []);
+
+  const handleLoseContext = useCallback(() => {
+    canvasRef.current?.loseContext();
+  }, []);
+
+  const handleCaptureFrame = useCallback(() => {
+    canvasRef.current
+      ?.captureFrame()
+      .then(setFrameCapture)
+      .catch((err: Error) => console.warn('Frame capture failed:', err.message));
+  }, []);
+
+  const handleStep = useCallback((frames: number) => {
+    canvasRef.current?.step(frames);
+  }, []);
+
+  const handleSeek = useCallback((newTime: number) => {
+    canvasRef.current?.seek(newTime);
+  }, []);
+
+  const getCameraPose = useCallback(() => {
+    return canvasRef.current?.getCameraPose() ?? null;
+  }, []);
+
+  const handleFlyTo = useCallback((pose: CameraPose) => {
+    canvasRef.current?.flyToCameraPose(pose);
+  }, []);
+
+  const handleMeshFile = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear it so picking the same file again still fires a change
+    e.target.value = '';
+    if (file) canvasRef.current?.loadMesh(file);
+  }, []);
+
+  const handleMediaFile = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) canvasRef.current?.loadMedia(file);
+  }, []);
+
+  const handlePanoramaFile = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) canvasRef.current?.loadPanorama(file);
+  }, []);
+
+  const handleClearMesh = useCallback(() => {
+    canvasRef.current?.clearMesh();
+  }, []);
+
+  const handleRateChange = useCallback((rate: number) => {
+    canvasRef.current?.setPlaybackRate(rate);
+    setPlaybackRate(rate);
+  }, []);
+
   const handleReset = useCallback(() => {
     canvasRef.current?.reset();
   }, []);
@@ -35,6 +155,25 @@ export function MainPanel({ onScreenshot }: MainPanelProps) {
     }
   }, [onScreenshot]);
 
+  const handleRecord = useCallback(
+    (options: RecordingOptions, onProgress?: (progress: number) => void) => {
+      if (!canvasRef.current) {
+        return Promise.reject(new Error('Canvas not ready'));
+      }
+      return canvasRef.current.startRecording(options, onProgress);
+    },
+    []
+  );
+
+  const handleStopRecording = useCallback(() => {
+    canvasRef.current?.stopRecording();
+  }, []);
+
+  const handleGetMaxRecordingSize = useCallback(
+    () => canvasRef.current?.getMaxRecordingSize() ?? null,
+    []
+  );
+
   const handleParameterChange = useCallback(
     (key: string, value: number | boolean | string) => {
       canvasRef.current?.setParameter(key, value);
@@ -45,15 +184,160 @@ export function MainPanel({ onScreenshot }: MainPanelProps) {
   return (
     <div className="main-panel">
       <div className="main-panel-canvas">
-        <DemoCanvas ref={canvasRef} onStatsUpdate={handleStatsUpdate} />
+        <DemoCanvas
+          ref={canvasRef}
+          onStatsUpdate={handleStatsUpdate}
+          onTimeUpdate={handleTimeUpdate}
+          onDemoReady={handleDemoReady}
+          onLeakReport={handleLeakReport}
+          onQualityChange={handleQualityChange}
+          onMeshChange={setMeshName}
+          instrumentGL={instrumentGL}
+          showDebugTargets={showDebugTargets}
+        />
+        <div className="main-panel-canvas-tools">
+          {import.meta.env.DEV && (
+            <button
+              className="canvas-tool-btn"
+              onClick={handleLoseContext}
+              title="Simulate GPU context loss (debug)"
+            >
+              Lose GL
+            </button>
+          )}
+          {import.meta.env.DEV && (
+            <button
+              className={`canvas-tool-btn ${frameCapture ? 'active' : ''}`}
+              onClick={handleCaptureFrame}
+              title="Capture the next frame's GL calls (debug)"
+            >
+              Capture
+            </button>
+          )}
+          <button
+            className={`canvas-tool-btn ${instrumentGL ? 'active' : ''}`}
+            onClick={() => setInstrumentGL((enabled) => !enabled)}
+            title="Count GL calls per frame (restarts the demo)"
+          >
+            Count GL
+          </button>
+          <button
+            className={`canvas-tool-btn ${showDebugTargets ? 'active' : ''}`}
+            onClick={() => setShowDebugTargets((shown) => !shown)}
+            title="View the demo's intermediate render targets"
+          >
+            Targets
+          </button>
+          {acceptsMeshes && (
+            <button
+              className={`canvas-tool-btn ${meshName ? 'active' : ''}`}
+              onClick={() => meshInputRef.current?.click()}
+              title="Load a glTF or OBJ model (or drop one on the canvas)"
+            >
+              Model
+            </button>
+          )}
+          {acceptsMeshes && meshName && (
+            <button
+              className="canvas-tool-btn"
+              onClick={handleClearMesh}
+              title={`Unload ${meshName} and show the built-in geometry`}
+            >
+              × {meshName}
+            </button>
+          )}
+          <input
+            ref={meshInputRef}
+            type="file"
+            accept={MESH_FILE_EXTENSIONS.join(',')}
+            onChange={handleMeshFile}
+            style={{ display: 'none' }}
+          />
+          {acceptsMedia && (
+            <button
+              className="canvas-tool-btn"
+              onClick={() => mediaInputRef.current?.click()}
+              title="Load an image or video as the source (or drop one on the canvas)"
+            >
+              Media
+            </button>
+          )}
+          <input
+            ref={mediaInputRef}
+            type="file"
+            accept={MEDIA_FILE_TYPES.join(',')}
+            onChange={handleMediaFile}
+            style={{ display: 'none' }}
+          />
+          {acceptsPanoramas && (
+            <button
+              className="canvas-tool-btn"
+              onClick={() => panoramaInputRef.current?.click()}
+              title="Load an equirectangular .hdr, PNG or JPEG panorama as the environment"
+            >
+              Environment
+            </button>
+          )}
+          <input
+            ref={panoramaInputRef}
+            type="file"
+            accept={PANORAMA_FILE_EXTENSIONS.join(',')}
+            onChange={handlePanoramaFile}
+            style={{ display: 'none' }}
+          />
+          {shaderPrograms.length > 0 && (
+            <button
+              className={`canvas-tool-btn ${shaderEditorOpen ? 'active' : ''}`}
+              onClick={() => setShaderEditorOpen((open) => !open)}
+              title="Edit shaders"
+            >
+              GLSL
+            </button>
+          )}
+        </div>
+        {shaderEditorOpen && shaderPrograms.length > 0 && (
+          <ShaderEditorPanel
+            key={demoRevision}
+            programs={shaderPrograms}
+            onCompile={handleShaderCompile}
+            onClose={() => setShaderEditorOpen(false)}
+          />
+        )}
+        {frameCapture && (
+          <FrameCapturePanel
+            key={frameCapture.timestamp}
+            capture={frameCapture}
+            onClose={() => setFrameCapture(null)}
+          />
+        )}
       </div>
 
+      <TimelineScrubber
+        time={time}
+        rate={playbackRate}
+        onStep={handleStep}
+        onSeek={handleSeek}
+        onRateChange={handleRateChange}
+      />
+
       <div className="main-panel-bottom">
         <div className="main-panel-info">
           <ControlsPanel onParameterChange={handleParameterChange} />
+          <PostProcessPanel />
+          {hasCamera && (
+            <CameraPanel
+              time={time}
+              getPose={getCameraPose}
+              onFlyTo={handleFlyTo}
+              onSeek={handleSeek}
+            />
+          )}
+          {import.meta.env.DEV && (
+            <ResourcePanel getCounts={getResourceCounts} reports={leakReports} />
+          )}
           <DemoDescription />
         </div>
-        <PerformanceHUD stats={stats} />
+        <PerformanceHUD stats={stats} quality={qualityStatus} />
       </div>
 
       {/* Hidden buttons used by TopBar through props drilling or context */}
@@ -76,6 +360,43 @@ export function MainPanel({ onScreenshot }: MainPanelProps) {
         style={{ display: 'none' }}
         data-action="screenshot"
       />
+      <button
+        ref={(el) => {
+          if (el) {
+            (el as HTMLButtonElement & { _handler: typeof handleRecord })._handler = handleRecord;
+          }
+        }}
+        style={{ display: 'none' }}
+        data-action="record"
+      />
+      <button
+        ref={(el) => {
+          if (el) {
+            (el as HTMLButtonElement & { _handler: () => void })._handler = handleStopRecording;
+          }
+        }}
+        style={{ display: 'none' }}
+        data-action="stop-recording"
+      />
+      <button
+        ref={(el) => {
+          if (el) {
+            (el as HTMLButtonElement & { _handler: typeof handleGetMaxRecordingSize })._handler =
+              handleGetMaxRecordingSize;
+          }
+        }}
+        style={{ display: 'none' }}
+        data-action="max-recording-size"
+      />
+      <button
+        ref={(el) => {
+          if (el) {
+            (el as HTMLButtonElement & { _handler: typeof handleStep })._handler = handleStep;
+          }
+        }}
+        style={{ display: 'none' }}
+        data-action="step"
+      />
     </div>
   );
 }
@@ -0,0 +1,104 @@
+/**
+ * PostProcessPanel Component
+ *
+ * Lets the user stack reusable effect passes over the active demo,
+ * with per-pass enable, ordering, and parameters.
+ */
+
+import { usePlayground } from '../../context/PlaygroundContext';
+import { getAllPasses, getPassByType } from '../../gl/postprocessRegistry';
+import { Toggle } from '../ui';
+import { ParameterControl } from './ControlsPanel';
+
+export function PostProcessPanel() {
+  const {
+    state,
+    addPostProcessPass,
+    removePostProcessPass,
+    movePostProcessPass,
+    setPostProcessPassEnabled,
+    setPostProcessPassParameter,
+  } = usePlayground();
+  const passes = state.postProcessPasses;
+
+  return (
+    <div className="controls-panel postprocess-panel">
+      <div className="postprocess-header">
+        <h3 className="controls-title">Postprocess</h3>
+        <select
+          className="postprocess-add"
+          value=""
+          onChange={(e) => addPostProcessPass(e.target.value)}
+        >
+          <option value="" disabled>
+            + Add pass
+          </option>
+          {getAllPasses().map((pass) => (
+            <option key={pass.type} value={pass.type} title={pass.description}>
+              {pass.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {passes.length === 0 && (
+        <span className="controls-empty-text">No passes. Effects run in list order.</span>
+      )}
+
+      {passes.map((pass, index) => {
+        const metadata = getPassByType(pass.type);
+        if (!metadata) return null;
+
+        return (
+          <div key={pass.id} className={`postprocess-pass ${pass.enabled ? '' : 'disabled'}`}>
+            <div className="postprocess-pass-header">
+              <Toggle
+                label={metadata.name}
+                checked={pass.enabled}
+                onChange={(enabled) => setPostProcessPassEnabled(pass.id, enabled)}
+              />
+              <div className="postprocess-pass-actions">
+                <button
+                  className="postprocess-btn"
+                  onClick={() => movePostProcessPass(pass.id, -1)}
+                  disabled={index === 0}
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  className="postprocess-btn"
+                  onClick={() => movePostProcessPass(pass.id, 1)}
+                  disabled={index === passes.length - 1}
+                  title="Move down"
+                >
+                  ↓
+                </button>
+                <button
+                  className="postprocess-btn"
+                  onClick={() => removePostProcessPass(pass.id)}
+                  title="Remove"
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+
+            {pass.enabled && (
+              <div className="controls-grid">
+                {metadata.parameters.map((param) => (
+                  <ParameterControl
+                    key={param.key}
+                    definition={param}
+                    value={pass.parameters[param.key]}
+                    onChange={(value) => setPostProcessPassParameter(pass.id, param.key, value)}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
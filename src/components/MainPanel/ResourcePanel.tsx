@@ -0,0 +1,66 @@
+/**
+ * ResourcePanel Component
+ *
+ * Dev-only panel listing the GL objects the active demo holds and any
+ * that previous demos left behind after destroy().
+ */
+
+import { useEffect, useState } from 'react';
+import { GL_RESOURCE_KINDS } from '../../gl/core/resources';
+import type { GLLeakReport, GLResourceCounts } from '../../gl/core/types';
+
+interface ResourcePanelProps {
+  getCounts: () => GLResourceCounts | null;
+  reports: GLLeakReport[];
+}
+
+// Live counts change only on init, resize and reset, so polling is plenty
+const POLL_INTERVAL = 1000;
+
+export function ResourcePanel({ getCounts, reports }: ResourcePanelProps) {
+  const [counts, setCounts] = useState<GLResourceCounts | null>(null);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setCounts(getCounts()), POLL_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [getCounts]);
+
+  const leaks = reports.filter((report) => report.total > 0);
+
+  return (
+    <div className="controls-panel resource-panel">
+      <h3 className="controls-title">GL Resources</h3>
+
+      {counts ? (
+        <dl className="resource-counts">
+          {GL_RESOURCE_KINDS.filter((kind) => counts[kind] > 0).map((kind) => (
+            <div key={kind} className="resource-count">
+              <dt>{kind}</dt>
+              <dd>{counts[kind]}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <span className="controls-empty-text">Waiting for demo...</span>
+      )}
+
+      <h3 className="controls-title resource-leaks-title">Leaks</h3>
+      {leaks.length === 0 ? (
+        <span className="controls-empty-text">
+          {reports.length === 0 ? 'No demo destroyed yet.' : 'None detected.'}
+        </span>
+      ) : (
+        <ul className="resource-leaks">
+          {leaks.map((report) => (
+            <li key={`${report.label}-${report.timestamp}`}>
+              <span className="resource-leak-label">{report.label}</span>
+              {GL_RESOURCE_KINDS.filter((kind) => report.leaked[kind] > 0)
+                .map((kind) => `${report.leaked[kind]} ${kind}`)
+                .join(', ')}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
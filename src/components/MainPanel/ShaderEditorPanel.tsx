@@ -0,0 +1,224 @@
+/**
+ * ShaderEditorPanel Component
+ *
+ * Live GLSL editor for the active demo's shader programs.
+ * Edits are recompiled after a short pause in typing; on failure the
+ * demo keeps its last good program and the info log is shown as
+ * per-line markers.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import type {
+  DemoShaderProgram,
+  ShaderDiagnostic,
+  ShaderSource,
+} from '../../gl/core/types';
+
+interface ShaderEditorPanelProps {
+  programs: DemoShaderProgram[];
+  onCompile: (name: string, vertexSource: string, fragmentSource: string) => ShaderDiagnostic[];
+  onClose: () => void;
+}
+
+type EditorStage = 'vertex' | 'fragment';
+
+// Milliseconds of typing inactivity before recompiling
+const COMPILE_DELAY = 400;
+
+function toSources(programs: DemoShaderProgram[]): Record<string, ShaderSource> {
+  const sources: Record<string, ShaderSource> = {};
+  for (const program of programs) {
+    sources[program.name] = { vertex: program.vertexSource, fragment: program.fragmentSource };
+  }
+  return sources;
+}
+
+export function ShaderEditorPanel({ programs, onCompile, onClose }: ShaderEditorPanelProps) {
+  // Sources as the demo shipped them, for "Revert"
+  const [originals] = useState(() => toSources(programs));
+  const [sources, setSources] = useState(() => toSources(programs));
+  const [diagnostics, setDiagnostics] = useState<Record<string, ShaderDiagnostic[]>>({});
+  const [activeProgram, setActiveProgram] = useState(programs[0]?.name ?? '');
+  const [activeStage, setActiveStage] = useState<EditorStage>('fragment');
+  const timersRef = useRef<Record<string, number>>({});
+
+  // Drop pending compiles when the panel closes
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      Object.values(timers).forEach((timer) => window.clearTimeout(timer));
+    };
+  }, []);
+
+  const compile = (name: string, source: ShaderSource) => {
+    setDiagnostics((prev) => ({ ...prev, [name]: onCompile(name, source.vertex, source.fragment) }));
+  };
+
+  const scheduleCompile = (name: string, source: ShaderSource) => {
+    window.clearTimeout(timersRef.current[name]);
+    timersRef.current[name] = window.setTimeout(() => compile(name, source), COMPILE_DELAY);
+  };
+
+  const handleChange = (value: string) => {
+    const next = { ...sources[activeProgram], [activeStage]: value };
+    setSources((prev) => ({ ...prev, [activeProgram]: next }));
+    scheduleCompile(activeProgram, next);
+  };
+
+  const handleRevert = () => {
+    const original = originals[activeProgram];
+    window.clearTimeout(timersRef.current[activeProgram]);
+    setSources((prev) => ({ ...prev, [activeProgram]: original }));
+    compile(activeProgram, original);
+  };
+
+  const source = sources[activeProgram];
+  if (!source) return null;
+
+  const programDiagnostics = diagnostics[activeProgram] || [];
+  const stageDiagnostics = programDiagnostics.filter((d) => d.stage === activeStage);
+  const errorCount = programDiagnostics.filter((d) => d.severity === 'error').length;
+  const isModified =
+    source.vertex !== originals[activeProgram].vertex ||
+    source.fragment !== originals[activeProgram].fragment;
+
+  return (
+    <div className="shader-editor">
+      <div className="shader-editor-header">
+        <div className="shader-editor-tabs">
+          {programs.map((program) =>
+            (['vertex', 'fragment'] as const).map((stage) => {
+              const count = (diagnostics[program.name] || []).filter(
+                (d) => d.stage === stage && d.severity === 'error'
+              ).length;
+              const isActive = program.name === activeProgram && stage === activeStage;
+              return (
+                <button
+                  key={`${program.name}-${stage}`}
+                  className={`shader-editor-tab ${isActive ? 'active' : ''}`}
+                  onClick={() => {
+                    setActiveProgram(program.name);
+                    setActiveStage(stage);
+                  }}
+                >
+                  {programs.length > 1 && `${program.name} · `}
+                  {stage === 'vertex' ? 'vert' : 'frag'}
+                  {count > 0 && <span className="shader-editor-tab-errors">{count}</span>}
+                </button>
+              );
+            })
+          )}
+        </div>
+        <button className="shader-editor-close" onClick={onClose} title="Close editor">
+          ×
+        </button>
+      </div>
+
+      <CodeEditor
+        value={source[activeStage]}
+        diagnostics={stageDiagnostics}
+        onChange={handleChange}
+      />
+
+      <div className="shader-editor-footer">
+        <span className={`shader-editor-status ${errorCount > 0 ? 'error' : ''}`}>
+          {errorCount > 0
+            ? `${errorCount} error${errorCount > 1 ? 's' : ''} · running last good program`
+            : isModified
+              ? 'Compiled'
+              : 'Original source'}
+        </span>
+        <button
+          className="shader-editor-revert"
+          onClick={handleRevert}
+          disabled={!isModified}
+        >
+          Revert
+        </button>
+      </div>
+
+      {programDiagnostics.length > 0 && (
+        <ul className="shader-editor-diagnostics">
+          {programDiagnostics.map((d, i) => (
+            <li key={i} className={d.severity}>
+              <span className="shader-editor-diagnostic-location">
+                {d.stage}{d.line > 0 && `:${d.line}`}{d.column > 0 && `:${d.column}`}
+              </span>
+              {d.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Code Editor
+// ============================================================================
+
+interface CodeEditorProps {
+  value: string;
+  diagnostics: ShaderDiagnostic[];
+  onChange: (value: string) => void;
+}
+
+function CodeEditor({ value, diagnostics, onChange }: CodeEditorProps) {
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const lineCount = value.split('\n').length;
+
+  // First message per line is enough for the gutter tooltip
+  const markers = new Map<number, ShaderDiagnostic>();
+  for (const d of diagnostics) {
+    if (d.line > 0 && !markers.has(d.line)) markers.set(d.line, d);
+  }
+
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+    }
+  };
+
+  // Indent with spaces instead of moving focus
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    onChange(value.slice(0, selectionStart) + '  ' + value.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + 2;
+    });
+  };
+
+  return (
+    <div className="shader-editor-code">
+      <div className="shader-editor-gutter" ref={gutterRef} aria-hidden="true">
+        {Array.from({ length: lineCount }, (_, i) => {
+          const marker = markers.get(i + 1);
+          return (
+            <div
+              key={i}
+              className={`shader-editor-line-number ${marker ? marker.severity : ''}`}
+              title={marker?.message}
+            >
+              {i + 1}
+            </div>
+          );
+        })}
+      </div>
+      <textarea
+        className="shader-editor-textarea"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={handleScroll}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoComplete="off"
+        wrap="off"
+        aria-label="Shader source"
+      />
+    </div>
+  );
+}
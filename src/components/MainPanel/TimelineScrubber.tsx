@@ -0,0 +1,83 @@
+/**
+ * TimelineScrubber Component
+ *
+ * Playback controls under the canvas: play/pause, single-frame steps,
+ * a seekable timeline and the playback rate.
+ */
+
+import { usePlayground } from '../../context/PlaygroundContext';
+
+interface TimelineScrubberProps {
+  time: number;
+  rate: number;
+  onStep: (frames: number) => void;
+  onSeek: (time: number) => void;
+  onRateChange: (rate: number) => void;
+}
+
+const PLAYBACK_RATES = [0.25, 0.5, 1, 2, 4];
+
+// The timeline grows in chunks so the thumb doesn't crawl for long sessions
+const TIMELINE_CHUNK = 30;
+
+export function TimelineScrubber({
+  time,
+  rate,
+  onStep,
+  onSeek,
+  onRateChange,
+}: TimelineScrubberProps) {
+  const { state, togglePause } = usePlayground();
+  const span = Math.max(TIMELINE_CHUNK, Math.ceil((time + 1) / TIMELINE_CHUNK) * TIMELINE_CHUNK);
+
+  return (
+    <div className="timeline-scrubber">
+      <button
+        className="timeline-btn"
+        onClick={() => onStep(-1)}
+        title="Step back (,)"
+      >
+        ‹
+      </button>
+      <button
+        className="timeline-btn"
+        onClick={togglePause}
+        title={state.isPaused ? 'Play (Space)' : 'Pause (Space)'}
+      >
+        {state.isPaused ? '▶' : '❚❚'}
+      </button>
+      <button
+        className="timeline-btn"
+        onClick={() => onStep(1)}
+        title="Step forward (.)"
+      >
+        ›
+      </button>
+
+      <input
+        type="range"
+        className="timeline-range"
+        min={0}
+        max={span}
+        step={0.01}
+        value={time}
+        onChange={(e) => onSeek(parseFloat(e.target.value))}
+        aria-label="Timeline"
+      />
+      <span className="timeline-time">{time.toFixed(2)}s</span>
+
+      <select
+        className="timeline-rate"
+        value={rate}
+        onChange={(e) => onRateChange(parseFloat(e.target.value))}
+        title="Playback rate"
+      >
+        {PLAYBACK_RATES.map((option) => (
+          <option key={option} value={option}>
+            {option}x
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
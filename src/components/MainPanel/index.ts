@@ -4,5 +4,12 @@
 
 export { MainPanel, type DemoCanvasHandle } from './MainPanel';
 export { DemoCanvas } from './DemoCanvas';
+export { TimelineScrubber } from './TimelineScrubber';
+export { ShaderEditorPanel } from './ShaderEditorPanel';
 export { ControlsPanel } from './ControlsPanel';
+export { PostProcessPanel } from './PostProcessPanel';
+export { CameraPanel } from './CameraPanel';
+export { ResourcePanel } from './ResourcePanel';
+export { FrameCapturePanel } from './FrameCapturePanel';
+export { DebugTargetViewer } from './DebugTargetViewer';
 export { DemoDescription } from './DemoDescription';
@@ -2,16 +2,33 @@
  * PerformanceHUD Component
  *
  * Displays real-time performance statistics.
+ * Also shows the active quality scale and, in auto mode, the governor's
+ * most recent adjustment, plus a frame-time graph with percentiles that
+ * expands into a larger view (with GPU times) when clicked. Demos that
+ * time their passes get a per-pass split of the GPU time.
  */
 
-import type { DemoStats } from '../gl/core/types';
+import { useEffect, useRef, useState } from 'react';
+import { getFrameTimeStats, getHistoryValues } from '../gl/core/stats';
+import type { DemoStats, FrameHistory, FrameTimeStats, GpuPassTiming } from '../gl/core/types';
+import type { QualityStatus } from '../gl/core/qualityGovernor';
 import './PerformanceHUD.css';
 
 interface PerformanceHUDProps {
   stats: DemoStats | null;
+  quality?: QualityStatus | null;
 }
 
-export function PerformanceHUD({ stats }: PerformanceHUDProps) {
+// Frame budgets drawn as guide lines (60 and 30 fps)
+const GUIDES = [16.6, 33.3];
+
+export function PerformanceHUD({ stats, quality }: PerformanceHUDProps) {
+  const [expanded, setExpanded] = useState(false);
+  // The history buffer is shared and mutated in place, so recompute on
+  // every stats update rather than memoizing on its identity
+  const history = stats?.history;
+  const frameStats = history && history.count > 0 ? getFrameTimeStats(history) : null;
+
   if (!stats) {
     return (
       <div className="perf-hud">
@@ -21,7 +38,7 @@ export function PerformanceHUD({ stats }: PerformanceHUDProps) {
   }
 
   return (
-    <div className="perf-hud">
+    <div className={`perf-hud${expanded ? ' expanded' : ''}`}>
       <div className="perf-hud-item">
         <span className="perf-hud-label">FPS</span>
         <span className={`perf-hud-value ${getFpsClass(stats.fps)}`}>
@@ -34,6 +51,25 @@ export function PerformanceHUD({ stats }: PerformanceHUDProps) {
         <span className="perf-hud-value">{stats.frameTime}ms</span>
       </div>
 
+      {history && frameStats && (
+        <button
+          className="perf-hud-item perf-hud-graph-toggle"
+          onClick={() => setExpanded((value) => !value)}
+          title={expanded ? 'Hide frame-time detail' : 'Show frame-time detail'}
+          aria-expanded={expanded}
+        >
+          <FrameGraph history={history} stats={stats} width={120} height={24} />
+          <span className="perf-hud-label">p95</span>
+          <span className={`perf-hud-value ${getFrameTimeClass(frameStats.p95)}`}>
+            {frameStats.p95.toFixed(1)}ms
+          </span>
+          <span className="perf-hud-label">Dropped</span>
+          <span className={`perf-hud-value ${frameStats.droppedFrames > 0 ? 'ok' : ''}`}>
+            {frameStats.droppedFrames}
+          </span>
+        </button>
+      )}
+
       <div className="perf-hud-item">
         <span className="perf-hud-label">Draw Calls</span>
         <span className="perf-hud-value">{stats.drawCalls}</span>
@@ -58,22 +94,317 @@ export function PerformanceHUD({ stats }: PerformanceHUDProps) {
         </div>
       )}
 
+      {stats.lines !== undefined && stats.lines > 0 && (
+        <div className="perf-hud-item">
+          <span className="perf-hud-label">Lines</span>
+          <span className="perf-hud-value">{formatNumber(stats.lines)}</span>
+        </div>
+      )}
+
+      {stats.points !== undefined && stats.points > 0 && (
+        <div className="perf-hud-item">
+          <span className="perf-hud-label">Points</span>
+          <span className="perf-hud-value">{formatNumber(stats.points)}</span>
+        </div>
+      )}
+
+      {stats.programSwitches !== undefined && (
+        <div
+          className="perf-hud-item"
+          title={
+            `${stats.programSwitches} program switches, ${stats.textureBinds ?? 0} texture binds, ` +
+            `${stats.framebufferBinds ?? 0} framebuffer binds per frame`
+          }
+        >
+          <span className="perf-hud-label">Binds</span>
+          <span className="perf-hud-value">
+            {stats.programSwitches}p · {stats.textureBinds ?? 0}t · {stats.framebufferBinds ?? 0}fb
+          </span>
+        </div>
+      )}
+
+      {stats.bufferUploadBytes !== undefined && (
+        <div className="perf-hud-item">
+          <span className="perf-hud-label">Uploads</span>
+          <span className="perf-hud-value">{formatBytes(stats.bufferUploadBytes)}</span>
+        </div>
+      )}
+
       {stats.gpuTime !== undefined && (
         <div className="perf-hud-item">
           <span className="perf-hud-label">GPU</span>
           <span className="perf-hud-value">{stats.gpuTime}ms</span>
         </div>
       )}
+
+      {stats.gpuPasses && (
+        <div className="perf-hud-item" title={describePasses(stats.gpuPasses)}>
+          <span className="perf-hud-label">Passes</span>
+          <PassBar passes={stats.gpuPasses} />
+        </div>
+      )}
+
+      {quality && (
+        <div className="perf-hud-item">
+          <span className="perf-hud-label">Quality</span>
+          <span className="perf-hud-value">
+            {quality.auto ? `Auto ${quality.targetFps}` : capitalize(quality.level)}
+          </span>
+        </div>
+      )}
+
+      {quality && (
+        <div className="perf-hud-item">
+          <span className="perf-hud-label">Scale</span>
+          <span className="perf-hud-value">
+            {quality.scale.resolution.toFixed(2)}x · ×{quality.scale.particleMultiplier.toFixed(2)}
+          </span>
+        </div>
+      )}
+
+      {quality?.lastAdjustment && (
+        <div className="perf-hud-item" title={describeAdjustment(quality)}>
+          <span className="perf-hud-label">Governor</span>
+          <span className={`perf-hud-value ${quality.lastAdjustment.direction === 'up' ? 'good' : 'ok'}`}>
+            {quality.lastAdjustment.direction === 'up' ? '▲' : '▼'}{' '}
+            {quality.lastAdjustment.frameTime.toFixed(1)}ms
+          </span>
+        </div>
+      )}
+
+      {expanded && history && frameStats && (
+        <FrameDetail history={history} stats={stats} frameStats={frameStats} />
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Frame Graph
+// ============================================================================
+
+interface FrameGraphProps {
+  history: FrameHistory;
+  stats: DemoStats;            // Redraw trigger; the history is updated in place
+  width: number;
+  height: number;
+  showGpu?: boolean;
+}
+
+/**
+ * Frame times as a line over the history, newest on the right, with guide
+ * lines at the 60 and 30 fps budgets. The vertical scale fits the slowest
+ * frame but never drops below the 30 fps guide.
+ */
+function FrameGraph({ history, stats, width, height, showGpu = false }: FrameGraphProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== width * dpr || canvas.height !== height * dpr) {
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const frameTimes = getHistoryValues(history, 'frameTimes');
+    const gpuTimes = showGpu ? getHistoryValues(history, 'gpuTimes') : [];
+    const maxValue = Math.max(GUIDES[GUIDES.length - 1] * 1.2, ...frameTimes);
+    const step = width / (history.frameTimes.length - 1);
+    const offset = history.frameTimes.length - frameTimes.length;
+    const toY = (value: number) => height - (value / maxValue) * (height - 1);
+
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = 'rgba(148, 163, 184, 0.35)';
+    ctx.setLineDash([2, 2]);
+    for (const guide of GUIDES) {
+      const y = Math.round(toY(guide)) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+
+    drawLine(ctx, frameTimes, offset, step, toY, '#10b981');
+    if (gpuTimes.length > 0) {
+      drawLine(ctx, gpuTimes, offset, step, toY, '#60a5fa');
+    }
+  }, [history, stats, width, height, showGpu]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="perf-hud-graph"
+      style={{ width, height }}
+      aria-hidden="true"
+    />
+  );
+}
+
+/** Polyline over the values, broken wherever a value is NaN */
+function drawLine(
+  ctx: CanvasRenderingContext2D,
+  values: number[],
+  offset: number,
+  step: number,
+  toY: (value: number) => number,
+  color: string
+): void {
+  ctx.strokeStyle = color;
+  ctx.beginPath();
+  let drawing = false;
+  values.forEach((value, i) => {
+    if (Number.isNaN(value)) {
+      drawing = false;
+      return;
+    }
+    const x = (offset + i) * step;
+    if (drawing) {
+      ctx.lineTo(x, toY(value));
+    } else {
+      ctx.moveTo(x, toY(value));
+      drawing = true;
+    }
+  });
+  ctx.stroke();
+}
+
+interface FrameDetailProps {
+  history: FrameHistory;
+  stats: DemoStats;
+  frameStats: FrameTimeStats;
+}
+
+function FrameDetail({ history, stats, frameStats }: FrameDetailProps) {
+  const hasGpu = getHistoryValues(history, 'gpuTimes').some((value) => !Number.isNaN(value));
+  const items: [string, string][] = [
+    ['p50', `${frameStats.p50.toFixed(2)}ms`],
+    ['p95', `${frameStats.p95.toFixed(2)}ms`],
+    ['p99', `${frameStats.p99.toFixed(2)}ms`],
+    ['Max', `${frameStats.max.toFixed(2)}ms`],
+    ['Dropped', `${frameStats.droppedFrames} / ${frameStats.frames}`],
+  ];
+
+  return (
+    <div className="perf-hud-detail">
+      <FrameGraph history={history} stats={stats} width={480} height={96} showGpu={hasGpu} />
+      <dl className="perf-hud-detail-stats">
+        {items.map(([label, value]) => (
+          <div key={label} className="perf-hud-item">
+            <dt className="perf-hud-label">{label}</dt>
+            <dd className="perf-hud-value">{value}</dd>
+          </div>
+        ))}
+        <div className="perf-hud-legend">
+          <span className="perf-hud-legend-frame">CPU frame</span>
+          {hasGpu && <span className="perf-hud-legend-gpu">GPU</span>}
+          <span>Guides at {GUIDES.join(' / ')}ms</span>
+        </div>
+      </dl>
+      {stats.gpuPasses && <PassList passes={stats.gpuPasses} />}
+    </div>
+  );
+}
+
+// ============================================================================
+// GPU Passes
+// ============================================================================
+
+// Segment colors, cycled in pass order
+const PASS_COLORS = ['#60a5fa', '#a78bfa', '#f472b6', '#fbbf24', '#34d399', '#f87171'];
+
+/** Stacked bar of each pass's share of the GPU time */
+function PassBar({ passes }: { passes: GpuPassTiming[] }) {
+  const total = passes.reduce((sum, pass) => sum + pass.time, 0);
+  return (
+    <div className="perf-hud-pass-bar">
+      {passes.map((pass, i) => (
+        <span
+          key={pass.name}
+          className="perf-hud-pass-segment"
+          style={{
+            flexGrow: total > 0 ? pass.time / total : 1,
+            background: PASS_COLORS[i % PASS_COLORS.length],
+          }}
+        />
+      ))}
     </div>
   );
 }
 
+function PassList({ passes }: { passes: GpuPassTiming[] }) {
+  const total = passes.reduce((sum, pass) => sum + pass.time, 0);
+  return (
+    <ul className="perf-hud-passes">
+      {passes.map((pass, i) => (
+        <li key={pass.name}>
+          <span
+            className="perf-hud-pass-swatch"
+            style={{ background: PASS_COLORS[i % PASS_COLORS.length] }}
+          />
+          <span className="perf-hud-label">{pass.name}</span>
+          <span className="perf-hud-value">{pass.time.toFixed(2)}ms</span>
+          <span className="perf-hud-pass-share">
+            {total > 0 ? Math.round((pass.time / total) * 100) : 0}%
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function describePasses(passes: GpuPassTiming[]): string {
+  return passes.map((pass) => `${pass.name}: ${pass.time.toFixed(2)}ms`).join('\n');
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function describeAdjustment({ lastAdjustment, targetFps }: QualityStatus): string {
+  if (!lastAdjustment) return '';
+  const { from, to, frameTime, gpuTime } = lastAdjustment;
+  const gpu = gpuTime !== undefined ? `, GPU ${gpuTime.toFixed(1)}ms` : '';
+  return (
+    `Frame ${frameTime.toFixed(1)}ms${gpu} vs ${(1000 / targetFps).toFixed(1)}ms budget: ` +
+    `resolution ${from.resolution.toFixed(2)} → ${to.resolution.toFixed(2)}, ` +
+    `particles ×${from.particleMultiplier.toFixed(2)} → ×${to.particleMultiplier.toFixed(2)}, ` +
+    `instances ×${from.instanceMultiplier.toFixed(2)} → ×${to.instanceMultiplier.toFixed(2)}`
+  );
+}
+
 function getFpsClass(fps: number): string {
   if (fps >= 55) return 'good';
   if (fps >= 30) return 'ok';
   return 'bad';
 }
 
+function getFrameTimeClass(frameTime: number): string {
+  if (frameTime <= GUIDES[0] * 1.1) return 'good';
+  if (frameTime <= GUIDES[1] * 1.1) return 'ok';
+  return 'bad';
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return (bytes / (1024 * 1024)).toFixed(1) + 'MB';
+  }
+  if (bytes >= 1024) {
+    return (bytes / 1024).toFixed(1) + 'KB';
+  }
+  return bytes + 'B';
+}
+
 function formatNumber(n: number): string {
   if (n >= 1000000) {
     return (n / 1000000).toFixed(1) + 'M';
@@ -1,23 +1,68 @@
 /**
  * TopBar Component
  *
- * Global controls: Play/Pause, Reset, Screenshot, Quality, Reduce Motion
+ * Global controls: Play/Pause, Reset, Screenshot, Record, Quality, Reduce Motion
  */
 
+import { useState } from 'react';
 import { usePlayground } from '../context/PlaygroundContext';
 import { getQualityLevels } from '../gl/core/qualityPresets';
-import type { QualityLevel } from '../gl/core/types';
+import { TARGET_FPS_OPTIONS } from '../gl/core/qualityGovernor';
+import { DEFAULT_RECORDING_OPTIONS, type RecordingOptions } from '../gl/core/recorder';
+import type { QualityLevel, TargetFps } from '../gl/core/types';
 import './TopBar.css';
 
 interface TopBarProps {
   onReset: () => void;
   onScreenshot: () => void;
+  onRecord: (options: RecordingOptions) => void;
+  onStopRecording: () => void;
+  getMaxRecordingSize: () => { width: number; height: number } | null;  // null without a context
+  recordingProgress: number | null;  // null when not recording
   demoName: string;
 }
 
-export function TopBar({ onReset, onScreenshot, demoName }: TopBarProps) {
-  const { state, togglePause, setQuality, toggleReduceMotion } = usePlayground();
+const RECORDING_RESOLUTIONS = [
+  { label: 'Canvas', value: 'canvas' },
+  { label: '1280×720', value: '1280x720' },
+  { label: '1920×1080', value: '1920x1080' },
+  { label: '1080×1080', value: '1080x1080' },
+  { label: '3840×2160', value: '3840x2160' },
+];
+
+const RECORDING_FPS = [24, 30, 60];
+
+export function TopBar({
+  onReset,
+  onScreenshot,
+  onRecord,
+  onStopRecording,
+  getMaxRecordingSize,
+  recordingProgress,
+  demoName,
+}: TopBarProps) {
+  const { state, togglePause, setQuality, setAutoQuality, setTargetFps, toggleReduceMotion } =
+    usePlayground();
   const qualityLevels = getQualityLevels();
+  const [recordMenuOpen, setRecordMenuOpen] = useState(false);
+  const [maxRecordingSize, setMaxRecordingSize] =
+    useState<{ width: number; height: number } | null>(null);
+  const isRecording = recordingProgress !== null;
+
+  const handleRecordClick = () => {
+    if (isRecording) {
+      onStopRecording();
+    } else {
+      // Read the limits each time, in case the context was replaced
+      if (!recordMenuOpen) setMaxRecordingSize(getMaxRecordingSize());
+      setRecordMenuOpen(!recordMenuOpen);
+    }
+  };
+
+  const handleStartRecording = (options: RecordingOptions) => {
+    setRecordMenuOpen(false);
+    onRecord(options);
+  };
 
   return (
     <header className="topbar">
@@ -54,6 +99,25 @@ export function TopBar({ onReset, onScreenshot, demoName }: TopBarProps) {
           >
             <CameraIcon />
           </button>
+          <div className="topbar-record">
+            <button
+              className={`topbar-btn ${isRecording ? 'recording' : ''}`}
+              onClick={handleRecordClick}
+              title={isRecording
+                ? `Stop recording (${Math.round(recordingProgress * 100)}%)`
+                : 'Record video'}
+            >
+              {isRecording ? <StopIcon /> : <RecordIcon />}
+            </button>
+            {isRecording && (
+              <span className="topbar-record-progress">
+                {Math.round(recordingProgress * 100)}%
+              </span>
+            )}
+            {recordMenuOpen && !isRecording && (
+              <RecordMenu maxSize={maxRecordingSize} onStart={handleStartRecording} />
+            )}
+          </div>
         </div>
 
         {/* Quality Selector */}
@@ -61,15 +125,36 @@ export function TopBar({ onReset, onScreenshot, demoName }: TopBarProps) {
           <label className="topbar-label">Quality</label>
           <select
             className="topbar-select"
-            value={state.quality}
-            onChange={(e) => setQuality(e.target.value as QualityLevel)}
+            value={state.autoQuality ? 'auto' : state.quality}
+            onChange={(e) => {
+              if (e.target.value === 'auto') {
+                setAutoQuality(true);
+              } else {
+                setQuality(e.target.value as QualityLevel);
+              }
+            }}
           >
+            <option value="auto">Auto</option>
             {qualityLevels.map((level) => (
               <option key={level} value={level}>
                 {level.charAt(0).toUpperCase() + level.slice(1)}
               </option>
             ))}
           </select>
+          {state.autoQuality && (
+            <select
+              className="topbar-select"
+              value={state.targetFps}
+              onChange={(e) => setTargetFps(Number(e.target.value) as TargetFps)}
+              title="Frame rate the auto quality governor aims for"
+            >
+              {TARGET_FPS_OPTIONS.map((fps) => (
+                <option key={fps} value={fps}>
+                  {fps} fps
+                </option>
+              ))}
+            </select>
+          )}
         </div>
 
         {/* Reduce Motion Toggle */}
@@ -88,6 +173,90 @@ export function TopBar({ onReset, onScreenshot, demoName }: TopBarProps) {
   );
 }
 
+// ============================================================================
+// Record Menu
+// ============================================================================
+
+interface RecordMenuProps {
+  maxSize: { width: number; height: number } | null;  // Resolutions above it are disabled
+  onStart: (options: RecordingOptions) => void;
+}
+
+function fitsSize(value: string, maxSize: { width: number; height: number } | null): boolean {
+  if (value === 'canvas' || !maxSize) return true;
+  const [width, height] = value.split('x').map(Number);
+  return width <= maxSize.width && height <= maxSize.height;
+}
+
+function RecordMenu({ maxSize, onStart }: RecordMenuProps) {
+  const [duration, setDuration] = useState(DEFAULT_RECORDING_OPTIONS.duration);
+  const [fps, setFps] = useState(DEFAULT_RECORDING_OPTIONS.fps);
+  const [resolution, setResolution] = useState('canvas');
+  const [fixedTimestep, setFixedTimestep] = useState(DEFAULT_RECORDING_OPTIONS.fixedTimestep);
+
+  const handleStart = () => {
+    const [width, height] = resolution === 'canvas'
+      ? [null, null]
+      : resolution.split('x').map(Number);
+    onStart({ duration, fps, width, height, fixedTimestep });
+  };
+
+  return (
+    <div className="topbar-record-menu">
+      <label className="topbar-record-field">
+        <span>Duration (s)</span>
+        <input
+          type="number"
+          min={1}
+          max={60}
+          value={duration}
+          onChange={(e) => setDuration(Math.min(60, Math.max(1, Number(e.target.value) || 1)))}
+        />
+      </label>
+      <label className="topbar-record-field">
+        <span>Frame Rate</span>
+        <select
+          className="topbar-select"
+          value={fps}
+          onChange={(e) => setFps(Number(e.target.value))}
+        >
+          {RECORDING_FPS.map((rate) => (
+            <option key={rate} value={rate}>{rate} fps</option>
+          ))}
+        </select>
+      </label>
+      <label className="topbar-record-field">
+        <span>Resolution</span>
+        <select
+          className="topbar-select"
+          value={resolution}
+          onChange={(e) => setResolution(e.target.value)}
+        >
+          {RECORDING_RESOLUTIONS.map((option) => {
+            const fits = fitsSize(option.value, maxSize);
+            return (
+              <option key={option.value} value={option.value} disabled={!fits}>
+                {fits ? option.label : `${option.label} (exceeds GPU limit)`}
+              </option>
+            );
+          })}
+        </select>
+      </label>
+      <label className="topbar-checkbox">
+        <input
+          type="checkbox"
+          checked={fixedTimestep}
+          onChange={(e) => setFixedTimestep(e.target.checked)}
+        />
+        <span>Fixed timestep</span>
+      </label>
+      <button className="topbar-record-start" onClick={handleStart}>
+        Start Recording
+      </button>
+    </div>
+  );
+}
+
 // Simple SVG icons
 function PlayIcon() {
   return (
@@ -123,3 +292,19 @@ function CameraIcon() {
     </svg>
   );
 }
+
+function RecordIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+      <circle cx="8" cy="8" r="5" />
+    </svg>
+  );
+}
+
+function StopIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+      <rect x="3" y="3" width="10" height="10" rx="1" />
+    </svg>
+  );
+}
@@ -3,6 +3,10 @@
  *
  * Global state management for the WebGL Showcase Playground.
  * Uses useReducer for predictable state updates.
+ *
+ * Also owns the per-demo parameter store, so tuned values survive
+ * demo switches and (optionally) page reloads via localStorage. Camera
+ * bookmarks and paths are stored per demo the same way.
  */
 
 import React, {
@@ -17,8 +21,71 @@ import type {
   PlaygroundState,
   PlaygroundAction,
   QualityLevel,
+  TargetFps,
   DemoCategory,
+  ParameterValue,
+  ParameterValues,
+  PostProcessPassState,
+  CameraBookmark,
+  CameraKeyframe,
+  DemoCameraState,
 } from '../gl/core/types';
+import { getPassByType } from '../gl/postprocessRegistry';
+import { getDemoById } from '../gl/demoRegistry';
+import { validateParameterValues } from '../gl/core/parameters';
+
+// ============================================================================
+// Parameter Persistence
+// ============================================================================
+
+const PARAMETERS_STORAGE_KEY = 'webgl-showcase:parameters';
+const CAMERAS_STORAGE_KEY = 'webgl-showcase:cameras';
+
+/** Read a per-demo record saved by saveStored */
+function loadStored<T>(key: string): Record<string, T> {
+  if (typeof window === 'undefined') return {};
+  try {
+    const raw = window.localStorage.getItem(key);
+    if (!raw) return {};
+    const parsed: unknown = JSON.parse(raw);
+    return parsed && typeof parsed === 'object'
+      ? (parsed as Record<string, T>)
+      : {};
+  } catch {
+    // Corrupt JSON or storage disabled (private browsing)
+    return {};
+  }
+}
+
+function saveStored<T>(key: string, value: Record<string, T>): void {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Quota exceeded or storage disabled - persistence is best-effort
+  }
+}
+
+/**
+ * Stored parameters, validated against each demo's current definitions.
+ * Values that no longer fit (renamed keys, removed options, out-of-range
+ * sliders from an older version) are dropped so the demo default applies.
+ */
+function loadStoredParameters(): Record<string, ParameterValues> {
+  const stored = loadStored<unknown>(PARAMETERS_STORAGE_KEY);
+  const parameters: Record<string, ParameterValues> = {};
+  for (const [demoId, values] of Object.entries(stored)) {
+    const definitions = getDemoById(demoId)?.parameters;
+    if (definitions) {
+      parameters[demoId] = validateParameterValues(definitions, values);
+    }
+  }
+  return parameters;
+}
+
+const EMPTY_CAMERA_STATE: DemoCameraState = { bookmarks: [], path: [] };
+
+// Pass ids only need to be unique within a session
+let nextPassId = 1;
 
 // ============================================================================
 // Initial State
@@ -29,9 +96,14 @@ const initialState: PlaygroundState = {
   isPaused: false,
   isFullscreen: false,
   quality: 'high',
+  autoQuality: false,
+  targetFps: 60,
   reduceMotion: false,
   searchQuery: '',
   categoryFilter: null,
+  parameters: {},
+  cameras: {},
+  postProcessPasses: [],
 };
 
 // ============================================================================
@@ -52,15 +124,106 @@ function playgroundReducer(
     case 'TOGGLE_FULLSCREEN':
       return { ...state, isFullscreen: !state.isFullscreen };
     case 'SET_QUALITY':
-      return { ...state, quality: action.quality };
+      // Picking a preset takes over from the governor
+      return { ...state, quality: action.quality, autoQuality: false };
+    case 'SET_AUTO_QUALITY':
+      return { ...state, autoQuality: action.enabled };
+    case 'SET_TARGET_FPS':
+      return { ...state, targetFps: action.fps };
     case 'TOGGLE_REDUCE_MOTION':
       return { ...state, reduceMotion: !state.reduceMotion };
+    case 'SET_REDUCE_MOTION':
+      return { ...state, reduceMotion: action.reduceMotion };
     case 'SET_SEARCH_QUERY':
       return { ...state, searchQuery: action.query };
     case 'SET_CATEGORY_FILTER':
       return { ...state, categoryFilter: action.category };
+    case 'SET_PARAMETER':
+      return {
+        ...state,
+        parameters: {
+          ...state.parameters,
+          [action.demoId]: {
+            ...state.parameters[action.demoId],
+            [action.key]: action.value,
+          },
+        },
+      };
+    case 'SYNC_PARAMETERS':
+      return {
+        ...state,
+        parameters: { ...state.parameters, [action.demoId]: { ...action.values } },
+      };
+    case 'ADD_CAMERA_BOOKMARK': {
+      const camera = state.cameras[action.demoId] ?? EMPTY_CAMERA_STATE;
+      return {
+        ...state,
+        cameras: {
+          ...state.cameras,
+          [action.demoId]: { ...camera, bookmarks: [...camera.bookmarks, action.bookmark] },
+        },
+      };
+    }
+    case 'REMOVE_CAMERA_BOOKMARK': {
+      const camera = state.cameras[action.demoId] ?? EMPTY_CAMERA_STATE;
+      return {
+        ...state,
+        cameras: {
+          ...state.cameras,
+          [action.demoId]: {
+            ...camera,
+            bookmarks: camera.bookmarks.filter((_, index) => index !== action.index),
+          },
+        },
+      };
+    }
+    case 'SET_CAMERA_PATH': {
+      const camera = state.cameras[action.demoId] ?? EMPTY_CAMERA_STATE;
+      const path = [...action.path].sort((a, b) => a.time - b.time);
+      return {
+        ...state,
+        cameras: { ...state.cameras, [action.demoId]: { ...camera, path } },
+      };
+    }
+    case 'ADD_POSTPROCESS_PASS':
+      return { ...state, postProcessPasses: [...state.postProcessPasses, action.pass] };
+    case 'REMOVE_POSTPROCESS_PASS':
+      return {
+        ...state,
+        postProcessPasses: state.postProcessPasses.filter((pass) => pass.id !== action.id),
+      };
+    case 'MOVE_POSTPROCESS_PASS': {
+      const passes = [...state.postProcessPasses];
+      const from = passes.findIndex((pass) => pass.id === action.id);
+      const to = from + action.offset;
+      if (from < 0 || to < 0 || to >= passes.length) return state;
+      const [moved] = passes.splice(from, 1);
+      passes.splice(to, 0, moved);
+      return { ...state, postProcessPasses: passes };
+    }
+    case 'SET_POSTPROCESS_PASS_ENABLED':
+      return {
+        ...state,
+        postProcessPasses: state.postProcessPasses.map((pass) =>
+          pass.id === action.id ? { ...pass, enabled: action.enabled } : pass
+        ),
+      };
+    case 'SET_POSTPROCESS_PASS_PARAMETER':
+      return {
+        ...state,
+        postProcessPasses: state.postProcessPasses.map((pass) =>
+          pass.id === action.id
+            ? { ...pass, parameters: { ...pass.parameters, [action.key]: action.value } }
+            : pass
+        ),
+      };
     case 'RESET':
-      return { ...initialState, activeDemoId: state.activeDemoId };
+      return {
+        ...initialState,
+        activeDemoId: state.activeDemoId,
+        parameters: state.parameters,
+        cameras: state.cameras,
+      };
     default:
       return state;
   }
@@ -79,10 +242,22 @@ interface PlaygroundContextValue {
   setPaused: (isPaused: boolean) => void;
   toggleFullscreen: () => void;
   setQuality: (quality: QualityLevel) => void;
+  setAutoQuality: (enabled: boolean) => void;
+  setTargetFps: (fps: TargetFps) => void;
   toggleReduceMotion: () => void;
   setSearchQuery: (query: string) => void;
   setCategoryFilter: (category: DemoCategory | null) => void;
   resetDemo: () => void;
+  setParameter: (demoId: string, key: string, value: ParameterValue) => void;
+  syncParameters: (demoId: string, values: ParameterValues) => void;
+  addCameraBookmark: (demoId: string, bookmark: CameraBookmark) => void;
+  removeCameraBookmark: (demoId: string, index: number) => void;
+  setCameraPath: (demoId: string, path: CameraKeyframe[]) => void;
+  addPostProcessPass: (type: string) => void;
+  removePostProcessPass: (id: string) => void;
+  movePostProcessPass: (id: string, offset: number) => void;
+  setPostProcessPassEnabled: (id: string, enabled: boolean) => void;
+  setPostProcessPassParameter: (id: string, key: string, value: ParameterValue) => void;
 }
 
 // ============================================================================
@@ -98,16 +273,28 @@ const PlaygroundContext = createContext<PlaygroundContextValue | null>(null);
 interface PlaygroundProviderProps {
   children: ReactNode;
   initialDemoId?: string;
+  initialOverrides?: Partial<PlaygroundState>;  // e.g. state decoded from a shared URL
+  persistParameters?: boolean;  // Save parameter store and camera bookmarks to localStorage
 }
 
 export function PlaygroundProvider({
   children,
   initialDemoId,
+  initialOverrides,
+  persistParameters = true,
 }: PlaygroundProviderProps) {
-  const [state, dispatch] = useReducer(playgroundReducer, {
+  const [state, dispatch] = useReducer(playgroundReducer, undefined, () => ({
     ...initialState,
-    activeDemoId: initialDemoId || initialState.activeDemoId,
-  });
+    ...initialOverrides,
+    activeDemoId: initialDemoId || initialOverrides?.activeDemoId || initialState.activeDemoId,
+    // Overrides replace the stored values of the demos they mention; the
+    // URL's demo arrives complete, so nothing stored is merged into it
+    parameters: {
+      ...(persistParameters ? loadStoredParameters() : {}),
+      ...initialOverrides?.parameters,
+    },
+    cameras: persistParameters ? loadStored<DemoCameraState>(CAMERAS_STORAGE_KEY) : {},
+  }));
 
   // Convenience action creators
   const setActiveDemo = useCallback((demoId: string) => {
@@ -130,6 +317,14 @@ export function PlaygroundProvider({
     dispatch({ type: 'SET_QUALITY', quality });
   }, []);
 
+  const setAutoQuality = useCallback((enabled: boolean) => {
+    dispatch({ type: 'SET_AUTO_QUALITY', enabled });
+  }, []);
+
+  const setTargetFps = useCallback((fps: TargetFps) => {
+    dispatch({ type: 'SET_TARGET_FPS', fps });
+  }, []);
+
   const toggleReduceMotion = useCallback(() => {
     dispatch({ type: 'TOGGLE_REDUCE_MOTION' });
   }, []);
@@ -146,11 +341,82 @@ export function PlaygroundProvider({
     dispatch({ type: 'RESET' });
   }, []);
 
+  const setParameter = useCallback(
+    (demoId: string, key: string, value: ParameterValue) => {
+      dispatch({ type: 'SET_PARAMETER', demoId, key, value });
+    },
+    []
+  );
+
+  const syncParameters = useCallback((demoId: string, values: ParameterValues) => {
+    dispatch({ type: 'SYNC_PARAMETERS', demoId, values });
+  }, []);
+
+  const addCameraBookmark = useCallback((demoId: string, bookmark: CameraBookmark) => {
+    dispatch({ type: 'ADD_CAMERA_BOOKMARK', demoId, bookmark });
+  }, []);
+
+  const removeCameraBookmark = useCallback((demoId: string, index: number) => {
+    dispatch({ type: 'REMOVE_CAMERA_BOOKMARK', demoId, index });
+  }, []);
+
+  const setCameraPath = useCallback((demoId: string, path: CameraKeyframe[]) => {
+    dispatch({ type: 'SET_CAMERA_PATH', demoId, path });
+  }, []);
+
+  const addPostProcessPass = useCallback((type: string) => {
+    const metadata = getPassByType(type);
+    if (!metadata) return;
+    const parameters: ParameterValues = {};
+    metadata.parameters.forEach((param) => {
+      parameters[param.key] = param.default;
+    });
+    const pass: PostProcessPassState = {
+      id: `${type}-${nextPassId++}`,
+      type,
+      enabled: true,
+      parameters,
+    };
+    dispatch({ type: 'ADD_POSTPROCESS_PASS', pass });
+  }, []);
+
+  const removePostProcessPass = useCallback((id: string) => {
+    dispatch({ type: 'REMOVE_POSTPROCESS_PASS', id });
+  }, []);
+
+  const movePostProcessPass = useCallback((id: string, offset: number) => {
+    dispatch({ type: 'MOVE_POSTPROCESS_PASS', id, offset });
+  }, []);
+
+  const setPostProcessPassEnabled = useCallback((id: string, enabled: boolean) => {
+    dispatch({ type: 'SET_POSTPROCESS_PASS_ENABLED', id, enabled });
+  }, []);
+
+  const setPostProcessPassParameter = useCallback(
+    (id: string, key: string, value: ParameterValue) => {
+      dispatch({ type: 'SET_POSTPROCESS_PASS_PARAMETER', id, key, value });
+    },
+    []
+  );
+
+  // Persist parameter store
+  useEffect(() => {
+    if (persistParameters) {
+      saveStored(PARAMETERS_STORAGE_KEY, state.parameters);
+    }
+  }, [state.parameters, persistParameters]);
+
+  useEffect(() => {
+    if (persistParameters) {
+      saveStored(CAMERAS_STORAGE_KEY, state.cameras);
+    }
+  }, [state.cameras, persistParameters]);
+
   // Detect prefers-reduced-motion on mount
   useEffect(() => {
     const mediaQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
     if (mediaQuery.matches) {
-      dispatch({ type: 'TOGGLE_REDUCE_MOTION' });
+      dispatch({ type: 'SET_REDUCE_MOTION', reduceMotion: true });
     }
   }, []);
 
@@ -162,10 +428,22 @@ export function PlaygroundProvider({
     setPaused,
     toggleFullscreen,
     setQuality,
+    setAutoQuality,
+    setTargetFps,
     toggleReduceMotion,
     setSearchQuery,
     setCategoryFilter,
     resetDemo,
+    setParameter,
+    syncParameters,
+    addCameraBookmark,
+    removeCameraBookmark,
+    setCameraPath,
+    addPostProcessPass,
+    removePostProcessPass,
+    movePostProcessPass,
+    setPostProcessPassEnabled,
+    setPostProcessPassParameter,
   };
 
   return (
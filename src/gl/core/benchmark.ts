@@ -0,0 +1,386 @@
+/**
+ * Demo Benchmarks
+ *
+ * Runs demos at each quality level for a fixed time, after a warmup, and
+ * collects frame time percentiles and render stats into a report that can
+ * be saved as JSON or CSV and compared against a baseline.
+ *
+ * Frame time is what a frame costs to render, not the interval between
+ * frames, which vsync caps at the display's refresh rate: the CPU time spent
+ * in render() plus the GPU time where timer queries are available
+ * (EXT_disjoint_timer_query_webgl2). Without them only CPU time is counted.
+ */
+
+import { getQualityLevels, getQualityScale } from './qualityPresets';
+import { percentile } from './stats';
+import { TextureCache, initWithTextures } from './textureLoader';
+import type { DemoContext, DemoFactory, QualityLevel } from './types';
+
+export interface BenchmarkOptions {
+  demoIds: string[];
+  qualities: QualityLevel[];
+  warmup: number;        // Seconds rendered before measuring
+  duration: number;      // Seconds measured
+  width: number;         // CSS pixels; the backing size follows the quality's resolution
+  height: number;
+}
+
+export const DEFAULT_BENCHMARK_OPTIONS: Omit<BenchmarkOptions, 'demoIds'> = {
+  qualities: getQualityLevels(),
+  warmup: 1,
+  duration: 5,
+  width: 1280,
+  height: 720,
+};
+
+export interface FrameTimeSummary {
+  mean: number;          // ms
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface BenchmarkResult {
+  demoId: string;
+  quality: QualityLevel;
+  frames: number;
+  fps: number;           // 1000 / mean frame time, so not capped by vsync
+  frameTime: FrameTimeSummary;
+  cpuTime: number;       // ms in render(), averaged
+  drawCalls: number;     // Per frame, averaged
+  triangles: number;     // Per frame, averaged
+  gpuTime: number | null;  // ms, averaged; null without timer queries
+  error: string | null;
+}
+
+export interface BenchmarkReport {
+  version: 2;            // 1 measured requestAnimationFrame intervals
+  label: string;         // Free text, e.g. a commit hash or machine name
+  createdAt: string;     // ISO date
+  userAgent: string;
+  renderer: string;
+  options: BenchmarkOptions;
+  results: BenchmarkResult[];
+}
+
+export interface BenchmarkProgress {
+  demoId: string;
+  quality: QualityLevel;
+  index: number;         // Run being measured, 0-based
+  total: number;
+}
+
+export type BenchmarkVerdict = 'regression' | 'improvement' | 'unchanged' | 'new' | 'failed';
+
+export interface BenchmarkComparison {
+  demoId: string;
+  quality: QualityLevel;
+  verdict: BenchmarkVerdict;
+  fpsChange: number | null;    // Relative, e.g. -0.12 = 12% fewer fps
+  p95Change: number | null;    // Relative change in p95 frame time
+  gpuChange: number | null;    // Relative change in GPU time
+}
+
+/**
+ * Run every demo × quality combination in the options
+ * loadFactory resolves a demo id to its factory (or null if unknown).
+ * Each run gets a fresh demo instance that is destroyed afterwards.
+ */
+export async function runBenchmark(
+  gl: WebGL2RenderingContext,
+  loadFactory: (demoId: string) => Promise<DemoFactory | null>,
+  options: BenchmarkOptions,
+  onProgress?: (progress: BenchmarkProgress) => void,
+  signal?: AbortSignal
+): Promise<BenchmarkReport> {
+  const results: BenchmarkResult[] = [];
+  const total = options.demoIds.length * options.qualities.length;
+
+  for (const demoId of options.demoIds) {
+    const factory = await loadFactory(demoId);
+    for (const quality of options.qualities) {
+      if (signal?.aborted) {
+        throw new Error('Benchmark cancelled');
+      }
+      onProgress?.({ demoId, quality, index: results.length, total });
+      if (!factory) {
+        results.push(failedResult(demoId, quality, `Demo not found: ${demoId}`));
+        continue;
+      }
+      try {
+        results.push(await benchmarkDemo(gl, factory, demoId, quality, options));
+      } catch (err) {
+        results.push(failedResult(demoId, quality, (err as Error).message));
+      }
+    }
+  }
+
+  return {
+    version: 2,
+    label: '',
+    createdAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    renderer: getRendererName(gl),
+    options,
+    results,
+  };
+}
+
+/**
+ * Flatten a report into CSV, one row per demo × quality
+ */
+export function reportToCSV(report: BenchmarkReport): string {
+  const header = [
+    'demo',
+    'quality',
+    'frames',
+    'fps',
+    'frame_mean_ms',
+    'frame_p50_ms',
+    'frame_p95_ms',
+    'frame_p99_ms',
+    'frame_max_ms',
+    'cpu_ms',
+    'draw_calls',
+    'triangles',
+    'gpu_ms',
+    'error',
+  ];
+  const rows = report.results.map((result) => [
+    result.demoId,
+    result.quality,
+    result.frames,
+    round(result.fps),
+    round(result.frameTime.mean),
+    round(result.frameTime.p50),
+    round(result.frameTime.p95),
+    round(result.frameTime.p99),
+    round(result.frameTime.max),
+    round(result.cpuTime),
+    round(result.drawCalls),
+    Math.round(result.triangles),
+    result.gpuTime === null ? '' : round(result.gpuTime),
+    result.error === null ? '' : `"${result.error.replace(/"/g, '""')}"`,
+  ]);
+  return [header, ...rows].map((row) => row.join(',')).join('\n') + '\n';
+}
+
+/**
+ * Compare a report with a baseline run
+ * A change beyond tolerance (relative) in fps, p95 frame time or GPU time
+ * counts as a regression or improvement; any slowdown wins over a speedup.
+ */
+export function compareReports(
+  report: BenchmarkReport,
+  baseline: BenchmarkReport,
+  tolerance = 0.05
+): BenchmarkComparison[] {
+  return report.results.map((result) => {
+    const { demoId, quality } = result;
+    const base = baseline.results.find((r) => r.demoId === demoId && r.quality === quality);
+    if (result.error !== null) {
+      return { demoId, quality, verdict: 'failed', fpsChange: null, p95Change: null, gpuChange: null };
+    }
+    if (!base || base.error !== null) {
+      return { demoId, quality, verdict: 'new', fpsChange: null, p95Change: null, gpuChange: null };
+    }
+
+    const fpsChange = relativeChange(result.fps, base.fps);
+    const p95Change = relativeChange(result.frameTime.p95, base.frameTime.p95);
+    const gpuChange =
+      result.gpuTime !== null && base.gpuTime !== null
+        ? relativeChange(result.gpuTime, base.gpuTime)
+        : null;
+
+    // Lower fps is worse; longer frame and GPU times are worse
+    const worse = [-fpsChange, p95Change, gpuChange ?? 0].some((change) => change > tolerance);
+    const better = [fpsChange, -p95Change, -(gpuChange ?? 0)].some((change) => change > tolerance);
+    const verdict: BenchmarkVerdict = worse ? 'regression' : better ? 'improvement' : 'unchanged';
+
+    return { demoId, quality, verdict, fpsChange, p95Change, gpuChange };
+  });
+}
+
+/**
+ * Check that parsed JSON is a benchmark report that compareReports can read
+ * Throws with what is wrong; only the fields a comparison uses are checked.
+ */
+export function parseBenchmarkReport(value: unknown): BenchmarkReport {
+  if (!isObject(value) || typeof value.version !== 'number') {
+    throw new Error('Not a benchmark report');
+  }
+  if (value.version !== 2) {
+    throw new Error(`Benchmark report version ${value.version} measured frames differently (expected 2)`);
+  }
+  if (!Array.isArray(value.results)) {
+    throw new Error('Benchmark report has no results');
+  }
+  value.results.forEach((result: unknown, i) => {
+    const valid =
+      isObject(result) &&
+      typeof result.demoId === 'string' &&
+      typeof result.quality === 'string' &&
+      typeof result.fps === 'number' &&
+      isObject(result.frameTime) &&
+      typeof result.frameTime.p95 === 'number' &&
+      (result.gpuTime === null || typeof result.gpuTime === 'number') &&
+      (result.error === null || typeof result.error === 'string');
+    if (!valid) {
+      throw new Error(`Benchmark report result ${i} is malformed`);
+    }
+  });
+  return value as unknown as BenchmarkReport;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function benchmarkDemo(
+  gl: WebGL2RenderingContext,
+  factory: DemoFactory,
+  demoId: string,
+  quality: QualityLevel,
+  options: BenchmarkOptions
+): Promise<BenchmarkResult> {
+  const scale = getQualityScale(quality);
+  const width = Math.max(1, Math.round(options.width * scale.resolution));
+  const height = Math.max(1, Math.round(options.height * scale.resolution));
+  const canvas = gl.canvas as HTMLCanvasElement;
+  canvas.width = width;
+  canvas.height = height;
+  gl.viewport(0, 0, width, height);
+
+  const demo = factory(gl);
+  const textures = new TextureCache(gl);
+  try {
+    await initWithTextures(demo, textures);
+    demo.resize(width, height, scale.resolution);
+
+    const ctx: DemoContext = {
+      gl,
+      canvas,
+      width,
+      height,
+      dpr: scale.resolution,
+      time: 0,
+      deltaTime: 0,
+      mouseX: 0.5,
+      mouseY: 0.5,
+      mouseDown: false,
+      pointers: [],
+      zoomDelta: 0,
+      dragX: 0,
+      dragY: 0,
+      keys: new Set(),
+      quality,
+      qualityScale: scale,
+      reduceMotion: false,
+      outputFramebuffer: null,
+    };
+
+    const frameTimes: number[] = [];
+    let cpuTotal = 0;
+    let drawCalls = 0;
+    let triangles = 0;
+    let gpuTotal = 0;
+    let gpuSamples = 0;
+
+    const start = await nextFrame();
+    const measureFrom = start + options.warmup * 1000;
+    const end = measureFrom + options.duration * 1000;
+    let last = start;
+
+    for (let now = start; now < end; now = await nextFrame()) {
+      ctx.time = (now - start) / 1000;
+      ctx.deltaTime = (now - last) / 1000;
+      const renderStart = performance.now();
+      demo.render(ctx);
+      const cpuTime = performance.now() - renderStart;
+
+      if (now >= measureFrom) {
+        const stats = demo.getStats();
+        frameTimes.push(cpuTime + (stats.gpuTime ?? 0));
+        cpuTotal += cpuTime;
+        drawCalls += stats.drawCalls;
+        triangles += stats.triangles;
+        if (stats.gpuTime !== undefined) {
+          gpuTotal += stats.gpuTime;
+          gpuSamples++;
+        }
+      }
+      last = now;
+    }
+
+    const frames = frameTimes.length;
+    const frameTime = summarize(frameTimes);
+    return {
+      demoId,
+      quality,
+      frames,
+      fps: frameTime.mean > 0 ? 1000 / frameTime.mean : 0,
+      frameTime,
+      cpuTime: frames > 0 ? cpuTotal / frames : 0,
+      drawCalls: frames > 0 ? drawCalls / frames : 0,
+      triangles: frames > 0 ? triangles / frames : 0,
+      gpuTime: gpuSamples > 0 ? gpuTotal / gpuSamples : null,
+      error: null,
+    };
+  } finally {
+    demo.destroy();
+    textures.destroy();
+  }
+}
+
+function nextFrame(): Promise<number> {
+  return new Promise((resolve) => requestAnimationFrame(resolve));
+}
+
+function summarize(values: number[]): FrameTimeSummary {
+  if (values.length === 0) {
+    return { mean: 0, p50: 0, p95: 0, p99: 0, max: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  return {
+    mean,
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    p99: percentile(sorted, 0.99),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+function failedResult(demoId: string, quality: QualityLevel, error: string): BenchmarkResult {
+  return {
+    demoId,
+    quality,
+    frames: 0,
+    fps: 0,
+    frameTime: summarize([]),
+    cpuTime: 0,
+    drawCalls: 0,
+    triangles: 0,
+    gpuTime: null,
+    error,
+  };
+}
+
+function getRendererName(gl: WebGL2RenderingContext): string {
+  const ext = gl.getExtension('WEBGL_debug_renderer_info');
+  const renderer = ext ? gl.getParameter(ext.UNMASKED_RENDERER_WEBGL) : gl.getParameter(gl.RENDERER);
+  return String(renderer);
+}
+
+function relativeChange(value: number, base: number): number {
+  return base === 0 ? 0 : (value - base) / base;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,357 @@
+/**
+ * Camera Controller
+ *
+ * Orbit and fly camera driven by DemoContext input, producing the view and
+ * projection matrices 3D demos draw with.
+ *
+ * Orbit: drag to rotate around the target, right/middle drag or two
+ * fingers to pan, wheel or pinch to dolly. Fly: drag to look around,
+ * WASD to move, Q/E to sink/rise, Shift to go faster, wheel to move
+ * forward. Movement eases toward where the input put it.
+ *
+ * Until the user touches it the camera follows the demo's auto-orbit path,
+ * a pure function of the time it's given, so snapshots and recordings are
+ * reproducible. After an interaction it stays put, and in orbit mode it
+ * starts circling again from wherever it is once input has been idle for
+ * a few seconds. reset() returns it to the auto-orbit path.
+ *
+ * A camera path of two or more keyframes replaces the auto-orbit: the
+ * camera follows a Catmull-Rom spline through the keyframe poses, timed by
+ * the timeline (ctx.time), so it can be scrubbed and recorded. flyTo()
+ * eases to a bookmarked pose over wall-clock time.
+ */
+
+import { mat4, vec3 } from 'gl-matrix';
+import type { CameraKeyframe, CameraPose, DemoCamera, DemoContext } from './types';
+
+export type CameraMode = 'orbit' | 'fly';
+
+/** Time-driven path followed until the user takes over */
+export interface AutoOrbit {
+  radius: number;      // Horizontal distance from the target
+  speed: number;       // Radians per second around the target
+  height?: number;     // Height above the target
+  bob?: number;        // Amplitude of a vertical swing
+  bobSpeed?: number;   // Radians per second of the swing
+}
+
+export interface CameraOptions {
+  autoOrbit: AutoOrbit;
+  target?: [number, number, number];
+  fov?: number;        // Vertical, radians
+  near?: number;
+  far?: number;
+}
+
+interface Pose {
+  target: vec3;
+  yaw: number;         // Around +Y; 0 looks down -Z from +Z
+  pitch: number;       // Positive puts the eye above the target
+  distance: number;    // Eye to target
+}
+
+// Radians per canvas width/height of drag
+const ROTATE_SPEED = Math.PI * 2;
+const MAX_PITCH = Math.PI / 2 - 0.01;
+// How quickly the camera closes on the input-driven pose, per second
+const DAMPING = 12;
+// Seconds without input before orbit mode starts circling again
+const AUTO_RESUME_DELAY = 5;
+// Fly speed in orbit radii per second, and the Shift multiplier
+const FLY_SPEED = 0.5;
+const FLY_BOOST = 3;
+// Wall-clock deltas are capped so a stalled tab doesn't teleport the camera
+const MAX_DELTA = 0.1;
+// Pointer buttons that pan instead of rotating: right and middle
+const PAN_BUTTONS = 2 | 4;
+
+interface Transition {
+  from: Pose;
+  to: Pose;
+  start: number;       // performance.now()
+  duration: number;    // Seconds
+}
+
+export class CameraController implements DemoCamera {
+  readonly view = mat4.create();
+  readonly projection = mat4.create();
+  /** Eye position, e.g. for specular lighting */
+  readonly position = vec3.create();
+
+  private options: CameraOptions;
+  private fov: number;
+  private near: number;
+  private far: number;
+  private mode: CameraMode = 'orbit';
+  private current: Pose;
+  private goal: Pose;
+  private manual = false;
+  private lastInput = 0;
+  private lastUpdate: number | null = null;
+  private lastAutoTime: number | null = null;
+  private path: CameraKeyframe[] = [];
+  private transition: Transition | null = null;
+
+  constructor(options: CameraOptions) {
+    this.options = options;
+    this.fov = options.fov ?? Math.PI / 4;
+    this.near = options.near ?? 0.1;
+    this.far = options.far ?? 100;
+    this.current = this.getAutoPose(0);
+    this.goal = clonePose(this.current);
+  }
+
+  getMode(): CameraMode {
+    return this.mode;
+  }
+
+  /** Switch modes, keeping the current view */
+  setMode(mode: CameraMode): void {
+    if (mode === this.mode) return;
+    this.mode = mode;
+    this.manual = true;
+    this.goal = clonePose(this.current);
+  }
+
+  /** Back to the auto-orbit (or camera) path, in orbit mode */
+  reset(): void {
+    this.mode = 'orbit';
+    this.manual = false;
+    this.transition = null;
+  }
+
+  getPose(): CameraPose {
+    const { target, yaw, pitch, distance } = this.current;
+    return { target: [target[0], target[1], target[2]], yaw, pitch, distance };
+  }
+
+  flyTo(pose: CameraPose, duration: number): void {
+    this.manual = true;
+    this.transition = {
+      from: clonePose(this.current),
+      to: fromCameraPose(pose),
+      start: performance.now(),
+      duration,
+    };
+  }
+
+  setPath(keyframes: CameraKeyframe[]): void {
+    this.path = keyframes.length > 1 ? [...keyframes].sort((a, b) => a.time - b.time) : [];
+    // A new path takes over from wherever the user left the camera
+    if (this.path.length > 0) {
+      this.manual = false;
+      this.transition = null;
+    }
+  }
+
+  /**
+   * Apply this frame's input and rebuild the matrices
+   * autoTime drives the auto-orbit path; demos pass their (speed-scaled)
+   * animation time. aspect defaults to the canvas's.
+   */
+  update(ctx: DemoContext, autoTime: number, aspect = ctx.width / ctx.height): void {
+    const now = performance.now();
+    const dt = this.lastUpdate === null ? 0 : Math.min(MAX_DELTA, (now - this.lastUpdate) / 1000);
+    this.lastUpdate = now;
+
+    if (this.hasInput(ctx)) {
+      this.transition = null;
+      if (!this.manual) {
+        this.manual = true;
+        this.goal = clonePose(this.current);
+      }
+      this.applyInput(ctx, dt);
+      this.lastInput = now;
+    }
+
+    if (this.transition) {
+      const { from, to, start, duration } = this.transition;
+      const t = duration > 0 ? Math.min(1, (now - start) / 1000 / duration) : 1;
+      this.current = interpolatePose(from, to, t * t * (3 - 2 * t));
+      this.goal = clonePose(this.current);
+      if (t >= 1) {
+        this.transition = null;
+        this.lastInput = now;
+      }
+    } else if (!this.manual) {
+      this.current = this.path.length > 0 ? samplePath(this.path, ctx.time) : this.getAutoPose(autoTime);
+      this.goal = clonePose(this.current);
+    } else {
+      // Pick the orbit back up from here once the user lets go for a while;
+      // a camera path only resumes through reset() or a new path
+      const idle = (now - this.lastInput) / 1000 > AUTO_RESUME_DELAY;
+      if (idle && this.mode === 'orbit' && this.path.length === 0 && this.lastAutoTime !== null) {
+        this.goal.yaw += (autoTime - this.lastAutoTime) * this.options.autoOrbit.speed;
+      }
+      const t = 1 - Math.exp(-dt * DAMPING);
+      vec3.lerp(this.current.target, this.current.target, this.goal.target, t);
+      this.current.yaw += (this.goal.yaw - this.current.yaw) * t;
+      this.current.pitch += (this.goal.pitch - this.current.pitch) * t;
+      this.current.distance += (this.goal.distance - this.current.distance) * t;
+    }
+    this.lastAutoTime = autoTime;
+
+    const { target, distance } = this.current;
+    vec3.scaleAndAdd(this.position, target, getOffset(this.current), distance);
+    mat4.lookAt(this.view, this.position, target, [0, 1, 0]);
+    mat4.perspective(this.projection, this.fov, aspect, this.near, this.far);
+  }
+
+  /** Held pointers count too, so holding still doesn't resume the orbit */
+  private hasInput(ctx: DemoContext): boolean {
+    return (
+      ctx.pointers.some((pointer) => pointer.buttons !== 0) ||
+      ctx.zoomDelta !== 0 ||
+      (this.mode === 'fly' && getFlyDirection(ctx.keys) !== null)
+    );
+  }
+
+  /** Move the goal pose by this frame's input */
+  private applyInput(ctx: DemoContext, dt: number): void {
+    const goal = this.goal;
+    const held = ctx.pointers.filter((pointer) => pointer.buttons !== 0);
+    const dragging = held.length > 0 && (ctx.dragX !== 0 || ctx.dragY !== 0);
+    const panning = held.length > 1 || held.some((pointer) => (pointer.buttons & PAN_BUTTONS) !== 0);
+    if (dragging && panning && this.mode === 'orbit') {
+      // Keep the point under the pointer under it: scale by the view's size at the target
+      const height = 2 * goal.distance * Math.tan(this.fov / 2);
+      const width = height * (ctx.width / Math.max(1, ctx.height));
+      const { right, up } = getBasis(goal);
+      vec3.scaleAndAdd(goal.target, goal.target, right, -ctx.dragX * width);
+      vec3.scaleAndAdd(goal.target, goal.target, up, -ctx.dragY * height);
+    } else if (dragging) {
+      const eye = this.mode === 'fly' ? getEye(goal) : null;
+      goal.yaw -= ctx.dragX * ROTATE_SPEED;
+      goal.pitch = Math.max(-MAX_PITCH, Math.min(MAX_PITCH, goal.pitch - ctx.dragY * ROTATE_SPEED * 0.5));
+      // Flying looks around from the eye rather than around the target
+      if (eye) vec3.scaleAndAdd(goal.target, eye, getOffset(goal), -goal.distance);
+    }
+
+    if (ctx.zoomDelta !== 0) {
+      if (this.mode === 'orbit') {
+        const radius = this.options.autoOrbit.radius;
+        goal.distance = Math.max(radius * 0.05, Math.min(radius * 10, goal.distance * Math.exp(-ctx.zoomDelta)));
+      } else {
+        vec3.scaleAndAdd(goal.target, goal.target, getBasis(goal).forward, ctx.zoomDelta * goal.distance);
+      }
+    }
+
+    const direction = this.mode === 'fly' ? getFlyDirection(ctx.keys) : null;
+    if (direction) {
+      const boost = ctx.keys.has('ShiftLeft') || ctx.keys.has('ShiftRight') ? FLY_BOOST : 1;
+      const step = FLY_SPEED * this.options.autoOrbit.radius * boost * dt;
+      const { right, forward } = getBasis(goal);
+      vec3.scaleAndAdd(goal.target, goal.target, right, direction[0] * step);
+      vec3.scaleAndAdd(goal.target, goal.target, [0, 1, 0], direction[1] * step);
+      vec3.scaleAndAdd(goal.target, goal.target, forward, direction[2] * step);
+    }
+  }
+
+  private getAutoPose(time: number): Pose {
+    const { radius, speed, height = 0, bob = 0, bobSpeed = 0 } = this.options.autoOrbit;
+    const y = height + Math.sin(time * bobSpeed) * bob;
+    return {
+      target: vec3.fromValues(...(this.options.target ?? [0, 0, 0])),
+      yaw: time * speed,
+      pitch: Math.atan2(y, radius),
+      distance: Math.hypot(radius, y),
+    };
+  }
+}
+
+function clonePose(pose: Pose): Pose {
+  return { ...pose, target: vec3.clone(pose.target) };
+}
+
+function fromCameraPose(pose: CameraPose): Pose {
+  return { ...pose, target: vec3.fromValues(...pose.target) };
+}
+
+/** Yaw plus a whole number of turns, whichever is closest to reference */
+function nearestYaw(yaw: number, reference: number): number {
+  const turn = Math.PI * 2;
+  return yaw + Math.round((reference - yaw) / turn) * turn;
+}
+
+/** Blend two poses, turning the short way round and zooming evenly */
+function interpolatePose(a: Pose, b: Pose, t: number): Pose {
+  const yaw = nearestYaw(b.yaw, a.yaw);
+  return {
+    target: vec3.lerp(vec3.create(), a.target, b.target, t),
+    yaw: a.yaw + (yaw - a.yaw) * t,
+    pitch: a.pitch + (b.pitch - a.pitch) * t,
+    distance: a.distance * Math.pow(b.distance / a.distance, t),
+  };
+}
+
+/**
+ * Pose on a Catmull-Rom spline through the keyframes (at least two, sorted)
+ * Holds the first and last poses outside the keyframes' time range.
+ */
+function samplePath(keyframes: CameraKeyframe[], time: number): Pose {
+  // Target xyz, yaw, pitch and log distance, with yaw unwrapped so the
+  // spline never spins the long way round between neighbours
+  const points: number[][] = [];
+  for (const { pose } of keyframes) {
+    const previous = points[points.length - 1];
+    const yaw = previous ? nearestYaw(pose.yaw, previous[3]) : pose.yaw;
+    points.push([...pose.target, yaw, pose.pitch, Math.log(pose.distance)]);
+  }
+
+  let index = 0;
+  while (index < keyframes.length - 2 && time >= keyframes[index + 1].time) index++;
+  const t0 = keyframes[index].time;
+  const t1 = keyframes[index + 1].time;
+  const t = t1 > t0 ? Math.max(0, Math.min(1, (time - t0) / (t1 - t0))) : 1;
+
+  const p0 = points[Math.max(0, index - 1)];
+  const p1 = points[index];
+  const p2 = points[index + 1];
+  const p3 = points[Math.min(points.length - 1, index + 2)];
+  const value = p1.map((_, i) => catmullRom(p0[i], p1[i], p2[i], p3[i], t));
+  return {
+    target: vec3.fromValues(value[0], value[1], value[2]),
+    yaw: value[3],
+    pitch: Math.max(-MAX_PITCH, Math.min(MAX_PITCH, value[4])),
+    distance: Math.exp(value[5]),
+  };
+}
+
+function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return 0.5 * (
+    2 * p1 +
+    (p2 - p0) * t +
+    (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 +
+    (3 * p1 - p0 - 3 * p2 + p3) * t3
+  );
+}
+
+/** Unit vector from the target to the eye */
+function getOffset(pose: Pose): vec3 {
+  const cosPitch = Math.cos(pose.pitch);
+  return vec3.fromValues(Math.sin(pose.yaw) * cosPitch, Math.sin(pose.pitch), Math.cos(pose.yaw) * cosPitch);
+}
+
+function getEye(pose: Pose): vec3 {
+  return vec3.scaleAndAdd(vec3.create(), pose.target, getOffset(pose), pose.distance);
+}
+
+function getBasis(pose: Pose): { forward: vec3; right: vec3; up: vec3 } {
+  const forward = vec3.negate(vec3.create(), getOffset(pose));
+  const right = vec3.normalize(vec3.create(), vec3.cross(vec3.create(), forward, [0, 1, 0]));
+  const up = vec3.cross(vec3.create(), right, forward);
+  return { forward, right, up };
+}
+
+/** Right, up and forward amounts from WASD/QE, or null when none are held */
+function getFlyDirection(keys: ReadonlySet<string>): [number, number, number] | null {
+  const axis = (positive: string, negative: string) => (keys.has(positive) ? 1 : 0) - (keys.has(negative) ? 1 : 0);
+  const direction: [number, number, number] = [
+    axis('KeyD', 'KeyA'),
+    axis('KeyE', 'KeyQ'),
+    axis('KeyW', 'KeyS'),
+  ];
+  return direction.some((amount) => amount !== 0) ? direction : null;
+}
@@ -0,0 +1,102 @@
+/**
+ * Playback Clock
+ *
+ * Turns wall-clock time into a controllable timeline for demos:
+ * play/pause, single-frame steps, playback rate and seeking.
+ * Stepping back or seeking only changes the time demos are given;
+ * simulations that accumulate state frame by frame won't rewind.
+ */
+
+export interface ClockFrame {
+  time: number;        // Seconds on the timeline
+  deltaTime: number;   // Seconds since the previous frame, scaled by rate
+  changed: boolean;    // False while paused with nothing new to show
+}
+
+export const FRAME_STEP = 1 / 60;
+export const MIN_PLAYBACK_RATE = 0.25;
+export const MAX_PLAYBACK_RATE = 4;
+
+// Cap wall-clock deltas to avoid jumps after tab switches or hitches
+const MAX_DELTA = 0.1;
+
+export class PlaybackClock {
+  private time = 0;
+  private rate = 1;
+  private playing = true;
+  private lastNow: number | null = null;
+  private pendingDelta: number | null = 0; // Show the first frame even if paused
+
+  /**
+   * Advance the clock to the given performance.now() timestamp
+   */
+  tick(now: number): ClockFrame {
+    // A step or seek is shown exactly once, playing or not
+    if (this.pendingDelta !== null) {
+      const deltaTime = this.pendingDelta;
+      this.pendingDelta = null;
+      this.lastNow = this.playing ? now : null;
+      return { time: this.time, deltaTime, changed: true };
+    }
+
+    if (!this.playing) {
+      return { time: this.time, deltaTime: 0, changed: false };
+    }
+
+    const elapsed = this.lastNow === null ? 0 : (now - this.lastNow) / 1000;
+    this.lastNow = now;
+    const deltaTime = Math.min(elapsed, MAX_DELTA) * this.rate;
+    this.time += deltaTime;
+    return { time: this.time, deltaTime, changed: true };
+  }
+
+  play(): void {
+    if (this.playing) return;
+    this.playing = true;
+    this.lastNow = null;
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.lastNow = null;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * Move by whole frames of FRAME_STEP; negative steps go back.
+   * Forward steps report FRAME_STEP as deltaTime, backward steps report 0
+   * so simulations never integrate negative time.
+   */
+  step(frames = 1): void {
+    this.time = Math.max(0, this.time + frames * FRAME_STEP);
+    this.pendingDelta = frames > 0 ? frames * FRAME_STEP : 0;
+  }
+
+  /** Jump to a time in seconds; the next frame reports a zero deltaTime */
+  seek(time: number): void {
+    this.time = Math.max(0, time);
+    this.pendingDelta = 0;
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  setRate(rate: number): void {
+    this.rate = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+  }
+
+  getRate(): number {
+    return this.rate;
+  }
+
+  /** Back to t=0 for a fresh demo; rate and play state are kept */
+  reset(): void {
+    this.time = 0;
+    this.lastNow = null;
+    this.pendingDelta = 0;
+  }
+}
@@ -0,0 +1,607 @@
+/**
+ * Environment Maps
+ *
+ * Cubemaps for backgrounds and reflections, made from six face images,
+ * from an equirectangular panorama (PNG/JPEG or Radiance .hdr) reprojected
+ * on the GPU, or from one of the built-in procedural skies. Baked cubemaps
+ * hold linear color in RGBA16F (SRGB8_ALPHA8 without EXT_color_buffer_float)
+ * with a full mip chain, which shaders sample as blurrier reflections.
+ *
+ * EnvironmentMap picks a cubemap by a demo's 'environment' parameter and
+ * sets the uniforms of ENVIRONMENT_GLSL; Skybox draws one as the background.
+ */
+
+import { mat4, type ReadonlyMat4 } from 'gl-matrix';
+import { createProgram, getUniformLocations } from './shader';
+import { parseHdr } from './hdr';
+import type { Cubemap, Panorama } from './types';
+
+// ============================================================================
+// Files
+// ============================================================================
+
+export const PANORAMA_FILE_EXTENSIONS = ['.hdr', '.png', '.jpg', '.jpeg'];
+
+function getExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot >= 0 ? name.slice(dot).toLowerCase() : '';
+}
+
+export function isPanoramaFile(file: File): boolean {
+  return PANORAMA_FILE_EXTENSIONS.includes(getExtension(file.name));
+}
+
+/**
+ * Decode a user-supplied equirectangular panorama
+ * Panoramas wider than MAX_PANORAMA_WIDTH are downscaled to it.
+ */
+export async function loadPanoramaFile(file: File): Promise<Panorama> {
+  const name = file.name;
+  const extension = getExtension(name);
+
+  if (extension === '.hdr') {
+    const { width, height, rgbe } = parseHdr(await file.arrayBuffer());
+    if (width <= MAX_PANORAMA_WIDTH) {
+      return { name, width, height, data: rgbe };
+    }
+    const [scaledWidth, scaledHeight] = getScaledSize(width, height);
+    return {
+      name,
+      width: scaledWidth,
+      height: scaledHeight,
+      data: downscaleRgbe(rgbe, width, height, scaledWidth, scaledHeight),
+    };
+  }
+  if (isPanoramaFile(file)) {
+    let bitmap = await createImageBitmap(file);
+    if (bitmap.width > MAX_PANORAMA_WIDTH) {
+      const [resizeWidth, resizeHeight] = getScaledSize(bitmap.width, bitmap.height);
+      const full = bitmap;
+      try {
+        bitmap = await createImageBitmap(full, { resizeWidth, resizeHeight, resizeQuality: 'high' });
+      } finally {
+        full.close();
+      }
+    }
+    return { name, width: bitmap.width, height: bitmap.height, data: bitmap };
+  }
+  throw new Error(
+    `Unsupported panorama format '${extension || name}' (expected ${PANORAMA_FILE_EXTENSIONS.join(', ')})`
+  );
+}
+
+export function releasePanorama(panorama: Panorama): void {
+  if (panorama.data instanceof ImageBitmap) panorama.data.close();
+}
+
+function getScaledSize(width: number, height: number): [number, number] {
+  return [MAX_PANORAMA_WIDTH, Math.max(1, Math.round((height * MAX_PANORAMA_WIDTH) / width))];
+}
+
+// RGBE texels can't be averaged without decoding them, so pick the nearest
+function downscaleRgbe(
+  rgbe: Uint8Array,
+  width: number,
+  height: number,
+  scaledWidth: number,
+  scaledHeight: number
+): Uint8Array {
+  const scaled = new Uint8Array(scaledWidth * scaledHeight * 4);
+  for (let y = 0; y < scaledHeight; y++) {
+    const row = Math.min(height - 1, Math.floor(((y + 0.5) * height) / scaledHeight)) * width;
+    for (let x = 0; x < scaledWidth; x++) {
+      const column = Math.min(width - 1, Math.floor(((x + 0.5) * width) / scaledWidth));
+      scaled.set(rgbe.subarray((row + column) * 4, (row + column) * 4 + 4), (y * scaledWidth + x) * 4);
+    }
+  }
+  return scaled;
+}
+
+// ============================================================================
+// Cubemaps
+// ============================================================================
+
+export const SKIES = ['day', 'sunset', 'night'];
+
+// Face size for baked environments; skies are smooth enough for less
+const SKY_SIZE = 256;
+const PANORAMA_SIZE = 512;
+// The bake reads at most 4 panorama texels per face texel, and 2048 is also
+// the smallest MAX_TEXTURE_SIZE WebGL2 allows, so wider panoramas are scaled down
+const MAX_PANORAMA_WIDTH = 4 * PANORAMA_SIZE;
+
+/** Load six face images, in GL order: +X, -X, +Y, -Y, +Z, -Z */
+export async function loadCubemap(gl: WebGL2RenderingContext, urls: string[]): Promise<Cubemap> {
+  if (urls.length !== 6) {
+    throw new Error(`A cubemap needs 6 face images, got ${urls.length}`);
+  }
+  const faces = await Promise.all(
+    urls.map(async (url) => {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch cubemap face '${url}': ${response.status} ${response.statusText}`);
+      }
+      return createImageBitmap(await response.blob());
+    })
+  );
+  try {
+    return createCubemapFromImages(gl, faces);
+  } finally {
+    faces.forEach((face) => face.close());
+  }
+}
+
+/** Upload six square face images, in GL order, as an sRGB cubemap with mipmaps */
+export function createCubemapFromImages(gl: WebGL2RenderingContext, faces: ImageBitmap[]): Cubemap {
+  const size = faces[0].width;
+  if (faces.some((face) => face.width !== size || face.height !== size)) {
+    throw new Error('Cubemap faces must be square and all the same size');
+  }
+
+  const levels = getMipLevelCount(size);
+  const texture = createCubemapTexture(gl, levels, gl.SRGB8_ALPHA8, size);
+  faces.forEach((face, i) => {
+    gl.texSubImage2D(gl.TEXTURE_CUBE_MAP_POSITIVE_X + i, 0, 0, 0, gl.RGBA, gl.UNSIGNED_BYTE, face);
+  });
+  gl.generateMipmap(gl.TEXTURE_CUBE_MAP);
+  gl.bindTexture(gl.TEXTURE_CUBE_MAP, null);
+
+  return { texture, size, levels };
+}
+
+/** Render one of SKIES into a new cubemap */
+export function createSkyCubemap(gl: WebGL2RenderingContext, sky: string, size = SKY_SIZE): Cubemap {
+  const mode = SKIES.indexOf(sky);
+  if (mode < 0) {
+    throw new Error(`Unknown sky '${sky}'`);
+  }
+  return bakeCubemap(gl, size, BAKE_MODE_SKY + mode, null, 0);
+}
+
+/** Reproject an equirectangular panorama into a new cubemap */
+export function createPanoramaCubemap(
+  gl: WebGL2RenderingContext,
+  panorama: Panorama,
+  size = PANORAMA_SIZE
+): Cubemap {
+  const { width, height, data } = panorama;
+  const isHdr = data instanceof Uint8Array;
+  const maxSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+  if (width > maxSize || height > maxSize) {
+    throw new Error(`Panorama is ${width}x${height}, larger than this GPU's ${maxSize}px texture limit`);
+  }
+  const source = gl.createTexture();
+  if (!source) {
+    throw new Error('Failed to create texture');
+  }
+
+  try {
+    gl.bindTexture(gl.TEXTURE_2D, source);
+    if (isHdr) {
+      // RGBE can't be filtered before decoding, so fetch it unfiltered
+      gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RGBA8, width, height);
+      gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, data);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    } else {
+      gl.texStorage2D(gl.TEXTURE_2D, getMipLevelCount(Math.max(width, height)), gl.SRGB8_ALPHA8, width, height);
+      gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, gl.RGBA, gl.UNSIGNED_BYTE, data);
+      gl.generateMipmap(gl.TEXTURE_2D);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    }
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.REPEAT);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    // An explicit level: the seam where longitude wraps would otherwise pick the smallest mip
+    const lod = isHdr ? 0 : Math.max(0, Math.log2(width / (4 * size)));
+    return bakeCubemap(gl, size, isHdr ? BAKE_MODE_RGBE : BAKE_MODE_IMAGE, source, lod);
+  } finally {
+    gl.deleteTexture(source);
+  }
+}
+
+function createCubemapTexture(
+  gl: WebGL2RenderingContext,
+  levels: number,
+  internalFormat: number,
+  size: number
+): WebGLTexture {
+  const texture = gl.createTexture();
+  if (!texture) {
+    throw new Error('Failed to create texture');
+  }
+  gl.bindTexture(gl.TEXTURE_CUBE_MAP, texture);
+  gl.texStorage2D(gl.TEXTURE_CUBE_MAP, levels, internalFormat, size, size);
+  gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+  gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return texture;
+}
+
+function getMipLevelCount(size: number): number {
+  return Math.floor(Math.log2(size)) + 1;
+}
+
+// ============================================================================
+// Baking
+// ============================================================================
+
+const BAKE_MODE_IMAGE = 0;
+const BAKE_MODE_RGBE = 1;
+const BAKE_MODE_SKY = 2;   // Followed by the rest of SKIES
+
+const FULLSCREEN_VERTEX_SHADER = `#version 300 es
+out vec2 v_clip;
+
+void main() {
+  // Fullscreen triangle from the vertex index; no buffers needed
+  v_clip = vec2(float((gl_VertexID & 1) << 2) - 1.0, float((gl_VertexID & 2) << 1) - 1.0);
+  gl_Position = vec4(v_clip, 0.0, 1.0);
+}
+`;
+
+const BAKE_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_clip;
+out vec4 fragColor;
+
+uniform int u_face;
+uniform int u_mode;          // 0: image panorama, 1: RGBE panorama, 2+: procedural sky
+uniform sampler2D u_panorama;
+uniform float u_panoramaLod;
+
+const float PI = 3.14159265359;
+
+// World direction through a texel of a cubemap face, per the GL face layout
+vec3 faceDirection(int face, vec2 p) {
+  if (face == 0) return vec3(1.0, -p.y, -p.x);
+  if (face == 1) return vec3(-1.0, -p.y, p.x);
+  if (face == 2) return vec3(p.x, 1.0, p.y);
+  if (face == 3) return vec3(p.x, -1.0, -p.y);
+  if (face == 4) return vec3(p.x, -p.y, 1.0);
+  return vec3(-p.x, -p.y, -1.0);
+}
+
+vec3 samplePanorama(vec3 d) {
+  vec2 uv = vec2(atan(d.z, d.x) / (2.0 * PI) + 0.5, acos(clamp(d.y, -1.0, 1.0)) / PI);
+  vec4 texel = textureLod(u_panorama, uv, u_panoramaLod);
+  if (u_mode == 0) return texel.rgb;
+
+  // RGBE: 8-bit mantissas sharing an exponent biased by 128
+  if (texel.a == 0.0) return vec3(0.0);
+  return (texel.rgb * 255.0 + 0.5) * exp2(texel.a * 255.0 - 136.0);
+}
+
+float hash(vec3 p) {
+  return fract(sin(dot(p, vec3(127.1, 311.7, 74.7))) * 43758.5453);
+}
+
+vec3 sun(vec3 d, vec3 dir, vec3 color, float size) {
+  float cosine = max(dot(d, dir), 0.0);
+  return color * (smoothstep(1.0 - size, 1.0 - size * 0.5, cosine) * 40.0 + pow(cosine, 8.0) * 0.4);
+}
+
+vec3 ground(vec3 d, vec3 horizon, vec3 color) {
+  return mix(horizon, color, smoothstep(0.0, -0.15, d.y));
+}
+
+vec3 daySky(vec3 d) {
+  vec3 horizon = vec3(0.65, 0.78, 0.95);
+  vec3 col = mix(horizon, vec3(0.1, 0.3, 0.8), pow(max(d.y, 0.0), 0.5));
+  if (d.y < 0.0) col = ground(d, horizon, vec3(0.2, 0.18, 0.15));
+  return col + sun(d, normalize(vec3(0.5, 0.6, -0.6)), vec3(1.0, 0.95, 0.85), 0.0008);
+}
+
+vec3 sunsetSky(vec3 d) {
+  vec3 horizon = vec3(1.2, 0.45, 0.15);
+  vec3 col = mix(horizon, vec3(0.15, 0.12, 0.35), pow(max(d.y, 0.0), 0.4));
+  if (d.y < 0.0) col = ground(d, horizon * 0.4, vec3(0.08, 0.05, 0.06));
+  return col + sun(d, normalize(vec3(-0.8, 0.06, -0.6)), vec3(1.0, 0.55, 0.2), 0.0012);
+}
+
+vec3 nightSky(vec3 d) {
+  vec3 horizon = vec3(0.04, 0.06, 0.12);
+  vec3 col = mix(horizon, vec3(0.005, 0.008, 0.02), pow(max(d.y, 0.0), 0.6));
+  if (d.y < 0.0) return ground(d, horizon, vec3(0.01));
+
+  // Stars on a fine direction grid
+  vec3 cell = floor(d * 300.0);
+  float star = step(0.998, hash(cell)) * hash(cell + 1.0) * 3.0;
+  col += vec3(star) * smoothstep(0.0, 0.2, d.y);
+  return col + sun(d, normalize(vec3(0.4, 0.5, 0.7)), vec3(0.7, 0.75, 0.9), 0.0004) * 0.5;
+}
+
+void main() {
+  vec3 d = normalize(faceDirection(u_face, v_clip));
+
+  vec3 col;
+  if (u_mode <= 1) col = samplePanorama(d);
+  else if (u_mode == 2) col = daySky(d);
+  else if (u_mode == 3) col = sunsetSky(d);
+  else col = nightSky(d);
+
+  fragColor = vec4(col, 1.0);
+}
+`;
+
+interface SavedState {
+  framebuffer: WebGLFramebuffer | null;
+  viewport: Int32Array;
+  program: WebGLProgram | null;
+  vao: WebGLVertexArrayObject | null;
+  activeTexture: number;
+  texture2D: WebGLTexture | null;
+  textureCube: WebGLTexture | null;
+  blend: boolean;
+  depthTest: boolean;
+  scissorTest: boolean;
+  cullFace: boolean;
+}
+
+// Baking can happen mid-frame, so leave the demo's bindings as they were
+function saveState(gl: WebGL2RenderingContext): SavedState {
+  const activeTexture = gl.getParameter(gl.ACTIVE_TEXTURE) as number;
+  gl.activeTexture(gl.TEXTURE0);
+  return {
+    framebuffer: gl.getParameter(gl.DRAW_FRAMEBUFFER_BINDING) as WebGLFramebuffer | null,
+    viewport: gl.getParameter(gl.VIEWPORT) as Int32Array,
+    program: gl.getParameter(gl.CURRENT_PROGRAM) as WebGLProgram | null,
+    vao: gl.getParameter(gl.VERTEX_ARRAY_BINDING) as WebGLVertexArrayObject | null,
+    activeTexture,
+    texture2D: gl.getParameter(gl.TEXTURE_BINDING_2D) as WebGLTexture | null,
+    textureCube: gl.getParameter(gl.TEXTURE_BINDING_CUBE_MAP) as WebGLTexture | null,
+    blend: gl.isEnabled(gl.BLEND),
+    depthTest: gl.isEnabled(gl.DEPTH_TEST),
+    scissorTest: gl.isEnabled(gl.SCISSOR_TEST),
+    cullFace: gl.isEnabled(gl.CULL_FACE),
+  };
+}
+
+function restoreState(gl: WebGL2RenderingContext, saved: SavedState): void {
+  gl.bindTexture(gl.TEXTURE_2D, saved.texture2D);
+  gl.bindTexture(gl.TEXTURE_CUBE_MAP, saved.textureCube);
+  gl.activeTexture(saved.activeTexture);
+  gl.bindVertexArray(saved.vao);
+  gl.useProgram(saved.program);
+  gl.viewport(saved.viewport[0], saved.viewport[1], saved.viewport[2], saved.viewport[3]);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, saved.framebuffer);
+  if (saved.blend) gl.enable(gl.BLEND);
+  if (saved.depthTest) gl.enable(gl.DEPTH_TEST);
+  if (saved.scissorTest) gl.enable(gl.SCISSOR_TEST);
+  if (saved.cullFace) gl.enable(gl.CULL_FACE);
+}
+
+// Render the bake shader into each face of a new cubemap, then build its mips
+function bakeCubemap(
+  gl: WebGL2RenderingContext,
+  size: number,
+  mode: number,
+  panorama: WebGLTexture | null,
+  panoramaLod: number
+): Cubemap {
+  const saved = saveState(gl);
+  const hdr = gl.getExtension('EXT_color_buffer_float') !== null;
+  const levels = getMipLevelCount(size);
+  const texture = createCubemapTexture(gl, levels, hdr ? gl.RGBA16F : gl.SRGB8_ALPHA8, size);
+  // Not bound while rendering into it
+  gl.bindTexture(gl.TEXTURE_CUBE_MAP, null);
+
+  const program = createProgram(gl, FULLSCREEN_VERTEX_SHADER, BAKE_FRAGMENT_SHADER, { name: 'environment-bake' });
+  const framebuffer = gl.createFramebuffer();
+  const vao = gl.createVertexArray();
+  try {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.viewport(0, 0, size, size);
+    gl.disable(gl.BLEND);
+    gl.disable(gl.DEPTH_TEST);
+    gl.disable(gl.SCISSOR_TEST);
+    gl.disable(gl.CULL_FACE);
+
+    gl.useProgram(program);
+    gl.bindVertexArray(vao);
+    gl.bindTexture(gl.TEXTURE_2D, panorama);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_panorama'), 0);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_panoramaLod'), panoramaLod);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_mode'), mode);
+    const faceLocation = gl.getUniformLocation(program, 'u_face');
+
+    for (let face = 0; face < 6; face++) {
+      gl.framebufferTexture2D(
+        gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_CUBE_MAP_POSITIVE_X + face, texture, 0
+      );
+      gl.uniform1i(faceLocation, face);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+    }
+
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, texture);
+    gl.generateMipmap(gl.TEXTURE_CUBE_MAP);
+  } catch (err) {
+    gl.deleteTexture(texture);
+    throw err;
+  } finally {
+    gl.deleteFramebuffer(framebuffer);
+    gl.deleteVertexArray(vao);
+    gl.deleteProgram(program);
+    restoreState(gl, saved);
+  }
+
+  return { texture, size, levels };
+}
+
+// ============================================================================
+// Shading
+// ============================================================================
+
+/** Uniforms declared by ENVIRONMENT_GLSL, for getUniformLocations */
+export const ENVIRONMENT_UNIFORMS = ['u_environment', 'u_useEnvironment', 'u_environmentLod'];
+
+/**
+ * GLSL for lighting from an environment cubemap, pasted into a fragment shader
+ * Roughness 0 samples the sharp level as a mirror; 1 samples the 1x1 level,
+ * the environment's average, which stands in for diffuse irradiance.
+ */
+export const ENVIRONMENT_GLSL = `uniform samplerCube u_environment;
+uniform bool u_useEnvironment;
+uniform float u_environmentLod;
+
+vec3 sampleEnvironment(vec3 dir, float roughness) {
+  return textureLod(u_environment, dir, roughness * u_environmentLod).rgb;
+}`;
+
+/**
+ * The cubemaps one demo can show, chosen by its 'environment' parameter
+ * 'none' is off, SKIES are baked on first use and 'panorama' is baked from
+ * the user's panorama once one is set. Cubemaps stay cached until destroy().
+ */
+export class EnvironmentMap {
+  private gl: WebGL2RenderingContext;
+  private cubemaps = new Map<string, Cubemap | null>();   // null: baking failed
+  private panorama: Panorama | null = null;
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+  }
+
+  setPanorama(panorama: Panorama | null): void {
+    const baked = this.cubemaps.get('panorama');
+    if (baked) this.gl.deleteTexture(baked.texture);
+    this.cubemaps.delete('panorama');
+    this.panorama = panorama;
+  }
+
+  /** The cubemap for a parameter value, or null when there is none to show */
+  get(name: string): Cubemap | null {
+    if (this.cubemaps.has(name)) return this.cubemaps.get(name) ?? null;
+
+    let cubemap: Cubemap | null = null;
+    try {
+      if (name === 'panorama') {
+        if (!this.panorama) return null;
+        cubemap = createPanoramaCubemap(this.gl, this.panorama);
+      } else if (SKIES.includes(name)) {
+        cubemap = createSkyCubemap(this.gl, name);
+      } else {
+        return null;
+      }
+    } catch (err) {
+      console.warn(`Failed to create environment '${name}':`, err);
+    }
+    this.cubemaps.set(name, cubemap);
+    return cubemap;
+  }
+
+  /**
+   * Bind the named cubemap and set ENVIRONMENT_UNIFORMS
+   * Returns the cubemap, or null if the environment is off.
+   */
+  apply(
+    uniforms: Record<string, WebGLUniformLocation | null>,
+    name: string,
+    unit = 0
+  ): Cubemap | null {
+    const gl = this.gl;
+    const cubemap = this.get(name);
+
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, cubemap?.texture ?? null);
+    gl.uniform1i(uniforms.u_environment, unit);
+    gl.uniform1i(uniforms.u_useEnvironment, cubemap ? 1 : 0);
+    if (cubemap) gl.uniform1f(uniforms.u_environmentLod, cubemap.levels - 1);
+    return cubemap;
+  }
+
+  destroy(): void {
+    for (const cubemap of this.cubemaps.values()) {
+      if (cubemap) this.gl.deleteTexture(cubemap.texture);
+    }
+    this.cubemaps.clear();
+  }
+}
+
+// ============================================================================
+// Skybox
+// ============================================================================
+
+export interface SkyboxOptions {
+  gamma?: boolean;   // Encode for display; off when a later pass tone maps (default true)
+  blur?: number;     // 0 = sharpest mip, 1 = the 1x1 average (default 0)
+}
+
+const SKYBOX_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_clip;
+out vec4 fragColor;
+
+uniform samplerCube u_environment;
+uniform mat4 u_inverseViewProjection;
+uniform float u_lod;
+uniform bool u_gamma;
+
+void main() {
+  vec4 world = u_inverseViewProjection * vec4(v_clip, 1.0, 1.0);
+  vec3 color = textureLod(u_environment, normalize(world.xyz / world.w), u_lod).rgb;
+  fragColor = vec4(u_gamma ? pow(color, vec3(1.0 / 2.2)) : color, 1.0);
+}
+`;
+
+/** Draws a cubemap as an infinitely distant background */
+export class Skybox {
+  private gl: WebGL2RenderingContext;
+  private program: WebGLProgram;
+  private vao: WebGLVertexArrayObject | null;
+  private uniforms: Record<string, WebGLUniformLocation | null>;
+  private inverseViewProjection = mat4.create();
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+    this.program = createProgram(gl, FULLSCREEN_VERTEX_SHADER, SKYBOX_FRAGMENT_SHADER, { name: 'skybox' });
+    this.vao = gl.createVertexArray();
+    this.uniforms = getUniformLocations(gl, this.program, [
+      'u_environment', 'u_inverseViewProjection', 'u_lod', 'u_gamma',
+    ]);
+  }
+
+  /**
+   * Fill the viewport with the cubemap as seen through a camera
+   * Draw it first: it neither tests nor writes depth. Leaves its program
+   * bound and the cubemap on texture unit 0.
+   */
+  draw(cubemap: Cubemap, view: ReadonlyMat4, projection: ReadonlyMat4, options: SkyboxOptions = {}): void {
+    const gl = this.gl;
+
+    // Rotation only, so the sky never moves with the camera
+    const matrix = this.inverseViewProjection;
+    mat4.copy(matrix, view);
+    matrix[12] = 0;
+    matrix[13] = 0;
+    matrix[14] = 0;
+    mat4.multiply(matrix, projection, matrix);
+    mat4.invert(matrix, matrix);
+
+    const depthTest = gl.isEnabled(gl.DEPTH_TEST);
+    gl.disable(gl.DEPTH_TEST);
+
+    gl.useProgram(this.program);
+    gl.bindVertexArray(this.vao);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, cubemap.texture);
+    gl.uniform1i(this.uniforms.u_environment, 0);
+    gl.uniformMatrix4fv(this.uniforms.u_inverseViewProjection, false, matrix);
+    gl.uniform1f(this.uniforms.u_lod, (options.blur ?? 0) * (cubemap.levels - 1));
+    gl.uniform1i(this.uniforms.u_gamma, (options.gamma ?? true) ? 1 : 0);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+    gl.bindVertexArray(null);
+    if (depthTest) gl.enable(gl.DEPTH_TEST);
+  }
+
+  destroy(): void {
+    this.gl.deleteProgram(this.program);
+    if (this.vao) this.gl.deleteVertexArray(this.vao);
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * Frame Capture
+ *
+ * Records every GL call a demo makes during one render(ctx), with its
+ * arguments, and snapshots the bound state and the render target after
+ * each draw call, so a frame can be stepped through draw by draw.
+ *
+ * Like the other debugging proxies, the capture wraps the context handed
+ * to the demo. Outside a capture every call passes straight through.
+ * Programs are labelled with the names given to createProgram; other
+ * objects get a number per kind in the order the capture first sees them.
+ */
+
+import { getProgramName } from './shader';
+
+type Method = (...args: unknown[]) => unknown;
+
+export interface CapturedImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;     // RGBA, top row first
+}
+
+/** State bound when a draw call was made */
+export interface DrawCallState {
+  program: string;
+  framebuffer: string;         // 'canvas' for the default framebuffer
+  vertexArray: string;
+  viewport: [number, number, number, number];
+  textures: string[];          // 'unit: texture' for each bound 2D texture
+  blend: boolean;
+  depthTest: boolean;
+  image: CapturedImage | null; // Render target contents right after the draw
+}
+
+export interface CapturedCall {
+  index: number;
+  name: string;
+  args: string[];
+  draw: DrawCallState | null;  // Set for draw calls
+}
+
+export interface FrameCaptureResult {
+  label: string;
+  timestamp: number;
+  calls: CapturedCall[];
+  drawCount: number;
+}
+
+const DRAW_METHODS = new Set([
+  'drawArrays',
+  'drawElements',
+  'drawArraysInstanced',
+  'drawElementsInstanced',
+  'drawRangeElements',
+]);
+
+// Argument positions that hold enums, per method
+const ENUM_ARGS: Record<string, number[]> = {
+  drawArrays: [0],
+  drawArraysInstanced: [0],
+  drawElements: [0, 2],
+  drawElementsInstanced: [0, 2],
+  drawRangeElements: [0, 4],
+  enable: [0],
+  disable: [0],
+  blendFunc: [0, 1],
+  blendFuncSeparate: [0, 1, 2, 3],
+  blendEquation: [0],
+  depthFunc: [0],
+  cullFace: [0],
+  activeTexture: [0],
+  bindTexture: [0],
+  bindBuffer: [0],
+  bindBufferBase: [0],
+  bindFramebuffer: [0],
+  bindRenderbuffer: [0],
+  bindTransformFeedback: [0],
+  beginTransformFeedback: [0],
+  bufferData: [0, 2],
+  bufferSubData: [0],
+  texParameteri: [0, 1, 2],
+  texImage2D: [0, 2, 6, 7],
+  texSubImage2D: [0, 6, 7],
+  framebufferTexture2D: [0, 1, 2],
+  vertexAttribPointer: [2],
+  vertexAttribIPointer: [2],
+  pixelStorei: [0],
+};
+
+// Largest side of a captured render target thumbnail
+const THUMBNAIL_SIZE = 256;
+// Texture units listed in the draw state
+const MAX_LISTED_UNITS = 8;
+
+let enumNames: Map<number, string> | null = null;
+
+function getEnumName(value: number): string | null {
+  if (!enumNames) {
+    enumNames = new Map();
+    for (const key of Object.keys(WebGL2RenderingContext)) {
+      const constant = (WebGL2RenderingContext as unknown as Record<string, unknown>)[key];
+      // Several names share a value (e.g. NONE, ZERO, POINTS); keep the first
+      if (/^[A-Z0-9_]+$/.test(key) && typeof constant === 'number' && !enumNames.has(constant)) {
+        enumNames.set(constant, key);
+      }
+    }
+  }
+  return enumNames.get(value) ?? null;
+}
+
+export class FrameCapture {
+  /** Context to hand to the demo */
+  readonly gl: WebGL2RenderingContext;
+  readonly label: string;
+  private target: WebGL2RenderingContext;
+  private methods = new Map<PropertyKey, unknown>();
+  private calls: CapturedCall[] | null = null;
+  private armed = false;
+  private objectIds = new Map<object, string>();
+  private kindCounts = new Map<string, number>();
+
+  constructor(gl: WebGL2RenderingContext, label: string) {
+    this.target = gl;
+    this.label = label;
+    this.gl = new Proxy(gl, {
+      get: (target, prop) => {
+        const cached = this.methods.get(prop);
+        if (cached) return cached;
+
+        const value = Reflect.get(target, prop, target);
+        if (typeof value !== 'function') return value;
+
+        const method = this.wrap(target, prop, value);
+        this.methods.set(prop, method);
+        return method;
+      },
+    });
+  }
+
+  /** Capture the next frame (between the next beginFrame and endFrame) */
+  arm(): void {
+    this.armed = true;
+  }
+
+  beginFrame(): void {
+    if (!this.armed) return;
+    this.armed = false;
+    this.calls = [];
+  }
+
+  /** The captured frame, if this frame was captured */
+  endFrame(): FrameCaptureResult | null {
+    const calls = this.calls;
+    if (!calls) return null;
+    this.calls = null;
+    return {
+      label: this.label,
+      timestamp: Date.now(),
+      calls,
+      drawCount: calls.filter((call) => call.draw).length,
+    };
+  }
+
+  private wrap(target: WebGL2RenderingContext, prop: PropertyKey, method: Method): Method {
+    if (typeof prop !== 'string') return method.bind(target);
+    const isDraw = DRAW_METHODS.has(prop);
+
+    return (...args) => {
+      const result = method.apply(target, args);
+      const calls = this.calls;
+      if (calls) {
+        calls.push({
+          index: calls.length,
+          name: prop,
+          args: args.map((arg, i) => this.formatArg(prop, i, arg)),
+          draw: isDraw ? this.snapshot() : null,
+        });
+      }
+      return result;
+    };
+  }
+
+  private formatArg(method: string, index: number, arg: unknown): string {
+    if (arg === null || arg === undefined) return String(arg);
+    if (typeof arg === 'number') {
+      if (method === 'clear') return formatClearMask(arg);
+      const name = ENUM_ARGS[method]?.includes(index) ? getEnumName(arg) : null;
+      return name ?? String(Math.round(arg * 1000) / 1000);
+    }
+    if (typeof arg === 'boolean') return String(arg);
+    if (typeof arg === 'string') return JSON.stringify(arg.length > 40 ? arg.slice(0, 40) + '…' : arg);
+    if (ArrayBuffer.isView(arg)) {
+      const length = 'length' in arg ? (arg.length as number) : arg.byteLength;
+      return `${arg.constructor.name}(${length})`;
+    }
+    if (Array.isArray(arg)) return `[${arg.length}]`;
+    if (arg instanceof WebGLUniformLocation) return 'location';
+    if (typeof arg === 'object') return this.getObjectLabel(arg);
+    return String(arg);
+  }
+
+  private getObjectLabel(object: object | null, fallback = 'null'): string {
+    if (!object) return fallback;
+    if (object instanceof WebGLProgram) {
+      const name = getProgramName(object);
+      if (name) return `program '${name}'`;
+    }
+
+    let label = this.objectIds.get(object);
+    if (!label) {
+      const kind = object.constructor.name.replace(/^WebGL/, '').replace(/Object$/, '').toLowerCase();
+      const count = (this.kindCounts.get(kind) ?? 0) + 1;
+      this.kindCounts.set(kind, count);
+      label = `${kind} #${count}`;
+      this.objectIds.set(object, label);
+    }
+    return label;
+  }
+
+  /** Read the state the draw call used, then the target it drew into */
+  private snapshot(): DrawCallState {
+    const gl = this.target;
+    const viewport = Array.from(gl.getParameter(gl.VIEWPORT) as Int32Array) as DrawCallState['viewport'];
+
+    const activeUnit = gl.getParameter(gl.ACTIVE_TEXTURE) as number;
+    const textures: string[] = [];
+    const units = Math.min(MAX_LISTED_UNITS, gl.getParameter(gl.MAX_COMBINED_TEXTURE_IMAGE_UNITS) as number);
+    for (let unit = 0; unit < units; unit++) {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      const texture = gl.getParameter(gl.TEXTURE_BINDING_2D) as WebGLTexture | null;
+      if (texture) textures.push(`${unit}: ${this.getObjectLabel(texture)}`);
+    }
+    gl.activeTexture(activeUnit);
+
+    return {
+      program: this.getObjectLabel(gl.getParameter(gl.CURRENT_PROGRAM)),
+      framebuffer: this.getObjectLabel(gl.getParameter(gl.DRAW_FRAMEBUFFER_BINDING), 'canvas'),
+      vertexArray: this.getObjectLabel(gl.getParameter(gl.VERTEX_ARRAY_BINDING)),
+      viewport,
+      textures,
+      blend: gl.isEnabled(gl.BLEND),
+      depthTest: gl.isEnabled(gl.DEPTH_TEST),
+      image: gl.isEnabled(gl.RASTERIZER_DISCARD) ? null : this.readTarget(viewport),
+    };
+  }
+
+  /**
+   * Read the viewport area of the bound draw framebuffer into a thumbnail
+   * Float targets are read as floats and clamped to 0..1. Incomplete
+   * framebuffers, and targets readPixels can't read as RGBA bytes or floats
+   * (integer formats, no color buffer), give no thumbnail.
+   */
+  private readTarget([x, y, width, height]: DrawCallState['viewport']): CapturedImage | null {
+    const gl = this.target;
+    if (width <= 0 || height <= 0) return null;
+
+    const drawFramebuffer = gl.getParameter(gl.DRAW_FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    const readFramebuffer = gl.getParameter(gl.READ_FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    const packBuffer = gl.getParameter(gl.PIXEL_PACK_BUFFER_BINDING) as WebGLBuffer | null;
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, drawFramebuffer);
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+
+    try {
+      const type = drawFramebuffer ? getReadType(gl) : gl.UNSIGNED_BYTE;
+      if (type === null) return null;
+      const pixels =
+        type === gl.FLOAT ? new Float32Array(width * height * 4) : new Uint8Array(width * height * 4);
+      gl.readPixels(x, y, width, height, gl.RGBA, type, pixels);
+      return downsample(pixels, width, height);
+    } finally {
+      gl.bindFramebuffer(gl.READ_FRAMEBUFFER, readFramebuffer);
+      gl.bindBuffer(gl.PIXEL_PACK_BUFFER, packBuffer);
+    }
+  }
+}
+
+/**
+ * The type to read the bound read framebuffer's color buffer as with RGBA:
+ * FLOAT for float formats, UNSIGNED_BYTE for normalized ones, or null if it
+ * is incomplete, has no color buffer, or holds integers
+ */
+function getReadType(gl: WebGL2RenderingContext): number | null {
+  if (gl.checkFramebufferStatus(gl.READ_FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) return null;
+
+  const readBuffer = gl.getParameter(gl.READ_BUFFER) as number;
+  if (readBuffer === gl.NONE) return null;
+  const objectType = gl.getFramebufferAttachmentParameter(
+    gl.READ_FRAMEBUFFER,
+    readBuffer,
+    gl.FRAMEBUFFER_ATTACHMENT_OBJECT_TYPE
+  ) as number;
+  if (objectType === gl.NONE) return null;
+
+  const componentType = gl.getFramebufferAttachmentParameter(
+    gl.READ_FRAMEBUFFER,
+    readBuffer,
+    gl.FRAMEBUFFER_ATTACHMENT_COMPONENT_TYPE
+  ) as number;
+  if (componentType === gl.FLOAT) return gl.FLOAT;
+  if (componentType === gl.UNSIGNED_NORMALIZED) return gl.UNSIGNED_BYTE;
+  return null;
+}
+
+/** Nearest-neighbour shrink to THUMBNAIL_SIZE, flipping GL's bottom-up rows */
+function downsample(pixels: Uint8Array | Float32Array, width: number, height: number): CapturedImage {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const outWidth = Math.max(1, Math.round(width * scale));
+  const outHeight = Math.max(1, Math.round(height * scale));
+  const data = new Uint8ClampedArray(outWidth * outHeight * 4);
+  const toByte = pixels instanceof Float32Array ? 255 : 1;
+
+  for (let row = 0; row < outHeight; row++) {
+    const srcRow = height - 1 - Math.floor(row / scale);
+    for (let col = 0; col < outWidth; col++) {
+      const src = (Math.max(0, srcRow) * width + Math.min(width - 1, Math.floor(col / scale))) * 4;
+      const dst = (row * outWidth + col) * 4;
+      data[dst] = pixels[src] * toByte;
+      data[dst + 1] = pixels[src + 1] * toByte;
+      data[dst + 2] = pixels[src + 2] * toByte;
+      // Targets are often cleared to zero alpha; show them opaque
+      data[dst + 3] = 255;
+    }
+  }
+  return { width: outWidth, height: outHeight, data };
+}
+
+function formatClearMask(mask: number): string {
+  const gl = WebGL2RenderingContext;
+  const bits: [number, string][] = [
+    [gl.COLOR_BUFFER_BIT, 'COLOR_BUFFER_BIT'],
+    [gl.DEPTH_BUFFER_BIT, 'DEPTH_BUFFER_BIT'],
+    [gl.STENCIL_BUFFER_BIT, 'STENCIL_BUFFER_BIT'],
+  ];
+  const names = bits.filter(([bit]) => mask & bit).map(([, name]) => name);
+  return names.length > 0 ? names.join(' | ') : String(mask);
+}
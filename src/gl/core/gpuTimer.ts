@@ -0,0 +1,164 @@
+/**
+ * GPU Pass Timer
+ *
+ * Times named scopes of a frame with EXT_disjoint_timer_query_webgl2.
+ * Timer queries can't nest, so a frame is split into consecutive scopes:
+ * beginPass() closes whatever scope is open and starts the named one, and
+ * endPass() (or the next beginPass) closes it. Work outside any named pass
+ * is timed too and reported as 'other'.
+ *
+ * Results arrive a few frames late. Queries come from a pool and each
+ * frame's set is kept pending until every result in it is available, so
+ * nothing blocks and no frame is skipped while an older one is in flight.
+ */
+
+import type { GpuPassTiming } from './types';
+
+/** Name of the scope covering work outside named passes */
+export const UNSCOPED_PASS = 'other';
+
+// Frames waiting on results; older ones are dropped past this
+const MAX_PENDING_FRAMES = 8;
+
+interface TimerExtension {
+  TIME_ELAPSED_EXT: number;
+  GPU_DISJOINT_EXT: number;
+}
+
+interface PassQuery {
+  name: string;
+  query: WebGLQuery;
+}
+
+/** One frame's resolved timings, in ms */
+export interface GpuFrameTiming {
+  total: number;
+  passes: GpuPassTiming[];     // In first-use order, repeated names summed
+}
+
+export class GpuTimer {
+  private gl: WebGL2RenderingContext;
+  private ext: TimerExtension | null;
+  private pool: WebGLQuery[] = [];
+  private pending: PassQuery[][] = [];
+  private frame: PassQuery[] | null = null;
+  private active: PassQuery | null = null;
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+    this.ext = gl.getExtension('EXT_disjoint_timer_query_webgl2') as TimerExtension | null;
+  }
+
+  isSupported(): boolean {
+    return this.ext !== null;
+  }
+
+  beginFrame(): void {
+    if (!this.ext) return;
+    // A frame that bailed out before endFrame() still has a scope open
+    if (this.frame) this.endFrame();
+    this.frame = [];
+    this.startScope(UNSCOPED_PASS);
+  }
+
+  beginPass(name: string): void {
+    if (!this.frame) return;
+    this.stopScope();
+    this.startScope(name);
+  }
+
+  endPass(): void {
+    if (!this.frame) return;
+    this.stopScope();
+    this.startScope(UNSCOPED_PASS);
+  }
+
+  endFrame(): void {
+    if (!this.frame) return;
+    this.stopScope();
+    if (this.frame.length > 0) this.pending.push(this.frame);
+    this.frame = null;
+
+    while (this.pending.length > MAX_PENDING_FRAMES) {
+      const dropped = this.pending.shift();
+      if (dropped) this.release(dropped);
+    }
+  }
+
+  /**
+   * Collect every pending frame whose results are in, oldest first
+   * A disjoint event (GPU reset, power state change) invalidates all
+   * results in flight, so those frames are dropped.
+   */
+  resolve(): GpuFrameTiming[] {
+    if (!this.ext || this.pending.length === 0) return [];
+    const gl = this.gl;
+
+    if (gl.getParameter(this.ext.GPU_DISJOINT_EXT)) {
+      this.pending.forEach((frame) => this.release(frame));
+      this.pending = [];
+      return [];
+    }
+
+    const resolved: GpuFrameTiming[] = [];
+    while (this.pending.length > 0) {
+      const frame = this.pending[0];
+      // Queries complete in order, so the last one decides for the frame
+      const last = frame[frame.length - 1];
+      if (!gl.getQueryParameter(last.query, gl.QUERY_RESULT_AVAILABLE)) break;
+
+      const times = new Map<string, number>();
+      let total = 0;
+      for (const { name, query } of frame) {
+        // Nanoseconds to milliseconds
+        const time = gl.getQueryParameter(query, gl.QUERY_RESULT) / 1000000;
+        times.set(name, (times.get(name) ?? 0) + time);
+        total += time;
+      }
+      resolved.push({
+        total,
+        passes: [...times].map(([name, time]) => ({ name, time })),
+      });
+
+      this.release(frame);
+      this.pending.shift();
+    }
+    return resolved;
+  }
+
+  destroy(): void {
+    if (this.active && this.ext) {
+      this.gl.endQuery(this.ext.TIME_ELAPSED_EXT);
+    }
+    const queries = [
+      ...this.pool,
+      ...this.pending.flat().map((entry) => entry.query),
+      ...(this.frame ?? []).map((entry) => entry.query),
+    ];
+    queries.forEach((query) => this.gl.deleteQuery(query));
+    this.pool = [];
+    this.pending = [];
+    this.frame = null;
+    this.active = null;
+  }
+
+  private startScope(name: string): void {
+    const query = this.pool.pop() ?? this.gl.createQuery();
+    if (!query || !this.ext || !this.frame) return;
+    this.active = { name, query };
+    this.frame.push(this.active);
+    this.gl.beginQuery(this.ext.TIME_ELAPSED_EXT, query);
+  }
+
+  private stopScope(): void {
+    if (!this.active || !this.ext) return;
+    this.gl.endQuery(this.ext.TIME_ELAPSED_EXT);
+    this.active = null;
+  }
+
+  private release(frame: PassQuery[]): void {
+    for (const { query } of frame) {
+      this.pool.push(query);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Radiance HDR (.hdr) Parsing
+ *
+ * Reads RGBE images as written by most HDR panorama tools: a text header
+ * with FORMAT=32-bit_rle_rgbe, the standard "-Y height +X width" layout,
+ * and scanlines that are either flat or new-style run-length encoded.
+ * Pixels stay RGBE-packed (4 bytes each, top row first); shaders decode
+ * them as rgb * 2^(e - 136).
+ */
+
+export interface HdrImage {
+  width: number;
+  height: number;
+  rgbe: Uint8Array;
+}
+
+export function parseHdr(buffer: ArrayBuffer): HdrImage {
+  const bytes = new Uint8Array(buffer);
+  let offset = 0;
+
+  const readLine = (): string => {
+    const start = offset;
+    while (offset < bytes.length && bytes[offset] !== 0x0a) offset++;
+    if (offset >= bytes.length) throw new Error('HDR header ends unexpectedly');
+    return String.fromCharCode(...bytes.subarray(start, offset++));
+  };
+
+  const magic = readLine();
+  if (!magic.startsWith('#?')) {
+    throw new Error('Not a Radiance HDR file');
+  }
+
+  // Header variables run until a blank line
+  for (let line = readLine(); line !== ''; line = readLine()) {
+    const format = /^FORMAT=(.*)$/.exec(line);
+    if (format && format[1].trim() !== '32-bit_rle_rgbe') {
+      throw new Error(`HDR format '${format[1].trim()}' is not supported (expected 32-bit_rle_rgbe)`);
+    }
+  }
+
+  const resolution = /^-Y (\d+) \+X (\d+)$/.exec(readLine().trim());
+  if (!resolution) {
+    throw new Error('Only top-to-bottom, left-to-right HDR images are supported');
+  }
+  const height = Number(resolution[1]);
+  const width = Number(resolution[2]);
+
+  const rgbe = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    offset = readScanline(bytes, offset, rgbe.subarray(y * width * 4, (y + 1) * width * 4), width);
+  }
+  return { width, height, rgbe };
+}
+
+// Decode one scanline into row; returns the offset after it
+function readScanline(bytes: Uint8Array, offset: number, row: Uint8Array, width: number): number {
+  if (offset + 4 > bytes.length) {
+    throw new Error('HDR pixel data ends unexpectedly');
+  }
+
+  // New-style RLE starts with 2, 2 and the width; anything else is flat
+  const isRle =
+    width >= 8 && width < 0x8000 && bytes[offset] === 2 && bytes[offset + 1] === 2 &&
+    ((bytes[offset + 2] << 8) | bytes[offset + 3]) === width;
+  if (!isRle) {
+    if (offset + width * 4 > bytes.length) {
+      throw new Error('HDR pixel data ends unexpectedly');
+    }
+    row.set(bytes.subarray(offset, offset + width * 4));
+    return offset + width * 4;
+  }
+
+  // Each channel is stored separately as runs and literal spans
+  offset += 4;
+  for (let channel = 0; channel < 4; channel++) {
+    let x = 0;
+    while (x < width) {
+      let count = bytes[offset++];
+      const isRun = count > 128;
+      if (isRun) count -= 128;
+      if (count === 0 || x + count > width || offset + (isRun ? 1 : count) > bytes.length) {
+        throw new Error('Corrupt HDR scanline');
+      }
+      for (let i = 0; i < count; i++) {
+        row[(x + i) * 4 + channel] = isRun ? bytes[offset] : bytes[offset + i];
+      }
+      offset += isRun ? 1 : count;
+      x += count;
+    }
+  }
+  return offset;
+}
@@ -0,0 +1,178 @@
+/**
+ * GL Call Instrumentation
+ *
+ * Opt-in proxy of the context that counts what a demo actually submits
+ * each frame: draw calls with their real primitive counts per mode,
+ * program switches, texture and framebuffer binds, and bytes uploaded to
+ * buffers. Counts cover everything between beginFrame() and endFrame(),
+ * so they replace the estimates demos pass to StatsTracker.recordDrawCall().
+ *
+ * Every call goes through an extra function, so this is meant for
+ * profiling sessions rather than left on.
+ */
+
+import type { GLCallCounts } from './types';
+
+type Method = (...args: unknown[]) => unknown;
+
+export function emptyCallCounts(): GLCallCounts {
+  return {
+    drawCalls: 0,
+    triangles: 0,
+    lines: 0,
+    points: 0,
+    programSwitches: 0,
+    textureBinds: 0,
+    framebufferBinds: 0,
+    bufferUploadBytes: 0,
+  };
+}
+
+export class GLInstrumentation {
+  /** Instrumented context to hand to the demo */
+  readonly gl: WebGL2RenderingContext;
+  private counts = emptyCallCounts();
+  private lastFrame = emptyCallCounts();
+  private currentProgram: WebGLProgram | null = null;
+  private methods = new Map<PropertyKey, unknown>();
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = new Proxy(gl, {
+      get: (target, prop) => {
+        const cached = this.methods.get(prop);
+        if (cached) return cached;
+
+        const value = Reflect.get(target, prop, target);
+        if (typeof value !== 'function') return value;
+
+        const method = this.wrap(target, prop, value);
+        this.methods.set(prop, method);
+        return method;
+      },
+    });
+  }
+
+  /** Start counting a frame; calls made between frames are dropped */
+  beginFrame(): void {
+    this.counts = emptyCallCounts();
+  }
+
+  endFrame(): void {
+    this.lastFrame = this.counts;
+    this.counts = emptyCallCounts();
+  }
+
+  /** Counts for the last completed frame */
+  getCounts(): GLCallCounts {
+    return this.lastFrame;
+  }
+
+  private wrap(target: WebGL2RenderingContext, prop: PropertyKey, method: Method): Method {
+    const call = (args: unknown[]) => method.apply(target, args);
+
+    switch (prop) {
+      // drawArrays(mode, first, count)
+      case 'drawArrays':
+        return (...args) => {
+          this.recordDraw(args[0] as number, args[2] as number, 1);
+          return call(args);
+        };
+      // drawArraysInstanced(mode, first, count, instanceCount)
+      case 'drawArraysInstanced':
+        return (...args) => {
+          this.recordDraw(args[0] as number, args[2] as number, args[3] as number);
+          return call(args);
+        };
+      // drawElements(mode, count, type, offset)
+      case 'drawElements':
+        return (...args) => {
+          this.recordDraw(args[0] as number, args[1] as number, 1);
+          return call(args);
+        };
+      // drawElementsInstanced(mode, count, type, offset, instanceCount)
+      case 'drawElementsInstanced':
+        return (...args) => {
+          this.recordDraw(args[0] as number, args[1] as number, args[4] as number);
+          return call(args);
+        };
+      // drawRangeElements(mode, start, end, count, type, offset)
+      case 'drawRangeElements':
+        return (...args) => {
+          this.recordDraw(args[0] as number, args[3] as number, 1);
+          return call(args);
+        };
+      case 'useProgram':
+        return (...args) => {
+          if (args[0] !== this.currentProgram) {
+            this.currentProgram = args[0] as WebGLProgram | null;
+            this.counts.programSwitches++;
+          }
+          return call(args);
+        };
+      case 'bindTexture':
+        return (...args) => {
+          this.counts.textureBinds++;
+          return call(args);
+        };
+      case 'bindFramebuffer':
+        return (...args) => {
+          this.counts.framebufferBinds++;
+          return call(args);
+        };
+      // bufferData(target, sizeOrData, usage, srcOffset?, length?)
+      case 'bufferData':
+        return (...args) => {
+          this.counts.bufferUploadBytes += uploadSize(args[1], args[3], args[4]);
+          return call(args);
+        };
+      // bufferSubData(target, dstOffset, srcData, srcOffset?, length?)
+      case 'bufferSubData':
+        return (...args) => {
+          this.counts.bufferUploadBytes += uploadSize(args[2], args[3], args[4]);
+          return call(args);
+        };
+      default:
+        return method.bind(target);
+    }
+  }
+
+  private recordDraw(mode: number, count: number, instances: number): void {
+    const gl = WebGL2RenderingContext;
+    const counts = this.counts;
+    counts.drawCalls++;
+
+    switch (mode) {
+      case gl.TRIANGLES:
+        counts.triangles += Math.floor(count / 3) * instances;
+        break;
+      case gl.TRIANGLE_STRIP:
+      case gl.TRIANGLE_FAN:
+        counts.triangles += Math.max(0, count - 2) * instances;
+        break;
+      case gl.LINES:
+        counts.lines += Math.floor(count / 2) * instances;
+        break;
+      case gl.LINE_STRIP:
+        counts.lines += Math.max(0, count - 1) * instances;
+        break;
+      case gl.LINE_LOOP:
+        counts.lines += (count > 1 ? count : 0) * instances;
+        break;
+      case gl.POINTS:
+        counts.points += count * instances;
+        break;
+    }
+  }
+}
+
+/** Bytes a bufferData/bufferSubData call sends, given its data arguments */
+function uploadSize(data: unknown, srcOffset: unknown, length: unknown): number {
+  if (typeof data === 'number') return data;
+  if (data instanceof ArrayBuffer) return data.byteLength;
+  if (!ArrayBuffer.isView(data)) return 0;
+
+  const elementSize = 'BYTES_PER_ELEMENT' in data ? (data.BYTES_PER_ELEMENT as number) : 1;
+  if (typeof length === 'number' && length > 0) return length * elementSize;
+  const offset = typeof srcOffset === 'number' ? srcOffset * elementSize : 0;
+  return Math.max(0, data.byteLength - offset);
+}
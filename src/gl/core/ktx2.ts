@@ -0,0 +1,157 @@
+/**
+ * KTX2 Container Parsing
+ *
+ * Reads the header and level index of a KTX 2.0 file and maps its Vulkan
+ * format to the WebGL2 upload parameters. Only plain 2D textures without
+ * supercompression are supported: uncompressed 8-bit, half and float
+ * formats, plus ETC2/EAC, ASTC and S3TC (BC1-3) block-compressed payloads.
+ * Basis Universal files (vkFormat 0) need a transcoder and are rejected.
+ */
+
+export interface Ktx2Container {
+  vkFormat: number;
+  width: number;
+  height: number;
+  levelCount: number;      // 0 asks the loader to generate mipmaps
+  levels: Uint8Array[];    // Level 0 (full size) first
+}
+
+export interface Ktx2Format {
+  internalFormat: number;
+  format: number;              // 0 for compressed formats
+  type: number;                // 0 for compressed formats
+  extension: string | null;    // WebGL extension the format needs, if any
+}
+
+const IDENTIFIER = [0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a];
+const HEADER_SIZE = 80;
+const LEVEL_INDEX_ENTRY_SIZE = 24;
+
+/** Whether the bytes start with the KTX 2.0 file identifier */
+export function isKtx2(bytes: Uint8Array): boolean {
+  return bytes.length >= IDENTIFIER.length && IDENTIFIER.every((value, i) => bytes[i] === value);
+}
+
+export function parseKtx2(buffer: ArrayBuffer): Ktx2Container {
+  const bytes = new Uint8Array(buffer);
+  if (!isKtx2(bytes) || bytes.length < HEADER_SIZE) {
+    throw new Error('Not a KTX2 file');
+  }
+
+  const view = new DataView(buffer);
+  const vkFormat = view.getUint32(12, true);
+  const width = view.getUint32(20, true);
+  const height = view.getUint32(24, true);
+  const depth = view.getUint32(28, true);
+  const layerCount = view.getUint32(32, true);
+  const faceCount = view.getUint32(36, true);
+  const levelCount = view.getUint32(40, true);
+  const supercompression = view.getUint32(44, true);
+
+  if (vkFormat === 0) {
+    throw new Error('Basis Universal KTX2 files need a transcoder, which is not supported');
+  }
+  if (supercompression !== 0) {
+    throw new Error(`KTX2 supercompression scheme ${supercompression} is not supported`);
+  }
+  if (depth > 0 || layerCount > 0 || faceCount !== 1) {
+    throw new Error('Only 2D KTX2 textures are supported (no arrays, cubemaps or 3D)');
+  }
+  if (width === 0 || height === 0) {
+    throw new Error('KTX2 texture has no size');
+  }
+
+  const levels: Uint8Array[] = [];
+  for (let level = 0; level < Math.max(1, levelCount); level++) {
+    const entry = HEADER_SIZE + level * LEVEL_INDEX_ENTRY_SIZE;
+    const offset = readUint64(view, entry);
+    const length = readUint64(view, entry + 8);
+    if (offset + length > buffer.byteLength) {
+      throw new Error(`KTX2 level ${level} runs past the end of the file`);
+    }
+    levels.push(new Uint8Array(buffer, offset, length));
+  }
+
+  return { vkFormat, width, height, levelCount, levels };
+}
+
+/** WebGL2 upload parameters for a Vulkan format, or null if unsupported */
+export function getKtx2Format(vkFormat: number): Ktx2Format | null {
+  return FORMATS.get(vkFormat) ?? null;
+}
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+const GL = {
+  R8: 0x8229, RG8: 0x822b, RGB8: 0x8051, RGBA8: 0x8058, SRGB8: 0x8c41, SRGB8_ALPHA8: 0x8c43,
+  R16F: 0x822d, RG16F: 0x822f, RGBA16F: 0x881a, R32F: 0x822e, RG32F: 0x8230, RGBA32F: 0x8814,
+  RED: 0x1903, RG: 0x8227, RGB: 0x1907, RGBA: 0x1908,
+  UNSIGNED_BYTE: 0x1401, HALF_FLOAT: 0x140b, FLOAT: 0x1406,
+};
+
+const S3TC = 'WEBGL_compressed_texture_s3tc';
+const S3TC_SRGB = 'WEBGL_compressed_texture_s3tc_srgb';
+const ETC = 'WEBGL_compressed_texture_etc';
+const ASTC = 'WEBGL_compressed_texture_astc';
+
+// ASTC block footprints in vkFormat order (each has a UNORM then an SRGB format)
+const ASTC_BLOCKS = ['4x4', '5x4', '5x5', '6x5', '6x6', '8x5', '8x6', '8x8', '10x5', '10x6', '10x8', '10x10', '12x10', '12x12'];
+
+const FORMATS = new Map<number, Ktx2Format>([
+  // Uncompressed
+  [9, uncompressed(GL.R8, GL.RED, GL.UNSIGNED_BYTE)],
+  [16, uncompressed(GL.RG8, GL.RG, GL.UNSIGNED_BYTE)],
+  [23, uncompressed(GL.RGB8, GL.RGB, GL.UNSIGNED_BYTE)],
+  [29, uncompressed(GL.SRGB8, GL.RGB, GL.UNSIGNED_BYTE)],
+  [37, uncompressed(GL.RGBA8, GL.RGBA, GL.UNSIGNED_BYTE)],
+  [43, uncompressed(GL.SRGB8_ALPHA8, GL.RGBA, GL.UNSIGNED_BYTE)],
+  [76, uncompressed(GL.R16F, GL.RED, GL.HALF_FLOAT)],
+  [83, uncompressed(GL.RG16F, GL.RG, GL.HALF_FLOAT)],
+  [97, uncompressed(GL.RGBA16F, GL.RGBA, GL.HALF_FLOAT)],
+  [100, uncompressed(GL.R32F, GL.RED, GL.FLOAT)],
+  [103, uncompressed(GL.RG32F, GL.RG, GL.FLOAT)],
+  [109, uncompressed(GL.RGBA32F, GL.RGBA, GL.FLOAT)],
+
+  // S3TC: BC1 RGB/RGBA, BC2, BC3
+  [131, compressed(0x83f0, S3TC)],
+  [132, compressed(0x8c4c, S3TC_SRGB)],
+  [133, compressed(0x83f1, S3TC)],
+  [134, compressed(0x8c4d, S3TC_SRGB)],
+  [135, compressed(0x83f2, S3TC)],
+  [136, compressed(0x8c4e, S3TC_SRGB)],
+  [137, compressed(0x83f3, S3TC)],
+  [138, compressed(0x8c4f, S3TC_SRGB)],
+
+  // ETC2 RGB, RGB + 1-bit alpha, RGBA; EAC R11 and RG11
+  [147, compressed(0x9274, ETC)],
+  [148, compressed(0x9275, ETC)],
+  [149, compressed(0x9276, ETC)],
+  [150, compressed(0x9277, ETC)],
+  [151, compressed(0x9278, ETC)],
+  [152, compressed(0x9279, ETC)],
+  [153, compressed(0x9270, ETC)],
+  [154, compressed(0x9271, ETC)],
+  [155, compressed(0x9272, ETC)],
+  [156, compressed(0x9273, ETC)],
+
+  // ASTC LDR: COMPRESSED_RGBA_ASTC_*_KHR and COMPRESSED_SRGB8_ALPHA8_ASTC_*_KHR
+  ...ASTC_BLOCKS.flatMap((_, i): [number, Ktx2Format][] => [
+    [157 + i * 2, compressed(0x93b0 + i, ASTC)],
+    [158 + i * 2, compressed(0x93d0 + i, ASTC)],
+  ]),
+]);
+
+function uncompressed(internalFormat: number, format: number, type: number): Ktx2Format {
+  return { internalFormat, format, type, extension: null };
+}
+
+function compressed(internalFormat: number, extension: string): Ktx2Format {
+  return { internalFormat, format: 0, type: 0, extension };
+}
+
+// Level offsets are uint64; anything past 2^53 is not a file a browser can hold
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+}
@@ -0,0 +1,201 @@
+/**
+ * User Media Sources
+ *
+ * Loads user-supplied images and videos and streams them into a texture the
+ * postprocess demos can grade instead of their procedural scene. Images are
+ * uploaded once; videos are re-uploaded with texImage2D every frame.
+ *
+ * Decoded media lives outside any GL context, so the same image or video
+ * survives demo switches and context loss; each demo owns its own texture.
+ *
+ * Videos play on their own clock. syncVideo lines one up with the playback
+ * clock's rate and position on seeks, steps and rate changes, but frames in
+ * between still come from the video's decoder, so fixed-timestep recording
+ * can't follow a video and falls back to real time while one is the source.
+ */
+
+import type { MediaKind, UserMedia } from './types';
+
+// ============================================================================
+// Files
+// ============================================================================
+
+export const MEDIA_FILE_TYPES = ['image/png', 'image/jpeg', 'video/mp4', 'video/webm'];
+
+/** Image or video, judged by MIME type; null for anything else */
+export function getMediaKind(file: File): MediaKind | null {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('video/')) return 'video';
+  return null;
+}
+
+/** Decode a user-supplied image, or start a muted looping video */
+export async function loadMediaFile(file: File): Promise<UserMedia> {
+  const kind = getMediaKind(file);
+  const name = file.name;
+
+  if (kind === 'image') {
+    const bitmap = await createImageBitmap(file);
+    return { kind, name, source: bitmap, width: bitmap.width, height: bitmap.height };
+  }
+
+  if (kind === 'video') {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.loop = true;
+    video.playsInline = true;
+    video.src = URL.createObjectURL(file);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        video.onloadeddata = () => resolve();
+        video.onerror = () => reject(new Error(`Could not decode video '${name}'`));
+      });
+    } catch (err) {
+      releaseMedia({ kind, name, source: video, width: 0, height: 0 });
+      throw err;
+    }
+
+    // Autoplay can still be refused; a paused video shows its first frame
+    await video.play().catch(() => {});
+    return { kind, name, source: video, width: video.videoWidth, height: video.videoHeight };
+  }
+
+  throw new Error(`Unsupported media type '${file.type || file.name}' (expected PNG, JPEG, MP4 or WebM)`);
+}
+
+/** Free the decoded image, or stop the video and revoke its object URL */
+export function releaseMedia(media: UserMedia): void {
+  if (media.source instanceof HTMLVideoElement) {
+    const video = media.source;
+    video.pause();
+    URL.revokeObjectURL(video.src);
+    video.removeAttribute('src');
+    video.load();
+  } else {
+    media.source.close();
+  }
+}
+
+/**
+ * Match a video to the playback clock: the same rate, and the position the
+ * clock's time maps to within the loop. Images are left alone.
+ */
+export function syncVideo(media: UserMedia, time: number, rate: number): void {
+  if (!(media.source instanceof HTMLVideoElement)) return;
+  const video = media.source;
+  video.playbackRate = rate;
+  if (Number.isFinite(video.duration) && video.duration > 0) {
+    video.currentTime = time % video.duration;
+  }
+}
+
+// ============================================================================
+// Shader Source
+// ============================================================================
+
+/** Uniforms declared by MEDIA_SOURCE_GLSL, for getUniformLocations */
+export const MEDIA_SOURCE_UNIFORMS = ['u_source', 'u_useSource', 'u_sourceScale'];
+
+/**
+ * GLSL for sampling the user's media, pasted into a fragment shader
+ * u_sourceScale crops the media to cover the target like CSS object-fit.
+ * Rows are flipped here because ImageBitmap uploads ignore UNPACK_FLIP_Y_WEBGL.
+ */
+export const MEDIA_SOURCE_GLSL = `uniform sampler2D u_source;
+uniform bool u_useSource;
+uniform vec2 u_sourceScale;
+
+vec3 sampleSource(vec2 uv) {
+  vec2 st = (uv - 0.5) * u_sourceScale + 0.5;
+  return texture(u_source, vec2(st.x, 1.0 - st.y)).rgb;
+}`;
+
+// ============================================================================
+// Texture
+// ============================================================================
+
+/**
+ * Texture fed from the user's image or video
+ * Demos pass on every setMedia call and pick a kind with their 'source'
+ * parameter; 'scene' (or a kind with nothing loaded) means procedural.
+ */
+export class MediaTexture {
+  private gl: WebGL2RenderingContext;
+  private texture: WebGLTexture | null;
+  private media: Record<MediaKind, UserMedia | null> = { image: null, video: null };
+  private uploaded: UserMedia | null = null;
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+    this.texture = gl.createTexture();
+    if (!this.texture) {
+      throw new Error('Failed to create texture');
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  }
+
+  setMedia(kind: MediaKind, media: UserMedia | null): void {
+    if (this.uploaded === this.media[kind]) this.uploaded = null;
+    this.media[kind] = media;
+  }
+
+  /**
+   * Upload the selected media if needed and set MEDIA_SOURCE_UNIFORMS
+   * Binds to the given texture unit and returns whether media is in use.
+   */
+  apply(
+    uniforms: Record<string, WebGLUniformLocation | null>,
+    source: string,
+    aspect: number,
+    unit = 0
+  ): boolean {
+    const gl = this.gl;
+    const media = source === 'image' || source === 'video' ? this.media[source] : null;
+    const ready = media !== null && this.upload(media);
+
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.uniform1i(uniforms.u_source, unit);
+    gl.uniform1i(uniforms.u_useSource, ready ? 1 : 0);
+
+    if (ready) {
+      const mediaAspect = media.width / media.height;
+      gl.uniform2f(
+        uniforms.u_sourceScale,
+        mediaAspect > aspect ? aspect / mediaAspect : 1,
+        mediaAspect > aspect ? 1 : mediaAspect / aspect
+      );
+    }
+    return ready;
+  }
+
+  destroy(): void {
+    if (this.texture) this.gl.deleteTexture(this.texture);
+    this.texture = null;
+    this.uploaded = null;
+  }
+
+  private upload(media: UserMedia): boolean {
+    const gl = this.gl;
+    const isVideo = media.source instanceof HTMLVideoElement;
+
+    if (isVideo && (media.source as HTMLVideoElement).readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+      return this.uploaded === media;
+    }
+    if (this.uploaded === media && !isVideo) return true;
+
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, media.source);
+    this.uploaded = media;
+    return true;
+  }
+}
@@ -0,0 +1,545 @@
+/**
+ * Mesh Loading
+ *
+ * Parses glTF 2.0 (.gltf with embedded data: URI buffers, or binary .glb)
+ * and Wavefront OBJ into a single indexed triangle mesh with positions,
+ * normals and UVs, ready for createBuffer/createIndexBuffer.
+ *
+ * glTF scenes are flattened: every triangle primitive is merged into one
+ * mesh with its node transforms applied. Materials, skins and animations
+ * are ignored. OBJ polygons are fanned into triangles. Normals the source
+ * doesn't provide are computed by averaging the faces around each vertex.
+ */
+
+import { mat3, mat4, vec3 } from 'gl-matrix';
+import type { MeshData } from './types';
+
+// ============================================================================
+// Files
+// ============================================================================
+
+export const MESH_FILE_EXTENSIONS = ['.gltf', '.glb', '.obj'];
+
+/** Parse a user-supplied model file, picking the format by extension */
+export async function loadMeshFile(file: File): Promise<MeshData> {
+  const dot = file.name.lastIndexOf('.');
+  const extension = dot >= 0 ? file.name.slice(dot).toLowerCase() : '';
+  const name = dot >= 0 ? file.name.slice(0, dot) : file.name;
+
+  switch (extension) {
+    case '.obj':
+      return parseObj(await file.text(), name);
+    case '.gltf':
+      return parseGltf(JSON.parse(await file.text()), null, name);
+    case '.glb':
+      return parseGlb(await file.arrayBuffer(), name);
+    default:
+      throw new Error(
+        `Unsupported model format '${extension || file.name}' (expected ${MESH_FILE_EXTENSIONS.join(', ')})`
+      );
+  }
+}
+
+/**
+ * Center a mesh on the origin and scale it to fit a sphere of the given radius
+ * Loaded models come in any unit and placement; demos expect their own.
+ */
+export function fitMesh(mesh: MeshData, radius: number): MeshData {
+  const { positions } = mesh;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], positions[i + axis]);
+      max[axis] = Math.max(max[axis], positions[i + axis]);
+    }
+  }
+  const center = min.map((value, axis) => (value + max[axis]) / 2);
+
+  let extent = 0;
+  for (let i = 0; i < positions.length; i += 3) {
+    extent = Math.max(
+      extent,
+      Math.hypot(positions[i] - center[0], positions[i + 1] - center[1], positions[i + 2] - center[2])
+    );
+  }
+  const scale = extent > 0 ? radius / extent : 1;
+
+  const fitted = new Float32Array(positions.length);
+  for (let i = 0; i < positions.length; i++) {
+    fitted[i] = (positions[i] - center[i % 3]) * scale;
+  }
+  return { ...mesh, positions: fitted };
+}
+
+// ============================================================================
+// Wavefront OBJ
+// ============================================================================
+
+export function parseObj(text: string, name = 'model'): MeshData {
+  const sourcePositions: number[] = [];
+  const sourceNormals: number[] = [];
+  const sourceUvs: number[] = [];
+
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const indices: number[] = [];
+  // One output vertex per distinct position/uv/normal triple
+  const vertices = new Map<string, number>();
+  let hasNormals = true;
+  let hasUvs = true;
+
+  // OBJ indices are 1-based; negative ones count back from the end
+  const resolve = (value: string, count: number): number | null => {
+    if (!value) return null;
+    const index = parseInt(value, 10);
+    if (Number.isNaN(index)) return null;
+    return index < 0 ? count + index : index - 1;
+  };
+
+  const getVertex = (corner: string, line: number): number => {
+    const [p, t, n] = corner.split('/');
+    const position = resolve(p, sourcePositions.length / 3);
+    if (position === null || position < 0 || position * 3 >= sourcePositions.length) {
+      throw new Error(`OBJ line ${line}: vertex index '${p}' is out of range`);
+    }
+    let uv = resolve(t, sourceUvs.length / 2);
+    if (uv !== null && (uv < 0 || uv * 2 >= sourceUvs.length)) uv = null;
+    let normal = resolve(n, sourceNormals.length / 3);
+    if (normal !== null && (normal < 0 || normal * 3 >= sourceNormals.length)) normal = null;
+
+    // Keyed by resolved indices, since relative ones depend on where they appear
+    const key = `${position}/${uv}/${normal}`;
+    const existing = vertices.get(key);
+    if (existing !== undefined) return existing;
+
+    positions.push(...sourcePositions.slice(position * 3, position * 3 + 3));
+    if (uv !== null) {
+      uvs.push(sourceUvs[uv * 2], sourceUvs[uv * 2 + 1]);
+    } else {
+      uvs.push(0, 0);
+      hasUvs = false;
+    }
+    if (normal !== null) {
+      normals.push(...sourceNormals.slice(normal * 3, normal * 3 + 3));
+    } else {
+      normals.push(0, 0, 0);
+      hasNormals = false;
+    }
+
+    const index = positions.length / 3 - 1;
+    vertices.set(key, index);
+    return index;
+  };
+
+  const lines = text.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const parts = lines[i].trim().split(/\s+/);
+    switch (parts[0]) {
+      case 'v':
+        sourcePositions.push(Number(parts[1]), Number(parts[2]), Number(parts[3]));
+        break;
+      case 'vn':
+        sourceNormals.push(Number(parts[1]), Number(parts[2]), Number(parts[3]));
+        break;
+      case 'vt':
+        sourceUvs.push(Number(parts[1]), Number(parts[2] ?? 0));
+        break;
+      case 'f': {
+        const corners = parts.slice(1).map((corner) => getVertex(corner, i + 1));
+        for (let j = 1; j < corners.length - 1; j++) {
+          indices.push(corners[0], corners[j], corners[j + 1]);
+        }
+        break;
+      }
+      // Groups, materials and smoothing groups don't change the geometry
+    }
+  }
+
+  if (indices.length === 0) {
+    throw new Error('OBJ file has no faces');
+  }
+
+  const indexArray = new Uint32Array(indices);
+  const positionArray = new Float32Array(positions);
+  return {
+    name,
+    positions: positionArray,
+    normals: hasNormals ? normalize(new Float32Array(normals)) : computeNormals(positionArray, indexArray),
+    uvs: hasUvs ? new Float32Array(uvs) : null,
+    indices: indexArray,
+  };
+}
+
+// ============================================================================
+// glTF 2.0
+// ============================================================================
+
+interface GltfAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: string;
+  sparse?: unknown;
+}
+
+interface GltfBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+}
+
+interface GltfPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  mode?: number;
+}
+
+interface GltfNode {
+  mesh?: number;
+  children?: number[];
+  matrix?: number[];
+  translation?: [number, number, number];
+  rotation?: [number, number, number, number];
+  scale?: [number, number, number];
+}
+
+interface GltfDocument {
+  asset?: { version?: string };
+  extensionsRequired?: string[];
+  scene?: number;
+  scenes?: { nodes?: number[] }[];
+  nodes?: GltfNode[];
+  meshes?: { primitives: GltfPrimitive[] }[];
+  accessors?: GltfAccessor[];
+  bufferViews?: GltfBufferView[];
+  buffers?: { uri?: string; byteLength: number }[];
+}
+
+const COMPONENT_COUNTS: Record<string, number> = {
+  SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16,
+};
+
+// componentType -> byte size
+const COMPONENT_SIZES: Record<number, number> = {
+  5120: 1, 5121: 1, 5122: 2, 5123: 2, 5125: 4, 5126: 4,
+};
+
+const MODE_TRIANGLES = 4;
+const MODE_TRIANGLE_STRIP = 5;
+const MODE_TRIANGLE_FAN = 6;
+
+const GLB_MAGIC = 0x46546c67;      // 'glTF'
+const GLB_CHUNK_JSON = 0x4e4f534a;
+const GLB_CHUNK_BIN = 0x004e4942;
+
+/** Split a .glb into its JSON document and binary chunk */
+export function parseGlb(data: ArrayBuffer, name = 'model'): MeshData {
+  const view = new DataView(data);
+  if (data.byteLength < 20 || view.getUint32(0, true) !== GLB_MAGIC) {
+    throw new Error('Not a binary glTF file');
+  }
+  const version = view.getUint32(4, true);
+  if (version !== 2) {
+    throw new Error(`Unsupported glTF version ${version}`);
+  }
+
+  let json: unknown = null;
+  let bin: Uint8Array | null = null;
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const length = view.getUint32(offset, true);
+    const type = view.getUint32(offset + 4, true);
+    const chunk = new Uint8Array(data, offset + 8, length);
+    if (type === GLB_CHUNK_JSON) {
+      json = JSON.parse(new TextDecoder().decode(chunk));
+    } else if (type === GLB_CHUNK_BIN && !bin) {
+      bin = chunk;
+    }
+    offset += 8 + length;
+  }
+  if (!json) {
+    throw new Error('Binary glTF file has no JSON chunk');
+  }
+  return parseGltf(json, bin, name);
+}
+
+/**
+ * Merge a glTF document's default scene into one mesh
+ * bin is the GLB binary chunk, used by the buffer without a uri.
+ */
+export function parseGltf(json: unknown, bin: Uint8Array | null, name = 'model'): MeshData {
+  const gltf = json as GltfDocument;
+  if (!gltf || typeof gltf !== 'object' || !gltf.asset?.version?.startsWith('2.')) {
+    throw new Error('Not a glTF 2.0 file');
+  }
+  if (gltf.extensionsRequired?.length) {
+    throw new Error(`Unsupported glTF extensions: ${gltf.extensionsRequired.join(', ')}`);
+  }
+
+  const buffers = (gltf.buffers ?? []).map((buffer) => decodeBuffer(buffer.uri, bin));
+
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const indices: number[] = [];
+  let hasUvs = false;
+
+  const addPrimitive = (primitive: GltfPrimitive, world: mat4) => {
+    const mode = primitive.mode ?? MODE_TRIANGLES;
+    if (mode !== MODE_TRIANGLES && mode !== MODE_TRIANGLE_STRIP && mode !== MODE_TRIANGLE_FAN) {
+      return; // Points and lines have no surface to draw
+    }
+    if (primitive.attributes.POSITION === undefined) return;
+
+    const source = readAccessor(gltf, buffers, primitive.attributes.POSITION);
+    const vertexCount = source.length / 3;
+    const base = positions.length / 3;
+    const local = primitive.indices !== undefined
+      ? Array.from(readAccessor(gltf, buffers, primitive.indices))
+      : Array.from({ length: vertexCount }, (_, i) => i);
+    const outOfRange = local.find((index) => index >= vertexCount);
+    if (outOfRange !== undefined) {
+      throw new Error(`glTF primitive index out of range: ${outOfRange} (${vertexCount} vertices)`);
+    }
+    const triangles = toTriangles(local, mode);
+
+    const point = vec3.create();
+    for (let i = 0; i < vertexCount; i++) {
+      vec3.transformMat4(point, [source[i * 3], source[i * 3 + 1], source[i * 3 + 2]], world);
+      positions.push(point[0], point[1], point[2]);
+    }
+
+    if (primitive.attributes.NORMAL !== undefined) {
+      const normalMatrix = mat3.normalFromMat4(mat3.create(), world) ?? mat3.create();
+      const sourceNormals = readAccessor(gltf, buffers, primitive.attributes.NORMAL);
+      for (let i = 0; i < vertexCount; i++) {
+        vec3.transformMat3(point, [sourceNormals[i * 3], sourceNormals[i * 3 + 1], sourceNormals[i * 3 + 2]], normalMatrix);
+        vec3.normalize(point, point);
+        normals.push(point[0], point[1], point[2]);
+      }
+    } else {
+      const primitivePositions = new Float32Array(positions.slice(base * 3));
+      append(normals, computeNormals(primitivePositions, new Uint32Array(triangles)));
+    }
+
+    if (primitive.attributes.TEXCOORD_0 !== undefined) {
+      append(uvs, readAccessor(gltf, buffers, primitive.attributes.TEXCOORD_0));
+      hasUvs = true;
+    } else {
+      append(uvs, new Float32Array(vertexCount * 2));
+    }
+
+    for (const index of triangles) {
+      indices.push(base + index);
+    }
+  };
+
+  const visit = (nodeIndex: number, parent: mat4, depth: number) => {
+    const node = gltf.nodes?.[nodeIndex];
+    if (!node || depth > gltf.nodes!.length) return; // Guard against cycles
+    const world = mat4.multiply(mat4.create(), parent, getNodeMatrix(node));
+    if (node.mesh !== undefined) {
+      for (const primitive of gltf.meshes?.[node.mesh]?.primitives ?? []) {
+        addPrimitive(primitive, world);
+      }
+    }
+    for (const child of node.children ?? []) {
+      visit(child, world, depth + 1);
+    }
+  };
+
+  const scene = gltf.scenes?.[gltf.scene ?? 0];
+  if (scene) {
+    for (const node of scene.nodes ?? []) {
+      visit(node, mat4.create(), 0);
+    }
+  } else {
+    // No scene: draw every mesh untransformed
+    for (const mesh of gltf.meshes ?? []) {
+      for (const primitive of mesh.primitives) {
+        addPrimitive(primitive, mat4.create());
+      }
+    }
+  }
+
+  if (indices.length === 0) {
+    throw new Error('glTF file has no triangle meshes');
+  }
+
+  return {
+    name,
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    uvs: hasUvs ? new Float32Array(uvs) : null,
+    indices: new Uint32Array(indices),
+  };
+}
+
+// Spreading a large model's arrays into push() would overflow the stack
+function append(target: number[], values: ArrayLike<number>): void {
+  for (let i = 0; i < values.length; i++) {
+    target.push(values[i]);
+  }
+}
+
+function decodeBuffer(uri: string | undefined, bin: Uint8Array | null): Uint8Array {
+  if (uri === undefined) {
+    if (!bin) throw new Error('glTF buffer has no data');
+    return bin;
+  }
+  const match = /^data:[^,]*;base64,(.*)$/.exec(uri);
+  if (!match) {
+    throw new Error(`External glTF buffer '${uri}' is not supported; use a .glb or embedded buffers`);
+  }
+  const binary = atob(match[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/** Read an accessor into floats; normalized integers are mapped to 0..1 or -1..1 */
+function readAccessor(gltf: GltfDocument, buffers: Uint8Array[], index: number): Float32Array {
+  const accessor = gltf.accessors?.[index];
+  if (!accessor) throw new Error(`glTF accessor ${index} is missing`);
+  if (accessor.sparse) throw new Error('Sparse glTF accessors are not supported');
+
+  const components = COMPONENT_COUNTS[accessor.type];
+  const size = COMPONENT_SIZES[accessor.componentType];
+  if (!components || !size) {
+    throw new Error(`Unsupported glTF accessor type ${accessor.type}/${accessor.componentType}`);
+  }
+
+  const out = new Float32Array(accessor.count * components);
+  // Accessors without a buffer view are all zeros
+  if (accessor.bufferView === undefined) return out;
+
+  const bufferView = gltf.bufferViews?.[accessor.bufferView];
+  const buffer = bufferView && buffers[bufferView.buffer];
+  if (!bufferView || !buffer) throw new Error(`glTF buffer view ${accessor.bufferView} is missing`);
+
+  const view = new DataView(
+    buffer.buffer,
+    buffer.byteOffset + (bufferView.byteOffset ?? 0),
+    bufferView.byteLength
+  );
+  const stride = bufferView.byteStride ?? components * size;
+  const start = accessor.byteOffset ?? 0;
+  if (accessor.count > 0 && start + (accessor.count - 1) * stride + components * size > view.byteLength) {
+    throw new Error(`glTF accessor ${index} runs past its buffer view`);
+  }
+
+  for (let i = 0; i < accessor.count; i++) {
+    for (let c = 0; c < components; c++) {
+      out[i * components + c] = readComponent(
+        view,
+        start + i * stride + c * size,
+        accessor.componentType,
+        accessor.normalized ?? false
+      );
+    }
+  }
+  return out;
+}
+
+function readComponent(view: DataView, offset: number, type: number, normalized: boolean): number {
+  switch (type) {
+    case 5120: {
+      const value = view.getInt8(offset);
+      return normalized ? Math.max(value / 127, -1) : value;
+    }
+    case 5121: {
+      const value = view.getUint8(offset);
+      return normalized ? value / 255 : value;
+    }
+    case 5122: {
+      const value = view.getInt16(offset, true);
+      return normalized ? Math.max(value / 32767, -1) : value;
+    }
+    case 5123: {
+      const value = view.getUint16(offset, true);
+      return normalized ? value / 65535 : value;
+    }
+    case 5125:
+      return view.getUint32(offset, true);
+    default:
+      return view.getFloat32(offset, true);
+  }
+}
+
+function getNodeMatrix(node: GltfNode): mat4 {
+  if (node.matrix) {
+    return mat4.clone(node.matrix as unknown as mat4);
+  }
+  return mat4.fromRotationTranslationScale(
+    mat4.create(),
+    node.rotation ?? [0, 0, 0, 1],
+    node.translation ?? [0, 0, 0],
+    node.scale ?? [1, 1, 1]
+  );
+}
+
+/** Strip and fan indices as a plain triangle list */
+function toTriangles(indices: number[], mode: number): number[] {
+  if (mode === MODE_TRIANGLES) return indices;
+  const triangles: number[] = [];
+  for (let i = 2; i < indices.length; i++) {
+    if (mode === MODE_TRIANGLE_FAN) {
+      triangles.push(indices[0], indices[i - 1], indices[i]);
+    } else if (i % 2 === 0) {
+      triangles.push(indices[i - 2], indices[i - 1], indices[i]);
+    } else {
+      // Odd strip triangles flip to keep the winding consistent
+      triangles.push(indices[i - 1], indices[i - 2], indices[i]);
+    }
+  }
+  return triangles;
+}
+
+// ============================================================================
+// Normals
+// ============================================================================
+
+/** Area-weighted average of the face normals around each vertex */
+function computeNormals(positions: Float32Array, indices: Uint32Array): Float32Array {
+  const normals = new Float32Array(positions.length);
+  const a = vec3.create();
+  const b = vec3.create();
+  const c = vec3.create();
+  const face = vec3.create();
+
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    const [i0, i1, i2] = [indices[i], indices[i + 1], indices[i + 2]];
+    vec3.set(a, positions[i0 * 3], positions[i0 * 3 + 1], positions[i0 * 3 + 2]);
+    vec3.set(b, positions[i1 * 3], positions[i1 * 3 + 1], positions[i1 * 3 + 2]);
+    vec3.set(c, positions[i2 * 3], positions[i2 * 3 + 1], positions[i2 * 3 + 2]);
+    // Unnormalized cross product: its length is twice the face's area
+    vec3.cross(face, vec3.subtract(b, b, a), vec3.subtract(c, c, a));
+    for (const index of [i0, i1, i2]) {
+      normals[index * 3] += face[0];
+      normals[index * 3 + 1] += face[1];
+      normals[index * 3 + 2] += face[2];
+    }
+  }
+  return normalize(normals);
+}
+
+function normalize(normals: Float32Array): Float32Array {
+  for (let i = 0; i < normals.length; i += 3) {
+    const length = Math.hypot(normals[i], normals[i + 1], normals[i + 2]);
+    if (length > 0) {
+      normals[i] /= length;
+      normals[i + 1] /= length;
+      normals[i + 2] /= length;
+    } else {
+      normals[i + 1] = 1; // Degenerate: point up rather than nowhere
+    }
+  }
+  return normals;
+}
@@ -0,0 +1,86 @@
+/**
+ * Parameter Validation
+ *
+ * Checks values against their ParameterDefinition before they reach a demo:
+ * sliders are clamped to [min, max] and snapped to step, selects must name
+ * one of their options, colors must be 6-digit hex. Used for query strings
+ * and for values restored from localStorage, which may predate a change to
+ * the definitions or have been edited by hand.
+ */
+
+import type { ParameterDefinition, ParameterValue, ParameterValues } from './types';
+
+export function parseBoolean(raw: string | null): boolean | null {
+  if (raw === '1' || raw === 'true') return true;
+  if (raw === '0' || raw === 'false') return false;
+  return null;
+}
+
+/** Round away float noise (e.g. from step snapping) */
+export function roundParameterValue(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Parse and validate a raw string value against its definition.
+ * Returns null when the value cannot be used.
+ */
+export function parseParameterValue(
+  definition: ParameterDefinition,
+  raw: string
+): ParameterValue | null {
+  switch (definition.type) {
+    case 'slider': {
+      const parsed = parseFloat(raw);
+      if (!Number.isFinite(parsed)) return null;
+      const clamped = Math.min(definition.max, Math.max(definition.min, parsed));
+      if (!definition.step) return clamped;
+      const steps = Math.round((clamped - definition.min) / definition.step);
+      const snapped = definition.min + steps * definition.step;
+      return Math.min(definition.max, roundParameterValue(snapped));
+    }
+    case 'toggle':
+      return parseBoolean(raw);
+    case 'select':
+      return definition.options.some((option) => option.value === raw) ? raw : null;
+    case 'color': {
+      const hex = raw.startsWith('#') ? raw.slice(1) : raw;
+      return /^[0-9a-f]{6}$/i.test(hex) ? `#${hex.toLowerCase()}` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate an already-typed value (e.g. from JSON) against its definition.
+ * The value must have the definition's type; it then gets the same
+ * clamping and checks as parseParameterValue.
+ */
+export function validateParameterValue(
+  definition: ParameterDefinition,
+  value: unknown
+): ParameterValue | null {
+  const expected =
+    definition.type === 'slider' ? 'number' : definition.type === 'toggle' ? 'boolean' : 'string';
+  if (typeof value !== expected) return null;
+  return parseParameterValue(definition, String(value));
+}
+
+/** Keep only the values that validate against a definition, dropping the rest */
+export function validateParameterValues(
+  definitions: ParameterDefinition[],
+  values: unknown
+): ParameterValues {
+  const valid: ParameterValues = {};
+  if (!values || typeof values !== 'object') return valid;
+  const record = values as Record<string, unknown>;
+  for (const definition of definitions) {
+    if (!Object.hasOwn(record, definition.key)) continue;
+    const value = validateParameterValue(definition, record[definition.key]);
+    if (value !== null) {
+      valid[definition.key] = value;
+    }
+  }
+  return valid;
+}
@@ -0,0 +1,207 @@
+/**
+ * Pointer Input
+ *
+ * Tracks mouse, pen and touch pointers over a canvas with Pointer Events
+ * and hands demos one snapshot per frame: every active pointer with its
+ * movement since the last frame, plus the zoom (wheel or two-finger pinch)
+ * and drag accumulated in between. Held keys are tracked too, for demos
+ * that steer with the keyboard (e.g. a fly camera), except while typing
+ * into a form field.
+ *
+ * Zoom is measured as the log of the scale factor, so a pinch that doubles
+ * the finger spread adds ln 2 and wheel notches add up the same way.
+ * Positions are normalized 0-1 across the canvas with y pointing up.
+ */
+
+import type { PointerState } from './types';
+
+export interface PointerFrame {
+  pointers: PointerState[];
+  primary: { x: number; y: number; down: boolean };
+  zoomDelta: number;
+  dragX: number;
+  dragY: number;
+  keys: Set<string>;
+}
+
+// Zoom per wheel pixel; a typical notch (100px) is about 1.2x
+const WHEEL_ZOOM = 0.002;
+// Pixels per line for wheel events reported in lines (Firefox)
+const WHEEL_LINE_HEIGHT = 16;
+
+export class PointerInput {
+  private canvas: HTMLCanvasElement;
+  private pointers = new Map<number, PointerState>();
+  // Last primary position, kept after the pointer leaves like mouseX/mouseY always did
+  private primary = { x: 0.5, y: 0.5, down: false };
+  private zoomDelta = 0;
+  private dragX = 0;
+  private dragY = 0;
+  private pinchDistance: number | null = null;
+  private keys = new Set<string>();
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    canvas.addEventListener('pointerdown', this.handlePointerDown);
+    canvas.addEventListener('pointermove', this.handlePointerMove);
+    canvas.addEventListener('pointerup', this.handlePointerUp);
+    canvas.addEventListener('pointercancel', this.handlePointerEnd);
+    canvas.addEventListener('pointerleave', this.handlePointerLeave);
+    // Not passive, so wheel and pinch don't scroll or zoom the page
+    canvas.addEventListener('wheel', this.handleWheel, { passive: false });
+    // Right and middle drags belong to the demo, not the context menu
+    canvas.addEventListener('contextmenu', this.handleContextMenu);
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.handleBlur);
+  }
+
+  /** State for the frame about to render; resets the accumulated deltas */
+  consume(): PointerFrame {
+    const frame: PointerFrame = {
+      pointers: Array.from(this.pointers.values(), (pointer) => ({ ...pointer })),
+      primary: { ...this.primary },
+      zoomDelta: this.zoomDelta,
+      dragX: this.dragX,
+      dragY: this.dragY,
+      keys: new Set(this.keys),
+    };
+    for (const pointer of this.pointers.values()) {
+      pointer.deltaX = 0;
+      pointer.deltaY = 0;
+    }
+    this.zoomDelta = 0;
+    this.dragX = 0;
+    this.dragY = 0;
+    return frame;
+  }
+
+  destroy(): void {
+    const canvas = this.canvas;
+    canvas.removeEventListener('pointerdown', this.handlePointerDown);
+    canvas.removeEventListener('pointermove', this.handlePointerMove);
+    canvas.removeEventListener('pointerup', this.handlePointerUp);
+    canvas.removeEventListener('pointercancel', this.handlePointerEnd);
+    canvas.removeEventListener('pointerleave', this.handlePointerLeave);
+    canvas.removeEventListener('wheel', this.handleWheel);
+    canvas.removeEventListener('contextmenu', this.handleContextMenu);
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.handleBlur);
+    this.pointers.clear();
+    this.keys.clear();
+  }
+
+  private handlePointerDown = (e: PointerEvent) => {
+    // Keep receiving moves while dragging outside the canvas
+    this.canvas.setPointerCapture(e.pointerId);
+    this.update(e);
+    this.pinchDistance = this.getPinchDistance();
+  };
+
+  private handlePointerMove = (e: PointerEvent) => {
+    this.update(e);
+
+    const distance = this.getPinchDistance();
+    if (distance !== null && this.pinchDistance !== null && this.pinchDistance > 0) {
+      this.zoomDelta += Math.log(distance / this.pinchDistance);
+    }
+    this.pinchDistance = distance;
+  };
+
+  private handlePointerUp = (e: PointerEvent) => {
+    // Touch and pen pointers go away when lifted; a mouse keeps hovering
+    if (e.pointerType === 'mouse') {
+      this.update(e);
+    } else {
+      this.handlePointerEnd(e);
+    }
+  };
+
+  private handlePointerEnd = (e: PointerEvent) => {
+    this.pointers.delete(e.pointerId);
+    if (e.isPrimary) this.primary.down = false;
+    this.pinchDistance = this.getPinchDistance();
+  };
+
+  private handlePointerLeave = (e: PointerEvent) => {
+    // Captured pointers get a leave on release; pointerup already handled it
+    if (!this.canvas.hasPointerCapture(e.pointerId)) {
+      this.handlePointerEnd(e);
+    }
+  };
+
+  private handleWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    const pixels = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * WHEEL_LINE_HEIGHT : e.deltaY;
+    this.zoomDelta -= pixels * WHEEL_ZOOM;
+  };
+
+  private handleContextMenu = (e: MouseEvent) => {
+    e.preventDefault();
+  };
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (isFormField(e.target)) return;
+    this.keys.add(e.code);
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    this.keys.delete(e.code);
+  };
+
+  // Keys released while the window is in the background never send keyup
+  private handleBlur = () => {
+    this.keys.clear();
+  };
+
+  private update(e: PointerEvent): void {
+    const rect = this.canvas.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / Math.max(1, rect.width);
+    const y = 1 - (e.clientY - rect.top) / Math.max(1, rect.height);
+
+    const previous = this.pointers.get(e.pointerId);
+    const dx = previous ? x - previous.x : 0;
+    const dy = previous ? y - previous.y : 0;
+    // Drag follows the average movement of the held pointers
+    if (previous && previous.buttons !== 0 && e.buttons !== 0) {
+      const held = Array.from(this.pointers.values()).filter((pointer) => pointer.buttons !== 0).length;
+      this.dragX += dx / held;
+      this.dragY += dy / held;
+    }
+
+    this.pointers.set(e.pointerId, {
+      id: e.pointerId,
+      type: e.pointerType === 'pen' || e.pointerType === 'touch' ? e.pointerType : 'mouse',
+      primary: e.isPrimary,
+      x,
+      y,
+      deltaX: (previous?.deltaX ?? 0) + dx,
+      deltaY: (previous?.deltaY ?? 0) + dy,
+      pressure: e.pressure,
+      buttons: e.buttons,
+    });
+
+    if (e.isPrimary) {
+      this.primary = { x, y, down: e.buttons !== 0 };
+    }
+  }
+
+  /** Distance between the first two touches, in CSS pixels */
+  private getPinchDistance(): number | null {
+    const touches = Array.from(this.pointers.values()).filter((pointer) => pointer.type === 'touch');
+    if (touches.length < 2) return null;
+    const rect = this.canvas.getBoundingClientRect();
+    const dx = (touches[0].x - touches[1].x) * rect.width;
+    const dy = (touches[0].y - touches[1].y) * rect.height;
+    return Math.hypot(dx, dy);
+  }
+}
+
+function isFormField(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
@@ -0,0 +1,209 @@
+/**
+ * Postprocess Chain
+ *
+ * Runs a stack of effect passes over any demo's output. The demo renders
+ * into an offscreen scene target, then each enabled pass reads the previous
+ * result and writes the next one, with the last pass drawing to the canvas.
+ */
+
+import { createBuffer, createVao } from './buffer';
+import {
+  createFramebufferWithTexture,
+  resizeFramebuffer,
+  deleteFramebuffer,
+} from './texture';
+import type {
+  DemoContext,
+  FramebufferInfo,
+  PostProcessPass,
+  PostProcessPassFactory,
+  PostProcessPassState,
+} from './types';
+
+/**
+ * Shared vertex shader for passes drawn with drawFullscreen()
+ */
+export const POSTPROCESS_VERTEX_SHADER = `#version 300 es
+precision highp float;
+
+layout(location = 0) in vec2 a_position;
+layout(location = 1) in vec2 a_uv;
+out vec2 v_uv;
+
+void main() {
+  v_uv = a_uv;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}
+`;
+
+interface ChainEntry {
+  id: string;
+  type: string;
+  enabled: boolean;
+  pass: PostProcessPass;
+}
+
+export class PostProcessChain {
+  private gl: WebGL2RenderingContext;
+  private getFactory: (type: string) => PostProcessPassFactory | undefined;
+  private entries: ChainEntry[] = [];
+  private vao: WebGLVertexArrayObject;
+  private buffer: WebGLBuffer;
+  private targets: [FramebufferInfo, FramebufferInfo] | null = null;
+
+  constructor(
+    gl: WebGL2RenderingContext,
+    getFactory: (type: string) => PostProcessPassFactory | undefined
+  ) {
+    this.gl = gl;
+    this.getFactory = getFactory;
+
+    // Fullscreen triangle: position (x, y), UV (u, v)
+    const vertices = new Float32Array([
+      -1, -1, 0, 0,
+       3, -1, 2, 0,
+      -1,  3, 0, 2,
+    ]);
+    this.vao = createVao(gl);
+    gl.bindVertexArray(this.vao);
+    this.buffer = createBuffer(gl, vertices);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.buffer);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 16, 0);
+    gl.enableVertexAttribArray(1);
+    gl.vertexAttribPointer(1, 2, gl.FLOAT, false, 16, 8);
+    gl.bindVertexArray(null);
+  }
+
+  /**
+   * Match the chain to the user's pass stack: creates passes that are new,
+   * destroys removed ones, and applies order, enabled flags and parameters.
+   */
+  sync(states: PostProcessPassState[]): void {
+    const existing = new Map(this.entries.map((entry) => [entry.id, entry]));
+    const next: ChainEntry[] = [];
+
+    for (const state of states) {
+      let entry = existing.get(state.id);
+      if (entry) {
+        existing.delete(state.id);
+      } else {
+        const factory = this.getFactory(state.type);
+        if (!factory) {
+          console.warn(`Unknown postprocess pass: ${state.type}`);
+          continue;
+        }
+        try {
+          entry = {
+            id: state.id,
+            type: state.type,
+            enabled: state.enabled,
+            pass: factory(this.gl, this.drawFullscreen),
+          };
+        } catch (err) {
+          console.error(`Failed to create postprocess pass: ${state.type}`, err);
+          continue;
+        }
+      }
+
+      entry.enabled = state.enabled;
+      for (const [key, value] of Object.entries(state.parameters)) {
+        entry.pass.setParameter(key, value);
+      }
+      next.push(entry);
+    }
+
+    // Anything left over was removed from the stack
+    for (const entry of existing.values()) {
+      entry.pass.destroy();
+    }
+    this.entries = next;
+  }
+
+  /** True if at least one pass would run */
+  isActive(): boolean {
+    return this.entries.some((entry) => entry.enabled);
+  }
+
+  /**
+   * Bind the offscreen scene target for the demo to render into
+   * Returns the framebuffer to hand the demo as ctx.outputFramebuffer.
+   */
+  beginScene(width: number, height: number): WebGLFramebuffer {
+    const gl = this.gl;
+    const targets = this.ensureTargets(width, height);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, targets[0].framebuffer);
+    gl.viewport(0, 0, width, height);
+    return targets[0].framebuffer;
+  }
+
+  /** Run every enabled pass, ping-ponging between targets, ending on the canvas */
+  render(ctx: DemoContext): void {
+    if (!this.targets) return;
+
+    const gl = this.gl;
+    const active = this.entries.filter((entry) => entry.enabled);
+    let [input, spare] = this.targets;
+
+    // Passes draw fullscreen and overwrite every pixel
+    gl.disable(gl.DEPTH_TEST);
+    gl.disable(gl.BLEND);
+    gl.disable(gl.CULL_FACE);
+
+    for (let i = 0; i < active.length; i++) {
+      const isLast = i === active.length - 1;
+      const output = isLast ? null : spare;
+
+      gl.bindFramebuffer(gl.FRAMEBUFFER, output ? output.framebuffer : null);
+      gl.viewport(0, 0, ctx.width, ctx.height);
+      active[i].pass.render({ ctx, input, output });
+
+      if (output) {
+        [input, spare] = [output, input];
+      }
+    }
+
+    gl.bindVertexArray(null);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+
+  /** Draw the shared fullscreen triangle with the currently bound program */
+  drawFullscreen = (): void => {
+    const gl = this.gl;
+    gl.bindVertexArray(this.vao);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+  };
+
+  private ensureTargets(width: number, height: number): [FramebufferInfo, FramebufferInfo] {
+    const gl = this.gl;
+    if (!this.targets) {
+      // Depth on both so 3D demos behave as they do on the default framebuffer
+      this.targets = [
+        createFramebufferWithTexture(gl, width, height, true),
+        createFramebufferWithTexture(gl, width, height, true),
+      ];
+    } else if (this.targets[0].width !== width || this.targets[0].height !== height) {
+      for (const target of this.targets) {
+        resizeFramebuffer(gl, target, width, height);
+      }
+    }
+    return this.targets;
+  }
+
+  /** Clean up all passes and targets */
+  destroy(): void {
+    const gl = this.gl;
+    for (const entry of this.entries) {
+      entry.pass.destroy();
+    }
+    this.entries = [];
+    if (this.targets) {
+      for (const target of this.targets) {
+        deleteFramebuffer(gl, target);
+      }
+      this.targets = null;
+    }
+    gl.deleteVertexArray(this.vao);
+    gl.deleteBuffer(this.buffer);
+  }
+}
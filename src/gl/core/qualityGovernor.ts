@@ -0,0 +1,187 @@
+/**
+ * Auto Quality Governor
+ *
+ * Watches frame and GPU times over a rolling window and moves the quality
+ * scale along the preset ladder (low → ultra, in quarter steps) to hold a
+ * target frame rate.
+ *
+ * Stepping down happens as soon as a window runs over budget. Stepping up
+ * needs several comfortable windows in a row, and every step up that has
+ * to be taken back doubles that wait, so the governor settles instead of
+ * oscillating between two levels.
+ */
+
+import { getQualityLevels, getQualityScaleAt } from './qualityPresets';
+import type { QualityLevel, QualityScale, TargetFps } from './types';
+
+export const TARGET_FPS_OPTIONS: TargetFps[] = [30, 60, 120];
+
+export interface QualityAdjustment {
+  direction: 'up' | 'down';
+  from: QualityScale;
+  to: QualityScale;
+  frameTime: number;          // Window average that triggered it, ms
+  gpuTime?: number;           // Window average, ms (when timer queries work)
+}
+
+/** Current quality as shown in the HUD */
+export interface QualityStatus {
+  auto: boolean;
+  targetFps: TargetFps;
+  level: QualityLevel;
+  scale: QualityScale;
+  lastAdjustment: QualityAdjustment | null;
+}
+
+// Preset ladder position moved per adjustment (4 steps between presets)
+const STEP = 0.25;
+// Length of one evaluation window
+const WINDOW_MS = 1000;
+const MIN_SAMPLES = 10;
+// Longer gaps are tab switches or breakpoints, not slow frames
+const MAX_SAMPLE_MS = 250;
+
+// Over budget by more than this → step down
+const SLOW_FACTOR = 1.15;
+// Within budget (vsync keeps frame time at the refresh interval) → may step up
+const FAST_FACTOR = 1.05;
+// With GPU timing, stepping up also needs this much GPU headroom
+const GPU_HEADROOM = 0.6;
+
+// Comfortable windows needed before stepping up
+const MIN_UP_DELAY = 3;
+const MAX_UP_DELAY = 48;
+
+export class QualityGovernor {
+  private targetFps: TargetFps;
+  private position: number;
+  private frameTimes: number[] = [];
+  private gpuTimes: number[] = [];
+  private windowStart = -1;
+  private fastWindows = 0;
+  private upDelay = MIN_UP_DELAY;
+  private lastDirection: 'up' | 'down' | null = null;
+  private settling = false;
+
+  constructor(targetFps: TargetFps, startLevel: QualityLevel) {
+    this.targetFps = targetFps;
+    this.position = getQualityLevels().indexOf(startLevel);
+  }
+
+  setTargetFps(targetFps: TargetFps): void {
+    this.targetFps = targetFps;
+    this.upDelay = MIN_UP_DELAY;
+    this.reset();
+  }
+
+  getTargetFps(): TargetFps {
+    return this.targetFps;
+  }
+
+  getScale(): QualityScale {
+    return getQualityScaleAt(this.position);
+  }
+
+  /** The preset closest to the current scale, for ctx.quality */
+  getNearestLevel(): QualityLevel {
+    return getQualityLevels()[Math.round(this.position)];
+  }
+
+  /** Drop the current window, e.g. after a demo switch */
+  reset(): void {
+    this.frameTimes = [];
+    this.gpuTimes = [];
+    this.windowStart = -1;
+    this.fastWindows = 0;
+  }
+
+  /**
+   * Record one rendered frame
+   * Returns the adjustment made when this sample closed a window that
+   * called for one, otherwise null.
+   */
+  sample(frameTime: number, gpuTime: number | undefined, now: number): QualityAdjustment | null {
+    if (frameTime <= 0 || frameTime > MAX_SAMPLE_MS) {
+      this.reset();
+      return null;
+    }
+
+    if (this.windowStart < 0) this.windowStart = now;
+    this.frameTimes.push(frameTime);
+    if (gpuTime !== undefined && gpuTime > 0) this.gpuTimes.push(gpuTime);
+
+    if (now - this.windowStart < WINDOW_MS || this.frameTimes.length < MIN_SAMPLES) {
+      return null;
+    }
+
+    const avgFrame = average(this.frameTimes);
+    const avgGpu = this.gpuTimes.length > 0 ? average(this.gpuTimes) : undefined;
+    this.frameTimes = [];
+    this.gpuTimes = [];
+    this.windowStart = now;
+
+    // The window right after a change includes the rebuild hitch
+    if (this.settling) {
+      this.settling = false;
+      return null;
+    }
+
+    return this.evaluate(avgFrame, avgGpu);
+  }
+
+  private evaluate(frameTime: number, gpuTime: number | undefined): QualityAdjustment | null {
+    const budget = 1000 / this.targetFps;
+    const slow = frameTime > budget * SLOW_FACTOR;
+    const fast =
+      frameTime <= budget * FAST_FACTOR &&
+      (gpuTime === undefined || gpuTime < budget * GPU_HEADROOM);
+
+    if (slow) {
+      this.fastWindows = 0;
+      if (this.lastDirection === 'up') {
+        // The last step up didn't hold
+        this.upDelay = Math.min(MAX_UP_DELAY, this.upDelay * 2);
+      }
+      return this.step(-STEP, 'down', frameTime, gpuTime);
+    }
+
+    if (this.lastDirection === 'up') {
+      // The last step up held
+      this.upDelay = MIN_UP_DELAY;
+      this.lastDirection = null;
+    }
+
+    if (!fast) {
+      this.fastWindows = 0;
+      return null;
+    }
+
+    this.fastWindows++;
+    if (this.fastWindows < this.upDelay) return null;
+    this.fastWindows = 0;
+    return this.step(STEP, 'up', frameTime, gpuTime);
+  }
+
+  private step(
+    delta: number,
+    direction: 'up' | 'down',
+    frameTime: number,
+    gpuTime: number | undefined
+  ): QualityAdjustment | null {
+    const max = getQualityLevels().length - 1;
+    const next = Math.min(max, Math.max(0, this.position + delta));
+    if (next === this.position) return null;
+
+    const from = this.getScale();
+    this.position = next;
+    this.lastDirection = direction;
+    this.settling = true;
+    return { direction, from, to: this.getScale(), frameTime, gpuTime };
+  }
+}
+
+function average(values: number[]): number {
+  let sum = 0;
+  for (const value of values) sum += value;
+  return sum / values.length;
+}
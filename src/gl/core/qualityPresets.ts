@@ -5,7 +5,7 @@
  * particle counts, instance counts, and shader complexity.
  */
 
-import type { QualityLevel, QualityPreset } from './types';
+import type { QualityLevel, QualityPreset, QualityScale } from './types';
 
 export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
   low: {
@@ -62,25 +62,41 @@ export function getResolutionMultiplier(level: QualityLevel): number {
 }
 
 /**
- * Calculate scaled particle count based on quality
+ * Get the scale factors of a preset
  */
-export function getScaledParticleCount(
-  baseCount: number,
-  level: QualityLevel
-): number {
+export function getQualityScale(level: QualityLevel): QualityScale {
   const preset = QUALITY_PRESETS[level];
-  return Math.floor(baseCount * preset.particleMultiplier);
+  return {
+    resolution: getResolutionMultiplier(level),
+    particleMultiplier: preset.particleMultiplier,
+    instanceMultiplier: preset.instanceMultiplier,
+  };
 }
 
 /**
- * Calculate scaled instance count based on quality
+ * Interpolate scale factors between presets
+ * position runs from 0 (low) to 3 (ultra); whole numbers match the presets.
  */
-export function getScaledInstanceCount(
-  baseCount: number,
-  level: QualityLevel
-): number {
-  const preset = QUALITY_PRESETS[level];
-  return Math.floor(baseCount * preset.instanceMultiplier);
+export function getQualityScaleAt(position: number): QualityScale {
+  const levels = getQualityLevels();
+  const clamped = Math.min(levels.length - 1, Math.max(0, position));
+  const lower = Math.floor(clamped);
+  const upper = Math.min(levels.length - 1, lower + 1);
+  const t = clamped - lower;
+  const a = getQualityScale(levels[lower]);
+  const b = getQualityScale(levels[upper]);
+  return {
+    resolution: a.resolution + (b.resolution - a.resolution) * t,
+    particleMultiplier: a.particleMultiplier + (b.particleMultiplier - a.particleMultiplier) * t,
+    instanceMultiplier: a.instanceMultiplier + (b.instanceMultiplier - a.instanceMultiplier) * t,
+  };
+}
+
+/**
+ * Scale a particle or instance count by a continuous multiplier
+ */
+export function scaleCount(baseCount: number, multiplier: number): number {
+  return Math.max(1, Math.floor(baseCount * multiplier));
 }
 
 /**
@@ -0,0 +1,239 @@
+/**
+ * Canvas Recorder
+ *
+ * Captures canvas frames to a WebM file.
+ * Prefers WebCodecs, where every frame carries an explicit timestamp,
+ * so fixed-timestep recordings play back smoothly no matter how long
+ * each frame took to render. Falls back to MediaRecorder, which can
+ * only sample the canvas in real time.
+ */
+
+import { muxWebM, type WebMFrame } from './webm';
+
+export interface RecordingOptions {
+  duration: number;        // Seconds
+  fps: number;
+  width: number | null;    // Resolution override; null keeps the canvas size
+  height: number | null;
+  fixedTimestep: boolean;  // Advance time by exactly 1/fps per frame
+}
+
+export const DEFAULT_RECORDING_OPTIONS: RecordingOptions = {
+  duration: 5,
+  fps: 60,
+  width: null,
+  height: null,
+  fixedTimestep: true,
+};
+
+/**
+ * Largest resolution override this context can record at
+ * The canvas' drawing buffer is bounded by MAX_RENDERBUFFER_SIZE and drawn
+ * through a single viewport, bounded by MAX_VIEWPORT_DIMS.
+ */
+export function getMaxRecordingSize(gl: WebGL2RenderingContext): { width: number; height: number } {
+  const renderbufferSize = gl.getParameter(gl.MAX_RENDERBUFFER_SIZE) as number;
+  const viewportDims = gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array;
+  return {
+    width: Math.min(renderbufferSize, viewportDims[0]),
+    height: Math.min(renderbufferSize, viewportDims[1]),
+  };
+}
+
+export interface CanvasRecorder {
+  /** True if frames are stamped explicitly (required for fixed-timestep capture) */
+  readonly timestamped: boolean;
+  /** Capture the canvas as it is now, at the given recording time in seconds */
+  captureFrame(time: number): Promise<void>;
+  /** Stop capturing and produce the WebM file */
+  finish(): Promise<Blob>;
+  /** Stop capturing and discard everything */
+  cancel(): void;
+}
+
+// Frames waiting in the encoder before captureFrame() starts waiting
+const MAX_QUEUED_FRAMES = 4;
+
+const WEBCODECS_CODECS = [
+  { codec: 'vp09.00.10.08', codecId: 'V_VP9' },
+  { codec: 'vp8', codecId: 'V_VP8' },
+] as const;
+
+const MEDIA_RECORDER_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+];
+
+/**
+ * Create the best available recorder for a canvas
+ * Width and height are rounded down to even values, as VP8/VP9 require.
+ */
+export async function createCanvasRecorder(
+  canvas: HTMLCanvasElement,
+  fps: number
+): Promise<CanvasRecorder> {
+  const width = canvas.width & ~1;
+  const height = canvas.height & ~1;
+
+  if (typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined') {
+    for (const { codec, codecId } of WEBCODECS_CODECS) {
+      const config: VideoEncoderConfig = {
+        codec,
+        width,
+        height,
+        framerate: fps,
+        bitrate: Math.round(width * height * fps * 0.15),
+      };
+      try {
+        const { supported } = await VideoEncoder.isConfigSupported(config);
+        if (supported) {
+          return new WebCodecsRecorder(canvas, config, codecId);
+        }
+      } catch {
+        // Invalid config for this browser - try the next codec
+      }
+    }
+  }
+
+  if (typeof MediaRecorder !== 'undefined' && typeof canvas.captureStream === 'function') {
+    return new MediaStreamRecorder(canvas, fps);
+  }
+
+  throw new Error('Video recording is not supported in this browser');
+}
+
+// ============================================================================
+// WebCodecs
+// ============================================================================
+
+class WebCodecsRecorder implements CanvasRecorder {
+  readonly timestamped = true;
+  private canvas: HTMLCanvasElement;
+  private config: VideoEncoderConfig;
+  private codecId: 'V_VP8' | 'V_VP9';
+  private encoder: VideoEncoder;
+  private frames: WebMFrame[] = [];
+  private frameCount = 0;
+  private lastTimestamp = 0;
+  private error: Error | null = null;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    config: VideoEncoderConfig,
+    codecId: 'V_VP8' | 'V_VP9'
+  ) {
+    this.canvas = canvas;
+    this.config = config;
+    this.codecId = codecId;
+    this.encoder = new VideoEncoder({
+      output: (chunk) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        this.frames.push({
+          data,
+          timestamp: chunk.timestamp / 1000,
+          keyFrame: chunk.type === 'key',
+        });
+      },
+      error: (err) => {
+        this.error = err;
+      },
+    });
+    this.encoder.configure(config);
+  }
+
+  async captureFrame(time: number): Promise<void> {
+    if (this.error) throw this.error;
+
+    const fps = this.config.framerate || 60;
+    const timestamp = Math.round(time * 1e6);
+    const frame = new VideoFrame(this.canvas, {
+      timestamp,
+      duration: Math.round(1e6 / fps),
+      // Crop away the odd row/column, if any
+      visibleRect: { x: 0, y: 0, width: this.config.width, height: this.config.height },
+    });
+    // A keyframe every second keeps seeking cheap
+    this.encoder.encode(frame, { keyFrame: this.frameCount % Math.round(fps) === 0 });
+    frame.close();
+    this.frameCount++;
+    this.lastTimestamp = timestamp;
+
+    // Don't let the encoder fall too far behind the renderer
+    while (this.encoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+  }
+
+  async finish(): Promise<Blob> {
+    await this.encoder.flush();
+    this.encoder.close();
+    if (this.error) throw this.error;
+
+    const fps = this.config.framerate || 60;
+    return muxWebM({
+      width: this.config.width,
+      height: this.config.height,
+      codecId: this.codecId,
+      frames: this.frames,
+      duration: this.lastTimestamp / 1000 + 1000 / fps,
+    });
+  }
+
+  cancel(): void {
+    if (this.encoder.state !== 'closed') {
+      this.encoder.close();
+    }
+    this.frames = [];
+  }
+}
+
+// ============================================================================
+// MediaRecorder Fallback
+// ============================================================================
+
+class MediaStreamRecorder implements CanvasRecorder {
+  readonly timestamped = false;
+  private stream: MediaStream;
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+
+  constructor(canvas: HTMLCanvasElement, fps: number) {
+    this.stream = canvas.captureStream(fps);
+    const mimeType = MEDIA_RECORDER_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(this.stream, mimeType ? { mimeType } : undefined);
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    this.recorder.start();
+  }
+
+  /** The stream samples the canvas by itself */
+  captureFrame(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  finish(): Promise<Blob> {
+    return new Promise((resolve) => {
+      this.recorder.onstop = () => {
+        this.stopTracks();
+        resolve(new Blob(this.chunks, { type: 'video/webm' }));
+      };
+      this.recorder.stop();
+    });
+  }
+
+  cancel(): void {
+    this.recorder.onstop = null;
+    if (this.recorder.state !== 'inactive') {
+      this.recorder.stop();
+    }
+    this.stopTracks();
+    this.chunks = [];
+  }
+
+  private stopTracks(): void {
+    this.stream.getTracks().forEach((track) => track.stop());
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * GL Resource Tracking
+ *
+ * Counts the GL objects a demo creates so leaks can be spotted after
+ * destroy(). The tracker hands out a proxy of the context that records
+ * every create*() and delete*() call, which covers objects made through
+ * the core helpers (createBuffer, createVao, createTexture,
+ * createFramebufferWithTexture, createProgram, ...) as well as direct
+ * gl calls, without the demos knowing about it.
+ */
+
+import type { GLLeakReport, GLResourceCounts, GLResourceKind } from './types';
+
+const CREATE_METHODS: Record<string, GLResourceKind> = {
+  createBuffer: 'buffer',
+  createVertexArray: 'vertexArray',
+  createTexture: 'texture',
+  createFramebuffer: 'framebuffer',
+  createRenderbuffer: 'renderbuffer',
+  createProgram: 'program',
+  createShader: 'shader',
+  createQuery: 'query',
+  createSampler: 'sampler',
+  createTransformFeedback: 'transformFeedback',
+};
+
+const DELETE_METHODS = new Set([
+  'deleteBuffer',
+  'deleteVertexArray',
+  'deleteTexture',
+  'deleteFramebuffer',
+  'deleteRenderbuffer',
+  'deleteProgram',
+  'deleteShader',
+  'deleteQuery',
+  'deleteSampler',
+  'deleteTransformFeedback',
+]);
+
+export const GL_RESOURCE_KINDS = Object.values(CREATE_METHODS);
+
+export function emptyResourceCounts(): GLResourceCounts {
+  const counts = {} as GLResourceCounts;
+  for (const kind of GL_RESOURCE_KINDS) {
+    counts[kind] = 0;
+  }
+  return counts;
+}
+
+export class GLResourceTracker {
+  /** Tracked context to hand to the demo */
+  readonly gl: WebGL2RenderingContext;
+  readonly label: string;
+  private live = new Map<object, GLResourceKind>();
+  private methods = new Map<PropertyKey, unknown>();
+
+  constructor(gl: WebGL2RenderingContext, label: string) {
+    this.label = label;
+    this.gl = new Proxy(gl, {
+      get: (target, prop) => {
+        const cached = this.methods.get(prop);
+        if (cached) return cached;
+
+        const value = Reflect.get(target, prop, target);
+        if (typeof value !== 'function') return value;
+
+        const method = this.wrap(target, prop, value);
+        this.methods.set(prop, method);
+        return method;
+      },
+    });
+  }
+
+  /** Live objects per kind */
+  getCounts(): GLResourceCounts {
+    const counts = emptyResourceCounts();
+    for (const kind of this.live.values()) {
+      counts[kind]++;
+    }
+    return counts;
+  }
+
+  /**
+   * Report whatever is still alive (call after the demo's destroy())
+   * Leaks are also logged to the console.
+   */
+  report(): GLLeakReport {
+    const leaked = this.getCounts();
+    const total = this.live.size;
+    if (total > 0) {
+      const summary = GL_RESOURCE_KINDS.filter((kind) => leaked[kind] > 0)
+        .map((kind) => `${leaked[kind]} ${kind}`)
+        .join(', ');
+      console.warn(`'${this.label}' leaked ${total} GL object(s): ${summary}`, [...this.live.keys()]);
+    }
+    return { label: this.label, leaked, total, timestamp: Date.now() };
+  }
+
+  private wrap(
+    target: WebGL2RenderingContext,
+    prop: PropertyKey,
+    method: (...args: unknown[]) => unknown
+  ): (...args: unknown[]) => unknown {
+    const kind = typeof prop === 'string' ? CREATE_METHODS[prop] : undefined;
+    if (kind) {
+      return (...args) => {
+        const handle = method.apply(target, args);
+        if (handle) this.live.set(handle as object, kind);
+        return handle;
+      };
+    }
+    if (typeof prop === 'string' && DELETE_METHODS.has(prop)) {
+      return (handle) => {
+        if (handle) this.live.delete(handle as object);
+        return method.call(target, handle);
+      };
+    }
+    return method.bind(target);
+  }
+}
@@ -2,8 +2,48 @@
  * WebGL2 Shader Compilation Utilities
  *
  * Provides helpers for compiling vertex/fragment shaders and linking programs.
+ * Also recompiles demo programs for the live shader editor.
  */
 
+import type {
+  DemoShaderProgram,
+  ShaderDiagnostic,
+  ShaderErrorEntry,
+  ShaderSourceLine,
+  ShaderStage,
+} from './types';
+
+/**
+ * Thrown when a shader fails to compile or a program fails to link
+ * Carries the parsed info log, with each entry pointing back into the
+ * source it came from.
+ */
+export class ShaderCompileError extends Error {
+  readonly stage: ShaderStage;
+  readonly entries: ShaderErrorEntry[];
+  programName: string | null = null;  // Set by createProgram for named programs
+
+  constructor(stage: ShaderStage, log: string, source: string | null) {
+    const label = stage === 'link' ? 'Program linking' : `${capitalize(stage)} shader compilation`;
+    super(`${label} error: ${log.trim()}`);
+    this.name = 'ShaderCompileError';
+    this.stage = stage;
+    this.entries = parseShaderInfoLog(log, stage).map((diagnostic) => ({
+      ...diagnostic,
+      context: source ? getSourceContext(source, diagnostic.line) : [],
+    }));
+  }
+}
+
+// Names given to createProgram, for debugging tools
+const programNames = new WeakMap<WebGLProgram, string>();
+
+export interface ProgramOptions {
+  name?: string;                           // Reported in ShaderCompileError and getProgramName
+  transformFeedbackVaryings?: string[];
+  attribLocations?: Record<string, number>; // Pin attributes to fixed slots
+}
+
 /**
  * Compile a shader from source
  */
@@ -21,9 +61,9 @@ export function createShader(
   gl.compileShader(shader);
 
   if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-    const info = gl.getShaderInfoLog(shader);
+    const info = gl.getShaderInfoLog(shader) ?? '';
     gl.deleteShader(shader);
-    throw new Error(`Shader compilation error: ${info}`);
+    throw new ShaderCompileError(type === gl.VERTEX_SHADER ? 'vertex' : 'fragment', info, source);
   }
 
   return shader;
@@ -36,11 +76,55 @@ export function createProgram(
   gl: WebGL2RenderingContext,
   vertexSource: string,
   fragmentSource: string,
-  transformFeedbackVaryings?: string[]
+  options: ProgramOptions = {}
 ): WebGLProgram {
-  const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexSource);
-  const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+  const { name, transformFeedbackVaryings, attribLocations } = options;
+  try {
+    const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexSource);
+    let fragmentShader: WebGLShader;
+    try {
+      fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+    } catch (err) {
+      gl.deleteShader(vertexShader);
+      throw err;
+    }
+    const program = linkProgram(
+      gl,
+      vertexShader,
+      fragmentShader,
+      transformFeedbackVaryings,
+      attribLocations
+    );
+    if (name) programNames.set(program, name);
+    return program;
+  } catch (err) {
+    if (err instanceof ShaderCompileError && name) {
+      err.programName = name;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Name a program was created with, if any
+ */
+export function getProgramName(program: WebGLProgram): string | null {
+  return programNames.get(program) ?? null;
+}
 
+/**
+ * Link compiled shaders into a program
+ * The shaders are deleted afterwards, whether linking succeeds or not.
+ * attribLocations pins attributes to fixed slots, e.g. to match the VAOs
+ * of a program being replaced.
+ */
+export function linkProgram(
+  gl: WebGL2RenderingContext,
+  vertexShader: WebGLShader,
+  fragmentShader: WebGLShader,
+  transformFeedbackVaryings?: string[],
+  attribLocations?: Record<string, number>
+): WebGLProgram {
   const program = gl.createProgram();
   if (!program) {
     gl.deleteShader(vertexShader);
@@ -60,6 +144,12 @@ export function createProgram(
     );
   }
 
+  if (attribLocations) {
+    for (const [name, location] of Object.entries(attribLocations)) {
+      gl.bindAttribLocation(program, location, name);
+    }
+  }
+
   gl.linkProgram(program);
 
   // Shaders can be deleted after linking
@@ -67,9 +157,9 @@ export function createProgram(
   gl.deleteShader(fragmentShader);
 
   if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-    const info = gl.getProgramInfoLog(program);
+    const info = gl.getProgramInfoLog(program) ?? '';
     gl.deleteProgram(program);
-    throw new Error(`Program linking error: ${info}`);
+    throw new ShaderCompileError('link', info, null);
   }
 
   return program;
@@ -104,3 +194,157 @@ export function getAttribLocation(
   }
   return location;
 }
+
+/**
+ * Get the locations of all active attributes in a program
+ */
+export function getAttribLocations(
+  gl: WebGL2RenderingContext,
+  program: WebGLProgram
+): Record<string, number> {
+  const locations: Record<string, number> = {};
+  const count = gl.getProgramParameter(program, gl.ACTIVE_ATTRIBUTES) as number;
+  for (let i = 0; i < count; i++) {
+    const info = gl.getActiveAttrib(program, i);
+    // Built-ins such as gl_VertexID are reported with location -1
+    if (!info || info.name.startsWith('gl_')) continue;
+    locations[info.name] = gl.getAttribLocation(program, info.name);
+  }
+  return locations;
+}
+
+// ============================================================================
+// Live Editing
+// ============================================================================
+
+// ANGLE / most drivers: "ERROR: 0:12: 'foo' : undeclared identifier"
+const ANGLE_LOG_LINE = /^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/;
+// Mesa: "0:12(5): error: `foo' undeclared"
+const MESA_LOG_LINE = /^\d+:(\d+)\((\d+)\):\s*(error|warning):\s*(.*)$/;
+
+/**
+ * Parse a shader or program info log into per-line diagnostics
+ * Lines in an unknown format are kept as line-0 errors.
+ */
+export function parseShaderInfoLog(log: string, stage: ShaderStage): ShaderDiagnostic[] {
+  const diagnostics: ShaderDiagnostic[] = [];
+
+  for (const raw of log.split('\n')) {
+    const text = raw.replace(/\0/g, '').trim();
+    if (!text) continue;
+
+    const angle = ANGLE_LOG_LINE.exec(text);
+    if (angle) {
+      // ANGLE follows the real error with a noisy "compilation terminated" entry
+      if (angle[3].includes('compilation terminated')) continue;
+      diagnostics.push({
+        stage,
+        line: parseInt(angle[2], 10),
+        column: 0,
+        severity: angle[1] === 'WARNING' ? 'warning' : 'error',
+        message: angle[3],
+      });
+      continue;
+    }
+
+    const mesa = MESA_LOG_LINE.exec(text);
+    if (mesa) {
+      diagnostics.push({
+        stage,
+        line: parseInt(mesa[1], 10),
+        column: parseInt(mesa[2], 10),
+        severity: mesa[3] === 'warning' ? 'warning' : 'error',
+        message: mesa[4],
+      });
+      continue;
+    }
+
+    diagnostics.push({ stage, line: 0, column: 0, severity: 'error', message: text });
+  }
+
+  return diagnostics;
+}
+
+export interface RecompileResult {
+  program: WebGLProgram | null;  // null if anything failed
+  diagnostics: ShaderDiagnostic[];
+}
+
+/**
+ * Recompile an editable program from new sources
+ * Attribute locations and transform feedback varyings are carried over from
+ * the current program, so the demo's existing VAOs keep working with the new one.
+ * The current program is left untouched.
+ */
+export function recompileShaderProgram(
+  gl: WebGL2RenderingContext,
+  current: DemoShaderProgram,
+  vertexSource: string,
+  fragmentSource: string
+): RecompileResult {
+  const stages: { stage: ShaderStage; type: number; source: string }[] = [
+    { stage: 'vertex', type: gl.VERTEX_SHADER, source: vertexSource },
+    { stage: 'fragment', type: gl.FRAGMENT_SHADER, source: fragmentSource },
+  ];
+  const shaders: WebGLShader[] = [];
+  const diagnostics: ShaderDiagnostic[] = [];
+
+  // Compile both stages, even if the first fails, to report every error at once
+  for (const { stage, type, source } of stages) {
+    try {
+      shaders.push(createShader(gl, type, source));
+    } catch (err) {
+      diagnostics.push(...toDiagnostics(err, stage));
+    }
+  }
+
+  if (diagnostics.length > 0) {
+    shaders.forEach((shader) => gl.deleteShader(shader));
+    return { program: null, diagnostics };
+  }
+
+  try {
+    const program = linkProgram(
+      gl,
+      shaders[0],
+      shaders[1],
+      current.transformFeedbackVaryings,
+      getAttribLocations(gl, current.program)
+    );
+    programNames.set(program, current.name);
+    return { program, diagnostics: [] };
+  } catch (err) {
+    return { program: null, diagnostics: toDiagnostics(err, 'link') };
+  }
+}
+
+/**
+ * Source lines around a 1-based line number, for showing an error in place
+ * Returns nothing for line 0 (errors the log doesn't pin to a line).
+ */
+export function getSourceContext(source: string, line: number, radius = 2): ShaderSourceLine[] {
+  if (line <= 0) return [];
+  const lines = source.split('\n');
+  const context: ShaderSourceLine[] = [];
+  const first = Math.max(1, line - radius);
+  const last = Math.min(lines.length, line + radius);
+  for (let n = first; n <= last; n++) {
+    context.push({ line: n, text: lines[n - 1], isError: n === line });
+  }
+  return context;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function toDiagnostics(err: unknown, stage: ShaderStage): ShaderDiagnostic[] {
+  if (err instanceof ShaderCompileError) {
+    return err.entries;
+  }
+  return [{ stage, line: 0, column: 0, severity: 'error', message: (err as Error).message }];
+}
@@ -0,0 +1,169 @@
+/**
+ * Demo Snapshots
+ *
+ * Renders a single deterministic frame of a demo (fixed size, time,
+ * mouse position and default parameters) and reads it back, plus a
+ * perceptual image comparison for checking frames against references.
+ */
+
+import { getQualityScale } from './qualityPresets';
+import { TextureCache, initWithTextures } from './textureLoader';
+import type { DemoContext, DemoFactory, QualityLevel } from './types';
+
+export interface SnapshotOptions {
+  width: number;
+  height: number;
+  time: number;        // Seconds
+  mouseX: number;      // Normalized 0-1
+  mouseY: number;      // Normalized 0-1
+  quality: QualityLevel;
+}
+
+export const DEFAULT_SNAPSHOT_OPTIONS: SnapshotOptions = {
+  width: 256,
+  height: 256,
+  time: 1,
+  mouseX: 0.5,
+  mouseY: 0.5,
+  quality: 'high',
+};
+
+/** RGBA pixels, top row first (same layout as ImageData) */
+export interface Snapshot {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface SnapshotComparison {
+  mismatchedPixels: number;
+  mismatchRatio: number;
+  diff: Snapshot;      // Mismatches in red over a faded copy of the expected image
+}
+
+/**
+ * Create a demo on the context's canvas, render one frame and read it back
+ * The demo is destroyed before returning.
+ */
+export async function renderSnapshot(
+  gl: WebGL2RenderingContext,
+  factory: DemoFactory,
+  options: SnapshotOptions = DEFAULT_SNAPSHOT_OPTIONS
+): Promise<Snapshot> {
+  const { width, height } = options;
+  const canvas = gl.canvas as HTMLCanvasElement;
+  canvas.width = width;
+  canvas.height = height;
+  gl.viewport(0, 0, width, height);
+
+  const demo = factory(gl);
+  const textures = new TextureCache(gl);
+  try {
+    await initWithTextures(demo, textures);
+    demo.resize(width, height, 1);
+
+    const ctx: DemoContext = {
+      gl,
+      canvas,
+      width,
+      height,
+      dpr: 1,
+      time: options.time,
+      deltaTime: 1 / 60,
+      mouseX: options.mouseX,
+      mouseY: options.mouseY,
+      mouseDown: false,
+      pointers: [],
+      zoomDelta: 0,
+      dragX: 0,
+      dragY: 0,
+      keys: new Set(),
+      quality: options.quality,
+      qualityScale: getQualityScale(options.quality),
+      reduceMotion: false,
+      outputFramebuffer: null,
+    };
+    demo.render(ctx);
+
+    const pixels = new Uint8Array(width * height * 4);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+    return { width, height, data: flipRows(pixels, width, height) };
+  } finally {
+    demo.destroy();
+    textures.destroy();
+  }
+}
+
+/**
+ * Compare two snapshots pixel by pixel using perceptual (YIQ) color distance
+ * threshold is 0-1; higher values tolerate larger per-pixel differences.
+ */
+export function compareSnapshots(
+  actual: Snapshot,
+  expected: Snapshot,
+  threshold = 0.1
+): SnapshotComparison {
+  if (actual.width !== expected.width || actual.height !== expected.height) {
+    throw new Error(
+      `Snapshot size mismatch: ${actual.width}x${actual.height} vs ${expected.width}x${expected.height}`
+    );
+  }
+
+  // 35215 is the largest possible YIQ delta
+  const maxDelta = 35215 * threshold * threshold;
+  const diff = new Uint8ClampedArray(actual.data.length);
+  let mismatchedPixels = 0;
+
+  for (let i = 0; i < actual.data.length; i += 4) {
+    if (colorDelta(actual.data, expected.data, i) > maxDelta) {
+      mismatchedPixels++;
+      diff[i] = 255;
+      diff[i + 1] = 0;
+      diff[i + 2] = 0;
+    } else {
+      const gray = 255 - (255 - luma(expected.data, i)) * 0.1;
+      diff[i] = gray;
+      diff[i + 1] = gray;
+      diff[i + 2] = gray;
+    }
+    diff[i + 3] = 255;
+  }
+
+  return {
+    mismatchedPixels,
+    mismatchRatio: mismatchedPixels / (actual.width * actual.height),
+    diff: { width: actual.width, height: actual.height, data: diff },
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function flipRows(pixels: Uint8Array, width: number, height: number): Uint8ClampedArray {
+  const flipped = new Uint8ClampedArray(pixels.length);
+  const rowSize = width * 4;
+  for (let y = 0; y < height; y++) {
+    const src = (height - 1 - y) * rowSize;
+    flipped.set(pixels.subarray(src, src + rowSize), y * rowSize);
+  }
+  return flipped;
+}
+
+function luma(data: Uint8ClampedArray, i: number): number {
+  return data[i] * 0.29889531 + data[i + 1] * 0.58662247 + data[i + 2] * 0.11448223;
+}
+
+/** Squared YIQ distance, weighted towards luminance */
+function colorDelta(a: Uint8ClampedArray, b: Uint8ClampedArray, i: number): number {
+  const dr = a[i] - b[i];
+  const dg = a[i + 1] - b[i + 1];
+  const db = a[i + 2] - b[i + 2];
+
+  const y = dr * 0.29889531 + dg * 0.58662247 + db * 0.11448223;
+  const iq = dr * 0.59597799 - dg * 0.2741761 - db * 0.32180189;
+  const q = dr * 0.21147017 - dg * 0.52261711 + db * 0.31114694;
+
+  return 0.5053 * y * y + 0.299 * iq * iq + 0.1957 * q * q;
+}
@@ -2,13 +2,21 @@
  * Performance Statistics Tracker
  *
  * Tracks FPS, frame time, draw calls, and optionally GPU time
- * using EXT_disjoint_timer_query_webgl2 extension.
+ * using EXT_disjoint_timer_query_webgl2 extension. Multi-pass demos can
+ * split the GPU time into named passes with beginPass()/endPass().
+ * Per-frame times are also kept in a ring buffer so stutter shows up in
+ * percentiles and the HUD graph rather than disappearing into the average.
  */
 
-import type { DemoStats } from './types';
+import { GpuTimer, UNSCOPED_PASS } from './gpuTimer';
+import type { DemoStats, FrameHistory, FrameTimeStats, GpuPassTiming } from './types';
+
+// Frames kept in the history (4 s at 60 fps)
+export const FRAME_HISTORY_SIZE = 240;
+// Longer gaps are pauses or background tabs, not frames
+const MAX_FRAME_GAP = 1000;
 
 export class StatsTracker {
-  private gl: WebGL2RenderingContext;
   private fps = 60;
   private frameTime = 16.67;
   private lastFrameTime = 0;
@@ -17,19 +25,21 @@ export class StatsTracker {
   private instances = 0;
   private particles = 0;
 
-  // GPU timer query (optional)
-  private timerExt: unknown = null;
-  private gpuQuery: WebGLQuery | null = null;
+  // GPU timer queries (optional)
+  private gpuTimer: GpuTimer;
   private gpuTime = 0;
-  private queryInProgress = false;
+  private gpuPasses = new Map<string, number>();
+
+  // Frame history ring buffer; gpuTimes holds NaN where no result came back
+  private history: FrameHistory = {
+    frameTimes: new Float32Array(FRAME_HISTORY_SIZE),
+    gpuTimes: new Float32Array(FRAME_HISTORY_SIZE),
+    start: 0,
+    count: 0,
+  };
 
   constructor(gl: WebGL2RenderingContext) {
-    this.gl = gl;
-    // Try to get timer query extension
-    this.timerExt = gl.getExtension('EXT_disjoint_timer_query_webgl2');
-    if (this.timerExt) {
-      this.gpuQuery = gl.createQuery();
-    }
+    this.gpuTimer = new GpuTimer(gl);
   }
 
   /** Call at the start of each frame */
@@ -38,13 +48,21 @@ export class StatsTracker {
     this.triangles = 0;
     this.instances = 0;
     this.particles = 0;
+    this.gpuTimer.beginFrame();
+  }
 
-    // Start GPU timer if available and no query in progress
-    if (this.timerExt && this.gpuQuery && !this.queryInProgress) {
-      const ext = this.timerExt as { TIME_ELAPSED_EXT: number };
-      this.gl.beginQuery(ext.TIME_ELAPSED_EXT, this.gpuQuery);
-      this.queryInProgress = true;
-    }
+  /**
+   * Start timing a named pass on the GPU
+   * Ends the previous pass, if any; passes can't nest. Calling it again
+   * with the same name in one frame adds to that pass.
+   */
+  beginPass(name: string): void {
+    this.gpuTimer.beginPass(name);
+  }
+
+  /** End the current pass; later work counts as 'other' */
+  endPass(): void {
+    this.gpuTimer.endPass();
   }
 
   /** Call at the end of each frame */
@@ -59,34 +77,17 @@ export class StatsTracker {
       this.frameTime = this.frameTime * 0.95 + delta * 0.05;
     }
     this.lastFrameTime = currentTime;
+    let frameGpuTime = NaN;
+
+    this.gpuTimer.endFrame();
+    for (const frame of this.gpuTimer.resolve()) {
+      this.gpuTime = this.gpuTime * 0.95 + frame.total * 0.05;
+      this.updatePasses(frame.passes);
+      frameGpuTime = frame.total;
+    }
 
-    // End GPU timer query
-    if (this.timerExt && this.queryInProgress) {
-      const ext = this.timerExt as { TIME_ELAPSED_EXT: number };
-      this.gl.endQuery(ext.TIME_ELAPSED_EXT);
-      this.queryInProgress = false;
-
-      // Check if previous query result is available
-      if (this.gpuQuery) {
-        const available = this.gl.getQueryParameter(
-          this.gpuQuery,
-          this.gl.QUERY_RESULT_AVAILABLE
-        );
-        if (available) {
-          // Check for disjoint (GPU was reset)
-          const disjoint = this.gl.getParameter(
-            (this.timerExt as { GPU_DISJOINT_EXT: number }).GPU_DISJOINT_EXT
-          );
-          if (!disjoint) {
-            const timeElapsed = this.gl.getQueryParameter(
-              this.gpuQuery,
-              this.gl.QUERY_RESULT
-            );
-            // Convert nanoseconds to milliseconds
-            this.gpuTime = this.gpuTime * 0.95 + (timeElapsed / 1000000) * 0.05;
-          }
-        }
-      }
+    if (delta > 0 && delta < MAX_FRAME_GAP) {
+      this.pushHistory(delta, frameGpuTime);
     }
   }
 
@@ -113,21 +114,54 @@ export class StatsTracker {
       triangles: this.triangles,
       instances: this.instances > 0 ? this.instances : undefined,
       particles: this.particles > 0 ? this.particles : undefined,
-      gpuTime: this.timerExt ? Math.round(this.gpuTime * 100) / 100 : undefined,
+      gpuTime: this.gpuTimer.isSupported() ? Math.round(this.gpuTime * 100) / 100 : undefined,
+      gpuPasses: this.gpuPasses.size > 0
+        ? [...this.gpuPasses].map(([name, time]) => ({ name, time: Math.round(time * 100) / 100 }))
+        : undefined,
+      history: this.history,
     };
   }
 
+  /**
+   * Fold one frame's pass timings into the running averages
+   * Passes missing from the frame are dropped, so a pass that gets
+   * switched off (e.g. bloom at low quality) leaves the breakdown.
+   */
+  private updatePasses(passes: GpuPassTiming[]): void {
+    // A frame without named passes has nothing to break down
+    if (passes.every((pass) => pass.name === UNSCOPED_PASS)) {
+      this.gpuPasses.clear();
+      return;
+    }
+
+    const previous = this.gpuPasses;
+    this.gpuPasses = new Map();
+    for (const { name, time } of passes) {
+      const average = previous.get(name);
+      this.gpuPasses.set(name, average === undefined ? time : average * 0.95 + time * 0.05);
+    }
+  }
+
+  private pushHistory(frameTime: number, gpuTime: number): void {
+    const { frameTimes, gpuTimes } = this.history;
+    const index = (this.history.start + this.history.count) % FRAME_HISTORY_SIZE;
+    frameTimes[index] = frameTime;
+    gpuTimes[index] = gpuTime;
+    if (this.history.count < FRAME_HISTORY_SIZE) {
+      this.history.count++;
+    } else {
+      this.history.start = (this.history.start + 1) % FRAME_HISTORY_SIZE;
+    }
+  }
+
   /** Check if GPU timer is available */
   hasGpuTimer(): boolean {
-    return this.timerExt !== null;
+    return this.gpuTimer.isSupported();
   }
 
   /** Clean up resources */
   destroy(): void {
-    if (this.gpuQuery) {
-      this.gl.deleteQuery(this.gpuQuery);
-      this.gpuQuery = null;
-    }
+    this.gpuTimer.destroy();
   }
 }
 
@@ -158,3 +192,53 @@ export class SimpleFpsCounter {
     return Math.round(this.frameTime * 100) / 100;
   }
 }
+
+// ============================================================================
+// Frame History
+// ============================================================================
+
+/**
+ * Copy the frame times out of a history buffer, oldest first
+ */
+export function getHistoryValues(history: FrameHistory, key: 'frameTimes' | 'gpuTimes'): number[] {
+  const values: number[] = [];
+  const buffer = history[key];
+  for (let i = 0; i < history.count; i++) {
+    values.push(buffer[(history.start + i) % buffer.length]);
+  }
+  return values;
+}
+
+/** Nearest-rank percentile of an ascending array */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+/**
+ * Percentiles and dropped frames over a frame history
+ * A frame counts as dropped for every refresh interval it overran, taking
+ * the median frame time as the refresh interval.
+ */
+export function getFrameTimeStats(history: FrameHistory): FrameTimeStats {
+  const frameTimes = getHistoryValues(history, 'frameTimes');
+  const sorted = [...frameTimes].sort((a, b) => a - b);
+  const p50 = percentile(sorted, 0.5);
+
+  let droppedFrames = 0;
+  if (p50 > 0) {
+    for (const frameTime of frameTimes) {
+      droppedFrames += Math.max(0, Math.round(frameTime / p50) - 1);
+    }
+  }
+
+  return {
+    p50,
+    p95: percentile(sorted, 0.95),
+    p99: percentile(sorted, 0.99),
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+    droppedFrames,
+    frames: frameTimes.length,
+  };
+}
@@ -0,0 +1,432 @@
+/**
+ * SDF Text
+ *
+ * Draws text from a signed-distance-field atlas built at runtime: glyphs
+ * are rasterized with a canvas 2D font, then a Euclidean distance transform
+ * turns their coverage into distances, so one atlas stays sharp across text
+ * sizes. A canvas only gives rasters, not outlines, so the field has a single
+ * channel rather than an MSDF's three; corners round off a little at large
+ * sizes, which UI text doesn't mind.
+ *
+ * TextRenderer batches glyph quads and rectangles as instances and draws the
+ * batch in one call, in pixel coordinates with the origin at the top left.
+ */
+
+import { createProgram, getUniformLocations } from './shader';
+import type { DemoShaderProgram } from './types';
+
+// ============================================================================
+// Font Atlas
+// ============================================================================
+
+export interface FontAtlasOptions {
+  fontFamily?: string;    // CSS font-family (default: the UI's monospace stack)
+  fontWeight?: string;    // Default 'normal'
+  fontSize?: number;      // Rasterization size in atlas pixels (default 48)
+  spread?: number;        // Distance range in atlas pixels on each side of an edge (default 8)
+  characters?: string;    // Glyphs to include (default printable ASCII)
+}
+
+export interface Glyph {
+  x: number;              // Cell in the atlas, padding included
+  y: number;
+  width: number;
+  height: number;
+  left: number;           // Cell offset from the pen position
+  advance: number;
+}
+
+export interface FontAtlas {
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+  fontSize: number;
+  spread: number;
+  lineHeight: number;     // Ascent + descent; cells start spread above the line
+  glyphs: Map<string, Glyph>;
+  solid: [number, number];  // An atlas point well inside ink, for rectangles
+}
+
+export type TextColor = [number, number, number, number];
+
+const DEFAULT_FONT_FAMILY = "'SF Mono', 'Monaco', 'Inconsolata', 'Roboto Mono', monospace";
+const PRINTABLE_ASCII = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).join('');
+const ATLAS_WIDTH = 1024;
+const INF = 1e20;
+
+/** Rasterize a font and build its distance field texture */
+export function createFontAtlas(gl: WebGL2RenderingContext, options: FontAtlasOptions = {}): FontAtlas {
+  const {
+    fontFamily = DEFAULT_FONT_FAMILY,
+    fontWeight = 'normal',
+    fontSize = 48,
+    spread = 8,
+    characters = PRINTABLE_ASCII,
+  } = options;
+  const font = `${fontWeight} ${fontSize}px ${fontFamily}`;
+
+  const measure = get2dContext(new OffscreenCanvas(1, 1));
+  measure.font = font;
+  const lineMetrics = measure.measureText('Mg');
+  const ascent = Math.ceil(lineMetrics.fontBoundingBoxAscent);
+  const lineHeight = ascent + Math.ceil(lineMetrics.fontBoundingBoxDescent);
+  const cellHeight = lineHeight + spread * 2;
+
+  // Pack cells into rows; the padding keeps each cell's field clear of its neighbours' ink
+  let cursorX = 0;
+  let cursorY = 0;
+  const place = (width: number): [number, number] => {
+    if (cursorX + width > ATLAS_WIDTH) {
+      cursorX = 0;
+      cursorY += cellHeight;
+    }
+    cursorX += width;
+    return [cursorX - width, cursorY];
+  };
+
+  const glyphs = new Map<string, Glyph>();
+  for (const char of new Set(characters)) {
+    const metrics = measure.measureText(char);
+    const inkLeft = Math.ceil(metrics.actualBoundingBoxLeft);
+    const inkWidth = Math.max(0, inkLeft + Math.ceil(metrics.actualBoundingBoxRight));
+    const width = inkWidth + spread * 2;
+    const [x, y] = place(width);
+    glyphs.set(char, { x, y, width, height: cellHeight, left: -inkLeft - spread, advance: metrics.width });
+  }
+  const [solidX, solidY] = place(spread * 2 + 4);
+  const height = cursorY + cellHeight;
+
+  const canvas = new OffscreenCanvas(ATLAS_WIDTH, height);
+  const context = get2dContext(canvas);
+  context.font = font;
+  context.fillStyle = '#fff';
+  context.textBaseline = 'alphabetic';
+  for (const [char, glyph] of glyphs) {
+    context.fillText(char, glyph.x - glyph.left, glyph.y + spread + ascent);
+  }
+  context.fillRect(solidX + spread, solidY + spread, 4, 4);
+  const field = computeDistanceField(context.getImageData(0, 0, ATLAS_WIDTH, height).data, ATLAS_WIDTH, height, spread);
+
+  const texture = gl.createTexture();
+  if (!texture) {
+    throw new Error('Failed to create texture');
+  }
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texStorage2D(gl.TEXTURE_2D, Math.floor(Math.log2(ATLAS_WIDTH)) + 1, gl.R8, ATLAS_WIDTH, height);
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+  gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, ATLAS_WIDTH, height, gl.RED, gl.UNSIGNED_BYTE, field);
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+  gl.generateMipmap(gl.TEXTURE_2D);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+
+  return {
+    texture,
+    width: ATLAS_WIDTH,
+    height,
+    fontSize,
+    spread,
+    lineHeight,
+    glyphs,
+    solid: [solidX + spread + 2, solidY + spread + 2],
+  };
+}
+
+function get2dContext(canvas: OffscreenCanvas): OffscreenCanvasRenderingContext2D {
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Failed to get a 2D canvas context for the font atlas');
+  }
+  return context;
+}
+
+// Signed distance from coverage, stored as 0.5 at the edge and rising inside.
+// Partly covered pixels seed sub-pixel distances, as in Mapbox's TinySDF.
+function computeDistanceField(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  spread: number
+): Uint8Array {
+  const size = width * height;
+  const outer = new Float64Array(size);   // Squared distance to ink
+  const inner = new Float64Array(size);   // Squared distance to background
+
+  for (let i = 0; i < size; i++) {
+    const coverage = rgba[i * 4 + 3] / 255;
+    if (coverage >= 1) {
+      inner[i] = INF;
+    } else if (coverage <= 0) {
+      outer[i] = INF;
+    } else {
+      const d = 0.5 - coverage;
+      outer[i] = d > 0 ? d * d : 0;
+      inner[i] = d < 0 ? d * d : 0;
+    }
+  }
+  transform2d(outer, width, height);
+  transform2d(inner, width, height);
+
+  const field = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    const distance = Math.sqrt(outer[i]) - Math.sqrt(inner[i]);
+    field[i] = Math.round(255 * Math.min(1, Math.max(0, 0.5 - distance / (2 * spread))));
+  }
+  return field;
+}
+
+// Felzenszwalb & Huttenlocher's squared distance transform, columns then rows
+function transform2d(grid: Float64Array, width: number, height: number): void {
+  const length = Math.max(width, height);
+  const f = new Float64Array(length);
+  const v = new Int32Array(length);
+  const z = new Float64Array(length + 1);
+
+  for (let x = 0; x < width; x++) transform1d(grid, x, width, height, f, v, z);
+  for (let y = 0; y < height; y++) transform1d(grid, y * width, 1, width, f, v, z);
+}
+
+// Lower envelope of the parabolas rooted at each sample
+function transform1d(
+  grid: Float64Array,
+  offset: number,
+  stride: number,
+  length: number,
+  f: Float64Array,
+  v: Int32Array,
+  z: Float64Array
+): void {
+  f[0] = grid[offset];
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+
+  for (let q = 1, k = 0; q < length; q++) {
+    f[q] = grid[offset + q * stride];
+    let s: number;
+    do {
+      const r = v[k];
+      s = (f[q] - f[r] + q * q - r * r) / (2 * (q - r));
+    } while (s <= z[k] && --k > -1);
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+
+  for (let q = 0, k = 0; q < length; q++) {
+    while (z[k + 1] < q) k++;
+    const r = v[k];
+    grid[offset + q * stride] = f[r] + (q - r) * (q - r);
+  }
+}
+
+// ============================================================================
+// Renderer
+// ============================================================================
+
+const vertexShader = `#version 300 es
+precision highp float;
+
+in vec4 a_rect;     // x, y, width, height in pixels from the top left
+in vec4 a_uvRect;   // Atlas rectangle, normalized
+in vec4 a_color;
+
+uniform vec2 u_viewport;
+
+out vec2 v_uv;
+out vec4 v_color;
+
+void main() {
+  // One quad per instance as a 4-vertex strip
+  vec2 corner = vec2(float(gl_VertexID & 1), float(gl_VertexID >> 1));
+  vec2 position = a_rect.xy + corner * a_rect.zw;
+
+  v_uv = a_uvRect.xy + corner * a_uvRect.zw;
+  v_color = a_color;
+  gl_Position = vec4(position / u_viewport * vec2(2.0, -2.0) + vec2(-1.0, 1.0), 0.0, 1.0);
+}
+`;
+
+const fragmentShader = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+in vec4 v_color;
+
+uniform sampler2D u_atlas;
+
+out vec4 fragColor;
+
+void main() {
+  // Antialias over about one screen pixel of the field, whatever the text size
+  float distance = texture(u_atlas, v_uv).r;
+  float width = max(fwidth(distance) * 0.7, 1e-4);
+  float alpha = smoothstep(0.5 - width, 0.5 + width, distance);
+  fragColor = vec4(v_color.rgb, v_color.a * alpha);
+}
+`;
+
+const uniformNames = ['u_viewport', 'u_atlas'];
+
+// a_rect, a_uvRect and a_color
+const FLOATS_PER_QUAD = 12;
+
+/**
+ * Batched SDF text and rectangles
+ * add*() queue quads, flush() draws them over the current framebuffer with
+ * alpha blending. Scissor the flush to clip a batch, e.g. a scrolled panel.
+ */
+export class TextRenderer {
+  readonly atlas: FontAtlas;
+  private gl: WebGL2RenderingContext;
+  private program: WebGLProgram;
+  private vao: WebGLVertexArrayObject | null;
+  private buffer: WebGLBuffer | null;
+  private uniforms: Record<string, WebGLUniformLocation | null>;
+  private vertexSource = vertexShader;
+  private fragmentSource = fragmentShader;
+  private data = new Float32Array(FLOATS_PER_QUAD * 256);
+  private count = 0;
+
+  constructor(gl: WebGL2RenderingContext, options: FontAtlasOptions = {}) {
+    this.gl = gl;
+    this.atlas = createFontAtlas(gl, options);
+    this.program = createProgram(gl, vertexShader, fragmentShader, {
+      name: 'text',
+      attribLocations: { a_rect: 0, a_uvRect: 1, a_color: 2 },
+    });
+    this.uniforms = getUniformLocations(gl, this.program, uniformNames);
+
+    this.vao = gl.createVertexArray();
+    this.buffer = gl.createBuffer();
+    gl.bindVertexArray(this.vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.buffer);
+    const stride = FLOATS_PER_QUAD * 4;
+    for (let location = 0; location < 3; location++) {
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, 4, gl.FLOAT, false, stride, location * 16);
+      gl.vertexAttribDivisor(location, 1);
+    }
+    gl.bindVertexArray(null);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+  }
+
+  /** Width of a line of text in pixels at the given size */
+  measure(text: string, size: number): number {
+    let width = 0;
+    for (const char of text) width += this.getGlyph(char).advance;
+    return width * (size / this.atlas.fontSize);
+  }
+
+  getLineHeight(size: number): number {
+    return this.atlas.lineHeight * (size / this.atlas.fontSize);
+  }
+
+  /**
+   * Queue a line of text with its top at y
+   * Returns the x position after its last character.
+   */
+  addText(text: string, x: number, y: number, size: number, color: TextColor): number {
+    const { spread, width, height } = this.atlas;
+    const scale = size / this.atlas.fontSize;
+    let penX = x;
+    for (const char of text) {
+      const glyph = this.getGlyph(char);
+      if (glyph.width > spread * 2) {
+        this.push(
+          penX + glyph.left * scale, y - spread * scale, glyph.width * scale, glyph.height * scale,
+          glyph.x / width, glyph.y / height, glyph.width / width, glyph.height / height,
+          color
+        );
+      }
+      penX += glyph.advance * scale;
+    }
+    return penX;
+  }
+
+  /** Queue a solid rectangle, drawn in order with the text */
+  addRect(x: number, y: number, width: number, height: number, color: TextColor): void {
+    const [u, v] = this.atlas.solid;
+    this.push(x, y, width, height, u / this.atlas.width, v / this.atlas.height, 0, 0, color);
+  }
+
+  /**
+   * Draw everything queued over a viewport of the given size, then empty the queue
+   * Returns the number of quads drawn. Leaves the atlas on texture unit 0.
+   */
+  flush(viewportWidth: number, viewportHeight: number): number {
+    const gl = this.gl;
+    const count = this.count;
+    if (count === 0) return 0;
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.data.subarray(0, count * FLOATS_PER_QUAD), gl.DYNAMIC_DRAW);
+    gl.bindBuffer(gl.ARRAY_BUFFER, null);
+
+    const blend = gl.isEnabled(gl.BLEND);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+
+    gl.useProgram(this.program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.atlas.texture);
+    gl.uniform1i(this.uniforms.u_atlas, 0);
+    gl.uniform2f(this.uniforms.u_viewport, viewportWidth, viewportHeight);
+    gl.bindVertexArray(this.vao);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count);
+    gl.bindVertexArray(null);
+
+    if (!blend) gl.disable(gl.BLEND);
+    this.count = 0;
+    return count;
+  }
+
+  getShaderProgram(): DemoShaderProgram {
+    return {
+      name: 'text',
+      program: this.program,
+      vertexSource: this.vertexSource,
+      fragmentSource: this.fragmentSource,
+    };
+  }
+
+  /** Swap in a recompiled program; takes ownership and deletes the old one */
+  replaceProgram(program: WebGLProgram, vertexSource: string, fragmentSource: string): void {
+    this.gl.deleteProgram(this.program);
+    this.program = program;
+    this.vertexSource = vertexSource;
+    this.fragmentSource = fragmentSource;
+    this.uniforms = getUniformLocations(this.gl, program, uniformNames);
+  }
+
+  destroy(): void {
+    const gl = this.gl;
+    gl.deleteProgram(this.program);
+    gl.deleteTexture(this.atlas.texture);
+    if (this.vao) gl.deleteVertexArray(this.vao);
+    if (this.buffer) gl.deleteBuffer(this.buffer);
+  }
+
+  // Characters outside the atlas draw as '?'
+  private getGlyph(char: string): Glyph {
+    return this.atlas.glyphs.get(char) ?? this.atlas.glyphs.get('?') ?? this.atlas.glyphs.values().next().value!;
+  }
+
+  private push(
+    x: number, y: number, width: number, height: number,
+    u: number, v: number, uvWidth: number, uvHeight: number,
+    color: TextColor
+  ): void {
+    if ((this.count + 1) * FLOATS_PER_QUAD > this.data.length) {
+      const grown = new Float32Array(this.data.length * 2);
+      grown.set(this.data);
+      this.data = grown;
+    }
+    this.data.set([x, y, width, height, u, v, uvWidth, uvHeight, ...color], this.count * FLOATS_PER_QUAD);
+    this.count++;
+  }
+}
@@ -4,7 +4,7 @@
  * Provides helpers for creating textures and framebuffer objects for render-to-texture.
  */
 
-import type { FramebufferInfo } from './types';
+import type { DebugTarget, FramebufferInfo } from './types';
 
 /**
  * Create an empty texture for render-to-texture operations
@@ -93,12 +93,16 @@ export function resizeTexture(
 
 /**
  * Create a framebuffer with an attached color texture
+ * Pass RGBA16F / HALF_FLOAT (with EXT_color_buffer_float) for HDR targets.
  */
 export function createFramebufferWithTexture(
   gl: WebGL2RenderingContext,
   width: number,
   height: number,
-  useDepth: boolean = false
+  useDepth: boolean = false,
+  internalFormat: number = gl.RGBA,
+  format: number = gl.RGBA,
+  type: number = gl.UNSIGNED_BYTE
 ): FramebufferInfo {
   const framebuffer = gl.createFramebuffer();
   if (!framebuffer) {
@@ -106,7 +110,7 @@ export function createFramebufferWithTexture(
   }
 
   // Create color texture using mutable storage for easier resizing
-  const texture = createMutableTexture(gl, width, height);
+  const texture = createMutableTexture(gl, width, height, internalFormat, format, type);
 
   gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
   gl.framebufferTexture2D(
@@ -118,8 +122,9 @@ export function createFramebufferWithTexture(
   );
 
   // Optionally add depth buffer
+  let depthBuffer: WebGLRenderbuffer | undefined;
   if (useDepth) {
-    const depthBuffer = gl.createRenderbuffer();
+    depthBuffer = gl.createRenderbuffer() ?? undefined;
     if (depthBuffer) {
       gl.bindRenderbuffer(gl.RENDERBUFFER, depthBuffer);
       gl.renderbufferStorage(gl.RENDERBUFFER, gl.DEPTH_COMPONENT16, width, height);
@@ -140,11 +145,11 @@ export function createFramebufferWithTexture(
 
   gl.bindFramebuffer(gl.FRAMEBUFFER, null);
 
-  return { framebuffer, texture, width, height };
+  return { framebuffer, texture, width, height, depthBuffer, internalFormat, format, type };
 }
 
 /**
- * Resize a framebuffer and its attached texture
+ * Resize a framebuffer and its attached texture (and depth buffer)
  */
 export function resizeFramebuffer(
   gl: WebGL2RenderingContext,
@@ -152,11 +157,38 @@ export function resizeFramebuffer(
   width: number,
   height: number
 ): void {
-  resizeTexture(gl, fboInfo.texture, width, height);
+  resizeTexture(
+    gl,
+    fboInfo.texture,
+    width,
+    height,
+    fboInfo.internalFormat,
+    fboInfo.format,
+    fboInfo.type
+  );
+  if (fboInfo.depthBuffer) {
+    gl.bindRenderbuffer(gl.RENDERBUFFER, fboInfo.depthBuffer);
+    gl.renderbufferStorage(gl.RENDERBUFFER, gl.DEPTH_COMPONENT16, width, height);
+    gl.bindRenderbuffer(gl.RENDERBUFFER, null);
+  }
   fboInfo.width = width;
   fboInfo.height = height;
 }
 
+/**
+ * Delete a framebuffer along with its color texture and depth buffer
+ */
+export function deleteFramebuffer(
+  gl: WebGL2RenderingContext,
+  fboInfo: FramebufferInfo
+): void {
+  gl.deleteFramebuffer(fboInfo.framebuffer);
+  gl.deleteTexture(fboInfo.texture);
+  if (fboInfo.depthBuffer) {
+    gl.deleteRenderbuffer(fboInfo.depthBuffer);
+  }
+}
+
 /**
  * Bind a framebuffer for rendering
  */
@@ -171,3 +203,17 @@ export function bindFramebuffer(
     gl.bindFramebuffer(gl.FRAMEBUFFER, null);
   }
 }
+
+/**
+ * Describe a framebuffer's color texture for DemoInstance.getDebugTargets()
+ */
+export function getFramebufferDebugTarget(name: string, fboInfo: FramebufferInfo): DebugTarget {
+  const { FLOAT, HALF_FLOAT } = WebGL2RenderingContext;
+  return {
+    name,
+    texture: fboInfo.texture,
+    width: Math.floor(fboInfo.width),
+    height: Math.floor(fboInfo.height),
+    float: fboInfo.type === FLOAT || fboInfo.type === HALF_FLOAT,
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * Texture Loading
+ *
+ * Loads sampled textures from URLs, Blobs or ImageBitmaps. Images decode
+ * off the main thread with createImageBitmap and get a generated mipmap
+ * chain; KTX2 containers upload their stored levels as-is, compressed ones
+ * only when the GPU exposes that family's extension.
+ *
+ * A TextureCache shares textures by URL within one GL context and deletes
+ * each when its last user releases it. Demos list what they need with
+ * getTextureRequests(), and initWithTextures loads it before init().
+ */
+
+import { getKtx2Format, isKtx2, parseKtx2, type Ktx2Container } from './ktx2';
+import type {
+  DemoInstance,
+  LoadedTexture,
+  TextureLoadOptions,
+  TextureRequest,
+  TextureVariants,
+} from './types';
+
+// Compressed families in order of preference, with the extension each needs
+const COMPRESSED_FAMILIES: [keyof Omit<TextureVariants, 'fallback'>, string][] = [
+  ['astc', 'WEBGL_compressed_texture_astc'],
+  ['etc2', 'WEBGL_compressed_texture_etc'],
+  ['s3tc', 'WEBGL_compressed_texture_s3tc'],
+];
+
+/** The first variant this context can decode, else the fallback */
+export function selectTextureUrl(gl: WebGL2RenderingContext, url: string | TextureVariants): string {
+  if (typeof url === 'string') return url;
+  for (const [family, extension] of COMPRESSED_FAMILIES) {
+    const variant = url[family];
+    if (variant && gl.getExtension(extension)) return variant;
+  }
+  return url.fallback;
+}
+
+/**
+ * Load an image or KTX2 file into a new texture
+ * URLs and Blobs are sniffed for the KTX2 identifier; anything else must be
+ * an image the browser can decode.
+ */
+export async function loadTexture(
+  gl: WebGL2RenderingContext,
+  source: string | Blob | ImageBitmap,
+  options: TextureLoadOptions = {}
+): Promise<LoadedTexture> {
+  if (source instanceof ImageBitmap) {
+    return uploadImage(gl, source, options);
+  }
+
+  let blob = source;
+  if (typeof blob === 'string') {
+    const response = await fetch(blob);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch texture '${blob}': ${response.status} ${response.statusText}`);
+    }
+    blob = await response.blob();
+  }
+
+  const header = new Uint8Array(await blob.slice(0, 12).arrayBuffer());
+  if (isKtx2(header)) {
+    return uploadKtx2(gl, parseKtx2(await blob.arrayBuffer()), options);
+  }
+  return uploadImage(gl, blob, options);
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+interface CacheEntry {
+  promise: Promise<LoadedTexture>;
+  refs: number;
+}
+
+/**
+ * Reference-counted textures keyed by URL, for one GL context
+ * Requests for a URL that is loaded or still loading share one texture;
+ * the options of the first request win.
+ */
+export class TextureCache {
+  private gl: WebGL2RenderingContext;
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+  }
+
+  acquire(request: TextureRequest): Promise<LoadedTexture> {
+    const url = selectTextureUrl(this.gl, request.url);
+    let entry = this.entries.get(url);
+    if (!entry) {
+      const created: CacheEntry = { promise: loadTexture(this.gl, url, request.options), refs: 0 };
+      // Forget failed loads so a later request can retry
+      created.promise.catch(() => {
+        if (this.entries.get(url) === created) this.entries.delete(url);
+      });
+      this.entries.set(url, created);
+      entry = created;
+    }
+    entry.refs++;
+    return entry.promise;
+  }
+
+  release(request: TextureRequest): void {
+    const url = selectTextureUrl(this.gl, request.url);
+    const entry = this.entries.get(url);
+    if (!entry || --entry.refs > 0) return;
+    this.entries.delete(url);
+    this.deleteWhenLoaded(entry);
+  }
+
+  destroy(): void {
+    for (const entry of this.entries.values()) {
+      this.deleteWhenLoaded(entry);
+    }
+    this.entries.clear();
+  }
+
+  // A texture still loading is deleted as soon as it arrives
+  private deleteWhenLoaded(entry: CacheEntry): void {
+    entry.promise.then(
+      ({ texture }) => this.gl.deleteTexture(texture),
+      () => {}
+    );
+  }
+}
+
+/**
+ * Load a demo's requested textures through the cache, then init() it with them
+ * Returns a function that releases the textures, to call after destroy().
+ */
+export async function initWithTextures(
+  demo: DemoInstance,
+  cache: TextureCache
+): Promise<() => void> {
+  const requests = Object.entries(demo.getTextureRequests?.() ?? {});
+  const release = () => {
+    for (const [, request] of requests) cache.release(request);
+  };
+
+  try {
+    const loaded = await Promise.all(requests.map(([, request]) => cache.acquire(request)));
+    await demo.init(Object.fromEntries(requests.map(([name], i) => [name, loaded[i]])));
+  } catch (err) {
+    release();
+    throw err;
+  }
+  return release;
+}
+
+// ============================================================================
+// Upload
+// ============================================================================
+
+async function uploadImage(
+  gl: WebGL2RenderingContext,
+  source: Blob | ImageBitmap,
+  options: TextureLoadOptions
+): Promise<LoadedTexture> {
+  // Decoding again applies the orientation and alpha options, which
+  // UNPACK_FLIP_Y_WEBGL and UNPACK_PREMULTIPLY_ALPHA_WEBGL can't do for bitmaps
+  const bitmap = await createImageBitmap(source, {
+    imageOrientation: (options.flipY ?? true) ? 'flipY' : 'from-image',
+    premultiplyAlpha: options.premultiplyAlpha ? 'premultiply' : 'none',
+  });
+  const { width, height } = bitmap;
+  const levels = (options.mipmaps ?? true) ? getMipLevelCount(width, height) : 1;
+
+  const texture = createTextureObject(gl);
+  gl.texStorage2D(gl.TEXTURE_2D, levels, options.srgb ? gl.SRGB8_ALPHA8 : gl.RGBA8, width, height);
+  gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, gl.RGBA, gl.UNSIGNED_BYTE, bitmap);
+  bitmap.close();
+  if (levels > 1) gl.generateMipmap(gl.TEXTURE_2D);
+
+  setSampling(gl, levels, true, options);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+
+  return { texture, width, height, levels, compressed: false };
+}
+
+function uploadKtx2(
+  gl: WebGL2RenderingContext,
+  container: Ktx2Container,
+  options: TextureLoadOptions
+): LoadedTexture {
+  const format = getKtx2Format(container.vkFormat);
+  if (!format) {
+    throw new Error(`KTX2 vkFormat ${container.vkFormat} is not supported`);
+  }
+  if (format.extension && !gl.getExtension(format.extension)) {
+    throw new Error(`KTX2 format needs ${format.extension}, which this GPU does not support`);
+  }
+
+  const { width, height, levels: data } = container;
+  const compressed = format.extension !== null;
+  // Only 8-bit color-renderable formats can generate their own mipmaps
+  const canGenerate = !compressed && format.type === gl.UNSIGNED_BYTE && format.internalFormat !== gl.SRGB8;
+  const generate =
+    canGenerate && (container.levelCount === 0 || (data.length === 1 && (options.mipmaps ?? true)));
+  const levels = generate ? getMipLevelCount(width, height) : data.length;
+  const filterable = format.type !== gl.FLOAT || gl.getExtension('OES_texture_float_linear') !== null;
+
+  const texture = createTextureObject(gl);
+  gl.texStorage2D(gl.TEXTURE_2D, levels, format.internalFormat, width, height);
+  // KTX2 rows are tightly packed
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+  data.forEach((bytes, level) => {
+    const levelWidth = Math.max(1, width >> level);
+    const levelHeight = Math.max(1, height >> level);
+    if (compressed) {
+      gl.compressedTexSubImage2D(gl.TEXTURE_2D, level, 0, 0, levelWidth, levelHeight, format.internalFormat, bytes);
+    } else {
+      gl.texSubImage2D(
+        gl.TEXTURE_2D, level, 0, 0, levelWidth, levelHeight,
+        format.format, format.type, toTypedArray(gl, bytes, format.type)
+      );
+    }
+  });
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+  if (generate) gl.generateMipmap(gl.TEXTURE_2D);
+
+  setSampling(gl, levels, filterable, options);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+
+  return { texture, width, height, levels, compressed };
+}
+
+// Leaves the new texture bound to TEXTURE_2D
+function createTextureObject(gl: WebGL2RenderingContext): WebGLTexture {
+  const texture = gl.createTexture();
+  if (!texture) {
+    throw new Error('Failed to create texture');
+  }
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  return texture;
+}
+
+function setSampling(
+  gl: WebGL2RenderingContext,
+  levels: number,
+  filterable: boolean,
+  options: TextureLoadOptions
+): void {
+  const wrap = options.wrap ?? gl.REPEAT;
+  const mipFilter = filterable ? gl.LINEAR_MIPMAP_LINEAR : gl.NEAREST_MIPMAP_NEAREST;
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, levels > 1 ? mipFilter : filterable ? gl.LINEAR : gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filterable ? gl.LINEAR : gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, wrap);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, wrap);
+
+  const anisotropy = options.anisotropy ?? 1;
+  const ext = anisotropy > 1 ? gl.getExtension('EXT_texture_filter_anisotropic') : null;
+  if (ext) {
+    const max = gl.getParameter(ext.MAX_TEXTURE_MAX_ANISOTROPY_EXT) as number;
+    gl.texParameterf(gl.TEXTURE_2D, ext.TEXTURE_MAX_ANISOTROPY_EXT, Math.min(anisotropy, max));
+  }
+}
+
+function getMipLevelCount(width: number, height: number): number {
+  return Math.floor(Math.log2(Math.max(width, height))) + 1;
+}
+
+// texSubImage2D wants the array type to match the pixel type; copying also
+// sidesteps level offsets that aren't aligned to the element size
+function toTypedArray(gl: WebGL2RenderingContext, bytes: Uint8Array, type: number): ArrayBufferView {
+  if (type === gl.HALF_FLOAT) return new Uint16Array(bytes.slice().buffer);
+  if (type === gl.FLOAT) return new Float32Array(bytes.slice().buffer);
+  return bytes;
+}
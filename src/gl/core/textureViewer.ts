@@ -0,0 +1,240 @@
+/**
+ * Debug Texture Viewer
+ *
+ * Draws one of a demo's debug targets into a corner of the canvas, with
+ * channel isolation, a value range remapped to 0..1 (for float data) and
+ * zoom/pan, and reads back raw texel values for the cursor readout.
+ *
+ * Texels are fetched without filtering, so zooming in shows exact pixels
+ * and float formats without linear filtering support still display.
+ */
+
+import { createProgram } from './shader';
+import type { DebugTarget } from './types';
+
+export interface TextureViewOptions {
+  channels: [boolean, boolean, boolean, boolean];  // R, G, B, A
+  rangeMin: number;        // Mapped to black
+  rangeMax: number;        // Mapped to white
+  zoom: number;            // 1 = whole texture fits the view
+  centerX: number;         // Texture UV at the middle of the view
+  centerY: number;
+}
+
+export const DEFAULT_TEXTURE_VIEW: TextureViewOptions = {
+  channels: [true, true, true, false],
+  rangeMin: 0,
+  rangeMax: 1,
+  zoom: 1,
+  centerX: 0.5,
+  centerY: 0.5,
+};
+
+/** Viewport rectangle in canvas pixels, origin bottom-left */
+export interface ViewerRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Largest size of the view, in CSS pixels
+const MAX_VIEW_WIDTH = 320;
+const MAX_VIEW_HEIGHT = 240;
+
+/** CSS size of the view for a target, keeping its aspect ratio */
+export function getViewSize(target: DebugTarget): { width: number; height: number } {
+  const aspect = target.width / Math.max(1, target.height);
+  if (MAX_VIEW_WIDTH / aspect <= MAX_VIEW_HEIGHT) {
+    return { width: MAX_VIEW_WIDTH, height: Math.round(MAX_VIEW_WIDTH / aspect) };
+  }
+  return { width: Math.round(MAX_VIEW_HEIGHT * aspect), height: MAX_VIEW_HEIGHT };
+}
+
+/**
+ * Texel under a point of the view
+ * viewX/viewY are 0..1 across the view, with y pointing up like GL.
+ */
+export function getTexelAt(
+  target: DebugTarget,
+  options: TextureViewOptions,
+  viewX: number,
+  viewY: number
+): { x: number; y: number } | null {
+  const u = options.centerX + (viewX - 0.5) / options.zoom;
+  const v = options.centerY + (viewY - 0.5) / options.zoom;
+  if (u < 0 || v < 0 || u >= 1 || v >= 1) return null;
+  return { x: Math.floor(u * target.width), y: Math.floor(v * target.height) };
+}
+
+const VERTEX_SHADER = `#version 300 es
+out vec2 v_uv;
+
+void main() {
+  // Fullscreen triangle from the vertex index; no buffers needed
+  vec2 position = vec2(float((gl_VertexID & 1) << 2) - 1.0, float((gl_VertexID & 2) << 1) - 1.0);
+  v_uv = position * 0.5 + 0.5;
+  gl_Position = vec4(position, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+out vec4 fragColor;
+
+uniform sampler2D u_texture;
+uniform vec4 u_channels;
+uniform vec2 u_range;
+uniform float u_zoom;
+uniform vec2 u_center;
+
+void main() {
+  vec2 uv = u_center + (v_uv - 0.5) / u_zoom;
+  if (uv.x < 0.0 || uv.y < 0.0 || uv.x >= 1.0 || uv.y >= 1.0) {
+    // Checkerboard outside the texture
+    vec2 cell = floor(gl_FragCoord.xy / 8.0);
+    fragColor = vec4(vec3(mod(cell.x + cell.y, 2.0) * 0.05 + 0.1), 1.0);
+    return;
+  }
+
+  ivec2 size = textureSize(u_texture, 0);
+  vec4 texel = texelFetch(u_texture, ivec2(uv * vec2(size)), 0);
+  vec4 value = clamp((texel - u_range.x) / max(u_range.y - u_range.x, 1e-6), 0.0, 1.0);
+
+  // A single channel shows as grayscale; otherwise the selected ones in color
+  float count = dot(u_channels, vec4(1.0));
+  if (count == 1.0) {
+    fragColor = vec4(vec3(dot(value, u_channels)), 1.0);
+  } else {
+    fragColor = vec4(value.rgb * u_channels.rgb, 1.0);
+  }
+}
+`;
+
+export class TextureViewer {
+  private gl: WebGL2RenderingContext;
+  private program: WebGLProgram;
+  private vao: WebGLVertexArrayObject | null;
+  private readFramebuffer: WebGLFramebuffer | null;
+  private uniforms: Record<string, WebGLUniformLocation | null>;
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+    this.program = createProgram(gl, VERTEX_SHADER, FRAGMENT_SHADER, { name: 'texture-viewer' });
+    this.vao = gl.createVertexArray();
+    this.readFramebuffer = gl.createFramebuffer();
+    this.uniforms = {};
+    for (const name of ['u_texture', 'u_channels', 'u_range', 'u_zoom', 'u_center']) {
+      this.uniforms[name] = gl.getUniformLocation(this.program, name);
+    }
+  }
+
+  /**
+   * Draw a target into rect on the canvas
+   * Restores the GL state it touches, so the demo's next frame is unaffected.
+   */
+  render(target: DebugTarget, rect: ViewerRect, options: TextureViewOptions): void {
+    const gl = this.gl;
+    const saved = {
+      framebuffer: gl.getParameter(gl.DRAW_FRAMEBUFFER_BINDING) as WebGLFramebuffer | null,
+      viewport: gl.getParameter(gl.VIEWPORT) as Int32Array,
+      program: gl.getParameter(gl.CURRENT_PROGRAM) as WebGLProgram | null,
+      vao: gl.getParameter(gl.VERTEX_ARRAY_BINDING) as WebGLVertexArrayObject | null,
+      activeTexture: gl.getParameter(gl.ACTIVE_TEXTURE) as number,
+      blend: gl.isEnabled(gl.BLEND),
+      depthTest: gl.isEnabled(gl.DEPTH_TEST),
+      scissorTest: gl.isEnabled(gl.SCISSOR_TEST),
+    };
+    gl.activeTexture(gl.TEXTURE0);
+    const savedTexture = gl.getParameter(gl.TEXTURE_BINDING_2D) as WebGLTexture | null;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(rect.x, rect.y, rect.width, rect.height);
+    gl.disable(gl.BLEND);
+    gl.disable(gl.DEPTH_TEST);
+    gl.disable(gl.SCISSOR_TEST);
+
+    gl.useProgram(this.program);
+    gl.bindVertexArray(this.vao);
+    gl.bindTexture(gl.TEXTURE_2D, target.texture);
+    gl.uniform1i(this.uniforms.u_texture, 0);
+    gl.uniform4fv(this.uniforms.u_channels, options.channels.map(Number));
+    gl.uniform2f(this.uniforms.u_range, options.rangeMin, options.rangeMax);
+    gl.uniform1f(this.uniforms.u_zoom, options.zoom);
+    gl.uniform2f(this.uniforms.u_center, options.centerX, options.centerY);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+    gl.bindTexture(gl.TEXTURE_2D, savedTexture);
+    gl.activeTexture(saved.activeTexture);
+    gl.bindVertexArray(saved.vao);
+    gl.useProgram(saved.program);
+    gl.viewport(saved.viewport[0], saved.viewport[1], saved.viewport[2], saved.viewport[3]);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, saved.framebuffer);
+    if (saved.blend) gl.enable(gl.BLEND);
+    if (saved.depthTest) gl.enable(gl.DEPTH_TEST);
+    if (saved.scissorTest) gl.enable(gl.SCISSOR_TEST);
+  }
+
+  /**
+   * Raw RGBA values of a rectangle of texels, bottom row first
+   * Unsigned normalized targets are scaled to 0..1. Returns null if the
+   * texture can't be read back (e.g. a float format without
+   * EXT_color_buffer_float).
+   */
+  readTexels(target: DebugTarget, x: number, y: number, width = 1, height = 1): Float32Array | null {
+    const gl = this.gl;
+    if (x < 0 || y < 0 || x + width > target.width || y + height > target.height) return null;
+
+    const savedRead = gl.getParameter(gl.READ_FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    const savedPack = gl.getParameter(gl.PIXEL_PACK_BUFFER_BINDING) as WebGLBuffer | null;
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, this.readFramebuffer);
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+
+    try {
+      gl.framebufferTexture2D(gl.READ_FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, target.texture, 0);
+      if (gl.checkFramebufferStatus(gl.READ_FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) return null;
+
+      if (target.float) {
+        const values = new Float32Array(width * height * 4);
+        gl.readPixels(x, y, width, height, gl.RGBA, gl.FLOAT, values);
+        return values;
+      }
+      const bytes = new Uint8Array(width * height * 4);
+      gl.readPixels(x, y, width, height, gl.RGBA, gl.UNSIGNED_BYTE, bytes);
+      return Float32Array.from(bytes, (byte) => byte / 255);
+    } finally {
+      gl.framebufferTexture2D(gl.READ_FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, null, 0);
+      gl.bindFramebuffer(gl.READ_FRAMEBUFFER, savedRead);
+      gl.bindBuffer(gl.PIXEL_PACK_BUFFER, savedPack);
+    }
+  }
+
+  /**
+   * Smallest and largest value over the selected channels of a target
+   * Reads the whole texture back, so only call it on demand.
+   */
+  getValueRange(target: DebugTarget, channels: TextureViewOptions['channels']): [number, number] | null {
+    const values = this.readTexels(target, 0, 0, target.width, target.height);
+    if (!values) return null;
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < values.length; i++) {
+      if (!channels[i % 4]) continue;
+      const value = values[i];
+      if (!Number.isFinite(value)) continue;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    return min <= max ? [min, max] : null;
+  }
+
+  destroy(): void {
+    const gl = this.gl;
+    gl.deleteProgram(this.program);
+    if (this.vao) gl.deleteVertexArray(this.vao);
+    if (this.readFramebuffer) gl.deleteFramebuffer(this.readFramebuffer);
+  }
+}
@@ -15,6 +15,28 @@ export interface WebGLResources {
   framebuffers: WebGLFramebuffer[];
 }
 
+export type GLResourceKind =
+  | 'buffer'
+  | 'vertexArray'
+  | 'texture'
+  | 'framebuffer'
+  | 'renderbuffer'
+  | 'program'
+  | 'shader'
+  | 'query'
+  | 'sampler'
+  | 'transformFeedback';
+
+export type GLResourceCounts = Record<GLResourceKind, number>;
+
+/** Objects a demo still held after destroy() */
+export interface GLLeakReport {
+  label: string;              // Demo id
+  leaked: GLResourceCounts;
+  total: number;
+  timestamp: number;          // Date.now() of the destroy
+}
+
 export interface ShaderSource {
   vertex: string;
   fragment: string;
@@ -39,6 +61,92 @@ export interface FramebufferInfo {
   texture: WebGLTexture;
   width: number;
   height: number;
+  depthBuffer?: WebGLRenderbuffer;
+  // Color texture format, kept so resizes reallocate the same storage
+  internalFormat?: number;
+  format?: number;
+  type?: number;
+}
+
+// ============================================================================
+// Texture Loading
+// ============================================================================
+
+export interface TextureLoadOptions {
+  flipY?: boolean;            // Images only (default true); KTX2 data is uploaded as stored
+  premultiplyAlpha?: boolean; // Images only (default false)
+  mipmaps?: boolean;          // Generate a chain when the source has one level (default true)
+  anisotropy?: number;        // Clamped to EXT_texture_filter_anisotropic's limit (default 1)
+  srgb?: boolean;             // Store images as SRGB8_ALPHA8 (default false)
+  wrap?: number;              // Default REPEAT
+}
+
+/** KTX2 files per compression family, tried in this order, and a fallback any device decodes */
+export interface TextureVariants {
+  astc?: string;
+  etc2?: string;
+  s3tc?: string;
+  fallback: string;           // PNG/JPEG or uncompressed KTX2
+}
+
+/** A texture a demo wants loaded before init() */
+export interface TextureRequest {
+  url: string | TextureVariants;
+  options?: TextureLoadOptions;
+}
+
+export interface LoadedTexture {
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+  levels: number;
+  compressed: boolean;
+}
+
+// ============================================================================
+// Meshes
+// ============================================================================
+
+/** Indexed triangle mesh, as produced by the glTF and OBJ loaders */
+export interface MeshData {
+  name: string;
+  positions: Float32Array;     // xyz per vertex
+  normals: Float32Array;       // xyz per vertex, unit length
+  uvs: Float32Array | null;    // uv per vertex, when the source has them
+  indices: Uint32Array;        // Three per triangle
+}
+
+// ============================================================================
+// User Media
+// ============================================================================
+
+export type MediaKind = 'image' | 'video';
+
+/** An image or looping video the user loaded, decoded once and shared by demos */
+export interface UserMedia {
+  kind: MediaKind;
+  name: string;
+  source: ImageBitmap | HTMLVideoElement;
+  width: number;
+  height: number;
+}
+
+// ============================================================================
+// Environment Maps
+// ============================================================================
+
+/** An equirectangular panorama the user loaded, decoded once and shared by demos */
+export interface Panorama {
+  name: string;
+  width: number;
+  height: number;
+  data: ImageBitmap | Uint8Array;   // Decoded PNG/JPEG, or the RGBE texels of a .hdr (top row first)
+}
+
+export interface Cubemap {
+  texture: WebGLTexture;
+  size: number;                     // Face width and height of level 0
+  levels: number;
 }
 
 // ============================================================================
@@ -56,6 +164,18 @@ export interface QualityPreset {
   postprocessEnabled: boolean;
 }
 
+/**
+ * The continuous factors demos scale by
+ * Taken from the preset in manual mode; set by the quality governor in auto mode.
+ */
+export interface QualityScale {
+  resolution: number;
+  particleMultiplier: number;
+  instanceMultiplier: number;
+}
+
+export type TargetFps = 30 | 60 | 120;
+
 // ============================================================================
 // Demo Parameter Definitions (for UI generation)
 // ============================================================================
@@ -98,6 +218,11 @@ export type ParameterDefinition =
   | SelectParameter
   | ColorParameter;
 
+export type ParameterValue = number | boolean | string;
+
+/** Parameter values for one demo, keyed by ParameterDefinition.key */
+export type ParameterValues = Record<string, ParameterValue>;
+
 // ============================================================================
 // Demo Category
 // ============================================================================
@@ -135,6 +260,109 @@ export interface DemoStats {
   instances?: number;
   particles?: number;
   gpuTime?: number;  // Requires EXT_disjoint_timer_query_webgl2
+  gpuPasses?: GpuPassTiming[];  // Per-pass split of gpuTime, for demos that name passes
+  history?: FrameHistory;
+  // Measured by GLInstrumentation when enabled; drawCalls and triangles
+  // are then measured too rather than reported by the demo
+  lines?: number;
+  points?: number;
+  programSwitches?: number;
+  textureBinds?: number;
+  framebufferBinds?: number;
+  bufferUploadBytes?: number;
+}
+
+/** Per-frame GL call counts from GLInstrumentation */
+export interface GLCallCounts {
+  drawCalls: number;
+  triangles: number;     // Primitives by mode, times instance count
+  lines: number;
+  points: number;
+  programSwitches: number;     // useProgram with a different program
+  textureBinds: number;
+  framebufferBinds: number;
+  bufferUploadBytes: number;   // bufferData + bufferSubData
+}
+
+export interface GpuPassTiming {
+  name: string;
+  time: number;      // ms
+}
+
+/**
+ * Ring buffer of recent per-frame times, in ms
+ * Shared with the StatsTracker that fills it, so copy values out
+ * (getHistoryValues) rather than holding on to it.
+ */
+export interface FrameHistory {
+  frameTimes: Float32Array;
+  gpuTimes: Float32Array;      // NaN where no GPU time was available
+  start: number;               // Index of the oldest entry
+  count: number;
+}
+
+export interface FrameTimeStats {
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+  droppedFrames: number;
+  frames: number;              // Frames the numbers cover
+}
+
+// ============================================================================
+// Pointer Input
+// ============================================================================
+
+/** A pointer over (or captured by) the canvas; positions normalized 0-1, y up */
+export interface PointerState {
+  id: number;
+  type: 'mouse' | 'pen' | 'touch';
+  primary: boolean;
+  x: number;
+  y: number;
+  deltaX: number;      // Movement since the previous frame
+  deltaY: number;
+  pressure: number;    // 0-1; mice report 0.5 while a button is held
+  buttons: number;     // PointerEvent.buttons bitmask
+}
+
+// ============================================================================
+// Camera Bookmarks and Paths
+// ============================================================================
+
+/** Where an orbit/fly camera is, in a form that can be stored */
+export interface CameraPose {
+  target: [number, number, number];
+  yaw: number;         // Radians around +Y
+  pitch: number;       // Radians above the target
+  distance: number;    // Eye to target
+}
+
+export interface CameraBookmark {
+  name: string;
+  pose: CameraPose;
+}
+
+/** A pose the camera passes through at a point on the timeline */
+export interface CameraKeyframe {
+  time: number;        // Timeline seconds
+  pose: CameraPose;
+}
+
+/** Saved viewpoints for one demo */
+export interface DemoCameraState {
+  bookmarks: CameraBookmark[];
+  path: CameraKeyframe[];      // Sorted by time
+}
+
+/** The camera a 3D demo draws with, as the bookmark and path UI sees it */
+export interface DemoCamera {
+  getPose(): CameraPose;
+  /** Ease to a pose over duration seconds; 0 jumps there */
+  flyTo(pose: CameraPose, duration: number): void;
+  /** Follow keyframes over the timeline; fewer than two clears the path */
+  setPath(keyframes: CameraKeyframe[]): void;
 }
 
 // ============================================================================
@@ -152,8 +380,15 @@ export interface DemoContext {
   mouseX: number;      // Normalized 0-1
   mouseY: number;      // Normalized 0-1
   mouseDown: boolean;
-  quality: QualityLevel;
+  pointers: PointerState[];    // Active pointers; mouse* follow the primary one
+  zoomDelta: number;   // Wheel/pinch zoom since the previous frame; > 0 zooms in
+  dragX: number;       // Movement of held pointers since the previous frame
+  dragY: number;
+  keys: ReadonlySet<string>;   // KeyboardEvent.code of held keys
+  quality: QualityLevel;       // Nearest preset while auto quality is on
+  qualityScale: QualityScale;
   reduceMotion: boolean;
+  outputFramebuffer: WebGLFramebuffer | null;  // Final target; null = canvas
 }
 
 // ============================================================================
@@ -161,8 +396,8 @@ export interface DemoContext {
 // ============================================================================
 
 export interface DemoInstance {
-  /** Initialize the demo (can be async for loading resources) */
-  init(): void | Promise<void>;
+  /** Initialize the demo (can be async for loading resources); gets its requested textures by name */
+  init(textures?: Record<string, LoadedTexture>): void | Promise<void>;
 
   /** Clean up all WebGL resources */
   destroy(): void;
@@ -190,11 +425,134 @@ export interface DemoInstance {
 
   /** Get current stats */
   getStats(): DemoStats;
+
+  /** Optional: list shader programs and their current sources for live editing */
+  getShaderPrograms?(): DemoShaderProgram[];
+
+  /** Optional: intermediate textures to inspect in the debug target viewer */
+  getDebugTargets?(): DebugTarget[];
+
+  /** Optional: the interactive camera, for bookmarks and camera paths */
+  getCamera?(): DemoCamera;
+
+  /** Optional: draw a loaded model instead of the built-in geometry; null goes back */
+  setMesh?(mesh: MeshData | null): void;
+
+  /** Optional: textures to load through the shared cache before init(); owned by the cache */
+  getTextureRequests?(): Record<string, TextureRequest>;
+
+  /** Optional: the user's image or video, for demos with a 'source' parameter */
+  setMedia?(kind: MediaKind, media: UserMedia | null): void;
+
+  /** Optional: the user's panorama, for demos with an 'environment' parameter */
+  setPanorama?(panorama: Panorama | null): void;
+
+  /**
+   * Optional: swap in a recompiled program without restarting the demo
+   * The demo takes ownership of the new program and deletes the old one.
+   */
+  replaceShaderProgram?(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void;
+}
+
+/** A texture a demo exposes for inspection, e.g. a pass's render target */
+export interface DebugTarget {
+  name: string;
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+  float?: boolean;     // Float storage; values may fall outside 0..1
 }
 
 /** Factory function to create a demo instance */
 export type DemoFactory = (gl: WebGL2RenderingContext) => DemoInstance;
 
+// ============================================================================
+// Shader Editing
+// ============================================================================
+
+export type ShaderStage = 'vertex' | 'fragment' | 'link';
+
+/** A shader program a demo exposes to the live editor */
+export interface DemoShaderProgram {
+  name: string;                          // Unique within the demo, e.g. 'main', 'simulation'
+  program: WebGLProgram;
+  vertexSource: string;
+  fragmentSource: string;
+  transformFeedbackVaryings?: string[];  // Must be re-applied before linking
+}
+
+/** One entry parsed from a shader or program info log */
+export interface ShaderDiagnostic {
+  stage: ShaderStage;
+  line: number;        // 1-based source line; 0 when the log gives none
+  column: number;      // 1-based; 0 when the log gives none
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/** A line of shader source shown around an error */
+export interface ShaderSourceLine {
+  line: number;        // 1-based
+  text: string;
+  isError: boolean;    // The line the entry points at
+}
+
+/** A diagnostic with the source lines surrounding it */
+export interface ShaderErrorEntry extends ShaderDiagnostic {
+  context: ShaderSourceLine[];
+}
+
+// ============================================================================
+// Postprocess Passes
+// ============================================================================
+
+export interface PostProcessPassMetadata {
+  type: string;
+  name: string;
+  description: string;
+  parameters: ParameterDefinition[];
+}
+
+/** What a pass reads from and writes to on one frame */
+export interface PostProcessFrame {
+  ctx: DemoContext;
+  input: FramebufferInfo;
+  output: FramebufferInfo | null;  // null = canvas
+}
+
+export interface PostProcessPass {
+  /** Sample frame.input.texture and draw the effect into frame.output */
+  render(frame: PostProcessFrame): void;
+
+  /** Set a parameter value */
+  setParameter(key: string, value: ParameterValue): void;
+
+  /** Clean up all WebGL resources */
+  destroy(): void;
+}
+
+/**
+ * Factory for a pass; drawFullscreen binds the chain's shared
+ * fullscreen triangle (a_position at location 0, a_uv at location 1).
+ */
+export type PostProcessPassFactory = (
+  gl: WebGL2RenderingContext,
+  drawFullscreen: () => void
+) => PostProcessPass;
+
+/** One entry of the user's pass stack (order = array order) */
+export interface PostProcessPassState {
+  id: string;
+  type: string;
+  enabled: boolean;
+  parameters: ParameterValues;
+}
+
 // ============================================================================
 // Demo Registry Entry
 // ============================================================================
@@ -219,9 +577,14 @@ export interface PlaygroundState {
   isPaused: boolean;
   isFullscreen: boolean;
   quality: QualityLevel;
+  autoQuality: boolean;        // Governor picks the scale to hold targetFps
+  targetFps: TargetFps;
   reduceMotion: boolean;
   searchQuery: string;
   categoryFilter: DemoCategory | null;
+  parameters: Record<string, ParameterValues>;  // Per-demo values, keyed by demo id
+  cameras: Record<string, DemoCameraState>;     // Per-demo bookmarks and paths, keyed by demo id
+  postProcessPasses: PostProcessPassState[];
 }
 
 export type PlaygroundAction =
@@ -230,7 +593,20 @@ export type PlaygroundAction =
   | { type: 'SET_PAUSED'; isPaused: boolean }
   | { type: 'TOGGLE_FULLSCREEN' }
   | { type: 'SET_QUALITY'; quality: QualityLevel }
+  | { type: 'SET_AUTO_QUALITY'; enabled: boolean }
+  | { type: 'SET_TARGET_FPS'; fps: TargetFps }
   | { type: 'TOGGLE_REDUCE_MOTION' }
+  | { type: 'SET_REDUCE_MOTION'; reduceMotion: boolean }
   | { type: 'SET_SEARCH_QUERY'; query: string }
   | { type: 'SET_CATEGORY_FILTER'; category: DemoCategory | null }
+  | { type: 'SET_PARAMETER'; demoId: string; key: string; value: ParameterValue }
+  | { type: 'SYNC_PARAMETERS'; demoId: string; values: ParameterValues }
+  | { type: 'ADD_CAMERA_BOOKMARK'; demoId: string; bookmark: CameraBookmark }
+  | { type: 'REMOVE_CAMERA_BOOKMARK'; demoId: string; index: number }
+  | { type: 'SET_CAMERA_PATH'; demoId: string; path: CameraKeyframe[] }
+  | { type: 'ADD_POSTPROCESS_PASS'; pass: PostProcessPassState }
+  | { type: 'REMOVE_POSTPROCESS_PASS'; id: string }
+  | { type: 'MOVE_POSTPROCESS_PASS'; id: string; offset: number }
+  | { type: 'SET_POSTPROCESS_PASS_ENABLED'; id: string; enabled: boolean }
+  | { type: 'SET_POSTPROCESS_PASS_PARAMETER'; id: string; key: string; value: ParameterValue }
   | { type: 'RESET' };
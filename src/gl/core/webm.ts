@@ -0,0 +1,178 @@
+/**
+ * Minimal WebM Muxer
+ *
+ * Wraps encoded VP8/VP9 frames in a WebM (Matroska) container.
+ * Only what a single video track needs: EBML header, Info, Tracks,
+ * and Clusters of SimpleBlocks. Everything is buffered in memory,
+ * so sizes are known up front and no seeking is required.
+ */
+
+export interface WebMFrame {
+  data: Uint8Array;
+  timestamp: number;   // Milliseconds from start
+  keyFrame: boolean;
+}
+
+export interface WebMOptions {
+  width: number;
+  height: number;
+  codecId: 'V_VP8' | 'V_VP9';
+  frames: WebMFrame[];
+  duration: number;    // Milliseconds
+}
+
+// Element IDs (already include their length marker bits)
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+};
+
+// SimpleBlock timecodes are int16 relative to their cluster
+const MAX_CLUSTER_SPAN_MS = 30000;
+
+type EBMLData = Uint8Array | EBMLData[];
+
+function idBytes(id: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) {
+    bytes.unshift(v & 0xff);
+  }
+  return new Uint8Array(bytes);
+}
+
+/** Element sizes always use the 8-byte vint form for simplicity */
+function sizeBytes(size: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  bytes[0] = 0x01;
+  let v = size;
+  for (let i = 7; i > 0; i--) {
+    bytes[i] = v & 0xff;
+    v = Math.floor(v / 256);
+  }
+  return bytes;
+}
+
+function uintBytes(value: number): Uint8Array {
+  const bytes: number[] = [];
+  let v = value;
+  do {
+    bytes.unshift(v & 0xff);
+    v = Math.floor(v / 256);
+  } while (v > 0);
+  return new Uint8Array(bytes);
+}
+
+function floatBytes(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+function stringBytes(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+function flatten(data: EBMLData): Uint8Array[] {
+  return data instanceof Uint8Array ? [data] : data.flatMap(flatten);
+}
+
+function byteLength(parts: Uint8Array[]): number {
+  return parts.reduce((sum, part) => sum + part.byteLength, 0);
+}
+
+function element(id: number, data: EBMLData): Uint8Array[] {
+  const body = flatten(data);
+  return [idBytes(id), sizeBytes(byteLength(body)), ...body];
+}
+
+function simpleBlock(frame: WebMFrame, relativeTime: number): Uint8Array[] {
+  const header = new Uint8Array(4);
+  header[0] = 0x81; // Track number 1 as a 1-byte vint
+  new DataView(header.buffer).setInt16(1, relativeTime);
+  header[3] = frame.keyFrame ? 0x80 : 0x00;
+  return element(ID.SimpleBlock, [header, frame.data]);
+}
+
+/**
+ * Build a WebM file from encoded frames
+ */
+export function muxWebM(options: WebMOptions): Blob {
+  const { width, height, codecId, frames, duration } = options;
+
+  const header = element(ID.EBML, [
+    element(ID.EBMLVersion, uintBytes(1)),
+    element(ID.EBMLReadVersion, uintBytes(1)),
+    element(ID.EBMLMaxIDLength, uintBytes(4)),
+    element(ID.EBMLMaxSizeLength, uintBytes(8)),
+    element(ID.DocType, stringBytes('webm')),
+    element(ID.DocTypeVersion, uintBytes(2)),
+    element(ID.DocTypeReadVersion, uintBytes(2)),
+  ]);
+
+  const info = element(ID.Info, [
+    element(ID.TimecodeScale, uintBytes(1000000)), // Timecodes in milliseconds
+    element(ID.Duration, floatBytes(duration)),
+    element(ID.MuxingApp, stringBytes('webgl-showcase')),
+    element(ID.WritingApp, stringBytes('webgl-showcase')),
+  ]);
+
+  const tracks = element(ID.Tracks, [
+    element(ID.TrackEntry, [
+      element(ID.TrackNumber, uintBytes(1)),
+      element(ID.TrackUID, uintBytes(1)),
+      element(ID.TrackType, uintBytes(1)), // Video
+      element(ID.CodecID, stringBytes(codecId)),
+      element(ID.Video, [
+        element(ID.PixelWidth, uintBytes(width)),
+        element(ID.PixelHeight, uintBytes(height)),
+      ]),
+    ]),
+  ]);
+
+  // Start a new cluster on every keyframe, or when the int16 offset would overflow
+  const clusters: Uint8Array[][] = [];
+  let clusterStart = 0;
+  let blocks: Uint8Array[][] = [];
+  const flushCluster = () => {
+    if (blocks.length === 0) return;
+    clusters.push(element(ID.Cluster, [element(ID.Timecode, uintBytes(clusterStart)), ...blocks]));
+    blocks = [];
+  };
+
+  for (const frame of frames) {
+    const timestamp = Math.round(frame.timestamp);
+    if (blocks.length === 0 || frame.keyFrame || timestamp - clusterStart > MAX_CLUSTER_SPAN_MS) {
+      flushCluster();
+      clusterStart = timestamp;
+    }
+    blocks.push(simpleBlock(frame, timestamp - clusterStart));
+  }
+  flushCluster();
+
+  const segment = element(ID.Segment, [info, tracks, ...clusters]);
+  return new Blob([...header, ...segment] as BlobPart[], { type: 'video/webm' });
+}
@@ -11,12 +11,44 @@ import type {
   DemoMetadata,
   DemoFactory,
   DemoRegistryEntry,
+  SelectParameter,
 } from './core/types';
 
 // ============================================================================
 // Demo Metadata Definitions
 // ============================================================================
 
+// Shared by the demos drawn with a CameraController
+const cameraModeParameter: SelectParameter = {
+  key: 'cameraMode', label: 'Camera', type: 'select', default: 'orbit',
+  options: [
+    { label: 'Orbit (drag, wheel)', value: 'orbit' },
+    { label: 'Fly (drag, WASD/QE)', value: 'fly' },
+  ],
+};
+
+// Shared by the postprocess demos; media comes from the canvas's file picker or drop
+const sourceParameter: SelectParameter = {
+  key: 'source', label: 'Source', type: 'select', default: 'scene',
+  options: [
+    { label: 'Procedural scene', value: 'scene' },
+    { label: 'Your image', value: 'image' },
+    { label: 'Your video', value: 'video' },
+  ],
+};
+
+// Shared by the demos with an EnvironmentMap; panoramas come from the canvas's file picker or drop
+const environmentParameter: SelectParameter = {
+  key: 'environment', label: 'Environment', type: 'select', default: 'none',
+  options: [
+    { label: 'None', value: 'none' },
+    { label: 'Day sky', value: 'day' },
+    { label: 'Sunset', value: 'sunset' },
+    { label: 'Night', value: 'night' },
+    { label: 'Your panorama', value: 'panorama' },
+  ],
+};
+
 const nebulaMetadata: DemoMetadata = {
   id: 'nebula',
   name: 'Procedural Nebula',
@@ -64,6 +96,7 @@ const instancedMetadata: DemoMetadata = {
   parameters: [
     { key: 'speed', label: 'Animation Speed', type: 'slider', default: 1, min: 0.1, max: 3, step: 0.1 },
     { key: 'cameraSpeed', label: 'Camera Speed', type: 'slider', default: 1, min: 0, max: 2, step: 0.1 },
+    cameraModeParameter,
   ],
 };
 
@@ -87,6 +120,8 @@ const portalRttMetadata: DemoMetadata = {
     { key: 'aberration', label: 'Chromatic Aberration', type: 'slider', default: 0.002, min: 0, max: 0.01, step: 0.001 },
     { key: 'saturation', label: 'Saturation', type: 'slider', default: 1.3, min: 0.5, max: 2, step: 0.1 },
     { key: 'cameraSpeed', label: 'Camera Speed', type: 'slider', default: 1, min: 0, max: 2, step: 0.1 },
+    cameraModeParameter,
+    environmentParameter,
   ],
 };
 
@@ -109,6 +144,7 @@ const gpuParticlesMetadata: DemoMetadata = {
     { key: 'turbulence', label: 'Turbulence', type: 'slider', default: 2, min: 0, max: 5, step: 0.5 },
     { key: 'cameraSpeed', label: 'Camera Speed', type: 'slider', default: 1, min: 0, max: 2, step: 0.1 },
     { key: 'pointSize', label: 'Point Size', type: 'slider', default: 5, min: 1, max: 10, step: 0.5 },
+    cameraModeParameter,
   ],
 };
 
@@ -161,6 +197,7 @@ const raymarchingMetadata: DemoMetadata = {
     { key: 'softShadows', label: 'Soft Shadows', type: 'toggle', default: true },
     { key: 'ao', label: 'Ambient Occlusion', type: 'toggle', default: true },
     { key: 'rotationSpeed', label: 'Rotation Speed', type: 'slider', default: 0.3, min: 0, max: 1, step: 0.1 },
+    environmentParameter,
   ],
 };
 
@@ -236,6 +273,7 @@ const heightfieldMetadata: DemoMetadata = {
     { key: 'waveHeight', label: 'Wave Height', type: 'slider', default: 1, min: 0.1, max: 3, step: 0.1 },
     { key: 'waveFrequency', label: 'Wave Frequency', type: 'slider', default: 2, min: 0.5, max: 5, step: 0.1 },
     { key: 'wireframe', label: 'Wireframe Mode', type: 'toggle', default: false },
+    cameraModeParameter,
   ],
 };
 
@@ -258,6 +296,7 @@ const wireframeMetadata: DemoMetadata = {
     { key: 'edgeWidth', label: 'Edge Width', type: 'slider', default: 1.5, min: 0.5, max: 5, step: 0.5 },
     { key: 'fillOpacity', label: 'Fill Opacity', type: 'slider', default: 0.1, min: 0, max: 1, step: 0.05 },
     { key: 'animate', label: 'Animate Mesh', type: 'toggle', default: true },
+    cameraModeParameter,
   ],
 };
 
@@ -277,6 +316,7 @@ const bloomMetadata: DemoMetadata = {
   perfNotes: '3-4 passes (threshold + blur H + blur V + combine)',
   difficulty: 'intermediate',
   parameters: [
+    sourceParameter,
     { key: 'threshold', label: 'Bright Threshold', type: 'slider', default: 0.5, min: 0, max: 1, step: 0.05 },
     { key: 'intensity', label: 'Bloom Intensity', type: 'slider', default: 1, min: 0, max: 3, step: 0.1 },
     { key: 'radius', label: 'Blur Radius', type: 'slider', default: 4, min: 1, max: 10, step: 1 },
@@ -289,14 +329,14 @@ const capabilitiesMetadata: DemoMetadata = {
   category: 'performance',
   tags: ['webgl2', 'extensions', 'features', 'educational'],
   description:
-    'Displays WebGL2 capabilities and supported extensions of your browser/GPU. Useful for understanding what features are available.',
+    'Displays WebGL2 capabilities and supported extensions of your browser/GPU as a scrollable table. Useful for understanding what features are available.',
   techniqueNotes: [
     'Extension detection (getExtension)',
     'Parameter queries (getParameter)',
-    'Capability limits (MAX_*)',
-    'Feature support table',
+    'Capability limits (MAX_*) and shader precision formats',
+    'SDF text from a font atlas built at runtime',
   ],
-  perfNotes: 'Static display; minimal GPU usage',
+  perfNotes: 'Static display; 3 draw calls (background + 2 instanced text batches)',
   difficulty: 'beginner',
   parameters: [],
 };
@@ -305,7 +345,7 @@ const waterCausticsMetadata: DemoMetadata = {
   id: 'water-caustics',
   name: 'Water Caustics',
   category: 'shaders',
-  tags: ['water', 'caustics', 'distortion', 'uv'],
+  tags: ['water', 'caustics', 'distortion', 'uv', 'ktx2'],
   description:
     'Simulates underwater caustic light patterns using UV distortion and animated noise. Creates a convincing underwater lighting effect.',
   techniqueNotes: [
@@ -313,13 +353,15 @@ const waterCausticsMetadata: DemoMetadata = {
     'Layered noise for caustics',
     'Animated light patterns',
     'Fake volumetric lighting',
+    'Compressed KTX2 floor texture with PNG fallback',
   ],
-  perfNotes: 'Fragment-heavy; 1 draw call',
+  perfNotes: 'Fragment-heavy; 1 draw call, 1 texture',
   difficulty: 'intermediate',
   parameters: [
     { key: 'speed', label: 'Animation Speed', type: 'slider', default: 1, min: 0, max: 3, step: 0.1 },
     { key: 'distortion', label: 'Distortion Amount', type: 'slider', default: 0.1, min: 0, max: 0.3, step: 0.01 },
     { key: 'brightness', label: 'Caustic Brightness', type: 'slider', default: 1, min: 0.5, max: 2, step: 0.1 },
+    { key: 'floor', label: 'Pool Floor', type: 'toggle', default: true },
   ],
 };
 
@@ -339,6 +381,7 @@ const glitchMetadata: DemoMetadata = {
   perfNotes: 'Postprocess pass; 1 draw call',
   difficulty: 'beginner',
   parameters: [
+    sourceParameter,
     { key: 'chromaticStrength', label: 'Chromatic Aberration', type: 'slider', default: 0.01, min: 0, max: 0.05, step: 0.002 },
     { key: 'scanlines', label: 'Scan Lines', type: 'toggle', default: true },
     { key: 'blockGlitch', label: 'Block Glitch', type: 'toggle', default: false },
@@ -362,6 +405,7 @@ const ditheringMetadata: DemoMetadata = {
   perfNotes: 'Postprocess pass; 1 draw call',
   difficulty: 'beginner',
   parameters: [
+    sourceParameter,
     { key: 'colorLevels', label: 'Color Levels', type: 'slider', default: 8, min: 2, max: 32, step: 1 },
     { key: 'ditherType', label: 'Dither Type', type: 'select', default: 'bayer',
       options: [
@@ -379,12 +423,13 @@ const primitives3dMetadata: DemoMetadata = {
   category: 'geometry',
   tags: ['3d', 'primitives', 'lighting', 'phong'],
   description:
-    'Classic 3D primitives (cube, sphere, torus) with Phong lighting. Interactive camera orbit and multiple light sources.',
+    'Classic 3D primitives (cube, sphere, torus) with Phong lighting. Orbit or fly the camera and multiple light sources.',
   techniqueNotes: [
     'Procedural primitive generation',
     'Phong lighting model',
     'Orbit camera controls',
     'Multiple point lights',
+    'Cubemap skybox and environment reflections',
   ],
   perfNotes: 'Standard 3D scene; 3-4 draw calls',
   difficulty: 'beginner',
@@ -398,6 +443,8 @@ const primitives3dMetadata: DemoMetadata = {
       ] },
     { key: 'autoRotate', label: 'Auto Rotate', type: 'toggle', default: true },
     { key: 'wireframe', label: 'Wireframe', type: 'toggle', default: false },
+    cameraModeParameter,
+    environmentParameter,
   ],
 };
 
@@ -443,6 +490,7 @@ const colorGradingMetadata: DemoMetadata = {
   perfNotes: 'Postprocess pass; 1 draw call',
   difficulty: 'beginner',
   parameters: [
+    sourceParameter,
     { key: 'saturation', label: 'Saturation', type: 'slider', default: 1, min: 0, max: 2, step: 0.1 },
     { key: 'contrast', label: 'Contrast', type: 'slider', default: 1, min: 0.5, max: 1.5, step: 0.05 },
     { key: 'brightness', label: 'Brightness', type: 'slider', default: 0, min: -0.5, max: 0.5, step: 0.05 },
@@ -601,6 +649,13 @@ export function getDemoIds(): string[] {
   return Object.keys(DEMO_METADATA);
 }
 
+/**
+ * Get the IDs of demos that have a loader (what loadDemo can return)
+ */
+export function getLoadableDemoIds(): string[] {
+  return Object.keys(DEMO_LOADERS).filter((id) => id in DEMO_METADATA);
+}
+
 /**
  * Get all categories with their demo counts
  */
@@ -12,7 +12,8 @@
 import { mat4 } from 'gl-matrix';
 import { createProgram, createVao, createBuffer, getUniformLocations } from '../../core';
 import { StatsTracker } from '../../core/stats';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory } from '../../core/types';
+import { CameraController, type CameraMode } from '../../core/camera';
+import type { DemoInstance, DemoContext, DemoStats, DemoFactory, DemoShaderProgram, DemoCamera } from '../../core/types';
 
 // Vertex shader with displacement
 const vertexShader = `#version 300 es
@@ -159,6 +160,19 @@ void main() {
 }
 `;
 
+const uniformNames = [
+  'u_projection',
+  'u_view',
+  'u_model',
+  'u_time',
+  'u_waveHeight',
+  'u_waveFrequency',
+  'u_gridSize',
+  'u_lightPos',
+  'u_viewPos',
+  'u_wireframe',
+];
+
 class HeightfieldDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private program: WebGLProgram | null = null;
@@ -166,11 +180,14 @@ class HeightfieldDemo implements DemoInstance {
   private vertexBuffer: WebGLBuffer | null = null;
   private indexBuffer: WebGLBuffer | null = null;
   private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private vertexSource = vertexShader;
+  private fragmentSource = fragmentShader;
   private stats: StatsTracker;
   private isPaused = false;
 
-  private projectionMatrix = mat4.create();
-  private viewMatrix = mat4.create();
+  private camera = new CameraController({
+    autoOrbit: { radius: 15, speed: 0.2, height: 8, bob: 2, bobSpeed: 0.1 },
+  });
   private modelMatrix = mat4.create();
 
   private indexCount = 0;
@@ -191,22 +208,11 @@ class HeightfieldDemo implements DemoInstance {
     const gl = this.gl;
 
     // Create shader program
-    this.program = createProgram(gl, vertexShader, fragmentShader);
+    this.program = createProgram(gl, vertexShader, fragmentShader, { name: 'main' });
     if (!this.program) throw new Error('Failed to create heightfield shader program');
 
     // Get uniform locations
-    this.uniforms = getUniformLocations(gl, this.program, [
-      'u_projection',
-      'u_view',
-      'u_model',
-      'u_time',
-      'u_waveHeight',
-      'u_waveFrequency',
-      'u_gridSize',
-      'u_lightPos',
-      'u_viewPos',
-      'u_wireframe',
-    ]);
+    this.uniforms = getUniformLocations(gl, this.program, uniformNames);
 
     this.createGrid();
   }
@@ -287,30 +293,22 @@ class HeightfieldDemo implements DemoInstance {
     gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
     gl.enable(gl.DEPTH_TEST);
 
-    const aspect = ctx.width / ctx.height;
-    mat4.perspective(this.projectionMatrix, Math.PI / 4, aspect, 0.1, 100.0);
-
     const time = ctx.reduceMotion ? ctx.time * 0.3 : ctx.time;
-    const camRadius = 15;
-    const camX = Math.sin(time * 0.2) * camRadius;
-    const camZ = Math.cos(time * 0.2) * camRadius;
-    const camY = 8 + Math.sin(time * 0.1) * 2;
-
-    mat4.lookAt(this.viewMatrix, [camX, camY, camZ], [0, 0, 0], [0, 1, 0]);
+    this.camera.update(ctx, time);
     mat4.identity(this.modelMatrix);
 
     gl.useProgram(this.program);
     gl.bindVertexArray(this.vao);
 
-    gl.uniformMatrix4fv(this.uniforms.u_projection, false, this.projectionMatrix);
-    gl.uniformMatrix4fv(this.uniforms.u_view, false, this.viewMatrix);
+    gl.uniformMatrix4fv(this.uniforms.u_projection, false, this.camera.projection);
+    gl.uniformMatrix4fv(this.uniforms.u_view, false, this.camera.view);
     gl.uniformMatrix4fv(this.uniforms.u_model, false, this.modelMatrix);
     gl.uniform1f(this.uniforms.u_time, time);
     gl.uniform1f(this.uniforms.u_waveHeight, this.waveHeight);
     gl.uniform1f(this.uniforms.u_waveFrequency, this.waveFrequency);
     gl.uniform2f(this.uniforms.u_gridSize, 10.0, 10.0);
     gl.uniform3f(this.uniforms.u_lightPos, 5.0, 10.0, 5.0);
-    gl.uniform3f(this.uniforms.u_viewPos, camX, camY, camZ);
+    gl.uniform3fv(this.uniforms.u_viewPos, this.camera.position);
     gl.uniform1i(this.uniforms.u_wireframe, this.wireframe ? 1 : 0);
 
     gl.drawElements(gl.TRIANGLES, this.indexCount, gl.UNSIGNED_INT, 0);
@@ -339,6 +337,7 @@ class HeightfieldDemo implements DemoInstance {
     this.waveHeight = 1.0;
     this.waveFrequency = 2.0;
     this.wireframe = false;
+    this.camera.reset();
   }
 
   setParameter(key: string, value: number | boolean | string): void {
@@ -355,6 +354,9 @@ class HeightfieldDemo implements DemoInstance {
       case 'wireframe':
         this.wireframe = value as boolean;
         break;
+      case 'cameraMode':
+        this.camera.setMode(value as CameraMode);
+        break;
     }
   }
 
@@ -364,12 +366,41 @@ class HeightfieldDemo implements DemoInstance {
       waveHeight: this.waveHeight,
       waveFrequency: this.waveFrequency,
       wireframe: this.wireframe,
+      cameraMode: this.camera.getMode(),
     };
   }
 
   getStats(): DemoStats {
     return this.stats.getStats();
   }
+
+  getCamera(): DemoCamera {
+    return this.camera;
+  }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    if (!this.program) return [];
+    return [{
+      name: 'main',
+      program: this.program,
+      vertexSource: this.vertexSource,
+      fragmentSource: this.fragmentSource,
+    }];
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    if (name !== 'main') return;
+    if (this.program) this.gl.deleteProgram(this.program);
+    this.program = program;
+    this.vertexSource = vertexSource;
+    this.fragmentSource = fragmentSource;
+    this.uniforms = getUniformLocations(this.gl, program, uniformNames);
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new HeightfieldDemo(gl);
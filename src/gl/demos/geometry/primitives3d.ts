@@ -1,13 +1,27 @@
 /**
  * 3D Primitives Demo
  *
- * Classic 3D primitives with Phong lighting and interactive camera.
+ * Classic 3D primitives with Phong lighting and an orbit/fly camera.
+ * A glTF or OBJ model dropped on the canvas replaces the primitives, and an
+ * optional environment map adds a skybox and reflections.
  */
 
 import { mat4, vec3 } from 'gl-matrix';
-import { createProgram, createVao, createBuffer, getUniformLocations } from '../../core';
+import { createProgram, createVao, createBuffer, createIndexBuffer, getUniformLocations } from '../../core';
 import { StatsTracker } from '../../core/stats';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory } from '../../core/types';
+import { CameraController, type CameraMode } from '../../core/camera';
+import { fitMesh } from '../../core/mesh';
+import { EnvironmentMap, Skybox, ENVIRONMENT_GLSL, ENVIRONMENT_UNIFORMS } from '../../core/environment';
+import type {
+  DemoInstance,
+  DemoContext,
+  DemoStats,
+  DemoFactory,
+  DemoShaderProgram,
+  DemoCamera,
+  MeshData,
+  Panorama,
+} from '../../core/types';
 
 const vertexShader = `#version 300 es
 precision highp float;
@@ -40,6 +54,8 @@ uniform vec3 u_viewPos;
 uniform vec3 u_color;
 uniform bool u_wireframe;
 
+${ENVIRONMENT_GLSL}
+
 out vec4 fragColor;
 
 void main() {
@@ -57,8 +73,8 @@ void main() {
   vec3 light1Color = vec3(1.0, 0.95, 0.9);
   vec3 light2Color = vec3(0.6, 0.7, 1.0);
 
-  // Ambient
-  vec3 ambient = 0.15 * u_color;
+  // Ambient, from the environment's average light when there is one
+  vec3 ambient = u_useEnvironment ? sampleEnvironment(normal, 1.0) * 0.6 * u_color : 0.15 * u_color;
 
   // Light 1
   vec3 lightDir1 = normalize(light1Pos - v_position);
@@ -81,6 +97,12 @@ void main() {
 
   vec3 result = ambient + diffuse1 + specular1 + diffuse2 + specular2;
 
+  // Environment reflection, stronger at grazing angles
+  if (u_useEnvironment) {
+    float fresnel = mix(0.08, 1.0, pow(1.0 - max(dot(normal, viewDir), 0.0), 5.0));
+    result += fresnel * sampleEnvironment(reflect(-viewDir, normal), 0.2);
+  }
+
   // Gamma correction
   result = pow(result, vec3(1.0 / 2.2));
 
@@ -183,6 +205,30 @@ function createTorusGeometry(majorR = 1, minorR = 0.4, segments = 32): { positio
   return { positions: new Float32Array(positions), normals: new Float32Array(normals) };
 }
 
+// Indexed geometry for a loaded model; the wireframe view draws its edges
+// through a second VAO sharing the vertex buffers
+interface ModelGeometry {
+  vao: WebGLVertexArrayObject;
+  edgeVao: WebGLVertexArrayObject;
+  buffers: WebGLBuffer[];
+  indexCount: number;
+  edgeIndexCount: number;
+}
+
+// Each triangle's three edges as line pairs
+function getEdgeIndices(indices: Uint32Array): Uint32Array {
+  const edges = new Uint32Array(indices.length * 2);
+  for (let i = 0; i < indices.length; i += 3) {
+    edges.set([indices[i], indices[i + 1], indices[i + 1], indices[i + 2], indices[i + 2], indices[i]], i * 2);
+  }
+  return edges;
+}
+
+const uniformNames = [
+  'u_projection', 'u_view', 'u_model', 'u_normalMatrix', 'u_viewPos', 'u_color', 'u_wireframe',
+  ...ENVIRONMENT_UNIFORMS,
+];
+
 class Primitives3DDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private program: WebGLProgram | null = null;
@@ -192,18 +238,25 @@ class Primitives3DDemo implements DemoInstance {
   private cubeVertexCount = 0;
   private sphereVertexCount = 0;
   private torusVertexCount = 0;
+  private model: ModelGeometry | null = null;
   private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private vertexSource = vertexShader;
+  private fragmentSource = fragmentShader;
   private stats: StatsTracker;
+  private environmentMap: EnvironmentMap | null = null;
+  private skybox: Skybox | null = null;
   private isPaused = false;
 
-  private projectionMatrix = mat4.create();
-  private viewMatrix = mat4.create();
+  private camera = new CameraController({
+    autoOrbit: { radius: 5, speed: 0.3, height: 2, bob: 1, bobSpeed: 0.2 },
+  });
   private modelMatrix = mat4.create();
   private normalMatrix = mat4.create();
 
   private shape = 'torus';
   private autoRotate = true;
   private wireframe = false;
+  private environment = 'none';
 
   constructor(gl: WebGL2RenderingContext) {
     this.gl = gl;
@@ -213,12 +266,10 @@ class Primitives3DDemo implements DemoInstance {
   async init(): Promise<void> {
     const gl = this.gl;
 
-    this.program = createProgram(gl, vertexShader, fragmentShader);
+    this.program = createProgram(gl, vertexShader, fragmentShader, { name: 'main' });
     if (!this.program) throw new Error('Failed to create 3D primitives shader');
 
-    this.uniforms = getUniformLocations(gl, this.program, [
-      'u_projection', 'u_view', 'u_model', 'u_normalMatrix', 'u_viewPos', 'u_color', 'u_wireframe',
-    ]);
+    this.uniforms = getUniformLocations(gl, this.program, uniformNames);
 
     // Create geometries
     const cube = createCubeGeometry();
@@ -232,6 +283,9 @@ class Primitives3DDemo implements DemoInstance {
     const torus = createTorusGeometry(1, 0.4, 32);
     this.torusVao = this.createVAO(torus.positions, torus.normals);
     this.torusVertexCount = torus.positions.length / 3;
+
+    this.environmentMap = new EnvironmentMap(gl);
+    this.skybox = new Skybox(gl);
   }
 
   private createVAO(positions: Float32Array, normals: Float32Array): WebGLVertexArrayObject {
@@ -256,12 +310,67 @@ class Primitives3DDemo implements DemoInstance {
     return vao!;
   }
 
+  setMesh(mesh: MeshData | null): void {
+    this.deleteModel();
+    // About the size of the torus, so the camera framing still fits
+    if (mesh && this.program) this.model = this.createModel(fitMesh(mesh, 1.4));
+  }
+
+  private createModel(mesh: MeshData): ModelGeometry {
+    const gl = this.gl;
+    const positionBuffer = createBuffer(gl, mesh.positions);
+    const normalBuffer = createBuffer(gl, mesh.normals);
+    const edgeIndices = getEdgeIndices(mesh.indices);
+
+    const createModelVao = (indices: Uint32Array) => {
+      const vao = createVao(gl);
+      gl.bindVertexArray(vao);
+
+      gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+      const posLoc = gl.getAttribLocation(this.program!, 'a_position');
+      gl.enableVertexAttribArray(posLoc);
+      gl.vertexAttribPointer(posLoc, 3, gl.FLOAT, false, 0, 0);
+
+      gl.bindBuffer(gl.ARRAY_BUFFER, normalBuffer);
+      const normLoc = gl.getAttribLocation(this.program!, 'a_normal');
+      gl.enableVertexAttribArray(normLoc);
+      gl.vertexAttribPointer(normLoc, 3, gl.FLOAT, false, 0, 0);
+
+      // Binds to the VAO, so create it while the VAO is bound
+      const indexBuffer = createIndexBuffer(gl, indices);
+      gl.bindVertexArray(null);
+      return { vao, indexBuffer };
+    };
+
+    const triangles = createModelVao(mesh.indices);
+    const edges = createModelVao(edgeIndices);
+    return {
+      vao: triangles.vao,
+      edgeVao: edges.vao,
+      buffers: [positionBuffer, normalBuffer, triangles.indexBuffer, edges.indexBuffer],
+      indexCount: mesh.indices.length,
+      edgeIndexCount: edgeIndices.length,
+    };
+  }
+
+  private deleteModel(): void {
+    if (!this.model) return;
+    const gl = this.gl;
+    gl.deleteVertexArray(this.model.vao);
+    gl.deleteVertexArray(this.model.edgeVao);
+    this.model.buffers.forEach((buffer) => gl.deleteBuffer(buffer));
+    this.model = null;
+  }
+
   destroy(): void {
     const gl = this.gl;
+    this.deleteModel();
     if (this.program) gl.deleteProgram(this.program);
     if (this.cubeVao) gl.deleteVertexArray(this.cubeVao);
     if (this.sphereVao) gl.deleteVertexArray(this.sphereVao);
     if (this.torusVao) gl.deleteVertexArray(this.torusVao);
+    this.environmentMap?.destroy();
+    this.skybox?.destroy();
     this.stats.destroy();
   }
 
@@ -276,33 +385,34 @@ class Primitives3DDemo implements DemoInstance {
     gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
     gl.enable(gl.DEPTH_TEST);
 
-    const aspect = ctx.width / ctx.height;
-    mat4.perspective(this.projectionMatrix, Math.PI / 4, aspect, 0.1, 100.0);
-
     const time = ctx.reduceMotion ? ctx.time * 0.3 : ctx.time;
-    const camRadius = 5;
-    const camX = Math.sin(time * 0.3) * camRadius;
-    const camZ = Math.cos(time * 0.3) * camRadius;
-    const camY = 2 + Math.sin(time * 0.2);
+    this.camera.update(ctx, time);
 
-    mat4.lookAt(this.viewMatrix, [camX, camY, camZ], [0, 0, 0], [0, 1, 0]);
+    const cubemap = this.environmentMap?.get(this.environment) ?? null;
+    if (cubemap && this.skybox) {
+      this.skybox.draw(cubemap, this.camera.view, this.camera.projection);
+      this.stats.recordDrawCall(1);
+    }
 
     gl.useProgram(this.program);
-    gl.uniformMatrix4fv(this.uniforms.u_projection, false, this.projectionMatrix);
-    gl.uniformMatrix4fv(this.uniforms.u_view, false, this.viewMatrix);
-    gl.uniform3f(this.uniforms.u_viewPos, camX, camY, camZ);
+    gl.uniformMatrix4fv(this.uniforms.u_projection, false, this.camera.projection);
+    gl.uniformMatrix4fv(this.uniforms.u_view, false, this.camera.view);
+    gl.uniform3fv(this.uniforms.u_viewPos, this.camera.position);
     gl.uniform1i(this.uniforms.u_wireframe, this.wireframe ? 1 : 0);
+    this.environmentMap?.apply(this.uniforms, this.environment);
 
-    const shapes = this.shape === 'all' ? ['cube', 'sphere', 'torus'] : [this.shape];
+    const shapes = this.model ? ['model'] : this.shape === 'all' ? ['cube', 'sphere', 'torus'] : [this.shape];
     const colors: Record<string, [number, number, number]> = {
       cube: [0.9, 0.3, 0.3],
       sphere: [0.3, 0.9, 0.3],
       torus: [0.3, 0.5, 0.9],
+      model: [0.85, 0.7, 0.45],
     };
     const offsets: Record<string, [number, number, number]> = {
       cube: this.shape === 'all' ? [-2.5, 0, 0] : [0, 0, 0],
       sphere: this.shape === 'all' ? [0, 0, 0] : [0, 0, 0],
       torus: this.shape === 'all' ? [2.5, 0, 0] : [0, 0, 0],
+      model: [0, 0, 0],
     };
 
     for (const shape of shapes) {
@@ -324,6 +434,19 @@ class Primitives3DDemo implements DemoInstance {
       ]);
       gl.uniform3fv(this.uniforms.u_color, colors[shape]);
 
+      if (shape === 'model' && this.model) {
+        const { vao, edgeVao, indexCount, edgeIndexCount } = this.model;
+        if (this.wireframe) {
+          gl.bindVertexArray(edgeVao);
+          gl.drawElements(gl.LINES, edgeIndexCount, gl.UNSIGNED_INT, 0);
+        } else {
+          gl.bindVertexArray(vao);
+          gl.drawElements(gl.TRIANGLES, indexCount, gl.UNSIGNED_INT, 0);
+        }
+        this.stats.recordDrawCall(indexCount / 3);
+        continue;
+      }
+
       let vao: WebGLVertexArrayObject | null;
       let count: number;
 
@@ -357,6 +480,8 @@ class Primitives3DDemo implements DemoInstance {
     this.shape = 'torus';
     this.autoRotate = true;
     this.wireframe = false;
+    this.environment = 'none';
+    this.camera.reset();
   }
 
   setParameter(key: string, value: number | boolean | string): void {
@@ -364,14 +489,52 @@ class Primitives3DDemo implements DemoInstance {
       case 'shape': this.shape = value as string; break;
       case 'autoRotate': this.autoRotate = value as boolean; break;
       case 'wireframe': this.wireframe = value as boolean; break;
+      case 'cameraMode': this.camera.setMode(value as CameraMode); break;
+      case 'environment': this.environment = value as string; break;
     }
   }
 
   getParameters(): Record<string, number | boolean | string> {
-    return { shape: this.shape, autoRotate: this.autoRotate, wireframe: this.wireframe };
+    return {
+      shape: this.shape,
+      autoRotate: this.autoRotate,
+      wireframe: this.wireframe,
+      cameraMode: this.camera.getMode(),
+      environment: this.environment,
+    };
+  }
+
+  setPanorama(panorama: Panorama | null): void {
+    this.environmentMap?.setPanorama(panorama);
   }
 
   getStats(): DemoStats { return this.stats.getStats(); }
+
+  getCamera(): DemoCamera { return this.camera; }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    if (!this.program) return [];
+    return [{
+      name: 'main',
+      program: this.program,
+      vertexSource: this.vertexSource,
+      fragmentSource: this.fragmentSource,
+    }];
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    if (name !== 'main') return;
+    if (this.program) this.gl.deleteProgram(this.program);
+    this.program = program;
+    this.vertexSource = vertexSource;
+    this.fragmentSource = fragmentSource;
+    this.uniforms = getUniformLocations(this.gl, program, uniformNames);
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new Primitives3DDemo(gl);
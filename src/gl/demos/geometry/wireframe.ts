@@ -6,13 +6,15 @@
  * - Barycentric coordinates as vertex attributes
  * - Edge detection in fragment shader
  * - Adjustable edge thickness
- * - Works on any mesh
+ * - Works on any mesh: drop a glTF or OBJ model on the canvas
  */
 
 import { mat4 } from 'gl-matrix';
 import { createProgram, createVao, createBuffer, getUniformLocations } from '../../core';
 import { StatsTracker } from '../../core/stats';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory } from '../../core/types';
+import { CameraController, type CameraMode } from '../../core/camera';
+import { fitMesh } from '../../core/mesh';
+import type { DemoInstance, DemoContext, DemoStats, DemoFactory, DemoShaderProgram, DemoCamera, MeshData } from '../../core/types';
 
 // Vertex shader
 const vertexShader = `#version 300 es
@@ -92,6 +94,76 @@ void main() {
 }
 `;
 
+const uniformNames = [
+  'u_projection',
+  'u_view',
+  'u_model',
+  'u_time',
+  'u_edgeWidth',
+  'u_fillOpacity',
+  'u_edgeColor',
+  'u_fillColor',
+  'u_animate',
+];
+
+// Built-in mesh: an icosahedron with one level of subdivision, as a
+// non-indexed triangle list
+function createIcosphere(): Float32Array {
+  const phi = (1 + Math.sqrt(5)) / 2;
+  const scale = 1.5;
+
+  // Icosahedron vertices
+  const baseVertices = [
+    [-1,  phi, 0], [ 1,  phi, 0], [-1, -phi, 0], [ 1, -phi, 0],
+    [ 0, -1,  phi], [ 0,  1,  phi], [ 0, -1, -phi], [ 0,  1, -phi],
+    [ phi, 0, -1], [ phi, 0,  1], [-phi, 0, -1], [-phi, 0,  1],
+  ].map(v => v.map(c => c * scale / Math.sqrt(1 + phi * phi)));
+
+  // Icosahedron faces (indices)
+  const faces = [
+    [0, 11, 5], [0, 5, 1], [0, 1, 7], [0, 7, 10], [0, 10, 11],
+    [1, 5, 9], [5, 11, 4], [11, 10, 2], [10, 7, 6], [7, 1, 8],
+    [3, 9, 4], [3, 4, 2], [3, 2, 6], [3, 6, 8], [3, 8, 9],
+    [4, 9, 5], [2, 4, 11], [6, 2, 10], [8, 6, 7], [9, 8, 1],
+  ];
+
+  // Subdivide for more detail
+  const subdivide = (v1: number[], v2: number[], v3: number[]): number[] => {
+    const mid = (a: number[], b: number[]): number[] => {
+      const m = [(a[0]+b[0])/2, (a[1]+b[1])/2, (a[2]+b[2])/2];
+      const len = Math.sqrt(m[0]*m[0] + m[1]*m[1] + m[2]*m[2]);
+      return [m[0]/len * scale, m[1]/len * scale, m[2]/len * scale];
+    };
+    const m12 = mid(v1, v2);
+    const m23 = mid(v2, v3);
+    const m31 = mid(v3, v1);
+    return [
+      ...v1, ...m12, ...m31,
+      ...m12, ...v2, ...m23,
+      ...m31, ...m23, ...v3,
+      ...m12, ...m23, ...m31,
+    ];
+  };
+
+  const positions: number[] = [];
+  for (const face of faces) {
+    positions.push(...subdivide(baseVertices[face[0]], baseVertices[face[1]], baseVertices[face[2]]));
+  }
+  return new Float32Array(positions);
+}
+
+// Barycentric edges need every triangle to own its three corners
+function unindexMesh(mesh: MeshData): Float32Array {
+  const positions = new Float32Array(mesh.indices.length * 3);
+  for (let i = 0; i < mesh.indices.length; i++) {
+    const index = mesh.indices[i];
+    positions[i * 3] = mesh.positions[index * 3];
+    positions[i * 3 + 1] = mesh.positions[index * 3 + 1];
+    positions[i * 3 + 2] = mesh.positions[index * 3 + 2];
+  }
+  return positions;
+}
+
 class WireframeDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private program: WebGLProgram | null = null;
@@ -99,14 +171,18 @@ class WireframeDemo implements DemoInstance {
   private positionBuffer: WebGLBuffer | null = null;
   private barycentricBuffer: WebGLBuffer | null = null;
   private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private vertexSource = vertexShader;
+  private fragmentSource = fragmentShader;
   private stats: StatsTracker;
   private isPaused = false;
 
-  private projectionMatrix = mat4.create();
-  private viewMatrix = mat4.create();
+  private camera = new CameraController({
+    autoOrbit: { radius: 5, speed: 0.3, bob: 1.5, bobSpeed: 0.2 },
+  });
   private modelMatrix = mat4.create();
 
   private vertexCount = 0;
+  private mesh: MeshData | null = null;
 
   // Parameters
   private edgeWidth = 1.5;
@@ -122,89 +198,26 @@ class WireframeDemo implements DemoInstance {
     const gl = this.gl;
 
     // Create shader program
-    this.program = createProgram(gl, vertexShader, fragmentShader);
+    this.program = createProgram(gl, vertexShader, fragmentShader, { name: 'main' });
     if (!this.program) throw new Error('Failed to create wireframe shader program');
 
     // Get uniform locations
-    this.uniforms = getUniformLocations(gl, this.program, [
-      'u_projection',
-      'u_view',
-      'u_model',
-      'u_time',
-      'u_edgeWidth',
-      'u_fillOpacity',
-      'u_edgeColor',
-      'u_fillColor',
-      'u_animate',
-    ]);
-
-    this.createMesh();
+    this.uniforms = getUniformLocations(gl, this.program, uniformNames);
+
+    this.createGeometry();
   }
 
-  private createMesh(): void {
+  // The loaded model, or the built-in icosphere
+  private createGeometry(): void {
     const gl = this.gl;
-
-    // Create an icosahedron mesh with barycentric coordinates
-    const phi = (1 + Math.sqrt(5)) / 2;
-    const scale = 1.5;
-
-    // Icosahedron vertices
-    const baseVertices = [
-      [-1,  phi, 0], [ 1,  phi, 0], [-1, -phi, 0], [ 1, -phi, 0],
-      [ 0, -1,  phi], [ 0,  1,  phi], [ 0, -1, -phi], [ 0,  1, -phi],
-      [ phi, 0, -1], [ phi, 0,  1], [-phi, 0, -1], [-phi, 0,  1],
-    ].map(v => v.map(c => c * scale / Math.sqrt(1 + phi * phi)));
-
-    // Icosahedron faces (indices)
-    const faces = [
-      [0, 11, 5], [0, 5, 1], [0, 1, 7], [0, 7, 10], [0, 10, 11],
-      [1, 5, 9], [5, 11, 4], [11, 10, 2], [10, 7, 6], [7, 1, 8],
-      [3, 9, 4], [3, 4, 2], [3, 2, 6], [3, 6, 8], [3, 8, 9],
-      [4, 9, 5], [2, 4, 11], [6, 2, 10], [8, 6, 7], [9, 8, 1],
-    ];
-
-    // Subdivide for more detail
-    const subdivide = (v1: number[], v2: number[], v3: number[]): number[] => {
-      const mid = (a: number[], b: number[]): number[] => {
-        const m = [(a[0]+b[0])/2, (a[1]+b[1])/2, (a[2]+b[2])/2];
-        const len = Math.sqrt(m[0]*m[0] + m[1]*m[1] + m[2]*m[2]);
-        return [m[0]/len * scale, m[1]/len * scale, m[2]/len * scale];
-      };
-      const m12 = mid(v1, v2);
-      const m23 = mid(v2, v3);
-      const m31 = mid(v3, v1);
-      return [
-        ...v1, ...m12, ...m31,
-        ...m12, ...v2, ...m23,
-        ...m31, ...m23, ...v3,
-        ...m12, ...m23, ...m31,
-      ];
-    };
-
-    // Build subdivided mesh
-    const positions: number[] = [];
-    const barycentrics: number[] = [];
-
-    for (const face of faces) {
-      const v1 = baseVertices[face[0]];
-      const v2 = baseVertices[face[1]];
-      const v3 = baseVertices[face[2]];
-
-      // One level of subdivision
-      const subdivided = subdivide(v1, v2, v3);
-
-      // Add positions
-      positions.push(...subdivided);
-
-      // Add barycentric coordinates for each triangle
-      const numTris = subdivided.length / 9;
-      for (let i = 0; i < numTris; i++) {
-        barycentrics.push(
-          1, 0, 0,  // vertex 1
-          0, 1, 0,  // vertex 2
-          0, 0, 1,  // vertex 3
-        );
-      }
+    const positions = this.mesh ? unindexMesh(this.mesh) : createIcosphere();
+
+    // Each triangle's corners get (1,0,0), (0,1,0), (0,0,1)
+    const barycentrics = new Float32Array(positions.length);
+    for (let i = 0; i < barycentrics.length; i += 9) {
+      barycentrics[i] = 1;
+      barycentrics[i + 4] = 1;
+      barycentrics[i + 8] = 1;
     }
 
     this.vertexCount = positions.length / 3;
@@ -214,7 +227,7 @@ class WireframeDemo implements DemoInstance {
     gl.bindVertexArray(this.vao);
 
     // Position buffer
-    this.positionBuffer = createBuffer(gl, new Float32Array(positions));
+    this.positionBuffer = createBuffer(gl, positions);
     gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer);
 
     const positionLoc = gl.getAttribLocation(this.program!, 'a_position');
@@ -222,7 +235,7 @@ class WireframeDemo implements DemoInstance {
     gl.vertexAttribPointer(positionLoc, 3, gl.FLOAT, false, 0, 0);
 
     // Barycentric buffer
-    this.barycentricBuffer = createBuffer(gl, new Float32Array(barycentrics));
+    this.barycentricBuffer = createBuffer(gl, barycentrics);
     gl.bindBuffer(gl.ARRAY_BUFFER, this.barycentricBuffer);
 
     const barycentricLoc = gl.getAttribLocation(this.program!, 'a_barycentric');
@@ -232,12 +245,28 @@ class WireframeDemo implements DemoInstance {
     gl.bindVertexArray(null);
   }
 
-  destroy(): void {
+  private deleteGeometry(): void {
     const gl = this.gl;
-    if (this.program) gl.deleteProgram(this.program);
     if (this.vao) gl.deleteVertexArray(this.vao);
     if (this.positionBuffer) gl.deleteBuffer(this.positionBuffer);
     if (this.barycentricBuffer) gl.deleteBuffer(this.barycentricBuffer);
+    this.vao = null;
+    this.positionBuffer = null;
+    this.barycentricBuffer = null;
+  }
+
+  setMesh(mesh: MeshData | null): void {
+    // Sized like the icosphere, so the wave animation and camera framing still fit
+    this.mesh = mesh && fitMesh(mesh, 1.5);
+    if (!this.program) return;
+    this.deleteGeometry();
+    this.createGeometry();
+  }
+
+  destroy(): void {
+    const gl = this.gl;
+    if (this.program) gl.deleteProgram(this.program);
+    this.deleteGeometry();
     this.stats.destroy();
   }
 
@@ -255,16 +284,8 @@ class WireframeDemo implements DemoInstance {
     gl.enable(gl.BLEND);
     gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
 
-    const aspect = ctx.width / ctx.height;
-    mat4.perspective(this.projectionMatrix, Math.PI / 4, aspect, 0.1, 100.0);
-
     const time = ctx.reduceMotion ? ctx.time * 0.3 : ctx.time;
-    const camRadius = 5;
-    const camX = Math.sin(time * 0.3) * camRadius;
-    const camZ = Math.cos(time * 0.3) * camRadius;
-    const camY = Math.sin(time * 0.2) * 1.5;
-
-    mat4.lookAt(this.viewMatrix, [camX, camY, camZ], [0, 0, 0], [0, 1, 0]);
+    this.camera.update(ctx, time);
 
     mat4.identity(this.modelMatrix);
     mat4.rotateY(this.modelMatrix, this.modelMatrix, time * 0.2);
@@ -273,8 +294,8 @@ class WireframeDemo implements DemoInstance {
     gl.useProgram(this.program);
     gl.bindVertexArray(this.vao);
 
-    gl.uniformMatrix4fv(this.uniforms.u_projection, false, this.projectionMatrix);
-    gl.uniformMatrix4fv(this.uniforms.u_view, false, this.viewMatrix);
+    gl.uniformMatrix4fv(this.uniforms.u_projection, false, this.camera.projection);
+    gl.uniformMatrix4fv(this.uniforms.u_view, false, this.camera.view);
     gl.uniformMatrix4fv(this.uniforms.u_model, false, this.modelMatrix);
     gl.uniform1f(this.uniforms.u_time, time);
     gl.uniform1f(this.uniforms.u_edgeWidth, this.edgeWidth);
@@ -309,6 +330,7 @@ class WireframeDemo implements DemoInstance {
     this.edgeWidth = 1.5;
     this.fillOpacity = 0.1;
     this.animate = true;
+    this.camera.reset();
   }
 
   setParameter(key: string, value: number | boolean | string): void {
@@ -322,6 +344,9 @@ class WireframeDemo implements DemoInstance {
       case 'animate':
         this.animate = value as boolean;
         break;
+      case 'cameraMode':
+        this.camera.setMode(value as CameraMode);
+        break;
     }
   }
 
@@ -330,12 +355,41 @@ class WireframeDemo implements DemoInstance {
       edgeWidth: this.edgeWidth,
       fillOpacity: this.fillOpacity,
       animate: this.animate,
+      cameraMode: this.camera.getMode(),
     };
   }
 
   getStats(): DemoStats {
     return this.stats.getStats();
   }
+
+  getCamera(): DemoCamera {
+    return this.camera;
+  }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    if (!this.program) return [];
+    return [{
+      name: 'main',
+      program: this.program,
+      vertexSource: this.vertexSource,
+      fragmentSource: this.fragmentSource,
+    }];
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    if (name !== 'main') return;
+    if (this.program) this.gl.deleteProgram(this.program);
+    this.program = program;
+    this.vertexSource = vertexSource;
+    this.fragmentSource = fragmentSource;
+    this.uniforms = getUniformLocations(this.gl, program, uniformNames);
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new WireframeDemo(gl);
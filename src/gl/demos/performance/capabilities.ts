@@ -1,12 +1,15 @@
 /**
  * WebGL2 Capabilities Demo
  *
- * Displays WebGL2 capabilities and supported extensions on screen.
+ * Displays WebGL2 capabilities and supported extensions on screen as a
+ * scrollable table: context strings, every getParameter limit, shader
+ * precision formats and the extension list, drawn with SDF text.
  */
 
 import { createProgram, createVao, createBuffer, getUniformLocations } from '../../core';
 import { StatsTracker } from '../../core/stats';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory } from '../../core/types';
+import { TextRenderer, type TextColor } from '../../core/text';
+import type { DemoInstance, DemoContext, DemoStats, DemoFactory, DemoShaderProgram } from '../../core/types';
 
 const vertexShader = `#version 300 es
 precision highp float;
@@ -28,44 +31,7 @@ out vec4 fragColor;
 
 uniform float u_time;
 uniform vec2 u_resolution;
-
-// Display capabilities as visual bars
-uniform float u_maxTextureSize;
-uniform float u_maxViewportDim;
-uniform float u_maxVertexAttribs;
-uniform float u_maxTextureUnits;
-uniform float u_maxDrawBuffers;
-uniform float u_extensionCount;
-
-float drawBar(vec2 uv, float row, float value, float maxVal) {
-  float rowHeight = 0.08;
-  float rowY = 0.85 - row * (rowHeight + 0.02);
-
-  if (uv.y > rowY - rowHeight && uv.y < rowY) {
-    float barWidth = 0.6;
-    float barStart = 0.35;
-
-    if (uv.x > barStart && uv.x < barStart + barWidth) {
-      float fill = (uv.x - barStart) / barWidth;
-      float normalized = value / maxVal;
-
-      if (fill < normalized) {
-        return 1.0;
-      }
-    }
-  }
-  return 0.0;
-}
-
-float drawLabel(vec2 uv, float row) {
-  float rowHeight = 0.08;
-  float rowY = 0.85 - row * (rowHeight + 0.02);
-
-  if (uv.y > rowY - rowHeight && uv.y < rowY && uv.x < 0.33) {
-    return 0.3;
-  }
-  return 0.0;
-}
+uniform float u_headerHeight;   // Pixels
 
 void main() {
   vec2 uv = v_uv;
@@ -79,38 +45,10 @@ void main() {
   col += vec3(0.02) * gridLine;
 
   // Title area glow
-  if (uv.y > 0.88) {
+  if (gl_FragCoord.y > u_resolution.y - u_headerHeight) {
     col = mix(col, vec3(0.0, 0.3, 0.5), 0.3);
   }
 
-  // Draw capability bars
-  vec3 barColor = vec3(0.2, 0.7, 0.9);
-  vec3 labelColor = vec3(0.4, 0.4, 0.5);
-
-  // Row 0: Max Texture Size
-  col += barColor * drawBar(uv, 0.0, u_maxTextureSize, 16384.0);
-  col += labelColor * drawLabel(uv, 0.0);
-
-  // Row 1: Max Viewport
-  col += barColor * drawBar(uv, 1.0, u_maxViewportDim, 16384.0);
-  col += labelColor * drawLabel(uv, 1.0);
-
-  // Row 2: Vertex Attribs
-  col += vec3(0.9, 0.5, 0.2) * drawBar(uv, 2.0, u_maxVertexAttribs, 32.0);
-  col += labelColor * drawLabel(uv, 2.0);
-
-  // Row 3: Texture Units
-  col += vec3(0.9, 0.5, 0.2) * drawBar(uv, 3.0, u_maxTextureUnits, 32.0);
-  col += labelColor * drawLabel(uv, 3.0);
-
-  // Row 4: Draw Buffers
-  col += vec3(0.5, 0.9, 0.3) * drawBar(uv, 4.0, u_maxDrawBuffers, 16.0);
-  col += labelColor * drawLabel(uv, 4.0);
-
-  // Row 5: Extensions
-  col += vec3(0.5, 0.9, 0.3) * drawBar(uv, 5.0, u_extensionCount, 50.0);
-  col += labelColor * drawLabel(uv, 5.0);
-
   // Animated scan line
   float scanY = fract(u_time * 0.2);
   float scan = smoothstep(0.0, 0.01, abs(uv.y - scanY)) * 0.95 + 0.05;
@@ -125,21 +63,104 @@ void main() {
 }
 `;
 
+const uniformNames = ['u_time', 'u_resolution', 'u_headerHeight'];
+
+// Every implementation limit getParameter reports in WebGL2
+const LIMITS = [
+  'MAX_TEXTURE_SIZE',
+  'MAX_CUBE_MAP_TEXTURE_SIZE',
+  'MAX_3D_TEXTURE_SIZE',
+  'MAX_ARRAY_TEXTURE_LAYERS',
+  'MAX_RENDERBUFFER_SIZE',
+  'MAX_VIEWPORT_DIMS',
+  'MAX_SAMPLES',
+  'MAX_DRAW_BUFFERS',
+  'MAX_COLOR_ATTACHMENTS',
+  'MAX_TEXTURE_IMAGE_UNITS',
+  'MAX_VERTEX_TEXTURE_IMAGE_UNITS',
+  'MAX_COMBINED_TEXTURE_IMAGE_UNITS',
+  'MAX_TEXTURE_LOD_BIAS',
+  'MIN_PROGRAM_TEXEL_OFFSET',
+  'MAX_PROGRAM_TEXEL_OFFSET',
+  'MAX_VERTEX_ATTRIBS',
+  'MAX_VERTEX_UNIFORM_VECTORS',
+  'MAX_VERTEX_UNIFORM_COMPONENTS',
+  'MAX_VERTEX_UNIFORM_BLOCKS',
+  'MAX_VERTEX_OUTPUT_COMPONENTS',
+  'MAX_VARYING_VECTORS',
+  'MAX_VARYING_COMPONENTS',
+  'MAX_FRAGMENT_INPUT_COMPONENTS',
+  'MAX_FRAGMENT_UNIFORM_VECTORS',
+  'MAX_FRAGMENT_UNIFORM_COMPONENTS',
+  'MAX_FRAGMENT_UNIFORM_BLOCKS',
+  'MAX_COMBINED_UNIFORM_BLOCKS',
+  'MAX_COMBINED_VERTEX_UNIFORM_COMPONENTS',
+  'MAX_COMBINED_FRAGMENT_UNIFORM_COMPONENTS',
+  'MAX_UNIFORM_BUFFER_BINDINGS',
+  'MAX_UNIFORM_BLOCK_SIZE',
+  'UNIFORM_BUFFER_OFFSET_ALIGNMENT',
+  'MAX_TRANSFORM_FEEDBACK_INTERLEAVED_COMPONENTS',
+  'MAX_TRANSFORM_FEEDBACK_SEPARATE_ATTRIBS',
+  'MAX_TRANSFORM_FEEDBACK_SEPARATE_COMPONENTS',
+  'MAX_ELEMENTS_VERTICES',
+  'MAX_ELEMENTS_INDICES',
+  'MAX_ELEMENT_INDEX',
+  'MAX_SERVER_WAIT_TIMEOUT',
+  'ALIASED_POINT_SIZE_RANGE',
+  'ALIASED_LINE_WIDTH_RANGE',
+  'SUBPIXEL_BITS',
+] as const;
+
+const PRECISION_TYPES = ['LOW_FLOAT', 'MEDIUM_FLOAT', 'HIGH_FLOAT', 'LOW_INT', 'MEDIUM_INT', 'HIGH_INT'] as const;
+
+// A row with no value is a section heading
+interface TableRow {
+  label: string;
+  value?: string;
+}
+
+// Layout in CSS pixels, scaled by the device pixel ratio
+const FONT_SIZE = 13;
+const TITLE_SIZE = 20;
+const ROW_HEIGHT = 20;
+const PADDING = 24;
+const HEADER_HEIGHT = 72;
+const LABEL_INDENT = 8;
+const COLUMN_GAP = 24;
+// Scroll pixels per unit of ctx.zoomDelta: a 100px wheel notch scrolls 100px
+const WHEEL_SCROLL = 500;
+
+const TITLE_COLOR: TextColor = [0.85, 0.95, 1.0, 1.0];
+const SUBTITLE_COLOR: TextColor = [0.5, 0.6, 0.7, 1.0];
+const HEADING_COLOR: TextColor = [0.3, 0.8, 1.0, 1.0];
+const LABEL_COLOR: TextColor = [0.65, 0.7, 0.8, 1.0];
+const VALUE_COLOR: TextColor = [0.95, 0.95, 0.95, 1.0];
+const STRIPE_COLOR: TextColor = [1.0, 1.0, 1.0, 0.03];
+const HEADING_RULE_COLOR: TextColor = [0.3, 0.8, 1.0, 0.35];
+const SCROLLBAR_COLOR: TextColor = [1.0, 1.0, 1.0, 0.25];
+
+function formatValue(value: unknown, separator: string): string {
+  if (value === null || value === undefined) return 'n/a';
+  if (ArrayBuffer.isView(value)) return Array.from(value as Int32Array).join(separator);
+  return String(value);
+}
+
 class CapabilitiesDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private program: WebGLProgram | null = null;
   private vao: WebGLVertexArrayObject | null = null;
   private buffer: WebGLBuffer | null = null;
   private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private vertexSource = vertexShader;
+  private fragmentSource = fragmentShader;
+  private text: TextRenderer | null = null;
   private stats: StatsTracker;
   private isPaused = false;
 
-  private maxTextureSize = 0;
-  private maxViewportDim = 0;
-  private maxVertexAttribs = 0;
-  private maxTextureUnits = 0;
-  private maxDrawBuffers = 0;
-  private extensionCount = 0;
+  private renderer = '';
+  private rows: TableRow[] = [];
+  private labelWidth = 0;   // CSS pixels, widest label at FONT_SIZE
+  private scroll = 0;       // CSS pixels
 
   constructor(gl: WebGL2RenderingContext) {
     this.gl = gl;
@@ -149,44 +170,63 @@ class CapabilitiesDemo implements DemoInstance {
 
   private gatherCapabilities(): void {
     const gl = this.gl;
+    const rows: TableRow[] = [];
+
+    const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
+    this.renderer = String(
+      debugInfo ? gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL) : gl.getParameter(gl.RENDERER)
+    );
+    rows.push({ label: 'Context' });
+    rows.push({ label: 'VERSION', value: formatValue(gl.getParameter(gl.VERSION), ', ') });
+    rows.push({ label: 'SHADING_LANGUAGE_VERSION', value: formatValue(gl.getParameter(gl.SHADING_LANGUAGE_VERSION), ', ') });
+    rows.push({ label: 'VENDOR', value: formatValue(gl.getParameter(gl.VENDOR), ', ') });
+    rows.push({ label: 'RENDERER', value: formatValue(gl.getParameter(gl.RENDERER), ', ') });
+    if (debugInfo) {
+      rows.push({ label: 'UNMASKED_VENDOR_WEBGL', value: formatValue(gl.getParameter(debugInfo.UNMASKED_VENDOR_WEBGL), ', ') });
+      rows.push({ label: 'UNMASKED_RENDERER_WEBGL', value: this.renderer });
+    }
+
+    rows.push({ label: 'Limits' });
+    for (const name of LIMITS) {
+      const value = gl.getParameter(gl[name]);
+      rows.push({ label: name, value: formatValue(value, name === 'MAX_VIEWPORT_DIMS' ? ' x ' : ' - ') });
+    }
+    const anisotropic = gl.getExtension('EXT_texture_filter_anisotropic');
+    if (anisotropic) {
+      rows.push({
+        label: 'MAX_TEXTURE_MAX_ANISOTROPY_EXT',
+        value: formatValue(gl.getParameter(anisotropic.MAX_TEXTURE_MAX_ANISOTROPY_EXT), ', '),
+      });
+    }
+
+    // Ranges are log2 of the magnitudes; precision is in bits, 0 for integers
+    rows.push({ label: 'Shader Precision' });
+    for (const [stage, shaderType] of [['VERTEX', gl.VERTEX_SHADER], ['FRAGMENT', gl.FRAGMENT_SHADER]] as const) {
+      for (const type of PRECISION_TYPES) {
+        const format = gl.getShaderPrecisionFormat(shaderType, gl[type]);
+        const value = format
+          ? `[-2^${format.rangeMin}, 2^${format.rangeMax}]` + (format.precision > 0 ? `, ${format.precision} bits` : '')
+          : 'n/a';
+        rows.push({ label: `${stage} ${type}`, value });
+      }
+    }
+
+    const extensions = [...(gl.getSupportedExtensions() || [])].sort();
+    rows.push({ label: `Extensions (${extensions.length})` });
+    for (const extension of extensions) {
+      rows.push({ label: extension, value: 'yes' });
+    }
 
-    this.maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE);
-    const viewportDims = gl.getParameter(gl.MAX_VIEWPORT_DIMS);
-    this.maxViewportDim = Math.max(viewportDims[0], viewportDims[1]);
-    this.maxVertexAttribs = gl.getParameter(gl.MAX_VERTEX_ATTRIBS);
-    this.maxTextureUnits = gl.getParameter(gl.MAX_TEXTURE_IMAGE_UNITS);
-    this.maxDrawBuffers = gl.getParameter(gl.MAX_DRAW_BUFFERS);
-
-    const extensions = gl.getSupportedExtensions() || [];
-    this.extensionCount = extensions.length;
-
-    // Log detailed info to console
-    console.log('=== WebGL2 Capabilities ===');
-    console.log(`Vendor: ${gl.getParameter(gl.VENDOR)}`);
-    console.log(`Renderer: ${gl.getParameter(gl.RENDERER)}`);
-    console.log(`Version: ${gl.getParameter(gl.VERSION)}`);
-    console.log(`GLSL: ${gl.getParameter(gl.SHADING_LANGUAGE_VERSION)}`);
-    console.log(`Max Texture Size: ${this.maxTextureSize}`);
-    console.log(`Max Viewport: ${viewportDims[0]} x ${viewportDims[1]}`);
-    console.log(`Max Vertex Attribs: ${this.maxVertexAttribs}`);
-    console.log(`Max Texture Units: ${this.maxTextureUnits}`);
-    console.log(`Max Draw Buffers: ${this.maxDrawBuffers}`);
-    console.log(`Max 3D Texture Size: ${gl.getParameter(gl.MAX_3D_TEXTURE_SIZE)}`);
-    console.log(`Max Array Layers: ${gl.getParameter(gl.MAX_ARRAY_TEXTURE_LAYERS)}`);
-    console.log(`Extensions (${this.extensionCount}):`, extensions);
+    this.rows = rows;
   }
 
   async init(): Promise<void> {
     const gl = this.gl;
 
-    this.program = createProgram(gl, vertexShader, fragmentShader);
+    this.program = createProgram(gl, vertexShader, fragmentShader, { name: 'main' });
     if (!this.program) throw new Error('Failed to create capabilities shader');
 
-    this.uniforms = getUniformLocations(gl, this.program, [
-      'u_time', 'u_resolution',
-      'u_maxTextureSize', 'u_maxViewportDim', 'u_maxVertexAttribs',
-      'u_maxTextureUnits', 'u_maxDrawBuffers', 'u_extensionCount',
-    ]);
+    this.uniforms = getUniformLocations(gl, this.program, uniformNames);
 
     const positions = new Float32Array([-1, -1, 3, -1, -1, 3]);
 
@@ -201,6 +241,10 @@ class CapabilitiesDemo implements DemoInstance {
     gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 0, 0);
 
     gl.bindVertexArray(null);
+
+    this.text = new TextRenderer(gl);
+    const text = this.text;
+    this.labelWidth = Math.max(...this.rows.map((row) => (row.value ? text.measure(row.label, FONT_SIZE) : 0)));
   }
 
   destroy(): void {
@@ -208,39 +252,95 @@ class CapabilitiesDemo implements DemoInstance {
     if (this.program) gl.deleteProgram(this.program);
     if (this.vao) gl.deleteVertexArray(this.vao);
     if (this.buffer) gl.deleteBuffer(this.buffer);
+    this.text?.destroy();
     this.stats.destroy();
   }
 
   render(ctx: DemoContext): void {
-    if (this.isPaused || !this.program || !this.vao) return;
+    if (this.isPaused || !this.program || !this.vao || !this.text) return;
 
     const gl = this.gl;
+    const text = this.text;
+    const dpr = ctx.dpr;
     this.stats.beginFrame();
 
+    // Background
     gl.viewport(0, 0, ctx.width, ctx.height);
     gl.useProgram(this.program);
     gl.bindVertexArray(this.vao);
 
     gl.uniform1f(this.uniforms.u_time, ctx.time);
     gl.uniform2f(this.uniforms.u_resolution, ctx.width, ctx.height);
-    gl.uniform1f(this.uniforms.u_maxTextureSize, this.maxTextureSize);
-    gl.uniform1f(this.uniforms.u_maxViewportDim, this.maxViewportDim);
-    gl.uniform1f(this.uniforms.u_maxVertexAttribs, this.maxVertexAttribs);
-    gl.uniform1f(this.uniforms.u_maxTextureUnits, this.maxTextureUnits);
-    gl.uniform1f(this.uniforms.u_maxDrawBuffers, this.maxDrawBuffers);
-    gl.uniform1f(this.uniforms.u_extensionCount, this.extensionCount);
+    gl.uniform1f(this.uniforms.u_headerHeight, HEADER_HEIGHT * dpr);
 
     gl.drawArrays(gl.TRIANGLES, 0, 3);
     this.stats.recordDrawCall(1);
-
     gl.bindVertexArray(null);
+
+    // Drag or wheel to scroll; drag is a fraction of the canvas, upward positive
+    const viewHeight = ctx.height / dpr - HEADER_HEIGHT - PADDING;
+    const maxScroll = Math.max(0, this.rows.length * ROW_HEIGHT - viewHeight);
+    this.scroll -= ctx.zoomDelta * WHEEL_SCROLL;
+    this.scroll += ctx.dragY * (ctx.height / dpr);
+    this.scroll = Math.min(maxScroll, Math.max(0, this.scroll));
+
+    // Table, clipped below the header
+    const fontSize = FONT_SIZE * dpr;
+    const rowHeight = ROW_HEIGHT * dpr;
+    const left = PADDING * dpr;
+    const right = ctx.width - PADDING * dpr;
+    const top = HEADER_HEIGHT * dpr;
+    const labelX = left + LABEL_INDENT * dpr;
+    const valueX = labelX + (this.labelWidth + COLUMN_GAP) * dpr;
+    const textOffset = (rowHeight - text.getLineHeight(fontSize)) / 2;
+
+    const first = Math.floor(this.scroll / ROW_HEIGHT);
+    const last = Math.min(this.rows.length, first + Math.ceil(viewHeight / ROW_HEIGHT) + 1);
+    for (let i = first; i < last; i++) {
+      const row = this.rows[i];
+      const y = top + i * rowHeight - this.scroll * dpr;
+      if (row.value === undefined) {
+        text.addRect(left, y + rowHeight - dpr, right - left, dpr, HEADING_RULE_COLOR);
+        text.addText(row.label, left, y + textOffset, fontSize, HEADING_COLOR);
+        continue;
+      }
+      if (i % 2 === 0) text.addRect(left, y, right - left, rowHeight, STRIPE_COLOR);
+      text.addText(row.label, labelX, y + textOffset, fontSize, LABEL_COLOR);
+      text.addText(row.value, valueX, y + textOffset, fontSize, VALUE_COLOR);
+    }
+
+    if (maxScroll > 0) {
+      const trackHeight = viewHeight * dpr;
+      const thumbHeight = Math.max(24 * dpr, trackHeight * (viewHeight / (viewHeight + maxScroll)));
+      const thumbY = top + (trackHeight - thumbHeight) * (this.scroll / maxScroll);
+      text.addRect(right + 8 * dpr, thumbY, 4 * dpr, thumbHeight, SCROLLBAR_COLOR);
+    }
+
+    gl.enable(gl.SCISSOR_TEST);
+    gl.scissor(0, PADDING * dpr, ctx.width, Math.max(0, viewHeight * dpr));
+    this.recordText(text.flush(ctx.width, ctx.height));
+    gl.disable(gl.SCISSOR_TEST);
+
+    // Header
+    text.addText('WebGL2 Capabilities', left, 16 * dpr, TITLE_SIZE * dpr, TITLE_COLOR);
+    text.addText(this.renderer, left, 44 * dpr, fontSize, SUBTITLE_COLOR);
+    this.recordText(text.flush(ctx.width, ctx.height));
+
     this.stats.endFrame();
   }
 
+  // Each flush is one instanced draw of two-triangle quads
+  private recordText(quads: number): void {
+    if (quads > 0) this.stats.recordDrawCall(2, quads);
+  }
+
   resize(): void {}
   pause(): void { this.isPaused = true; }
   resume(): void { this.isPaused = false; }
-  reset(): void {}
+
+  reset(): void {
+    this.scroll = 0;
+  }
 
   setParameter(_key: string, _value: number | boolean | string): void {}
 
@@ -249,6 +349,38 @@ class CapabilitiesDemo implements DemoInstance {
   }
 
   getStats(): DemoStats { return this.stats.getStats(); }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    if (!this.program) return [];
+    const programs: DemoShaderProgram[] = [{
+      name: 'main',
+      program: this.program,
+      vertexSource: this.vertexSource,
+      fragmentSource: this.fragmentSource,
+    }];
+    if (this.text) programs.push(this.text.getShaderProgram());
+    return programs;
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    switch (name) {
+      case 'main':
+        if (this.program) this.gl.deleteProgram(this.program);
+        this.program = program;
+        this.vertexSource = vertexSource;
+        this.fragmentSource = fragmentSource;
+        this.uniforms = getUniformLocations(this.gl, program, uniformNames);
+        break;
+      case 'text':
+        this.text?.replaceProgram(program, vertexSource, fragmentSource);
+        break;
+    }
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new CapabilitiesDemo(gl);
@@ -9,11 +9,11 @@
  * - Additive blending for glowing particles
  */
 
-import { mat4 } from 'gl-matrix';
 import { createProgram, getUniformLocations } from '../../core';
 import { StatsTracker } from '../../core/stats';
-import { getScaledParticleCount } from '../../core/qualityPresets';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory, QualityLevel } from '../../core/types';
+import { CameraController, type CameraMode } from '../../core/camera';
+import { scaleCount } from '../../core/qualityPresets';
+import type { DemoInstance, DemoContext, DemoStats, DemoFactory, DemoShaderProgram, DemoCamera, ShaderSource } from '../../core/types';
 
 const BASE_PARTICLE_COUNT = 50000;
 
@@ -160,12 +160,24 @@ void main() {
 }
 `;
 
+// Transform feedback outputs of the update program, in buffer order
+const PARTICLE_VARYINGS = ['v_position', 'v_velocity', 'v_life'];
+
+const updateUniformNames = [
+  'u_deltaTime', 'u_time', 'u_attractor1', 'u_attractor2', 'u_attractor3', 'u_turbulence',
+];
+const renderUniformNames = [
+  'u_projection', 'u_view', 'u_time', 'u_pointSize',
+];
+
 class GPUParticlesDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private updateProgram: WebGLProgram | null = null;
   private renderProgram: WebGLProgram | null = null;
   private updateUniforms: Record<string, WebGLUniformLocation | null> = {};
   private renderUniforms: Record<string, WebGLUniformLocation | null> = {};
+  private updateSource: ShaderSource = { vertex: updateVertexShader, fragment: updateFragmentShader };
+  private renderSource: ShaderSource = { vertex: renderVertexShader, fragment: renderFragmentShader };
   private buffers: WebGLBuffer[] = [];
   private updateVaos: WebGLVertexArrayObject[] = [];
   private renderVaos: WebGLVertexArrayObject[] = [];
@@ -173,11 +185,13 @@ class GPUParticlesDemo implements DemoInstance {
   private stats: StatsTracker;
   private isPaused = false;
 
-  private projectionMatrix = mat4.create();
-  private viewMatrix = mat4.create();
+  private camera = new CameraController({
+    autoOrbit: { radius: 25, speed: 0.2, bob: 10, bobSpeed: 0.1 },
+    far: 200,
+  });
   private currentBuffer = 0;
   private particleCount = BASE_PARTICLE_COUNT;
-  private currentQuality: QualityLevel = 'high';
+  private currentMultiplier = 1;
 
   // Parameters
   private turbulence = 2.0;
@@ -196,18 +210,14 @@ class GPUParticlesDemo implements DemoInstance {
       gl,
       updateVertexShader,
       updateFragmentShader,
-      ['v_position', 'v_velocity', 'v_life']
+      { name: 'update', transformFeedbackVaryings: PARTICLE_VARYINGS }
     );
 
-    this.renderProgram = createProgram(gl, renderVertexShader, renderFragmentShader);
+    this.renderProgram = createProgram(gl, renderVertexShader, renderFragmentShader, { name: 'render' });
 
-    this.updateUniforms = getUniformLocations(gl, this.updateProgram, [
-      'u_deltaTime', 'u_time', 'u_attractor1', 'u_attractor2', 'u_attractor3', 'u_turbulence'
-    ]);
+    this.updateUniforms = getUniformLocations(gl, this.updateProgram, updateUniformNames);
 
-    this.renderUniforms = getUniformLocations(gl, this.renderProgram, [
-      'u_projection', 'u_view', 'u_time', 'u_pointSize'
-    ]);
+    this.renderUniforms = getUniformLocations(gl, this.renderProgram, renderUniformNames);
 
     this.transformFeedback = gl.createTransformFeedback()!;
 
@@ -312,9 +322,9 @@ class GPUParticlesDemo implements DemoInstance {
     const gl = this.gl;
 
     // Check quality change
-    if (ctx.quality !== this.currentQuality) {
-      this.currentQuality = ctx.quality;
-      this.particleCount = getScaledParticleCount(BASE_PARTICLE_COUNT, ctx.quality);
+    if (ctx.qualityScale.particleMultiplier !== this.currentMultiplier) {
+      this.currentMultiplier = ctx.qualityScale.particleMultiplier;
+      this.particleCount = scaleCount(BASE_PARTICLE_COUNT, this.currentMultiplier);
       this.createParticleSystem();
     }
 
@@ -346,6 +356,7 @@ class GPUParticlesDemo implements DemoInstance {
     ];
 
     // Update pass
+    this.stats.beginPass('update');
     gl.useProgram(this.updateProgram);
     gl.uniform1f(this.updateUniforms.u_deltaTime, dt);
     gl.uniform1f(this.updateUniforms.u_time, time);
@@ -370,19 +381,12 @@ class GPUParticlesDemo implements DemoInstance {
     gl.bindTransformFeedback(gl.TRANSFORM_FEEDBACK, null);
 
     // Render pass
+    this.stats.beginPass('render');
     gl.useProgram(this.renderProgram);
 
-    const aspect = ctx.width / ctx.height;
-    mat4.perspective(this.projectionMatrix, Math.PI / 4, aspect, 0.1, 200.0);
-
-    const camRadius = 25;
-    const camX = Math.sin(time * 0.2 * this.cameraSpeed) * camRadius;
-    const camZ = Math.cos(time * 0.2 * this.cameraSpeed) * camRadius;
-    const camY = Math.sin(time * 0.1 * this.cameraSpeed) * 10;
-    mat4.lookAt(this.viewMatrix, [camX, camY, camZ], [0, 0, 0], [0, 1, 0]);
-
-    gl.uniformMatrix4fv(this.renderUniforms.u_projection, false, this.projectionMatrix);
-    gl.uniformMatrix4fv(this.renderUniforms.u_view, false, this.viewMatrix);
+    this.camera.update(ctx, time * this.cameraSpeed);
+    gl.uniformMatrix4fv(this.renderUniforms.u_projection, false, this.camera.projection);
+    gl.uniformMatrix4fv(this.renderUniforms.u_view, false, this.camera.view);
     gl.uniform1f(this.renderUniforms.u_time, time);
     gl.uniform1f(this.renderUniforms.u_pointSize, this.pointSize);
 
@@ -393,6 +397,7 @@ class GPUParticlesDemo implements DemoInstance {
     gl.drawArrays(gl.POINTS, 0, this.particleCount);
     this.stats.recordDrawCall(this.particleCount);
     this.stats.recordParticles(this.particleCount);
+    this.stats.endPass();
 
     gl.bindVertexArray(null);
     gl.disable(gl.BLEND);
@@ -416,6 +421,7 @@ class GPUParticlesDemo implements DemoInstance {
     this.turbulence = 2.0;
     this.cameraSpeed = 1.0;
     this.pointSize = 5.0;
+    this.camera.reset();
     this.createParticleSystem();
   }
 
@@ -427,6 +433,9 @@ class GPUParticlesDemo implements DemoInstance {
       case 'cameraSpeed':
         this.cameraSpeed = value as number;
         break;
+      case 'cameraMode':
+        this.camera.setMode(value as CameraMode);
+        break;
       case 'pointSize':
         this.pointSize = value as number;
         break;
@@ -438,6 +447,7 @@ class GPUParticlesDemo implements DemoInstance {
       turbulence: this.turbulence,
       cameraSpeed: this.cameraSpeed,
       pointSize: this.pointSize,
+      cameraMode: this.camera.getMode(),
     };
   }
 
@@ -448,6 +458,56 @@ class GPUParticlesDemo implements DemoInstance {
       particles: this.particleCount,
     };
   }
+
+  getCamera(): DemoCamera {
+    return this.camera;
+  }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    const programs: DemoShaderProgram[] = [];
+    if (this.updateProgram) {
+      programs.push({
+        name: 'update',
+        program: this.updateProgram,
+        vertexSource: this.updateSource.vertex,
+        fragmentSource: this.updateSource.fragment,
+        transformFeedbackVaryings: PARTICLE_VARYINGS,
+      });
+    }
+    if (this.renderProgram) {
+      programs.push({
+        name: 'render',
+        program: this.renderProgram,
+        vertexSource: this.renderSource.vertex,
+        fragmentSource: this.renderSource.fragment,
+      });
+    }
+    return programs;
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    const gl = this.gl;
+    const source: ShaderSource = { vertex: vertexSource, fragment: fragmentSource };
+    switch (name) {
+      case 'update':
+        if (this.updateProgram) gl.deleteProgram(this.updateProgram);
+        this.updateProgram = program;
+        this.updateSource = source;
+        this.updateUniforms = getUniformLocations(gl, program, updateUniformNames);
+        break;
+      case 'render':
+        if (this.renderProgram) gl.deleteProgram(this.renderProgram);
+        this.renderProgram = program;
+        this.renderSource = source;
+        this.renderUniforms = getUniformLocations(gl, program, renderUniformNames);
+        break;
+    }
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new GPUParticlesDemo(gl);
@@ -9,11 +9,11 @@
  * - Smooth wave-like motion patterns
  */
 
-import { mat4 } from 'gl-matrix';
 import { createProgram, createVao, createBuffer, getUniformLocations } from '../../core';
 import { StatsTracker } from '../../core/stats';
-import { getScaledInstanceCount } from '../../core/qualityPresets';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory, QualityLevel } from '../../core/types';
+import { CameraController, type CameraMode } from '../../core/camera';
+import { scaleCount } from '../../core/qualityPresets';
+import type { DemoInstance, DemoContext, DemoStats, DemoFactory, DemoShaderProgram, DemoCamera } from '../../core/types';
 
 // Vertex shader with per-instance attributes
 const vertexShader = `#version 300 es
@@ -105,20 +105,31 @@ void main() {
 const BASE_INSTANCE_COUNT = 5000;
 const GRID_SIZE = 70;
 
+const uniformNames = [
+  'u_projection',
+  'u_view',
+  'u_time',
+  'u_speed',
+];
+
 class InstancedDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private program: WebGLProgram | null = null;
   private vao: WebGLVertexArrayObject | null = null;
   private buffers: WebGLBuffer[] = [];
   private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private vertexSource = vertexShader;
+  private fragmentSource = fragmentShader;
   private stats: StatsTracker;
   private isPaused = false;
 
-  private projectionMatrix = mat4.create();
-  private viewMatrix = mat4.create();
+  private camera = new CameraController({
+    autoOrbit: { radius: 80, speed: 0.2, bob: 20, bobSpeed: 0.15 },
+    far: 200,
+  });
 
   private instanceCount = BASE_INSTANCE_COUNT;
-  private currentQuality: QualityLevel = 'high';
+  private currentMultiplier = 1;
 
   // Parameters
   private speed = 1.0;
@@ -132,14 +143,9 @@ class InstancedDemo implements DemoInstance {
   init(): void {
     const gl = this.gl;
 
-    this.program = createProgram(gl, vertexShader, fragmentShader);
+    this.program = createProgram(gl, vertexShader, fragmentShader, { name: 'main' });
 
-    this.uniforms = getUniformLocations(gl, this.program, [
-      'u_projection',
-      'u_view',
-      'u_time',
-      'u_speed',
-    ]);
+    this.uniforms = getUniformLocations(gl, this.program, uniformNames);
 
     this.createGeometry();
   }
@@ -259,9 +265,9 @@ class InstancedDemo implements DemoInstance {
     const gl = this.gl;
 
     // Check if quality changed
-    if (ctx.quality !== this.currentQuality) {
-      this.currentQuality = ctx.quality;
-      this.instanceCount = getScaledInstanceCount(BASE_INSTANCE_COUNT, ctx.quality);
+    if (ctx.qualityScale.instanceMultiplier !== this.currentMultiplier) {
+      this.currentMultiplier = ctx.qualityScale.instanceMultiplier;
+      this.instanceCount = scaleCount(BASE_INSTANCE_COUNT, this.currentMultiplier);
       this.createGeometry();
     }
 
@@ -272,16 +278,8 @@ class InstancedDemo implements DemoInstance {
     gl.clearColor(0.02, 0.02, 0.05, 1.0);
     gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
 
-    const aspect = ctx.width / ctx.height;
-    mat4.perspective(this.projectionMatrix, Math.PI / 4, aspect, 0.1, 200.0);
-
     const time = ctx.reduceMotion ? ctx.time * 0.3 : ctx.time;
-    const camRadius = 80;
-    const camX = Math.sin(time * 0.2 * this.cameraSpeed) * camRadius;
-    const camZ = Math.cos(time * 0.2 * this.cameraSpeed) * camRadius;
-    const camY = Math.sin(time * 0.15 * this.cameraSpeed) * 20;
-
-    mat4.lookAt(this.viewMatrix, [camX, camY, camZ], [0, 0, 0], [0, 1, 0]);
+    this.camera.update(ctx, time * this.cameraSpeed);
 
     gl.enable(gl.BLEND);
     gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
@@ -291,8 +289,8 @@ class InstancedDemo implements DemoInstance {
     gl.useProgram(this.program);
     gl.bindVertexArray(this.vao);
 
-    gl.uniformMatrix4fv(this.uniforms.u_projection, false, this.projectionMatrix);
-    gl.uniformMatrix4fv(this.uniforms.u_view, false, this.viewMatrix);
+    gl.uniformMatrix4fv(this.uniforms.u_projection, false, this.camera.projection);
+    gl.uniformMatrix4fv(this.uniforms.u_view, false, this.camera.view);
     gl.uniform1f(this.uniforms.u_time, time);
     gl.uniform1f(this.uniforms.u_speed, this.speed);
 
@@ -322,6 +320,7 @@ class InstancedDemo implements DemoInstance {
   reset(): void {
     this.speed = 1.0;
     this.cameraSpeed = 1.0;
+    this.camera.reset();
   }
 
   setParameter(key: string, value: number | boolean | string): void {
@@ -332,6 +331,9 @@ class InstancedDemo implements DemoInstance {
       case 'cameraSpeed':
         this.cameraSpeed = value as number;
         break;
+      case 'cameraMode':
+        this.camera.setMode(value as CameraMode);
+        break;
     }
   }
 
@@ -339,6 +341,7 @@ class InstancedDemo implements DemoInstance {
     return {
       speed: this.speed,
       cameraSpeed: this.cameraSpeed,
+      cameraMode: this.camera.getMode(),
     };
   }
 
@@ -349,6 +352,34 @@ class InstancedDemo implements DemoInstance {
       instances: this.instanceCount,
     };
   }
+
+  getCamera(): DemoCamera {
+    return this.camera;
+  }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    if (!this.program) return [];
+    return [{
+      name: 'main',
+      program: this.program,
+      vertexSource: this.vertexSource,
+      fragmentSource: this.fragmentSource,
+    }];
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    if (name !== 'main') return;
+    if (this.program) this.gl.deleteProgram(this.program);
+    this.program = program;
+    this.vertexSource = vertexSource;
+    this.fragmentSource = fragmentSource;
+    this.uniforms = getUniformLocations(this.gl, program, uniformNames);
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new InstancedDemo(gl);
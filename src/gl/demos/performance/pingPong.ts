@@ -7,7 +7,7 @@
 
 import { createProgram, createVao, createBuffer, getUniformLocations } from '../../core';
 import { StatsTracker } from '../../core/stats';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory } from '../../core/types';
+import type { DemoInstance, DemoContext, DemoStats, DemoFactory, DemoShaderProgram, ShaderSource, DebugTarget } from '../../core/types';
 
 const quadVertexShader = `#version 300 es
 precision highp float;
@@ -131,6 +131,13 @@ interface FBO {
   texture: WebGLTexture;
 }
 
+const simUniformNames = [
+  'u_state', 'u_resolution', 'u_feed', 'u_kill', 'u_speed', 'u_isGameOfLife',
+];
+const renderUniformNames = [
+  'u_state', 'u_isGameOfLife',
+];
+
 class PingPongDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private simProgram: WebGLProgram | null = null;
@@ -142,6 +149,8 @@ class PingPongDemo implements DemoInstance {
   private currentFbo = 0;
   private simUniforms: Record<string, WebGLUniformLocation | null> = {};
   private renderUniforms: Record<string, WebGLUniformLocation | null> = {};
+  private simSource: ShaderSource = { vertex: quadVertexShader, fragment: simulationShader };
+  private renderSource: ShaderSource = { vertex: quadVertexShader, fragment: renderShader };
   private stats: StatsTracker;
   private isPaused = false;
 
@@ -164,20 +173,16 @@ class PingPongDemo implements DemoInstance {
     gl.getExtension('EXT_color_buffer_float');
     gl.getExtension('OES_texture_float_linear');
 
-    this.simProgram = createProgram(gl, quadVertexShader, simulationShader);
-    this.renderProgram = createProgram(gl, quadVertexShader, renderShader);
+    this.simProgram = createProgram(gl, quadVertexShader, simulationShader, { name: 'simulation' });
+    this.renderProgram = createProgram(gl, quadVertexShader, renderShader, { name: 'render' });
 
     if (!this.simProgram || !this.renderProgram) {
       throw new Error('Failed to create ping-pong shaders');
     }
 
-    this.simUniforms = getUniformLocations(gl, this.simProgram, [
-      'u_state', 'u_resolution', 'u_feed', 'u_kill', 'u_speed', 'u_isGameOfLife',
-    ]);
+    this.simUniforms = getUniformLocations(gl, this.simProgram, simUniformNames);
 
-    this.renderUniforms = getUniformLocations(gl, this.renderProgram, [
-      'u_state', 'u_isGameOfLife',
-    ]);
+    this.renderUniforms = getUniformLocations(gl, this.renderProgram, renderUniformNames);
 
     const positions = new Float32Array([-1, -1, 3, -1, -1, 3]);
 
@@ -297,6 +302,7 @@ class PingPongDemo implements DemoInstance {
     const iterations = isGameOfLife ? 1 : 4;
 
     // Simulation passes
+    this.stats.beginPass('simulation');
     gl.useProgram(this.simProgram);
     gl.bindVertexArray(this.vao);
 
@@ -321,7 +327,8 @@ class PingPongDemo implements DemoInstance {
     }
 
     // Render to screen
-    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    this.stats.beginPass('render');
+    gl.bindFramebuffer(gl.FRAMEBUFFER, ctx.outputFramebuffer);
     gl.viewport(0, 0, ctx.width, ctx.height);
 
     gl.useProgram(this.renderProgram);
@@ -333,6 +340,7 @@ class PingPongDemo implements DemoInstance {
 
     gl.drawArrays(gl.TRIANGLES, 0, 3);
     this.stats.recordDrawCall(iterations + 1);
+    this.stats.endPass();
 
     gl.bindVertexArray(null);
     this.stats.endFrame();
@@ -368,6 +376,62 @@ class PingPongDemo implements DemoInstance {
   }
 
   getStats(): DemoStats { return this.stats.getStats(); }
+
+  getDebugTargets(): DebugTarget[] {
+    if (!this.fbo1 || !this.fbo2) return [];
+    // The buffer rendered last holds the current state
+    const [current, previous] = this.currentFbo === 0 ? [this.fbo1, this.fbo2] : [this.fbo2, this.fbo1];
+    const size = { width: this.simWidth, height: this.simHeight };
+    return [
+      { name: 'state', texture: current.texture, ...size },
+      { name: 'previous state', texture: previous.texture, ...size },
+    ];
+  }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    const programs: DemoShaderProgram[] = [];
+    if (this.simProgram) {
+      programs.push({
+        name: 'simulation',
+        program: this.simProgram,
+        vertexSource: this.simSource.vertex,
+        fragmentSource: this.simSource.fragment,
+      });
+    }
+    if (this.renderProgram) {
+      programs.push({
+        name: 'render',
+        program: this.renderProgram,
+        vertexSource: this.renderSource.vertex,
+        fragmentSource: this.renderSource.fragment,
+      });
+    }
+    return programs;
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    const gl = this.gl;
+    const source: ShaderSource = { vertex: vertexSource, fragment: fragmentSource };
+    switch (name) {
+      case 'simulation':
+        if (this.simProgram) gl.deleteProgram(this.simProgram);
+        this.simProgram = program;
+        this.simSource = source;
+        this.simUniforms = getUniformLocations(gl, program, simUniformNames);
+        break;
+      case 'render':
+        if (this.renderProgram) gl.deleteProgram(this.renderProgram);
+        this.renderProgram = program;
+        this.renderSource = source;
+        this.renderUniforms = getUniformLocations(gl, program, renderUniformNames);
+        break;
+    }
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new PingPongDemo(gl);
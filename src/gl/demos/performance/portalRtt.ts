@@ -9,6 +9,7 @@
  * - Multi-pass postprocessing pipeline
  * - Bloom effect with gaussian blur
  * - Color grading / chromatic aberration
+ * - Optional environment map as backdrop and reflections
  */
 
 import { mat4 } from 'gl-matrix';
@@ -18,10 +19,14 @@ import {
   getUniformLocations,
   createFramebufferWithTexture,
   resizeFramebuffer,
+  deleteFramebuffer,
+  getFramebufferDebugTarget,
 } from '../../core';
 import { StatsTracker } from '../../core/stats';
+import { CameraController, type CameraMode } from '../../core/camera';
 import { isPostprocessEnabled } from '../../core/qualityPresets';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory, FramebufferInfo } from '../../core/types';
+import { EnvironmentMap, Skybox, ENVIRONMENT_GLSL, ENVIRONMENT_UNIFORMS } from '../../core/environment';
+import type { DemoInstance, DemoContext, DemoStats, DemoFactory, DemoShaderProgram, DemoCamera, ShaderSource, FramebufferInfo, DebugTarget, Panorama } from '../../core/types';
 
 // Scene shaders
 const sceneVertexShader = `#version 300 es
@@ -62,6 +67,9 @@ in vec3 v_worldPos;
 
 uniform float u_time;
 uniform vec3 u_lightPos;
+uniform vec3 u_viewPos;
+
+${ENVIRONMENT_GLSL}
 
 out vec4 fragColor;
 
@@ -86,6 +94,13 @@ void main() {
   float emissive = smoothstep(0.7, 1.0, length(v_color)) * 0.5;
   color += v_color * emissive;
 
+  // Environment reflection, stronger at grazing angles
+  if (u_useEnvironment) {
+    vec3 toEye = normalize(u_viewPos - v_worldPos);
+    float fresnel = mix(0.08, 1.0, pow(1.0 - max(dot(normal, toEye), 0.0), 5.0));
+    color += fresnel * sampleEnvironment(reflect(-toEye, normal), 0.2);
+  }
+
   fragColor = vec4(color, 1.0);
 }
 `;
@@ -246,12 +261,21 @@ function createTorusGeometry(majorRadius: number, minorRadius: number, majorSegm
   return { positions: new Float32Array(positions), normals: new Float32Array(normals), colors: new Float32Array(colors) };
 }
 
+const sceneUniformNames = [
+  'u_model', 'u_view', 'u_projection', 'u_time', 'u_lightPos', 'u_viewPos', ...ENVIRONMENT_UNIFORMS,
+];
+const postUniformNames = [
+  'u_texture', 'u_resolution', 'u_time', 'u_bloomIntensity', 'u_aberration', 'u_saturation', 'u_enableBloom',
+];
+
 class PortalRTTDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private sceneProgram: WebGLProgram | null = null;
   private postProgram: WebGLProgram | null = null;
   private sceneUniforms: Record<string, WebGLUniformLocation | null> = {};
   private postUniforms: Record<string, WebGLUniformLocation | null> = {};
+  private sceneSource: ShaderSource = { vertex: sceneVertexShader, fragment: sceneFragmentShader };
+  private postSource: ShaderSource = { vertex: postVertexShader, fragment: postFragmentShader };
   private icosahedronMesh: { vao: WebGLVertexArrayObject; vertexCount: number; buffers: WebGLBuffer[] } | null = null;
   private torusMesh: { vao: WebGLVertexArrayObject; vertexCount: number; buffers: WebGLBuffer[] } | null = null;
   private quadVao: WebGLVertexArrayObject | null = null;
@@ -259,17 +283,22 @@ class PortalRTTDemo implements DemoInstance {
   private fbo: FramebufferInfo | null = null;
   private fboSize = 512;
   private stats: StatsTracker;
+  private environmentMap: EnvironmentMap | null = null;
+  private skybox: Skybox | null = null;
   private isPaused = false;
 
   private modelMatrix = mat4.create();
-  private viewMatrix = mat4.create();
-  private projectionMatrix = mat4.create();
+  private camera = new CameraController({
+    autoOrbit: { radius: 4, speed: 0.5, bob: 1.5, bobSpeed: 0.3 },
+    fov: Math.PI / 3,
+  });
 
   // Parameters
   private bloomIntensity = 0.4;
   private aberration = 0.002;
   private saturation = 1.3;
   private cameraSpeed = 1.0;
+  private environment = 'none';
 
   constructor(gl: WebGL2RenderingContext) {
     this.gl = gl;
@@ -279,15 +308,11 @@ class PortalRTTDemo implements DemoInstance {
   init(): void {
     const gl = this.gl;
 
-    this.sceneProgram = createProgram(gl, sceneVertexShader, sceneFragmentShader);
-    this.postProgram = createProgram(gl, postVertexShader, postFragmentShader);
+    this.sceneProgram = createProgram(gl, sceneVertexShader, sceneFragmentShader, { name: 'scene' });
+    this.postProgram = createProgram(gl, postVertexShader, postFragmentShader, { name: 'post' });
 
-    this.sceneUniforms = getUniformLocations(gl, this.sceneProgram, [
-      'u_model', 'u_view', 'u_projection', 'u_time', 'u_lightPos'
-    ]);
-    this.postUniforms = getUniformLocations(gl, this.postProgram, [
-      'u_texture', 'u_resolution', 'u_time', 'u_bloomIntensity', 'u_aberration', 'u_saturation', 'u_enableBloom'
-    ]);
+    this.sceneUniforms = getUniformLocations(gl, this.sceneProgram, sceneUniformNames);
+    this.postUniforms = getUniformLocations(gl, this.postProgram, postUniformNames);
 
     // Create meshes
     const icosahedron = createIcosahedronGeometry();
@@ -313,6 +338,9 @@ class PortalRTTDemo implements DemoInstance {
     gl.bindVertexArray(null);
 
     this.fbo = createFramebufferWithTexture(gl, this.fboSize, this.fboSize, true);
+
+    this.environmentMap = new EnvironmentMap(gl);
+    this.skybox = new Skybox(gl);
   }
 
   private createMeshVao(positions: Float32Array, normals: Float32Array, colors: Float32Array) {
@@ -356,10 +384,9 @@ class PortalRTTDemo implements DemoInstance {
     }
     if (this.quadVao) gl.deleteVertexArray(this.quadVao);
     if (this.quadBuffer) gl.deleteBuffer(this.quadBuffer);
-    if (this.fbo) {
-      gl.deleteFramebuffer(this.fbo.framebuffer);
-      gl.deleteTexture(this.fbo.texture);
-    }
+    if (this.fbo) deleteFramebuffer(gl, this.fbo);
+    this.environmentMap?.destroy();
+    this.skybox?.destroy();
     this.stats.destroy();
   }
 
@@ -373,12 +400,16 @@ class PortalRTTDemo implements DemoInstance {
     const enableBloom = isPostprocessEnabled(ctx.quality);
 
     // Pass 1: Render scene to FBO
+    this.stats.beginPass('scene');
     gl.bindFramebuffer(gl.FRAMEBUFFER, this.fbo.framebuffer);
     gl.viewport(0, 0, this.fbo.width, this.fbo.height);
+    // The framebuffer is square
+    this.camera.update(ctx, time * this.cameraSpeed, 1.0);
     this.renderScene(time);
 
     // Pass 2: Postprocess to screen
-    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    this.stats.beginPass('post');
+    gl.bindFramebuffer(gl.FRAMEBUFFER, ctx.outputFramebuffer);
     gl.viewport(0, 0, ctx.width, ctx.height);
     gl.disable(gl.DEPTH_TEST);
 
@@ -397,6 +428,7 @@ class PortalRTTDemo implements DemoInstance {
 
     gl.drawArrays(gl.TRIANGLES, 0, 6);
     this.stats.recordDrawCall(2);
+    this.stats.endPass();
 
     gl.bindVertexArray(null);
     this.stats.endFrame();
@@ -408,19 +440,20 @@ class PortalRTTDemo implements DemoInstance {
     gl.clearColor(0.02, 0.02, 0.05, 1.0);
     gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
 
-    gl.useProgram(this.sceneProgram);
-
-    mat4.perspective(this.projectionMatrix, Math.PI / 3, 1.0, 0.1, 100.0);
+    // Linear, like the rest of the scene; the post pass tone maps it all
+    const cubemap = this.environmentMap?.get(this.environment) ?? null;
+    if (cubemap && this.skybox) {
+      this.skybox.draw(cubemap, this.camera.view, this.camera.projection, { gamma: false });
+      this.stats.recordDrawCall(1);
+    }
 
-    const camDist = 4;
-    const camX = Math.sin(time * 0.5 * this.cameraSpeed) * camDist;
-    const camZ = Math.cos(time * 0.5 * this.cameraSpeed) * camDist;
-    const camY = Math.sin(time * 0.3 * this.cameraSpeed) * 1.5;
-    mat4.lookAt(this.viewMatrix, [camX, camY, camZ], [0, 0, 0], [0, 1, 0]);
+    gl.useProgram(this.sceneProgram);
 
-    gl.uniformMatrix4fv(this.sceneUniforms.u_view, false, this.viewMatrix);
-    gl.uniformMatrix4fv(this.sceneUniforms.u_projection, false, this.projectionMatrix);
+    gl.uniformMatrix4fv(this.sceneUniforms.u_view, false, this.camera.view);
+    gl.uniformMatrix4fv(this.sceneUniforms.u_projection, false, this.camera.projection);
     gl.uniform1f(this.sceneUniforms.u_time, time);
+    gl.uniform3fv(this.sceneUniforms.u_viewPos, this.camera.position);
+    this.environmentMap?.apply(this.sceneUniforms, this.environment);
 
     const lightX = Math.sin(time * 1.5) * 3;
     const lightY = 2 + Math.cos(time * 0.7) * 1;
@@ -464,6 +497,8 @@ class PortalRTTDemo implements DemoInstance {
     this.aberration = 0.002;
     this.saturation = 1.3;
     this.cameraSpeed = 1.0;
+    this.environment = 'none';
+    this.camera.reset();
   }
 
   setParameter(key: string, value: number | boolean | string): void {
@@ -472,6 +507,8 @@ class PortalRTTDemo implements DemoInstance {
       case 'aberration': this.aberration = value as number; break;
       case 'saturation': this.saturation = value as number; break;
       case 'cameraSpeed': this.cameraSpeed = value as number; break;
+      case 'cameraMode': this.camera.setMode(value as CameraMode); break;
+      case 'environment': this.environment = value as string; break;
     }
   }
 
@@ -481,12 +518,71 @@ class PortalRTTDemo implements DemoInstance {
       aberration: this.aberration,
       saturation: this.saturation,
       cameraSpeed: this.cameraSpeed,
+      cameraMode: this.camera.getMode(),
+      environment: this.environment,
     };
   }
 
+  setPanorama(panorama: Panorama | null): void {
+    this.environmentMap?.setPanorama(panorama);
+  }
+
   getStats(): DemoStats {
     return this.stats.getStats();
   }
+
+  getCamera(): DemoCamera {
+    return this.camera;
+  }
+
+  getDebugTargets(): DebugTarget[] {
+    return this.fbo ? [getFramebufferDebugTarget('scene', this.fbo)] : [];
+  }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    const programs: DemoShaderProgram[] = [];
+    if (this.sceneProgram) {
+      programs.push({
+        name: 'scene',
+        program: this.sceneProgram,
+        vertexSource: this.sceneSource.vertex,
+        fragmentSource: this.sceneSource.fragment,
+      });
+    }
+    if (this.postProgram) {
+      programs.push({
+        name: 'post',
+        program: this.postProgram,
+        vertexSource: this.postSource.vertex,
+        fragmentSource: this.postSource.fragment,
+      });
+    }
+    return programs;
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    const gl = this.gl;
+    const source: ShaderSource = { vertex: vertexSource, fragment: fragmentSource };
+    switch (name) {
+      case 'scene':
+        if (this.sceneProgram) gl.deleteProgram(this.sceneProgram);
+        this.sceneProgram = program;
+        this.sceneSource = source;
+        this.sceneUniforms = getUniformLocations(gl, program, sceneUniformNames);
+        break;
+      case 'post':
+        if (this.postProgram) gl.deleteProgram(this.postProgram);
+        this.postProgram = program;
+        this.postSource = source;
+        this.postUniforms = getUniformLocations(gl, program, postUniformNames);
+        break;
+    }
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new PortalRTTDemo(gl);
@@ -7,11 +7,29 @@
  * - Separable gaussian blur (2 passes)
  * - Additive blending with original
  * - Render-to-texture pipeline
+ * The bright-pass, blur and combine shaders are the bloom pass's.
  */
 
-import { createProgram, createVao, createBuffer, getUniformLocations } from '../../core';
+import {
+  createProgram,
+  createVao,
+  createBuffer,
+  getUniformLocations,
+  createFramebufferWithTexture,
+  deleteFramebuffer,
+  getFramebufferDebugTarget,
+} from '../../core';
 import { StatsTracker } from '../../core/stats';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory } from '../../core/types';
+import { MediaTexture, MEDIA_SOURCE_GLSL, MEDIA_SOURCE_UNIFORMS } from '../../core/media';
+import {
+  BLOOM_BRIGHT_PASS_SHADER,
+  BLOOM_BLUR_SHADER,
+  BLOOM_COMBINE_SHADER,
+  BLOOM_BRIGHT_PASS_UNIFORMS,
+  BLOOM_BLUR_UNIFORMS,
+  BLOOM_COMBINE_UNIFORMS,
+} from '../../passes/bloom';
+import type { DemoInstance, DemoContext, DemoStats, DemoFactory, DemoShaderProgram, ShaderSource, FramebufferInfo, DebugTarget, MediaKind, UserMedia } from '../../core/types';
 
 // Vertex shader - fullscreen quad
 const quadVertexShader = `#version 300 es
@@ -36,8 +54,19 @@ out vec4 fragColor;
 uniform float u_time;
 uniform vec2 u_resolution;
 
+${MEDIA_SOURCE_GLSL}
+
 void main() {
   vec2 uv = v_uv;
+
+  // User media: linearize, then invert the combine pass's Reinhard so the
+  // image comes back unchanged and its highlights land in HDR to bloom
+  if (u_useSource) {
+    vec3 source = pow(sampleSource(uv), vec3(2.2));
+    fragColor = vec4(source / max(1.0 - source, 0.05), 1.0);
+    return;
+  }
+
   float aspect = u_resolution.x / u_resolution.y;
   vec2 p = (uv - 0.5) * vec2(aspect, 1.0);
 
@@ -77,118 +106,12 @@ void main() {
 }
 `;
 
-// Fragment shader - bright pass extraction
-const brightPassShader = `#version 300 es
-precision highp float;
-
-in vec2 v_uv;
-out vec4 fragColor;
-
-uniform sampler2D u_texture;
-uniform float u_threshold;
-
-void main() {
-  vec4 color = texture(u_texture, v_uv);
-
-  // Calculate luminance
-  float luminance = dot(color.rgb, vec3(0.2126, 0.7152, 0.0722));
-
-  // Extract bright areas
-  float brightness = max(luminance - u_threshold, 0.0);
-  vec3 bright = color.rgb * (brightness / (luminance + 0.0001));
-
-  fragColor = vec4(bright, 1.0);
-}
-`;
-
-// Fragment shader - gaussian blur
-const blurFragmentShader = `#version 300 es
-precision highp float;
-
-in vec2 v_uv;
-out vec4 fragColor;
-
-uniform sampler2D u_texture;
-uniform vec2 u_direction;
-uniform vec2 u_resolution;
-uniform float u_radius;
-
-void main() {
-  vec2 texelSize = 1.0 / u_resolution;
-  vec3 result = vec3(0.0);
-
-  // 9-tap gaussian blur
-  float weights[5];
-  weights[0] = 0.227027;
-  weights[1] = 0.1945946;
-  weights[2] = 0.1216216;
-  weights[3] = 0.054054;
-  weights[4] = 0.016216;
-
-  result += texture(u_texture, v_uv).rgb * weights[0];
-
-  for (int i = 1; i < 5; i++) {
-    vec2 offset = u_direction * texelSize * float(i) * u_radius;
-    result += texture(u_texture, v_uv + offset).rgb * weights[i];
-    result += texture(u_texture, v_uv - offset).rgb * weights[i];
-  }
-
-  fragColor = vec4(result, 1.0);
-}
-`;
-
-// Fragment shader - combine
-const combineFragmentShader = `#version 300 es
-precision highp float;
-
-in vec2 v_uv;
-out vec4 fragColor;
-
-uniform sampler2D u_scene;
-uniform sampler2D u_bloom;
-uniform float u_intensity;
-
-void main() {
-  vec3 scene = texture(u_scene, v_uv).rgb;
-  vec3 bloom = texture(u_bloom, v_uv).rgb;
-
-  // Additive blending
-  vec3 color = scene + bloom * u_intensity;
-
-  // Tone mapping (simple Reinhard)
-  color = color / (color + vec3(1.0));
-
-  // Gamma correction
-  color = pow(color, vec3(1.0 / 2.2));
-
-  fragColor = vec4(color, 1.0);
-}
-`;
-
-interface Framebuffer {
-  framebuffer: WebGLFramebuffer;
-  texture: WebGLTexture;
-  width: number;
-  height: number;
+// HDR render target (needs EXT_color_buffer_float)
+function createFramebuffer(gl: WebGL2RenderingContext, width: number, height: number): FramebufferInfo {
+  return createFramebufferWithTexture(gl, width, height, false, gl.RGBA16F, gl.RGBA, gl.FLOAT);
 }
 
-function createFramebuffer(gl: WebGL2RenderingContext, width: number, height: number): Framebuffer {
-  const texture = gl.createTexture()!;
-  gl.bindTexture(gl.TEXTURE_2D, texture);
-  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA16F, width, height, 0, gl.RGBA, gl.FLOAT, null);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
-
-  const framebuffer = gl.createFramebuffer()!;
-  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
-  gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
-
-  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
-
-  return { framebuffer, texture, width, height };
-}
+const sceneUniformNames = ['u_time', 'u_resolution', ...MEDIA_SOURCE_UNIFORMS];
 
 class BloomDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
@@ -203,17 +126,23 @@ class BloomDemo implements DemoInstance {
   private brightPassUniforms: Record<string, WebGLUniformLocation | null> = {};
   private blurUniforms: Record<string, WebGLUniformLocation | null> = {};
   private combineUniforms: Record<string, WebGLUniformLocation | null> = {};
+  private sceneSource: ShaderSource = { vertex: quadVertexShader, fragment: sceneFragmentShader };
+  private brightPassSource: ShaderSource = { vertex: quadVertexShader, fragment: BLOOM_BRIGHT_PASS_SHADER };
+  private blurSource: ShaderSource = { vertex: quadVertexShader, fragment: BLOOM_BLUR_SHADER };
+  private combineSource: ShaderSource = { vertex: quadVertexShader, fragment: BLOOM_COMBINE_SHADER };
 
-  private sceneFbo: Framebuffer | null = null;
-  private brightFbo: Framebuffer | null = null;
-  private blurFbo1: Framebuffer | null = null;
-  private blurFbo2: Framebuffer | null = null;
+  private sceneFbo: FramebufferInfo | null = null;
+  private brightFbo: FramebufferInfo | null = null;
+  private blurFbo1: FramebufferInfo | null = null;
+  private blurFbo2: FramebufferInfo | null = null;
 
+  private media: MediaTexture | null = null;
   private stats: StatsTracker;
   private isPaused = false;
   private currentSize = { width: 0, height: 0 };
 
   // Parameters
+  private source = 'scene';
   private threshold = 0.5;
   private intensity = 1.0;
   private radius = 4;
@@ -230,20 +159,21 @@ class BloomDemo implements DemoInstance {
     gl.getExtension('EXT_color_buffer_float');
 
     // Create shader programs
-    this.sceneProgram = createProgram(gl, quadVertexShader, sceneFragmentShader);
-    this.brightPassProgram = createProgram(gl, quadVertexShader, brightPassShader);
-    this.blurProgram = createProgram(gl, quadVertexShader, blurFragmentShader);
-    this.combineProgram = createProgram(gl, quadVertexShader, combineFragmentShader);
+    this.sceneProgram = createProgram(gl, quadVertexShader, sceneFragmentShader, { name: 'scene' });
+    this.brightPassProgram = createProgram(gl, quadVertexShader, BLOOM_BRIGHT_PASS_SHADER, { name: 'bright-pass' });
+    this.blurProgram = createProgram(gl, quadVertexShader, BLOOM_BLUR_SHADER, { name: 'blur' });
+    this.combineProgram = createProgram(gl, quadVertexShader, BLOOM_COMBINE_SHADER, { name: 'combine' });
 
     if (!this.sceneProgram || !this.brightPassProgram || !this.blurProgram || !this.combineProgram) {
       throw new Error('Failed to create bloom shader programs');
     }
 
     // Get uniform locations
-    this.sceneUniforms = getUniformLocations(gl, this.sceneProgram, ['u_time', 'u_resolution']);
-    this.brightPassUniforms = getUniformLocations(gl, this.brightPassProgram, ['u_texture', 'u_threshold']);
-    this.blurUniforms = getUniformLocations(gl, this.blurProgram, ['u_texture', 'u_direction', 'u_resolution', 'u_radius']);
-    this.combineUniforms = getUniformLocations(gl, this.combineProgram, ['u_scene', 'u_bloom', 'u_intensity']);
+    this.sceneUniforms = getUniformLocations(gl, this.sceneProgram, sceneUniformNames);
+    this.brightPassUniforms = getUniformLocations(gl, this.brightPassProgram, BLOOM_BRIGHT_PASS_UNIFORMS);
+    this.blurUniforms = getUniformLocations(gl, this.blurProgram, BLOOM_BLUR_UNIFORMS);
+    this.combineUniforms = getUniformLocations(gl, this.combineProgram, BLOOM_COMBINE_UNIFORMS);
+    this.media = new MediaTexture(gl);
 
     // Create fullscreen quad VAO
     const positions = new Float32Array([
@@ -268,22 +198,10 @@ class BloomDemo implements DemoInstance {
     const gl = this.gl;
 
     // Cleanup old framebuffers
-    if (this.sceneFbo) {
-      gl.deleteFramebuffer(this.sceneFbo.framebuffer);
-      gl.deleteTexture(this.sceneFbo.texture);
-    }
-    if (this.brightFbo) {
-      gl.deleteFramebuffer(this.brightFbo.framebuffer);
-      gl.deleteTexture(this.brightFbo.texture);
-    }
-    if (this.blurFbo1) {
-      gl.deleteFramebuffer(this.blurFbo1.framebuffer);
-      gl.deleteTexture(this.blurFbo1.texture);
-    }
-    if (this.blurFbo2) {
-      gl.deleteFramebuffer(this.blurFbo2.framebuffer);
-      gl.deleteTexture(this.blurFbo2.texture);
-    }
+    if (this.sceneFbo) deleteFramebuffer(gl, this.sceneFbo);
+    if (this.brightFbo) deleteFramebuffer(gl, this.brightFbo);
+    if (this.blurFbo1) deleteFramebuffer(gl, this.blurFbo1);
+    if (this.blurFbo2) deleteFramebuffer(gl, this.blurFbo2);
 
     // Create new framebuffers (blur at half resolution for performance)
     this.sceneFbo = createFramebuffer(gl, width, height);
@@ -302,22 +220,11 @@ class BloomDemo implements DemoInstance {
     if (this.combineProgram) gl.deleteProgram(this.combineProgram);
     if (this.vao) gl.deleteVertexArray(this.vao);
     if (this.buffer) gl.deleteBuffer(this.buffer);
-    if (this.sceneFbo) {
-      gl.deleteFramebuffer(this.sceneFbo.framebuffer);
-      gl.deleteTexture(this.sceneFbo.texture);
-    }
-    if (this.brightFbo) {
-      gl.deleteFramebuffer(this.brightFbo.framebuffer);
-      gl.deleteTexture(this.brightFbo.texture);
-    }
-    if (this.blurFbo1) {
-      gl.deleteFramebuffer(this.blurFbo1.framebuffer);
-      gl.deleteTexture(this.blurFbo1.texture);
-    }
-    if (this.blurFbo2) {
-      gl.deleteFramebuffer(this.blurFbo2.framebuffer);
-      gl.deleteTexture(this.blurFbo2.texture);
-    }
+    if (this.sceneFbo) deleteFramebuffer(gl, this.sceneFbo);
+    if (this.brightFbo) deleteFramebuffer(gl, this.brightFbo);
+    if (this.blurFbo1) deleteFramebuffer(gl, this.blurFbo1);
+    if (this.blurFbo2) deleteFramebuffer(gl, this.blurFbo2);
+    this.media?.destroy();
     this.stats.destroy();
   }
 
@@ -339,6 +246,7 @@ class BloomDemo implements DemoInstance {
     gl.bindVertexArray(this.vao);
 
     // Pass 1: Render scene to FBO
+    this.stats.beginPass('scene');
     gl.bindFramebuffer(gl.FRAMEBUFFER, this.sceneFbo.framebuffer);
     gl.viewport(0, 0, this.sceneFbo.width, this.sceneFbo.height);
     gl.clearColor(0.0, 0.0, 0.0, 1.0);
@@ -347,9 +255,11 @@ class BloomDemo implements DemoInstance {
     gl.useProgram(this.sceneProgram);
     gl.uniform1f(this.sceneUniforms.u_time, time);
     gl.uniform2f(this.sceneUniforms.u_resolution, this.sceneFbo.width, this.sceneFbo.height);
+    this.media?.apply(this.sceneUniforms, this.source, this.sceneFbo.width / this.sceneFbo.height);
     gl.drawArrays(gl.TRIANGLES, 0, 6);
 
     // Pass 2: Bright pass extraction
+    this.stats.beginPass('bright-pass');
     gl.bindFramebuffer(gl.FRAMEBUFFER, this.brightFbo.framebuffer);
     gl.viewport(0, 0, this.brightFbo.width, this.brightFbo.height);
 
@@ -361,6 +271,7 @@ class BloomDemo implements DemoInstance {
     gl.drawArrays(gl.TRIANGLES, 0, 6);
 
     // Pass 3: Horizontal blur
+    this.stats.beginPass('blur-h');
     gl.bindFramebuffer(gl.FRAMEBUFFER, this.blurFbo1.framebuffer);
     gl.viewport(0, 0, this.blurFbo1.width, this.blurFbo1.height);
 
@@ -373,6 +284,7 @@ class BloomDemo implements DemoInstance {
     gl.drawArrays(gl.TRIANGLES, 0, 6);
 
     // Pass 4: Vertical blur
+    this.stats.beginPass('blur-v');
     gl.bindFramebuffer(gl.FRAMEBUFFER, this.blurFbo2.framebuffer);
 
     gl.bindTexture(gl.TEXTURE_2D, this.blurFbo1.texture);
@@ -380,7 +292,8 @@ class BloomDemo implements DemoInstance {
     gl.drawArrays(gl.TRIANGLES, 0, 6);
 
     // Pass 5: Combine
-    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    this.stats.beginPass('combine');
+    gl.bindFramebuffer(gl.FRAMEBUFFER, ctx.outputFramebuffer);
     gl.viewport(0, 0, ctx.width, ctx.height);
     gl.clearColor(0.0, 0.0, 0.0, 1.0);
     gl.clear(gl.COLOR_BUFFER_BIT);
@@ -393,7 +306,9 @@ class BloomDemo implements DemoInstance {
     gl.bindTexture(gl.TEXTURE_2D, this.blurFbo2.texture);
     gl.uniform1i(this.combineUniforms.u_bloom, 1);
     gl.uniform1f(this.combineUniforms.u_intensity, this.intensity);
+    gl.uniform1i(this.combineUniforms.u_toneMap, 1);
     gl.drawArrays(gl.TRIANGLES, 0, 6);
+    this.stats.endPass();
 
     gl.bindVertexArray(null);
     this.stats.recordDrawCall(2); // simplified count
@@ -414,6 +329,7 @@ class BloomDemo implements DemoInstance {
   }
 
   reset(): void {
+    this.source = 'scene';
     this.threshold = 0.5;
     this.intensity = 1.0;
     this.radius = 4;
@@ -421,6 +337,9 @@ class BloomDemo implements DemoInstance {
 
   setParameter(key: string, value: number | boolean | string): void {
     switch (key) {
+      case 'source':
+        this.source = value as string;
+        break;
       case 'threshold':
         this.threshold = value as number;
         break;
@@ -435,6 +354,7 @@ class BloomDemo implements DemoInstance {
 
   getParameters(): Record<string, number | boolean | string> {
     return {
+      source: this.source,
       threshold: this.threshold,
       intensity: this.intensity,
       radius: this.radius,
@@ -444,6 +364,92 @@ class BloomDemo implements DemoInstance {
   getStats(): DemoStats {
     return this.stats.getStats();
   }
+
+  setMedia(kind: MediaKind, media: UserMedia | null): void {
+    this.media?.setMedia(kind, media);
+  }
+
+  getDebugTargets(): DebugTarget[] {
+    const targets: DebugTarget[] = [];
+    if (this.sceneFbo) targets.push(getFramebufferDebugTarget('scene', this.sceneFbo));
+    if (this.brightFbo) targets.push(getFramebufferDebugTarget('bright-pass', this.brightFbo));
+    if (this.blurFbo1) targets.push(getFramebufferDebugTarget('blur-h', this.blurFbo1));
+    if (this.blurFbo2) targets.push(getFramebufferDebugTarget('blur-v', this.blurFbo2));
+    return targets;
+  }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    const programs: DemoShaderProgram[] = [];
+    if (this.sceneProgram) {
+      programs.push({
+        name: 'scene',
+        program: this.sceneProgram,
+        vertexSource: this.sceneSource.vertex,
+        fragmentSource: this.sceneSource.fragment,
+      });
+    }
+    if (this.brightPassProgram) {
+      programs.push({
+        name: 'bright-pass',
+        program: this.brightPassProgram,
+        vertexSource: this.brightPassSource.vertex,
+        fragmentSource: this.brightPassSource.fragment,
+      });
+    }
+    if (this.blurProgram) {
+      programs.push({
+        name: 'blur',
+        program: this.blurProgram,
+        vertexSource: this.blurSource.vertex,
+        fragmentSource: this.blurSource.fragment,
+      });
+    }
+    if (this.combineProgram) {
+      programs.push({
+        name: 'combine',
+        program: this.combineProgram,
+        vertexSource: this.combineSource.vertex,
+        fragmentSource: this.combineSource.fragment,
+      });
+    }
+    return programs;
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    const gl = this.gl;
+    const source: ShaderSource = { vertex: vertexSource, fragment: fragmentSource };
+    switch (name) {
+      case 'scene':
+        if (this.sceneProgram) gl.deleteProgram(this.sceneProgram);
+        this.sceneProgram = program;
+        this.sceneSource = source;
+        this.sceneUniforms = getUniformLocations(gl, program, sceneUniformNames);
+        break;
+      case 'bright-pass':
+        if (this.brightPassProgram) gl.deleteProgram(this.brightPassProgram);
+        this.brightPassProgram = program;
+        this.brightPassSource = source;
+        this.brightPassUniforms = getUniformLocations(gl, program, BLOOM_BRIGHT_PASS_UNIFORMS);
+        break;
+      case 'blur':
+        if (this.blurProgram) gl.deleteProgram(this.blurProgram);
+        this.blurProgram = program;
+        this.blurSource = source;
+        this.blurUniforms = getUniformLocations(gl, program, BLOOM_BLUR_UNIFORMS);
+        break;
+      case 'combine':
+        if (this.combineProgram) gl.deleteProgram(this.combineProgram);
+        this.combineProgram = program;
+        this.combineSource = source;
+        this.combineUniforms = getUniformLocations(gl, program, BLOOM_COMBINE_UNIFORMS);
+        break;
+    }
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new BloomDemo(gl);
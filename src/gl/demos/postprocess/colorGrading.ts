@@ -2,11 +2,16 @@
  * Color Grading Demo
  *
  * Film-style color grading with curves, saturation, and vignette.
+ * The grade itself is the color grading pass's shader code, applied in linear.
  */
 
 import { createProgram, createVao, createBuffer, getUniformLocations } from '../../core';
 import { StatsTracker } from '../../core/stats';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory } from '../../core/types';
+import { MediaTexture, MEDIA_SOURCE_GLSL, MEDIA_SOURCE_UNIFORMS } from '../../core/media';
+import { COLOR_GRADING_GLSL, COLOR_GRADING_UNIFORMS } from '../../passes/colorGrading';
+import type {
+  DemoInstance, DemoContext, DemoStats, DemoFactory, DemoShaderProgram, MediaKind, UserMedia,
+} from '../../core/types';
 
 const vertexShader = `#version 300 es
 precision highp float;
@@ -28,10 +33,10 @@ out vec4 fragColor;
 
 uniform float u_time;
 uniform vec2 u_resolution;
-uniform float u_saturation;
-uniform float u_contrast;
-uniform float u_brightness;
-uniform float u_vignette;
+
+${MEDIA_SOURCE_GLSL}
+
+${COLOR_GRADING_GLSL}
 
 // Hash for noise
 float hash(vec2 p) {
@@ -51,21 +56,8 @@ float noise(vec2 p) {
   return mix(mix(a, b, f.x), mix(c, d, f.x), f.y);
 }
 
-// Apply saturation
-vec3 applySaturation(vec3 col, float sat) {
-  float gray = dot(col, vec3(0.299, 0.587, 0.114));
-  return mix(vec3(gray), col, sat);
-}
-
-// Apply contrast
-vec3 applyContrast(vec3 col, float contrast) {
-  return (col - 0.5) * contrast + 0.5;
-}
-
-void main() {
-  vec2 uv = v_uv;
-  float time = u_time;
-
+// Procedural sunset scene, in linear color
+vec3 scene(vec2 uv, float time) {
   vec3 col = vec3(0.0);
 
   // Sky gradient
@@ -112,19 +104,16 @@ void main() {
     }
   }
 
-  // Apply brightness
-  col += u_brightness;
+  return col;
+}
 
-  // Apply contrast
-  col = applyContrast(col, u_contrast);
+void main() {
+  vec2 uv = v_uv;
 
-  // Apply saturation
-  col = applySaturation(col, u_saturation);
+  // User media is sRGB; grade it in linear like the scene
+  vec3 col = u_useSource ? pow(sampleSource(uv), vec3(2.2)) : scene(uv, u_time);
 
-  // Apply vignette
-  float dist = length(uv - 0.5);
-  float vig = 1.0 - dist * dist * u_vignette * 2.0;
-  col *= vig;
+  col = grade(col, uv);
 
   // Clamp and gamma correct
   col = clamp(col, 0.0, 1.0);
@@ -134,15 +123,24 @@ void main() {
 }
 `;
 
+const uniformNames = [
+  'u_time', 'u_resolution', ...COLOR_GRADING_UNIFORMS, ...MEDIA_SOURCE_UNIFORMS,
+];
+
 class ColorGradingDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private program: WebGLProgram | null = null;
   private vao: WebGLVertexArrayObject | null = null;
   private buffer: WebGLBuffer | null = null;
   private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private vertexSource = vertexShader;
+  private fragmentSource = fragmentShader;
   private stats: StatsTracker;
+  private media: MediaTexture | null = null;
   private isPaused = false;
 
+  private source = 'scene';
+
   private saturation = 1.0;
   private contrast = 1.0;
   private brightness = 0.0;
@@ -156,12 +154,11 @@ class ColorGradingDemo implements DemoInstance {
   async init(): Promise<void> {
     const gl = this.gl;
 
-    this.program = createProgram(gl, vertexShader, fragmentShader);
+    this.program = createProgram(gl, vertexShader, fragmentShader, { name: 'main' });
     if (!this.program) throw new Error('Failed to create color grading shader');
 
-    this.uniforms = getUniformLocations(gl, this.program, [
-      'u_time', 'u_resolution', 'u_saturation', 'u_contrast', 'u_brightness', 'u_vignette',
-    ]);
+    this.uniforms = getUniformLocations(gl, this.program, uniformNames);
+    this.media = new MediaTexture(gl);
 
     const positions = new Float32Array([-1, -1, 3, -1, -1, 3]);
 
@@ -183,6 +180,7 @@ class ColorGradingDemo implements DemoInstance {
     if (this.program) gl.deleteProgram(this.program);
     if (this.vao) gl.deleteVertexArray(this.vao);
     if (this.buffer) gl.deleteBuffer(this.buffer);
+    this.media?.destroy();
     this.stats.destroy();
   }
 
@@ -202,6 +200,7 @@ class ColorGradingDemo implements DemoInstance {
     gl.uniform1f(this.uniforms.u_contrast, this.contrast);
     gl.uniform1f(this.uniforms.u_brightness, this.brightness);
     gl.uniform1f(this.uniforms.u_vignette, this.vignette);
+    this.media?.apply(this.uniforms, this.source, ctx.width / ctx.height);
 
     gl.drawArrays(gl.TRIANGLES, 0, 3);
     this.stats.recordDrawCall(1);
@@ -215,6 +214,7 @@ class ColorGradingDemo implements DemoInstance {
   resume(): void { this.isPaused = false; }
 
   reset(): void {
+    this.source = 'scene';
     this.saturation = 1.0;
     this.contrast = 1.0;
     this.brightness = 0.0;
@@ -223,6 +223,7 @@ class ColorGradingDemo implements DemoInstance {
 
   setParameter(key: string, value: number | boolean | string): void {
     switch (key) {
+      case 'source': this.source = value as string; break;
       case 'saturation': this.saturation = value as number; break;
       case 'contrast': this.contrast = value as number; break;
       case 'brightness': this.brightness = value as number; break;
@@ -232,6 +233,7 @@ class ColorGradingDemo implements DemoInstance {
 
   getParameters(): Record<string, number | boolean | string> {
     return {
+      source: this.source,
       saturation: this.saturation,
       contrast: this.contrast,
       brightness: this.brightness,
@@ -240,6 +242,34 @@ class ColorGradingDemo implements DemoInstance {
   }
 
   getStats(): DemoStats { return this.stats.getStats(); }
+
+  setMedia(kind: MediaKind, media: UserMedia | null): void {
+    this.media?.setMedia(kind, media);
+  }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    if (!this.program) return [];
+    return [{
+      name: 'main',
+      program: this.program,
+      vertexSource: this.vertexSource,
+      fragmentSource: this.fragmentSource,
+    }];
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    if (name !== 'main') return;
+    if (this.program) this.gl.deleteProgram(this.program);
+    this.program = program;
+    this.vertexSource = vertexSource;
+    this.fragmentSource = fragmentSource;
+    this.uniforms = getUniformLocations(this.gl, program, uniformNames);
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new ColorGradingDemo(gl);
@@ -2,11 +2,16 @@
  * Dithering/Posterize Demo
  *
  * Stylized rendering with color quantization and dithering.
+ * The effect itself is the dither pass's shader code, applied to a scene.
  */
 
 import { createProgram, createVao, createBuffer, getUniformLocations } from '../../core';
 import { StatsTracker } from '../../core/stats';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory } from '../../core/types';
+import { MediaTexture, MEDIA_SOURCE_GLSL, MEDIA_SOURCE_UNIFORMS } from '../../core/media';
+import { DITHER_GLSL, DITHER_UNIFORMS, DITHER_TYPES } from '../../passes/dither';
+import type {
+  DemoInstance, DemoContext, DemoStats, DemoFactory, DemoShaderProgram, MediaKind, UserMedia,
+} from '../../core/types';
 
 const vertexShader = `#version 300 es
 precision highp float;
@@ -26,31 +31,9 @@ precision highp float;
 in vec2 v_uv;
 out vec4 fragColor;
 
-uniform float u_time;
-uniform vec2 u_resolution;
-uniform float u_colorLevels;
-uniform int u_ditherType; // 0: none, 1: bayer, 2: blue noise approx
-uniform float u_ditherStrength;
-
-// Bayer 4x4 matrix
-float bayer4x4(vec2 pos) {
-  int x = int(mod(pos.x, 4.0));
-  int y = int(mod(pos.y, 4.0));
-
-  int bayer[16] = int[16](
-    0, 8, 2, 10,
-    12, 4, 14, 6,
-    3, 11, 1, 9,
-    15, 7, 13, 5
-  );
-
-  return float(bayer[y * 4 + x]) / 16.0;
-}
+${MEDIA_SOURCE_GLSL}
 
-// Simple hash for blue noise approximation
-float hash(vec2 p) {
-  return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
-}
+${DITHER_GLSL}
 
 // Generate animated scene
 vec3 scene(vec2 uv, float time) {
@@ -92,48 +75,32 @@ vec3 scene(vec2 uv, float time) {
   return col;
 }
 
-// Quantize color to limited palette
-vec3 quantize(vec3 col, float levels) {
-  return floor(col * levels + 0.5) / levels;
+// The user's image or video when one is selected, else the scene
+vec3 sourceColor(vec2 uv, float time) {
+  return u_useSource ? sampleSource(uv) : scene(uv, time);
 }
 
 void main() {
-  vec2 uv = v_uv;
-  float time = u_time;
-
-  // Get scene color
-  vec3 col = scene(uv, time);
-
-  // Apply dithering before quantization
-  float dither = 0.0;
-  vec2 pixelPos = uv * u_resolution;
-
-  if (u_ditherType == 1) {
-    // Bayer dithering
-    dither = (bayer4x4(pixelPos) - 0.5) * u_ditherStrength / u_colorLevels;
-  } else if (u_ditherType == 2) {
-    // Blue noise approximation
-    dither = (hash(pixelPos + fract(time)) - 0.5) * u_ditherStrength / u_colorLevels;
-  }
-
-  col += dither;
-
-  // Quantize colors
-  col = quantize(col, u_colorLevels);
-
-  fragColor = vec4(col, 1.0);
+  fragColor = vec4(dither(sourceColor(v_uv, u_time), v_uv), 1.0);
 }
 `;
 
+const uniformNames = [...DITHER_UNIFORMS, ...MEDIA_SOURCE_UNIFORMS];
+
 class DitheringDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private program: WebGLProgram | null = null;
   private vao: WebGLVertexArrayObject | null = null;
   private buffer: WebGLBuffer | null = null;
   private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private vertexSource = vertexShader;
+  private fragmentSource = fragmentShader;
   private stats: StatsTracker;
+  private media: MediaTexture | null = null;
   private isPaused = false;
 
+  private source = 'scene';
+
   private colorLevels = 8;
   private ditherType = 'bayer';
   private ditherStrength = 1.0;
@@ -146,12 +113,11 @@ class DitheringDemo implements DemoInstance {
   async init(): Promise<void> {
     const gl = this.gl;
 
-    this.program = createProgram(gl, vertexShader, fragmentShader);
+    this.program = createProgram(gl, vertexShader, fragmentShader, { name: 'main' });
     if (!this.program) throw new Error('Failed to create dithering shader');
 
-    this.uniforms = getUniformLocations(gl, this.program, [
-      'u_time', 'u_resolution', 'u_colorLevels', 'u_ditherType', 'u_ditherStrength',
-    ]);
+    this.uniforms = getUniformLocations(gl, this.program, uniformNames);
+    this.media = new MediaTexture(gl);
 
     const positions = new Float32Array([-1, -1, 3, -1, -1, 3]);
 
@@ -173,6 +139,7 @@ class DitheringDemo implements DemoInstance {
     if (this.program) gl.deleteProgram(this.program);
     if (this.vao) gl.deleteVertexArray(this.vao);
     if (this.buffer) gl.deleteBuffer(this.buffer);
+    this.media?.destroy();
     this.stats.destroy();
   }
 
@@ -186,13 +153,12 @@ class DitheringDemo implements DemoInstance {
     gl.useProgram(this.program);
     gl.bindVertexArray(this.vao);
 
-    const ditherTypeMap: Record<string, number> = { none: 0, bayer: 1, blue: 2 };
-
     gl.uniform1f(this.uniforms.u_time, ctx.reduceMotion ? ctx.time * 0.3 : ctx.time);
     gl.uniform2f(this.uniforms.u_resolution, ctx.width, ctx.height);
     gl.uniform1f(this.uniforms.u_colorLevels, this.colorLevels);
-    gl.uniform1i(this.uniforms.u_ditherType, ditherTypeMap[this.ditherType] ?? 1);
+    gl.uniform1i(this.uniforms.u_ditherType, DITHER_TYPES[this.ditherType] ?? 1);
     gl.uniform1f(this.uniforms.u_ditherStrength, this.ditherStrength);
+    this.media?.apply(this.uniforms, this.source, ctx.width / ctx.height);
 
     gl.drawArrays(gl.TRIANGLES, 0, 3);
     this.stats.recordDrawCall(1);
@@ -206,6 +172,7 @@ class DitheringDemo implements DemoInstance {
   resume(): void { this.isPaused = false; }
 
   reset(): void {
+    this.source = 'scene';
     this.colorLevels = 8;
     this.ditherType = 'bayer';
     this.ditherStrength = 1.0;
@@ -213,6 +180,7 @@ class DitheringDemo implements DemoInstance {
 
   setParameter(key: string, value: number | boolean | string): void {
     switch (key) {
+      case 'source': this.source = value as string; break;
       case 'colorLevels': this.colorLevels = value as number; break;
       case 'ditherType': this.ditherType = value as string; break;
       case 'ditherStrength': this.ditherStrength = value as number; break;
@@ -221,6 +189,7 @@ class DitheringDemo implements DemoInstance {
 
   getParameters(): Record<string, number | boolean | string> {
     return {
+      source: this.source,
       colorLevels: this.colorLevels,
       ditherType: this.ditherType,
       ditherStrength: this.ditherStrength,
@@ -228,6 +197,34 @@ class DitheringDemo implements DemoInstance {
   }
 
   getStats(): DemoStats { return this.stats.getStats(); }
+
+  setMedia(kind: MediaKind, media: UserMedia | null): void {
+    this.media?.setMedia(kind, media);
+  }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    if (!this.program) return [];
+    return [{
+      name: 'main',
+      program: this.program,
+      vertexSource: this.vertexSource,
+      fragmentSource: this.fragmentSource,
+    }];
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    if (name !== 'main') return;
+    if (this.program) this.gl.deleteProgram(this.program);
+    this.program = program;
+    this.vertexSource = vertexSource;
+    this.fragmentSource = fragmentSource;
+    this.uniforms = getUniformLocations(this.gl, program, uniformNames);
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new DitheringDemo(gl);
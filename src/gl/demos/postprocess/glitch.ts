@@ -2,11 +2,16 @@
  * Glitch Effects Demo
  *
  * Collection of glitch effects: chromatic aberration, scan lines, block displacement.
+ * The effect itself is the glitch pass's shader code, applied to a scene.
  */
 
 import { createProgram, createVao, createBuffer, getUniformLocations } from '../../core';
 import { StatsTracker } from '../../core/stats';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory } from '../../core/types';
+import { MediaTexture, MEDIA_SOURCE_GLSL, MEDIA_SOURCE_UNIFORMS } from '../../core/media';
+import { GLITCH_GLSL, GLITCH_UNIFORMS } from '../../passes/glitch';
+import type {
+  DemoInstance, DemoContext, DemoStats, DemoFactory, DemoShaderProgram, MediaKind, UserMedia,
+} from '../../core/types';
 
 const vertexShader = `#version 300 es
 precision highp float;
@@ -26,31 +31,9 @@ precision highp float;
 in vec2 v_uv;
 out vec4 fragColor;
 
-uniform float u_time;
-uniform vec2 u_resolution;
-uniform float u_chromaticStrength;
-uniform bool u_scanlines;
-uniform bool u_blockGlitch;
-uniform float u_intensity;
+${MEDIA_SOURCE_GLSL}
 
-// Hash function
-float hash(vec2 p) {
-  return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
-}
-
-// Noise
-float noise(vec2 p) {
-  vec2 i = floor(p);
-  vec2 f = fract(p);
-  f = f * f * (3.0 - 2.0 * f);
-
-  float a = hash(i);
-  float b = hash(i + vec2(1.0, 0.0));
-  float c = hash(i + vec2(0.0, 1.0));
-  float d = hash(i + vec2(1.0, 1.0));
-
-  return mix(mix(a, b, f.x), mix(c, d, f.x), f.y);
-}
+${GLITCH_GLSL}
 
 // Generate base scene (colorful gradient with shapes)
 vec3 scene(vec2 uv, float time) {
@@ -81,72 +64,38 @@ vec3 scene(vec2 uv, float time) {
   return col;
 }
 
-void main() {
-  vec2 uv = v_uv;
-  float time = u_time;
-
-  // Random glitch timing
-  float glitchTime = floor(time * 10.0);
-  float glitchRandom = hash(vec2(glitchTime, 0.0));
-  bool doGlitch = glitchRandom > (1.0 - u_intensity * 0.3);
-
-  // Block glitch displacement
-  vec2 blockUV = uv;
-  if (u_blockGlitch && doGlitch) {
-    float blockY = floor(uv.y * 20.0) / 20.0;
-    float blockRandom = hash(vec2(blockY, glitchTime));
-    if (blockRandom > 0.8) {
-      blockUV.x += (hash(vec2(blockY, glitchTime + 1.0)) - 0.5) * 0.1 * u_intensity;
-    }
-  }
-
-  // Chromatic aberration
-  vec3 col;
-  float aberration = u_chromaticStrength * (doGlitch ? 2.0 : 1.0);
-  col.r = scene(blockUV + vec2(aberration, 0.0), time).r;
-  col.g = scene(blockUV, time).g;
-  col.b = scene(blockUV - vec2(aberration, 0.0), time).b;
-
-  // Scanlines
-  if (u_scanlines) {
-    float scanline = sin(uv.y * u_resolution.y * 0.5) * 0.5 + 0.5;
-    scanline = pow(scanline, 1.5);
-    col *= 0.8 + 0.2 * scanline;
-
-    // Horizontal sync noise
-    if (doGlitch) {
-      float syncNoise = noise(vec2(time * 100.0, uv.y * 10.0));
-      if (syncNoise > 0.97) {
-        col = vec3(1.0);
-      }
-    }
-  }
+// The user's image or video when one is selected, else the scene
+vec3 glitchSource(vec2 uv) {
+  return u_useSource ? sampleSource(uv) : scene(uv, u_time);
+}
 
-  // Random color noise
-  if (doGlitch && u_intensity > 0.5) {
-    float colorNoise = hash(uv * u_resolution + time);
-    if (colorNoise > 0.99) {
-      col = vec3(hash(uv + time), hash(uv + time + 1.0), hash(uv + time + 2.0));
-    }
-  }
+void main() {
+  vec3 col = glitch(v_uv);
 
   // Vignette
-  float vignette = 1.0 - length(uv - 0.5) * 0.5;
+  float vignette = 1.0 - length(v_uv - 0.5) * 0.5;
   col *= vignette;
 
   fragColor = vec4(col, 1.0);
 }
 `;
 
+const uniformNames = [...GLITCH_UNIFORMS, ...MEDIA_SOURCE_UNIFORMS];
+
 class GlitchDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private program: WebGLProgram | null = null;
   private vao: WebGLVertexArrayObject | null = null;
   private buffer: WebGLBuffer | null = null;
   private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private vertexSource = vertexShader;
+  private fragmentSource = fragmentShader;
   private stats: StatsTracker;
+  private media: MediaTexture | null = null;
   private isPaused = false;
 
+  private source = 'scene';
+
   private chromaticStrength = 0.01;
   private scanlines = true;
   private blockGlitch = false;
@@ -160,12 +109,11 @@ class GlitchDemo implements DemoInstance {
   async init(): Promise<void> {
     const gl = this.gl;
 
-    this.program = createProgram(gl, vertexShader, fragmentShader);
+    this.program = createProgram(gl, vertexShader, fragmentShader, { name: 'main' });
     if (!this.program) throw new Error('Failed to create glitch shader');
 
-    this.uniforms = getUniformLocations(gl, this.program, [
-      'u_time', 'u_resolution', 'u_chromaticStrength', 'u_scanlines', 'u_blockGlitch', 'u_intensity',
-    ]);
+    this.uniforms = getUniformLocations(gl, this.program, uniformNames);
+    this.media = new MediaTexture(gl);
 
     const positions = new Float32Array([-1, -1, 3, -1, -1, 3]);
 
@@ -187,6 +135,7 @@ class GlitchDemo implements DemoInstance {
     if (this.program) gl.deleteProgram(this.program);
     if (this.vao) gl.deleteVertexArray(this.vao);
     if (this.buffer) gl.deleteBuffer(this.buffer);
+    this.media?.destroy();
     this.stats.destroy();
   }
 
@@ -206,6 +155,7 @@ class GlitchDemo implements DemoInstance {
     gl.uniform1i(this.uniforms.u_scanlines, this.scanlines ? 1 : 0);
     gl.uniform1i(this.uniforms.u_blockGlitch, this.blockGlitch ? 1 : 0);
     gl.uniform1f(this.uniforms.u_intensity, this.intensity);
+    this.media?.apply(this.uniforms, this.source, ctx.width / ctx.height);
 
     gl.drawArrays(gl.TRIANGLES, 0, 3);
     this.stats.recordDrawCall(1);
@@ -219,6 +169,7 @@ class GlitchDemo implements DemoInstance {
   resume(): void { this.isPaused = false; }
 
   reset(): void {
+    this.source = 'scene';
     this.chromaticStrength = 0.01;
     this.scanlines = true;
     this.blockGlitch = false;
@@ -227,6 +178,7 @@ class GlitchDemo implements DemoInstance {
 
   setParameter(key: string, value: number | boolean | string): void {
     switch (key) {
+      case 'source': this.source = value as string; break;
       case 'chromaticStrength': this.chromaticStrength = value as number; break;
       case 'scanlines': this.scanlines = value as boolean; break;
       case 'blockGlitch': this.blockGlitch = value as boolean; break;
@@ -236,6 +188,7 @@ class GlitchDemo implements DemoInstance {
 
   getParameters(): Record<string, number | boolean | string> {
     return {
+      source: this.source,
       chromaticStrength: this.chromaticStrength,
       scanlines: this.scanlines,
       blockGlitch: this.blockGlitch,
@@ -244,6 +197,34 @@ class GlitchDemo implements DemoInstance {
   }
 
   getStats(): DemoStats { return this.stats.getStats(); }
+
+  setMedia(kind: MediaKind, media: UserMedia | null): void {
+    this.media?.setMedia(kind, media);
+  }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    if (!this.program) return [];
+    return [{
+      name: 'main',
+      program: this.program,
+      vertexSource: this.vertexSource,
+      fragmentSource: this.fragmentSource,
+    }];
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    if (name !== 'main') return;
+    if (this.program) this.gl.deleteProgram(this.program);
+    this.program = program;
+    this.vertexSource = vertexSource;
+    this.fragmentSource = fragmentSource;
+    this.uniforms = getUniformLocations(this.gl, program, uniformNames);
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new GlitchDemo(gl);
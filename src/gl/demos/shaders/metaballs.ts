@@ -11,7 +11,7 @@
 
 import { createProgram, createVao, createBuffer, getUniformLocations } from '../../core';
 import { StatsTracker } from '../../core/stats';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory } from '../../core/types';
+import type { DemoInstance, DemoContext, DemoStats, DemoFactory, DemoShaderProgram } from '../../core/types';
 
 // Vertex shader - simple fullscreen triangle
 const vertexShader = `#version 300 es
@@ -181,12 +181,24 @@ void main() {
 }
 `;
 
+const uniformNames = [
+  'u_time',
+  'u_resolution',
+  'u_mouse',
+  'u_blobCount',
+  'u_threshold',
+  'u_speed',
+  'u_colorful',
+];
+
 class MetaballsDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private program: WebGLProgram | null = null;
   private vao: WebGLVertexArrayObject | null = null;
   private buffer: WebGLBuffer | null = null;
   private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private vertexSource = vertexShader;
+  private fragmentSource = fragmentShader;
   private stats: StatsTracker;
   private isPaused = false;
 
@@ -205,19 +217,11 @@ class MetaballsDemo implements DemoInstance {
     const gl = this.gl;
 
     // Create shader program
-    this.program = createProgram(gl, vertexShader, fragmentShader);
+    this.program = createProgram(gl, vertexShader, fragmentShader, { name: 'main' });
     if (!this.program) throw new Error('Failed to create metaballs shader program');
 
     // Get uniform locations
-    this.uniforms = getUniformLocations(gl, this.program, [
-      'u_time',
-      'u_resolution',
-      'u_mouse',
-      'u_blobCount',
-      'u_threshold',
-      'u_speed',
-      'u_colorful',
-    ]);
+    this.uniforms = getUniformLocations(gl, this.program, uniformNames);
 
     // Create fullscreen triangle
     const positions = new Float32Array([
@@ -327,6 +331,30 @@ class MetaballsDemo implements DemoInstance {
   getStats(): DemoStats {
     return this.stats.getStats();
   }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    if (!this.program) return [];
+    return [{
+      name: 'main',
+      program: this.program,
+      vertexSource: this.vertexSource,
+      fragmentSource: this.fragmentSource,
+    }];
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    if (name !== 'main') return;
+    if (this.program) this.gl.deleteProgram(this.program);
+    this.program = program;
+    this.vertexSource = vertexSource;
+    this.fragmentSource = fragmentSource;
+    this.uniforms = getUniformLocations(this.gl, program, uniformNames);
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new MetaballsDemo(gl);
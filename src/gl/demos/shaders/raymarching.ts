@@ -7,11 +7,20 @@
  * - Smooth minimum for blending
  * - Soft shadows
  * - Basic ambient occlusion
+ * - Optional environment map for the sky and reflections
  */
 
 import { createProgram, createVao, createBuffer, getUniformLocations } from '../../core';
 import { StatsTracker } from '../../core/stats';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory } from '../../core/types';
+import { EnvironmentMap, ENVIRONMENT_GLSL, ENVIRONMENT_UNIFORMS } from '../../core/environment';
+import type {
+  DemoInstance,
+  DemoContext,
+  DemoStats,
+  DemoFactory,
+  DemoShaderProgram,
+  Panorama,
+} from '../../core/types';
 
 // Vertex shader - simple fullscreen triangle
 const vertexShader = `#version 300 es
@@ -41,6 +50,8 @@ uniform bool u_softShadows;
 uniform bool u_ao;
 uniform float u_rotationSpeed;
 
+${ENVIRONMENT_GLSL}
+
 const float MAX_DIST = 100.0;
 const float SURF_DIST = 0.001;
 const float PI = 3.14159265359;
@@ -224,8 +235,10 @@ void main() {
   // Raymarch
   float d = raymarch(ro, rd, u_time, u_maxSteps);
 
-  // Sky gradient
-  vec3 skyColor = mix(vec3(0.1, 0.1, 0.2), vec3(0.02, 0.02, 0.05), uv.y * 0.5 + 0.5);
+  // Sky gradient, or the environment behind the ray
+  vec3 skyColor = u_useEnvironment
+    ? sampleEnvironment(rd, 0.0)
+    : mix(vec3(0.1, 0.1, 0.2), vec3(0.02, 0.02, 0.05), uv.y * 0.5 + 0.5);
   vec3 col = skyColor;
 
   if (d < MAX_DIST) {
@@ -259,13 +272,19 @@ void main() {
       ao = ambientOcclusion(p, n, u_time);
     }
 
-    // Combine lighting
-    vec3 ambient = 0.2 * material;
+    // Combine lighting; the environment's average light replaces the flat ambient
+    vec3 ambient = u_useEnvironment ? sampleEnvironment(n, 1.0) * 0.6 * material : 0.2 * material;
     vec3 diffuseLight = diff * material * shadow;
     vec3 specularLight = spec * vec3(1.0) * shadow * 0.5;
 
     col = (ambient + diffuseLight + specularLight) * ao;
 
+    // Environment reflection, stronger at grazing angles
+    if (u_useEnvironment) {
+      float fresnel = mix(0.08, 1.0, pow(1.0 - max(dot(n, viewDir), 0.0), 5.0));
+      col += fresnel * sampleEnvironment(reflect(rd, n), 0.2) * ao;
+    }
+
     // Fog
     float fog = 1.0 - exp(-d * 0.05);
     col = mix(col, skyColor, fog);
@@ -278,13 +297,27 @@ void main() {
 }
 `;
 
+const uniformNames = [
+  'u_time',
+  'u_resolution',
+  'u_mouse',
+  'u_maxSteps',
+  'u_softShadows',
+  'u_ao',
+  'u_rotationSpeed',
+  ...ENVIRONMENT_UNIFORMS,
+];
+
 class RaymarchingDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private program: WebGLProgram | null = null;
   private vao: WebGLVertexArrayObject | null = null;
   private buffer: WebGLBuffer | null = null;
   private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private vertexSource = vertexShader;
+  private fragmentSource = fragmentShader;
   private stats: StatsTracker;
+  private environmentMap: EnvironmentMap | null = null;
   private isPaused = false;
 
   // Parameters
@@ -292,6 +325,7 @@ class RaymarchingDemo implements DemoInstance {
   private softShadows = true;
   private ao = true;
   private rotationSpeed = 0.3;
+  private environment = 'none';
 
   constructor(gl: WebGL2RenderingContext) {
     this.gl = gl;
@@ -302,19 +336,11 @@ class RaymarchingDemo implements DemoInstance {
     const gl = this.gl;
 
     // Create shader program
-    this.program = createProgram(gl, vertexShader, fragmentShader);
+    this.program = createProgram(gl, vertexShader, fragmentShader, { name: 'main' });
     if (!this.program) throw new Error('Failed to create raymarching shader program');
 
     // Get uniform locations
-    this.uniforms = getUniformLocations(gl, this.program, [
-      'u_time',
-      'u_resolution',
-      'u_mouse',
-      'u_maxSteps',
-      'u_softShadows',
-      'u_ao',
-      'u_rotationSpeed',
-    ]);
+    this.uniforms = getUniformLocations(gl, this.program, uniformNames);
 
     // Create fullscreen triangle
     const positions = new Float32Array([
@@ -334,6 +360,8 @@ class RaymarchingDemo implements DemoInstance {
     gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 0, 0);
 
     gl.bindVertexArray(null);
+
+    this.environmentMap = new EnvironmentMap(gl);
   }
 
   destroy(): void {
@@ -341,6 +369,7 @@ class RaymarchingDemo implements DemoInstance {
     if (this.program) gl.deleteProgram(this.program);
     if (this.vao) gl.deleteVertexArray(this.vao);
     if (this.buffer) gl.deleteBuffer(this.buffer);
+    this.environmentMap?.destroy();
     this.stats.destroy();
   }
 
@@ -366,6 +395,7 @@ class RaymarchingDemo implements DemoInstance {
     gl.uniform1i(this.uniforms.u_softShadows, this.softShadows ? 1 : 0);
     gl.uniform1i(this.uniforms.u_ao, this.ao ? 1 : 0);
     gl.uniform1f(this.uniforms.u_rotationSpeed, ctx.reduceMotion ? 0.1 : this.rotationSpeed);
+    this.environmentMap?.apply(this.uniforms, this.environment);
 
     // Draw fullscreen triangle
     gl.bindVertexArray(this.vao);
@@ -393,6 +423,7 @@ class RaymarchingDemo implements DemoInstance {
     this.softShadows = true;
     this.ao = true;
     this.rotationSpeed = 0.3;
+    this.environment = 'none';
   }
 
   setParameter(key: string, value: number | boolean | string): void {
@@ -409,6 +440,9 @@ class RaymarchingDemo implements DemoInstance {
       case 'rotationSpeed':
         this.rotationSpeed = value as number;
         break;
+      case 'environment':
+        this.environment = value as string;
+        break;
     }
   }
 
@@ -418,12 +452,41 @@ class RaymarchingDemo implements DemoInstance {
       softShadows: this.softShadows,
       ao: this.ao,
       rotationSpeed: this.rotationSpeed,
+      environment: this.environment,
     };
   }
 
+  setPanorama(panorama: Panorama | null): void {
+    this.environmentMap?.setPanorama(panorama);
+  }
+
   getStats(): DemoStats {
     return this.stats.getStats();
   }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    if (!this.program) return [];
+    return [{
+      name: 'main',
+      program: this.program,
+      vertexSource: this.vertexSource,
+      fragmentSource: this.fragmentSource,
+    }];
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    if (name !== 'main') return;
+    if (this.program) this.gl.deleteProgram(this.program);
+    this.program = program;
+    this.vertexSource = vertexSource;
+    this.fragmentSource = fragmentSource;
+    this.uniforms = getUniformLocations(this.gl, program, uniformNames);
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new RaymarchingDemo(gl);
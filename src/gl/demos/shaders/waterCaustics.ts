@@ -1,12 +1,22 @@
 /**
  * Water Caustics Demo
  *
- * Simulates underwater caustic light patterns using UV distortion and animated noise.
+ * Simulates underwater caustic light patterns using UV distortion and animated noise,
+ * over a tiled pool floor loaded through the texture cache (BC1 or ETC2 KTX2 where
+ * the GPU supports it, PNG otherwise).
  */
 
 import { createProgram, createVao, createBuffer, getUniformLocations } from '../../core';
 import { StatsTracker } from '../../core/stats';
-import type { DemoInstance, DemoContext, DemoStats, DemoFactory } from '../../core/types';
+import type {
+  DemoInstance,
+  DemoContext,
+  DemoStats,
+  DemoFactory,
+  DemoShaderProgram,
+  LoadedTexture,
+  TextureRequest,
+} from '../../core/types';
 
 const vertexShader = `#version 300 es
 precision highp float;
@@ -31,6 +41,8 @@ uniform vec2 u_resolution;
 uniform float u_speed;
 uniform float u_distortion;
 uniform float u_brightness;
+uniform sampler2D u_floorTexture;
+uniform float u_floor;
 
 // Simplex noise
 vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
@@ -105,6 +117,10 @@ void main() {
   float depth = 1.0 - uv.y;
   vec3 waterColor = mix(shallowColor, deepColor, depth);
 
+  // Pool floor, seen through the same distortion as the caustics
+  vec3 tiles = texture(u_floorTexture, vec2(distortedUV.x * aspect, distortedUV.y) * 1.5).rgb;
+  waterColor = mix(waterColor, tiles * (waterColor + 0.35), u_floor);
+
   // Add caustics
   vec3 color = waterColor + causticColor * c;
 
@@ -121,33 +137,53 @@ void main() {
 }
 `;
 
+const uniformNames = [
+  'u_time', 'u_resolution', 'u_speed', 'u_distortion', 'u_brightness', 'u_floorTexture', 'u_floor',
+];
+
+const FLOOR_TEXTURE: TextureRequest = {
+  url: {
+    s3tc: '/textures/pool-tiles.bc1.ktx2',
+    etc2: '/textures/pool-tiles.etc2.ktx2',
+    fallback: '/textures/pool-tiles.png',
+  },
+  options: { anisotropy: 4 },
+};
+
 class WaterCausticsDemo implements DemoInstance {
   private gl: WebGL2RenderingContext;
   private program: WebGLProgram | null = null;
   private vao: WebGLVertexArrayObject | null = null;
   private buffer: WebGLBuffer | null = null;
+  private floorTexture: WebGLTexture | null = null;  // Owned by the texture cache
   private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private vertexSource = vertexShader;
+  private fragmentSource = fragmentShader;
   private stats: StatsTracker;
   private isPaused = false;
 
   private speed = 1.0;
   private distortion = 0.1;
   private brightness = 1.0;
+  private showFloor = true;
 
   constructor(gl: WebGL2RenderingContext) {
     this.gl = gl;
     this.stats = new StatsTracker(gl);
   }
 
-  async init(): Promise<void> {
+  getTextureRequests(): Record<string, TextureRequest> {
+    return { floor: FLOOR_TEXTURE };
+  }
+
+  async init(textures?: Record<string, LoadedTexture>): Promise<void> {
     const gl = this.gl;
+    this.floorTexture = textures?.floor?.texture ?? null;
 
-    this.program = createProgram(gl, vertexShader, fragmentShader);
+    this.program = createProgram(gl, vertexShader, fragmentShader, { name: 'main' });
     if (!this.program) throw new Error('Failed to create water caustics shader');
 
-    this.uniforms = getUniformLocations(gl, this.program, [
-      'u_time', 'u_resolution', 'u_speed', 'u_distortion', 'u_brightness',
-    ]);
+    this.uniforms = getUniformLocations(gl, this.program, uniformNames);
 
     const positions = new Float32Array([-1, -1, 3, -1, -1, 3]);
 
@@ -169,6 +205,7 @@ class WaterCausticsDemo implements DemoInstance {
     if (this.program) gl.deleteProgram(this.program);
     if (this.vao) gl.deleteVertexArray(this.vao);
     if (this.buffer) gl.deleteBuffer(this.buffer);
+    this.floorTexture = null;
     this.stats.destroy();
   }
 
@@ -188,9 +225,15 @@ class WaterCausticsDemo implements DemoInstance {
     gl.uniform1f(this.uniforms.u_distortion, this.distortion);
     gl.uniform1f(this.uniforms.u_brightness, this.brightness);
 
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.floorTexture);
+    gl.uniform1i(this.uniforms.u_floorTexture, 0);
+    gl.uniform1f(this.uniforms.u_floor, this.showFloor && this.floorTexture ? 1 : 0);
+
     gl.drawArrays(gl.TRIANGLES, 0, 3);
     this.stats.recordDrawCall(1);
 
+    gl.bindTexture(gl.TEXTURE_2D, null);
     gl.bindVertexArray(null);
     this.stats.endFrame();
   }
@@ -203,6 +246,7 @@ class WaterCausticsDemo implements DemoInstance {
     this.speed = 1.0;
     this.distortion = 0.1;
     this.brightness = 1.0;
+    this.showFloor = true;
   }
 
   setParameter(key: string, value: number | boolean | string): void {
@@ -210,14 +254,44 @@ class WaterCausticsDemo implements DemoInstance {
       case 'speed': this.speed = value as number; break;
       case 'distortion': this.distortion = value as number; break;
       case 'brightness': this.brightness = value as number; break;
+      case 'floor': this.showFloor = value as boolean; break;
     }
   }
 
   getParameters(): Record<string, number | boolean | string> {
-    return { speed: this.speed, distortion: this.distortion, brightness: this.brightness };
+    return {
+      speed: this.speed,
+      distortion: this.distortion,
+      brightness: this.brightness,
+      floor: this.showFloor,
+    };
   }
 
   getStats(): DemoStats { return this.stats.getStats(); }
+
+  getShaderPrograms(): DemoShaderProgram[] {
+    if (!this.program) return [];
+    return [{
+      name: 'main',
+      program: this.program,
+      vertexSource: this.vertexSource,
+      fragmentSource: this.fragmentSource,
+    }];
+  }
+
+  replaceShaderProgram(
+    name: string,
+    program: WebGLProgram,
+    vertexSource: string,
+    fragmentSource: string
+  ): void {
+    if (name !== 'main') return;
+    if (this.program) this.gl.deleteProgram(this.program);
+    this.program = program;
+    this.vertexSource = vertexSource;
+    this.fragmentSource = fragmentSource;
+    this.uniforms = getUniformLocations(this.gl, program, uniformNames);
+  }
 }
 
 export const factory: DemoFactory = (gl: WebGL2RenderingContext) => new WaterCausticsDemo(gl);
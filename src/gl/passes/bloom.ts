@@ -0,0 +1,200 @@
+/**
+ * Bloom Pass
+ *
+ * Bright-pass extraction, separable gaussian blur at half resolution,
+ * then additive combine with the input image.
+ */
+
+import {
+  createProgram,
+  getUniformLocations,
+  createFramebufferWithTexture,
+  resizeFramebuffer,
+  deleteFramebuffer,
+} from '../core';
+import { POSTPROCESS_VERTEX_SHADER } from '../core/postprocess';
+import type {
+  FramebufferInfo,
+  PostProcessFrame,
+  PostProcessPass,
+  PostProcessPassFactory,
+} from '../core/types';
+
+// The shaders are shared with the bloom demo, which renders its scene in HDR
+// and has the combine tone map it
+
+export const BLOOM_BRIGHT_PASS_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+out vec4 fragColor;
+
+uniform sampler2D u_texture;
+uniform float u_threshold;
+
+void main() {
+  vec4 color = texture(u_texture, v_uv);
+  float luminance = dot(color.rgb, vec3(0.2126, 0.7152, 0.0722));
+  float brightness = max(luminance - u_threshold, 0.0);
+  fragColor = vec4(color.rgb * (brightness / (luminance + 0.0001)), 1.0);
+}
+`;
+
+export const BLOOM_BLUR_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+out vec4 fragColor;
+
+uniform sampler2D u_texture;
+uniform vec2 u_direction;
+uniform vec2 u_resolution;
+uniform float u_radius;
+
+const float weights[5] = float[](0.227027, 0.1945946, 0.1216216, 0.054054, 0.016216);
+
+void main() {
+  vec2 texelSize = 1.0 / u_resolution;
+  vec3 result = texture(u_texture, v_uv).rgb * weights[0];
+  for (int i = 1; i < 5; i++) {
+    vec2 offset = u_direction * texelSize * float(i) * u_radius;
+    result += texture(u_texture, v_uv + offset).rgb * weights[i];
+    result += texture(u_texture, v_uv - offset).rgb * weights[i];
+  }
+  fragColor = vec4(result, 1.0);
+}
+`;
+
+export const BLOOM_COMBINE_SHADER = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+out vec4 fragColor;
+
+uniform sampler2D u_scene;
+uniform sampler2D u_bloom;
+uniform float u_intensity;
+uniform bool u_toneMap;  // HDR input: Reinhard, then gamma
+
+void main() {
+  vec3 scene = texture(u_scene, v_uv).rgb;
+  vec3 bloom = texture(u_bloom, v_uv).rgb;
+  vec3 color = scene + bloom * u_intensity;
+  if (u_toneMap) {
+    color = color / (color + vec3(1.0));
+    color = pow(color, vec3(1.0 / 2.2));
+  }
+  fragColor = vec4(color, 1.0);
+}
+`;
+
+export const BLOOM_BRIGHT_PASS_UNIFORMS = ['u_texture', 'u_threshold'];
+export const BLOOM_BLUR_UNIFORMS = ['u_texture', 'u_direction', 'u_resolution', 'u_radius'];
+export const BLOOM_COMBINE_UNIFORMS = ['u_scene', 'u_bloom', 'u_intensity', 'u_toneMap'];
+
+class BloomPass implements PostProcessPass {
+  private gl: WebGL2RenderingContext;
+  private drawFullscreen: () => void;
+  private brightProgram: WebGLProgram;
+  private blurProgram: WebGLProgram;
+  private combineProgram: WebGLProgram;
+  private brightUniforms: Record<string, WebGLUniformLocation | null>;
+  private blurUniforms: Record<string, WebGLUniformLocation | null>;
+  private combineUniforms: Record<string, WebGLUniformLocation | null>;
+
+  // Half-resolution working targets
+  private brightFbo: FramebufferInfo | null = null;
+  private blurFbo: FramebufferInfo | null = null;
+
+  private threshold = 0.7;
+  private intensity = 1.0;
+  private radius = 4;
+
+  constructor(gl: WebGL2RenderingContext, drawFullscreen: () => void) {
+    this.gl = gl;
+    this.drawFullscreen = drawFullscreen;
+
+    this.brightProgram = createProgram(gl, POSTPROCESS_VERTEX_SHADER, BLOOM_BRIGHT_PASS_SHADER, { name: 'bright-pass' });
+    this.blurProgram = createProgram(gl, POSTPROCESS_VERTEX_SHADER, BLOOM_BLUR_SHADER, { name: 'blur' });
+    this.combineProgram = createProgram(gl, POSTPROCESS_VERTEX_SHADER, BLOOM_COMBINE_SHADER, { name: 'combine' });
+
+    this.brightUniforms = getUniformLocations(gl, this.brightProgram, BLOOM_BRIGHT_PASS_UNIFORMS);
+    this.blurUniforms = getUniformLocations(gl, this.blurProgram, BLOOM_BLUR_UNIFORMS);
+    this.combineUniforms = getUniformLocations(gl, this.combineProgram, BLOOM_COMBINE_UNIFORMS);
+  }
+
+  render({ ctx, input, output }: PostProcessFrame): void {
+    const gl = this.gl;
+    const width = Math.max(1, Math.floor(ctx.width / 2));
+    const height = Math.max(1, Math.floor(ctx.height / 2));
+
+    if (!this.brightFbo || !this.blurFbo) {
+      this.brightFbo = createFramebufferWithTexture(gl, width, height);
+      this.blurFbo = createFramebufferWithTexture(gl, width, height);
+    } else if (this.brightFbo.width !== width || this.brightFbo.height !== height) {
+      resizeFramebuffer(gl, this.brightFbo, width, height);
+      resizeFramebuffer(gl, this.blurFbo, width, height);
+    }
+
+    gl.activeTexture(gl.TEXTURE0);
+
+    // Bright pass
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.brightFbo.framebuffer);
+    gl.viewport(0, 0, width, height);
+    gl.useProgram(this.brightProgram);
+    gl.bindTexture(gl.TEXTURE_2D, input.texture);
+    gl.uniform1i(this.brightUniforms.u_texture, 0);
+    gl.uniform1f(this.brightUniforms.u_threshold, this.threshold);
+    this.drawFullscreen();
+
+    // Horizontal blur (bright -> blur)
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.blurFbo.framebuffer);
+    gl.useProgram(this.blurProgram);
+    gl.bindTexture(gl.TEXTURE_2D, this.brightFbo.texture);
+    gl.uniform1i(this.blurUniforms.u_texture, 0);
+    gl.uniform2f(this.blurUniforms.u_direction, 1.0, 0.0);
+    gl.uniform2f(this.blurUniforms.u_resolution, width, height);
+    gl.uniform1f(this.blurUniforms.u_radius, this.radius);
+    this.drawFullscreen();
+
+    // Vertical blur (blur -> bright, reusing the bright target)
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.brightFbo.framebuffer);
+    gl.bindTexture(gl.TEXTURE_2D, this.blurFbo.texture);
+    gl.uniform2f(this.blurUniforms.u_direction, 0.0, 1.0);
+    this.drawFullscreen();
+
+    // Combine into the chain's output
+    gl.bindFramebuffer(gl.FRAMEBUFFER, output ? output.framebuffer : null);
+    gl.viewport(0, 0, ctx.width, ctx.height);
+    gl.useProgram(this.combineProgram);
+    gl.bindTexture(gl.TEXTURE_2D, input.texture);
+    gl.uniform1i(this.combineUniforms.u_scene, 0);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, this.brightFbo.texture);
+    gl.uniform1i(this.combineUniforms.u_bloom, 1);
+    gl.uniform1f(this.combineUniforms.u_intensity, this.intensity);
+    gl.uniform1i(this.combineUniforms.u_toneMap, 0);
+    this.drawFullscreen();
+    gl.activeTexture(gl.TEXTURE0);
+  }
+
+  setParameter(key: string, value: number | boolean | string): void {
+    switch (key) {
+      case 'threshold': this.threshold = value as number; break;
+      case 'intensity': this.intensity = value as number; break;
+      case 'radius': this.radius = value as number; break;
+    }
+  }
+
+  destroy(): void {
+    const gl = this.gl;
+    gl.deleteProgram(this.brightProgram);
+    gl.deleteProgram(this.blurProgram);
+    gl.deleteProgram(this.combineProgram);
+    if (this.brightFbo) deleteFramebuffer(gl, this.brightFbo);
+    if (this.blurFbo) deleteFramebuffer(gl, this.blurFbo);
+  }
+}
+
+export const factory: PostProcessPassFactory = (gl, drawFullscreen) =>
+  new BloomPass(gl, drawFullscreen);
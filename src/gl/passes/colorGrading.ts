@@ -0,0 +1,101 @@
+/**
+ * Color Grading Pass
+ *
+ * Brightness, contrast, saturation and vignette over the input image.
+ */
+
+import { createProgram, getUniformLocations } from '../core';
+import { POSTPROCESS_VERTEX_SHADER } from '../core/postprocess';
+import type {
+  PostProcessFrame,
+  PostProcessPass,
+  PostProcessPassFactory,
+} from '../core/types';
+
+/**
+ * GLSL for the grade, pasted into a fragment shader
+ * grade(col, uv) applies brightness, contrast, saturation and the vignette at
+ * uv, unclamped. Shared with the color grading demo.
+ */
+export const COLOR_GRADING_GLSL = `uniform float u_saturation;
+uniform float u_contrast;
+uniform float u_brightness;
+uniform float u_vignette;
+
+vec3 grade(vec3 col, vec2 uv) {
+  col += u_brightness;
+  col = (col - 0.5) * u_contrast + 0.5;
+
+  float gray = dot(col, vec3(0.299, 0.587, 0.114));
+  col = mix(vec3(gray), col, u_saturation);
+
+  float dist = length(uv - 0.5);
+  return col * (1.0 - dist * dist * u_vignette * 2.0);
+}`;
+
+/** Uniforms declared by COLOR_GRADING_GLSL, for getUniformLocations */
+export const COLOR_GRADING_UNIFORMS = ['u_saturation', 'u_contrast', 'u_brightness', 'u_vignette'];
+
+const fragmentShader = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+out vec4 fragColor;
+
+uniform sampler2D u_texture;
+
+${COLOR_GRADING_GLSL}
+
+void main() {
+  vec3 col = grade(texture(u_texture, v_uv).rgb, v_uv);
+  fragColor = vec4(clamp(col, 0.0, 1.0), 1.0);
+}
+`;
+
+class ColorGradingPass implements PostProcessPass {
+  private gl: WebGL2RenderingContext;
+  private drawFullscreen: () => void;
+  private program: WebGLProgram;
+  private uniforms: Record<string, WebGLUniformLocation | null>;
+
+  private saturation = 1.0;
+  private contrast = 1.0;
+  private brightness = 0.0;
+  private vignette = 0.3;
+
+  constructor(gl: WebGL2RenderingContext, drawFullscreen: () => void) {
+    this.gl = gl;
+    this.drawFullscreen = drawFullscreen;
+    this.program = createProgram(gl, POSTPROCESS_VERTEX_SHADER, fragmentShader, { name: 'color-grading' });
+    this.uniforms = getUniformLocations(gl, this.program, ['u_texture', ...COLOR_GRADING_UNIFORMS]);
+  }
+
+  render({ input }: PostProcessFrame): void {
+    const gl = this.gl;
+    gl.useProgram(this.program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, input.texture);
+    gl.uniform1i(this.uniforms.u_texture, 0);
+    gl.uniform1f(this.uniforms.u_saturation, this.saturation);
+    gl.uniform1f(this.uniforms.u_contrast, this.contrast);
+    gl.uniform1f(this.uniforms.u_brightness, this.brightness);
+    gl.uniform1f(this.uniforms.u_vignette, this.vignette);
+    this.drawFullscreen();
+  }
+
+  setParameter(key: string, value: number | boolean | string): void {
+    switch (key) {
+      case 'saturation': this.saturation = value as number; break;
+      case 'contrast': this.contrast = value as number; break;
+      case 'brightness': this.brightness = value as number; break;
+      case 'vignette': this.vignette = value as number; break;
+    }
+  }
+
+  destroy(): void {
+    this.gl.deleteProgram(this.program);
+  }
+}
+
+export const factory: PostProcessPassFactory = (gl, drawFullscreen) =>
+  new ColorGradingPass(gl, drawFullscreen);
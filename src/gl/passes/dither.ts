@@ -0,0 +1,126 @@
+/**
+ * Dither Pass
+ *
+ * Color quantization with ordered (Bayer) or noise dithering.
+ */
+
+import { createProgram, getUniformLocations } from '../core';
+import { POSTPROCESS_VERTEX_SHADER } from '../core/postprocess';
+import type {
+  PostProcessFrame,
+  PostProcessPass,
+  PostProcessPassFactory,
+} from '../core/types';
+
+/**
+ * GLSL for quantizing with dithering, pasted into a fragment shader
+ * dither(col, uv) returns col cut to u_colorLevels per channel, dithered by
+ * the pixel at uv. Shared with the dithering demo.
+ */
+export const DITHER_GLSL = `uniform float u_time;
+uniform vec2 u_resolution;
+uniform float u_colorLevels;
+uniform int u_ditherType; // 0: none, 1: bayer, 2: blue noise approx
+uniform float u_ditherStrength;
+
+float bayer4x4(vec2 pos) {
+  int x = int(mod(pos.x, 4.0));
+  int y = int(mod(pos.y, 4.0));
+
+  int bayer[16] = int[16](
+    0, 8, 2, 10,
+    12, 4, 14, 6,
+    3, 11, 1, 9,
+    15, 7, 13, 5
+  );
+
+  return float(bayer[y * 4 + x]) / 16.0;
+}
+
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+}
+
+vec3 dither(vec3 col, vec2 uv) {
+  vec2 pixelPos = uv * u_resolution;
+
+  float offset = 0.0;
+  if (u_ditherType == 1) {
+    offset = (bayer4x4(pixelPos) - 0.5) * u_ditherStrength / u_colorLevels;
+  } else if (u_ditherType == 2) {
+    offset = (hash(pixelPos + fract(u_time)) - 0.5) * u_ditherStrength / u_colorLevels;
+  }
+
+  col = floor((col + offset) * u_colorLevels + 0.5) / u_colorLevels;
+  return clamp(col, 0.0, 1.0);
+}`;
+
+/** Uniforms declared by DITHER_GLSL, for getUniformLocations */
+export const DITHER_UNIFORMS = [
+  'u_time', 'u_resolution', 'u_colorLevels', 'u_ditherType', 'u_ditherStrength',
+];
+
+/** ditherType parameter values as u_ditherType */
+export const DITHER_TYPES: Record<string, number> = { none: 0, bayer: 1, blue: 2 };
+
+const fragmentShader = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+out vec4 fragColor;
+
+uniform sampler2D u_texture;
+
+${DITHER_GLSL}
+
+void main() {
+  fragColor = vec4(dither(texture(u_texture, v_uv).rgb, v_uv), 1.0);
+}
+`;
+
+class DitherPass implements PostProcessPass {
+  private gl: WebGL2RenderingContext;
+  private drawFullscreen: () => void;
+  private program: WebGLProgram;
+  private uniforms: Record<string, WebGLUniformLocation | null>;
+
+  private colorLevels = 8;
+  private ditherType = 'bayer';
+  private ditherStrength = 1.0;
+
+  constructor(gl: WebGL2RenderingContext, drawFullscreen: () => void) {
+    this.gl = gl;
+    this.drawFullscreen = drawFullscreen;
+    this.program = createProgram(gl, POSTPROCESS_VERTEX_SHADER, fragmentShader, { name: 'dither' });
+    this.uniforms = getUniformLocations(gl, this.program, ['u_texture', ...DITHER_UNIFORMS]);
+  }
+
+  render({ ctx, input }: PostProcessFrame): void {
+    const gl = this.gl;
+    gl.useProgram(this.program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, input.texture);
+    gl.uniform1i(this.uniforms.u_texture, 0);
+    gl.uniform1f(this.uniforms.u_time, ctx.time);
+    gl.uniform2f(this.uniforms.u_resolution, ctx.width, ctx.height);
+    gl.uniform1f(this.uniforms.u_colorLevels, this.colorLevels);
+    gl.uniform1i(this.uniforms.u_ditherType, DITHER_TYPES[this.ditherType] ?? 1);
+    gl.uniform1f(this.uniforms.u_ditherStrength, this.ditherStrength);
+    this.drawFullscreen();
+  }
+
+  setParameter(key: string, value: number | boolean | string): void {
+    switch (key) {
+      case 'colorLevels': this.colorLevels = value as number; break;
+      case 'ditherType': this.ditherType = value as string; break;
+      case 'ditherStrength': this.ditherStrength = value as number; break;
+    }
+  }
+
+  destroy(): void {
+    this.gl.deleteProgram(this.program);
+  }
+}
+
+export const factory: PostProcessPassFactory = (gl, drawFullscreen) =>
+  new DitherPass(gl, drawFullscreen);
@@ -0,0 +1,168 @@
+/**
+ * Glitch Pass
+ *
+ * Chromatic aberration, scan lines and random block displacement.
+ */
+
+import { createProgram, getUniformLocations } from '../core';
+import { POSTPROCESS_VERTEX_SHADER } from '../core/postprocess';
+import type {
+  PostProcessFrame,
+  PostProcessPass,
+  PostProcessPassFactory,
+} from '../core/types';
+
+/**
+ * GLSL for the glitch effect, pasted into a fragment shader
+ * The shader defines glitchSource(uv), the image to glitch; glitch(uv)
+ * returns the glitched color at uv. Shared with the glitch demo.
+ */
+export const GLITCH_GLSL = `uniform float u_time;
+uniform vec2 u_resolution;
+uniform float u_chromaticStrength;
+uniform bool u_scanlines;
+uniform bool u_blockGlitch;
+uniform float u_intensity;
+
+vec3 glitchSource(vec2 uv);
+
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+}
+
+float noise(vec2 p) {
+  vec2 i = floor(p);
+  vec2 f = fract(p);
+  f = f * f * (3.0 - 2.0 * f);
+
+  float a = hash(i);
+  float b = hash(i + vec2(1.0, 0.0));
+  float c = hash(i + vec2(0.0, 1.0));
+  float d = hash(i + vec2(1.0, 1.0));
+
+  return mix(mix(a, b, f.x), mix(c, d, f.x), f.y);
+}
+
+vec3 glitch(vec2 uv) {
+  float time = u_time;
+
+  // Random glitch timing
+  float glitchTime = floor(time * 10.0);
+  float glitchRandom = hash(vec2(glitchTime, 0.0));
+  bool doGlitch = glitchRandom > (1.0 - u_intensity * 0.3);
+
+  // Block glitch displacement
+  vec2 blockUV = uv;
+  if (u_blockGlitch && doGlitch) {
+    float blockY = floor(uv.y * 20.0) / 20.0;
+    float blockRandom = hash(vec2(blockY, glitchTime));
+    if (blockRandom > 0.8) {
+      blockUV.x += (hash(vec2(blockY, glitchTime + 1.0)) - 0.5) * 0.1 * u_intensity;
+    }
+  }
+
+  // Chromatic aberration
+  vec3 col;
+  float aberration = u_chromaticStrength * (doGlitch ? 2.0 : 1.0);
+  col.r = glitchSource(blockUV + vec2(aberration, 0.0)).r;
+  col.g = glitchSource(blockUV).g;
+  col.b = glitchSource(blockUV - vec2(aberration, 0.0)).b;
+
+  // Scanlines with horizontal sync noise
+  if (u_scanlines) {
+    float scanline = sin(uv.y * u_resolution.y * 0.5) * 0.5 + 0.5;
+    scanline = pow(scanline, 1.5);
+    col *= 0.8 + 0.2 * scanline;
+
+    if (doGlitch) {
+      float syncNoise = noise(vec2(time * 100.0, uv.y * 10.0));
+      if (syncNoise > 0.97) {
+        col = vec3(1.0);
+      }
+    }
+  }
+
+  // Random color noise
+  if (doGlitch && u_intensity > 0.5) {
+    float colorNoise = hash(uv * u_resolution + time);
+    if (colorNoise > 0.99) {
+      col = vec3(hash(uv + time), hash(uv + time + 1.0), hash(uv + time + 2.0));
+    }
+  }
+
+  return col;
+}`;
+
+/** Uniforms declared by GLITCH_GLSL, for getUniformLocations */
+export const GLITCH_UNIFORMS = [
+  'u_time', 'u_resolution', 'u_chromaticStrength', 'u_scanlines', 'u_blockGlitch', 'u_intensity',
+];
+
+const fragmentShader = `#version 300 es
+precision highp float;
+
+in vec2 v_uv;
+out vec4 fragColor;
+
+uniform sampler2D u_texture;
+
+${GLITCH_GLSL}
+
+vec3 glitchSource(vec2 uv) {
+  return texture(u_texture, uv).rgb;
+}
+
+void main() {
+  fragColor = vec4(glitch(v_uv), 1.0);
+}
+`;
+
+class GlitchPass implements PostProcessPass {
+  private gl: WebGL2RenderingContext;
+  private drawFullscreen: () => void;
+  private program: WebGLProgram;
+  private uniforms: Record<string, WebGLUniformLocation | null>;
+
+  private chromaticStrength = 0.01;
+  private scanlines = true;
+  private blockGlitch = false;
+  private intensity = 0.5;
+
+  constructor(gl: WebGL2RenderingContext, drawFullscreen: () => void) {
+    this.gl = gl;
+    this.drawFullscreen = drawFullscreen;
+    this.program = createProgram(gl, POSTPROCESS_VERTEX_SHADER, fragmentShader, { name: 'glitch' });
+    this.uniforms = getUniformLocations(gl, this.program, ['u_texture', ...GLITCH_UNIFORMS]);
+  }
+
+  render({ ctx, input }: PostProcessFrame): void {
+    const gl = this.gl;
+    gl.useProgram(this.program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, input.texture);
+    gl.uniform1i(this.uniforms.u_texture, 0);
+    gl.uniform1f(this.uniforms.u_time, ctx.reduceMotion ? ctx.time * 0.3 : ctx.time);
+    gl.uniform2f(this.uniforms.u_resolution, ctx.width, ctx.height);
+    gl.uniform1f(this.uniforms.u_chromaticStrength, this.chromaticStrength);
+    gl.uniform1i(this.uniforms.u_scanlines, this.scanlines ? 1 : 0);
+    gl.uniform1i(this.uniforms.u_blockGlitch, this.blockGlitch ? 1 : 0);
+    gl.uniform1f(this.uniforms.u_intensity, this.intensity);
+    this.drawFullscreen();
+  }
+
+  setParameter(key: string, value: number | boolean | string): void {
+    switch (key) {
+      case 'chromaticStrength': this.chromaticStrength = value as number; break;
+      case 'scanlines': this.scanlines = value as boolean; break;
+      case 'blockGlitch': this.blockGlitch = value as boolean; break;
+      case 'intensity': this.intensity = value as number; break;
+    }
+  }
+
+  destroy(): void {
+    this.gl.deleteProgram(this.program);
+  }
+}
+
+export const factory: PostProcessPassFactory = (gl, drawFullscreen) =>
+  new GlitchPass(gl, drawFullscreen);
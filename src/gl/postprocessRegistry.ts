@@ -0,0 +1,114 @@
+/**
+ * Postprocess Pass Registry
+ *
+ * Central registry of the reusable effect passes that can be stacked
+ * over any demo. Each pass has metadata for the UI and a factory that
+ * creates it on the demo canvas' WebGL context.
+ */
+
+import type {
+  PostProcessPassMetadata,
+  PostProcessPassFactory,
+} from './core/types';
+import { factory as bloomFactory } from './passes/bloom';
+import { factory as glitchFactory } from './passes/glitch';
+import { factory as ditherFactory } from './passes/dither';
+import { factory as colorGradingFactory } from './passes/colorGrading';
+
+// ============================================================================
+// Pass Metadata Definitions
+// ============================================================================
+
+const bloomMetadata: PostProcessPassMetadata = {
+  type: 'bloom',
+  name: 'Bloom',
+  description: 'Bright-pass threshold with half-resolution gaussian blur',
+  parameters: [
+    { key: 'threshold', label: 'Bright Threshold', type: 'slider', default: 0.7, min: 0, max: 1, step: 0.05 },
+    { key: 'intensity', label: 'Bloom Intensity', type: 'slider', default: 1, min: 0, max: 3, step: 0.1 },
+    { key: 'radius', label: 'Blur Radius', type: 'slider', default: 4, min: 1, max: 10, step: 1 },
+  ],
+};
+
+const glitchMetadata: PostProcessPassMetadata = {
+  type: 'glitch',
+  name: 'Glitch',
+  description: 'RGB split, scan lines and block displacement',
+  parameters: [
+    { key: 'chromaticStrength', label: 'Chromatic Aberration', type: 'slider', default: 0.01, min: 0, max: 0.05, step: 0.002 },
+    { key: 'scanlines', label: 'Scan Lines', type: 'toggle', default: true },
+    { key: 'blockGlitch', label: 'Block Glitch', type: 'toggle', default: false },
+    { key: 'intensity', label: 'Glitch Intensity', type: 'slider', default: 0.5, min: 0, max: 1, step: 0.1 },
+  ],
+};
+
+const ditherMetadata: PostProcessPassMetadata = {
+  type: 'dither',
+  name: 'Dither',
+  description: 'Color quantization with ordered or noise dithering',
+  parameters: [
+    { key: 'colorLevels', label: 'Color Levels', type: 'slider', default: 8, min: 2, max: 32, step: 1 },
+    { key: 'ditherType', label: 'Dither Type', type: 'select', default: 'bayer',
+      options: [
+        { label: 'None', value: 'none' },
+        { label: 'Bayer 4x4', value: 'bayer' },
+        { label: 'Blue Noise', value: 'blue' },
+      ] },
+    { key: 'ditherStrength', label: 'Dither Strength', type: 'slider', default: 1, min: 0, max: 2, step: 0.1 },
+  ],
+};
+
+const colorGradingMetadata: PostProcessPassMetadata = {
+  type: 'color-grading',
+  name: 'Color Grading',
+  description: 'Brightness, contrast, saturation and vignette',
+  parameters: [
+    { key: 'saturation', label: 'Saturation', type: 'slider', default: 1, min: 0, max: 2, step: 0.1 },
+    { key: 'contrast', label: 'Contrast', type: 'slider', default: 1, min: 0.5, max: 1.5, step: 0.05 },
+    { key: 'brightness', label: 'Brightness', type: 'slider', default: 0, min: -0.5, max: 0.5, step: 0.05 },
+    { key: 'vignette', label: 'Vignette', type: 'slider', default: 0.3, min: 0, max: 1, step: 0.05 },
+  ],
+};
+
+// ============================================================================
+// Registry Map
+// ============================================================================
+
+const PASS_METADATA: Record<string, PostProcessPassMetadata> = {
+  bloom: bloomMetadata,
+  glitch: glitchMetadata,
+  dither: ditherMetadata,
+  'color-grading': colorGradingMetadata,
+};
+
+const PASS_FACTORIES: Record<string, PostProcessPassFactory> = {
+  bloom: bloomFactory,
+  glitch: glitchFactory,
+  dither: ditherFactory,
+  'color-grading': colorGradingFactory,
+};
+
+// ============================================================================
+// Registry API
+// ============================================================================
+
+/**
+ * Get all pass metadata entries
+ */
+export function getAllPasses(): PostProcessPassMetadata[] {
+  return Object.values(PASS_METADATA);
+}
+
+/**
+ * Get pass metadata by type
+ */
+export function getPassByType(type: string): PostProcessPassMetadata | undefined {
+  return PASS_METADATA[type];
+}
+
+/**
+ * Get the factory for a pass type
+ */
+export function getPassFactory(type: string): PostProcessPassFactory | undefined {
+  return PASS_FACTORIES[type];
+}
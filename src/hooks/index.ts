@@ -3,6 +3,9 @@
  */
 
 export { useKeyboardShortcuts } from './useKeyboardShortcuts';
-export { useURLSync, getInitialDemoFromURL } from './useURLSync';
+export { useURLSync, getInitialDemoFromURL, getInitialStateFromURL } from './useURLSync';
 export { usePageVisibility, useIsPageVisible } from './usePageVisibility';
 export { useReduceMotion, getInitialReduceMotion } from './useReduceMotion';
+export { useDemoFiles } from './useDemoFiles';
+export { useCanvasRecording } from './useCanvasRecording';
+export { useContextLoss } from './useContextLoss';
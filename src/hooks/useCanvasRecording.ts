@@ -0,0 +1,213 @@
+/**
+ * Canvas Recording Hook
+ *
+ * WebM recording of DemoCanvas. A real-time recording samples the canvas from
+ * the render loop whenever a frame comes due (captureDueFrame); a
+ * fixed-timestep one renders and captures each frame itself, stepping time by
+ * exactly 1/fps, while the render loop stands by. A resolution override holds
+ * the canvas at that size until the recording ends; one larger than the GPU
+ * can render is refused.
+ */
+
+import { useCallback, useRef, type RefObject } from 'react';
+import type { PlaybackClock } from '../gl/core/clock';
+import {
+  createCanvasRecorder,
+  getMaxRecordingSize,
+  type CanvasRecorder,
+  type RecordingOptions,
+} from '../gl/core/recorder';
+import type { DemoInstance } from '../gl/core/types';
+
+interface ActiveRecording {
+  recorder: CanvasRecorder;
+  options: RecordingOptions;
+  fixedTimestep: boolean;
+  startTime: number;     // performance.now() when capture began (real-time mode)
+  nextFrame: number;     // Index of the next frame to capture (real-time mode)
+  stopRequested: boolean;
+  onProgress?: (progress: number) => void;
+  resolve: (blob: Blob) => void;
+  reject: (err: Error) => void;
+}
+
+interface CanvasRecordingOptions {
+  canvasRef: RefObject<HTMLCanvasElement | null>;
+  glRef: RefObject<WebGL2RenderingContext | null>;
+  demoRef: RefObject<DemoInstance | null>;
+  clockRef: RefObject<PlaybackClock>;
+  sizeRef: RefObject<{ width: number; height: number; dpr: number }>;
+  sizeOverrideRef: RefObject<{ width: number; height: number } | null>;  // Honoured by handleResize
+  renderFrame: (time: number, deltaTime: number, overlays: boolean) => void;
+  applySize: (width: number, height: number, dpr: number) => void;
+  handleResize: () => void;
+  isRealTimeSource: () => boolean;   // The demo shows something that won't follow its clock
+}
+
+export function useCanvasRecording({
+  canvasRef,
+  glRef,
+  demoRef,
+  clockRef,
+  sizeRef,
+  sizeOverrideRef,
+  renderFrame,
+  applySize,
+  handleResize,
+  isRealTimeSource,
+}: CanvasRecordingOptions) {
+  const recordingRef = useRef<ActiveRecording | null>(null);
+
+  // Encode what was captured and hand the file back
+  const finishRecording = useCallback((recording: ActiveRecording) => {
+    if (recordingRef.current !== recording) return;
+    recordingRef.current = null;
+    recording.recorder.finish().then(recording.resolve, recording.reject);
+    sizeOverrideRef.current = null;
+    handleResize();
+  }, [sizeOverrideRef, handleResize]);
+
+  /** Throw the recording away (demo switched, encoder error) */
+  const abortRecording = useCallback((err: Error) => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    recording.recorder.cancel();
+    recording.reject(err);
+    sizeOverrideRef.current = null;
+    handleResize();
+  }, [sizeOverrideRef, handleResize]);
+
+  /** Called by the render loop each frame; samples a real-time recording */
+  const captureDueFrame = useCallback((now: number) => {
+    const recording = recordingRef.current;
+    if (!recording || recording.fixedTimestep) return;
+
+    const { fps, duration } = recording.options;
+    const elapsed = (now - recording.startTime) / 1000;
+    if (recording.stopRequested || elapsed >= duration) {
+      finishRecording(recording);
+    } else if (elapsed * fps >= recording.nextFrame) {
+      recording.recorder.captureFrame(elapsed).catch((err: Error) => {
+        if (recordingRef.current === recording) abortRecording(err);
+      });
+      recording.nextFrame = Math.floor(elapsed * fps) + 1;
+      recording.onProgress?.(elapsed / duration);
+    }
+  }, [finishRecording, abortRecording]);
+
+  // Fixed-timestep recording: drive the demo frame by frame, stepping time
+  // by exactly 1/fps no matter how long each frame takes to render
+  const runFixedTimestep = useCallback(
+    async (recording: ActiveRecording) => {
+      const { fps, duration } = recording.options;
+      const frameCount = Math.max(1, Math.round(duration * fps));
+      const step = 1 / fps;
+      const demo = demoRef.current;
+      const clock = clockRef.current;
+      const startTime = clock.getTime();
+      let frame = 0;
+
+      try {
+        for (; frame < frameCount && !recording.stopRequested; frame++) {
+          if (recordingRef.current !== recording) break;
+          renderFrame(startTime + frame * step, step, false);
+          await recording.recorder.captureFrame(frame * step);
+          recording.onProgress?.((frame + 1) / frameCount);
+          // Yield so the page stays responsive
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+        finishRecording(recording);
+      } catch (err) {
+        if (recordingRef.current === recording) abortRecording(err as Error);
+      }
+
+      // Pick up from the last recorded frame unless the demo was replaced meanwhile
+      if (demo && demoRef.current === demo) {
+        clock.seek(startTime + frame * step);
+      }
+    },
+    [demoRef, clockRef, renderFrame, finishRecording, abortRecording]
+  );
+
+  const startRecording = useCallback(
+    async (options: RecordingOptions, onProgress?: (progress: number) => void) => {
+      const canvas = canvasRef.current;
+      const gl = glRef.current;
+      if (!canvas || !gl || !demoRef.current) {
+        throw new Error('No demo is running');
+      }
+      if (recordingRef.current) {
+        throw new Error('A recording is already in progress');
+      }
+
+      if (options.width !== null && options.height !== null) {
+        const max = getMaxRecordingSize(gl);
+        if (options.width > max.width || options.height > max.height) {
+          throw new Error(
+            `${options.width}×${options.height} is larger than this GPU can render (${max.width}×${max.height})`
+          );
+        }
+        sizeOverrideRef.current = { width: options.width, height: options.height };
+        applySize(options.width, options.height, sizeRef.current.dpr);
+      }
+
+      let recorder: CanvasRecorder;
+      try {
+        recorder = await createCanvasRecorder(canvas, options.fps);
+      } catch (err) {
+        sizeOverrideRef.current = null;
+        handleResize();
+        throw err;
+      }
+
+      // A video source keeps playing in real time, whatever the demo is given
+      const realTimeSource = isRealTimeSource();
+      const fixedTimestep = options.fixedTimestep && recorder.timestamped && !realTimeSource;
+      if (options.fixedTimestep && !fixedTimestep) {
+        console.warn(
+          realTimeSource
+            ? 'Video sources play in real time; recording in real time'
+            : 'Fixed-timestep capture needs WebCodecs; recording in real time'
+        );
+      }
+
+      return new Promise<Blob>((resolve, reject) => {
+        const recording: ActiveRecording = {
+          recorder,
+          options,
+          fixedTimestep,
+          startTime: performance.now(),
+          nextFrame: 0,
+          stopRequested: false,
+          onProgress,
+          resolve,
+          reject,
+        };
+        recordingRef.current = recording;
+        if (fixedTimestep) {
+          runFixedTimestep(recording);
+        }
+      });
+    },
+    [
+      canvasRef,
+      glRef,
+      demoRef,
+      sizeRef,
+      sizeOverrideRef,
+      applySize,
+      handleResize,
+      isRealTimeSource,
+      runFixedTimestep,
+    ]
+  );
+
+  const stopRecording = useCallback(() => {
+    if (recordingRef.current) {
+      recordingRef.current.stopRequested = true;
+    }
+  }, []);
+
+  return { recordingRef, startRecording, stopRecording, abortRecording, captureDueFrame };
+}
@@ -0,0 +1,70 @@
+/**
+ * Context Loss Hook
+ *
+ * Watches a canvas for WebGL context loss. When the context goes, onLost
+ * drops everything that held its GL objects; when the browser restores it,
+ * contextRevision is bumped so effects keyed on it rebuild. loseContext()
+ * simulates a GPU reset through WEBGL_lose_context, to be undone with
+ * restoreContext().
+ */
+
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+
+export function useContextLoss(
+  canvasRef: RefObject<HTMLCanvasElement | null>,
+  glRef: RefObject<WebGL2RenderingContext | null>,
+  onLost: () => void
+) {
+  const loseContextRef = useRef<WEBGL_lose_context | null>(null);
+  const simulatedLossRef = useRef(false);
+  // Set until the rebuild after a restore has picked up where the loss left off
+  const restoringRef = useRef(false);
+  const [contextLoss, setContextLoss] = useState<{ simulated: boolean } | null>(null);
+  const [contextRevision, setContextRevision] = useState(0);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleContextLost = (event: Event) => {
+      // Without preventDefault the browser never restores the context
+      event.preventDefault();
+      onLost();
+      setContextLoss({ simulated: simulatedLossRef.current });
+    };
+
+    const handleContextRestored = () => {
+      simulatedLossRef.current = false;
+      restoringRef.current = true;
+      setContextLoss(null);
+      setContextRevision((revision) => revision + 1);
+    };
+
+    canvas.addEventListener('webglcontextlost', handleContextLost);
+    canvas.addEventListener('webglcontextrestored', handleContextRestored);
+    return () => {
+      canvas.removeEventListener('webglcontextlost', handleContextLost);
+      canvas.removeEventListener('webglcontextrestored', handleContextRestored);
+    };
+  }, [canvasRef, onLost]);
+
+  const loseContext = useCallback(() => {
+    const gl = glRef.current;
+    if (!gl || gl.isContextLost()) return;
+    // The extension can't be fetched once the context is gone, so keep it for restoring
+    loseContextRef.current = loseContextRef.current || gl.getExtension('WEBGL_lose_context');
+    if (!loseContextRef.current) {
+      console.warn('WEBGL_lose_context is not supported');
+      return;
+    }
+    simulatedLossRef.current = true;
+    loseContextRef.current.loseContext();
+  }, [glRef]);
+
+  // Real losses restore on their own
+  const restoreContext = useCallback(() => {
+    loseContextRef.current?.restoreContext();
+  }, []);
+
+  return { contextLoss, contextRevision, restoringRef, loseContext, restoreContext };
+}
@@ -0,0 +1,228 @@
+/**
+ * Demo Files Hook
+ *
+ * The user's files for DemoCanvas: glTF/OBJ models, images and videos, and
+ * panoramas, picked or dropped on the canvas. The last image, video and
+ * panorama are shared by every demo that takes them until unmount; a model
+ * belongs to the demo it was loaded into and survives that demo's rebuilds.
+ */
+
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import { usePlayground } from '../context/PlaygroundContext';
+import { loadMeshFile } from '../gl/core/mesh';
+import { loadMediaFile, releaseMedia, syncVideo } from '../gl/core/media';
+import { isPanoramaFile, loadPanoramaFile, releasePanorama } from '../gl/core/environment';
+import type { PlaybackClock } from '../gl/core/clock';
+import type { DemoInstance, MediaKind, MeshData, Panorama, UserMedia } from '../gl/core/types';
+
+interface DemoFilesOptions {
+  demoRef: RefObject<DemoInstance | null>;
+  clockRef: RefObject<PlaybackClock>;
+  redraw: () => void;                                  // Show a change while paused
+  onMeshChange?: (name: string | null) => void;
+}
+
+export function useDemoFiles({ demoRef, clockRef, redraw, onMeshChange }: DemoFilesOptions) {
+  const { state, syncParameters } = usePlayground();
+  const meshRef = useRef<{ demoId: string; mesh: MeshData } | null>(null);
+  const mediaRef = useRef<Record<MediaKind, UserMedia | null>>({ image: null, video: null });
+  const panoramaRef = useRef<Panorama | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [dropHint, setDropHint] = useState<string | null>(null);
+
+  // The video pauses with the playground
+  useEffect(() => {
+    const video = mediaRef.current.video?.source;
+    if (!(video instanceof HTMLVideoElement)) return;
+    if (state.isPaused) {
+      video.pause();
+    } else {
+      video.play().catch(() => {});
+    }
+  }, [state.isPaused]);
+
+  // Loaded media outlives demos and contexts, but not the canvas
+  useEffect(() => {
+    const media = mediaRef.current;
+    return () => {
+      if (media.image) releaseMedia(media.image);
+      if (media.video) releaseMedia(media.video);
+      media.image = null;
+      media.video = null;
+      if (panoramaRef.current) releasePanorama(panoramaRef.current);
+      panoramaRef.current = null;
+    };
+  }, []);
+
+  // Follow seeks, steps and rate changes with the user's video
+  const syncVideoToClock = useCallback(() => {
+    const video = mediaRef.current.video;
+    if (video) syncVideo(video, clockRef.current.getTime(), clockRef.current.getRate());
+  }, [clockRef]);
+
+  /** Whether the demo is showing the user's video, which plays in real time */
+  const isShowingVideo = useCallback(() => {
+    const demo = demoRef.current;
+    return demo !== null && mediaRef.current.video !== null && demo.getParameters().source === 'video';
+  }, [demoRef]);
+
+  /** Hand the kept files to a freshly initialized demo */
+  const applyFiles = useCallback(
+    (demo: DemoInstance, demoId: string) => {
+      const loaded = meshRef.current;
+      if (loaded?.demoId === demoId && demo.setMesh) {
+        demo.setMesh(loaded.mesh);
+      } else {
+        meshRef.current = null;
+      }
+      setFileError(null);
+      onMeshChange?.(meshRef.current?.mesh.name ?? null);
+      if (demo.setMedia) {
+        const { image, video } = mediaRef.current;
+        if (image) demo.setMedia('image', image);
+        if (video) demo.setMedia('video', video);
+      }
+      if (panoramaRef.current) demo.setPanorama?.(panoramaRef.current);
+    },
+    [onMeshChange]
+  );
+
+  const setMesh = useCallback(
+    (mesh: MeshData | null) => {
+      const demo = demoRef.current;
+      if (!demo?.setMesh) return;
+      demo.setMesh(mesh);
+      meshRef.current = mesh && { demoId: state.activeDemoId, mesh };
+      setFileError(null);
+      onMeshChange?.(mesh?.name ?? null);
+      redraw();
+    },
+    [demoRef, state.activeDemoId, onMeshChange, redraw]
+  );
+
+  const loadMesh = useCallback(
+    async (file: File) => {
+      try {
+        setMesh(await loadMeshFile(file));
+      } catch (err) {
+        setFileError(`${file.name}: ${(err as Error).message}`);
+      }
+    },
+    [setMesh]
+  );
+
+  const clearMesh = useCallback(() => setMesh(null), [setMesh]);
+
+  const loadMedia = useCallback(
+    async (file: File) => {
+      let media: UserMedia;
+      try {
+        media = await loadMediaFile(file);
+      } catch (err) {
+        setFileError(`${file.name}: ${(err as Error).message}`);
+        return;
+      }
+      const previous = mediaRef.current[media.kind];
+      mediaRef.current[media.kind] = media;
+      if (media.source instanceof HTMLVideoElement) {
+        const video = media.source;
+        if (!clockRef.current.isPlaying()) video.pause();
+        // A seek lands after the frame that asked for it; show it when paused
+        video.addEventListener('seeked', () => {
+          if (!clockRef.current.isPlaying()) redraw();
+        });
+        syncVideoToClock();
+      }
+
+      const demo = demoRef.current;
+      if (demo?.setMedia) {
+        demo.setMedia(media.kind, media);
+        demo.setParameter('source', media.kind);
+        syncParameters(state.activeDemoId, demo.getParameters());
+      }
+      if (previous) releaseMedia(previous);
+      setFileError(null);
+      redraw();
+    },
+    [demoRef, clockRef, state.activeDemoId, syncParameters, redraw, syncVideoToClock]
+  );
+
+  const loadPanorama = useCallback(
+    async (file: File) => {
+      let panorama: Panorama;
+      try {
+        panorama = await loadPanoramaFile(file);
+      } catch (err) {
+        setFileError(`${file.name}: ${(err as Error).message}`);
+        return;
+      }
+      const previous = panoramaRef.current;
+      panoramaRef.current = panorama;
+
+      const demo = demoRef.current;
+      if (demo?.setPanorama) {
+        demo.setPanorama(panorama);
+        demo.setParameter('environment', 'panorama');
+        syncParameters(state.activeDemoId, demo.getParameters());
+      }
+      if (previous) releasePanorama(previous);
+      setFileError(null);
+      redraw();
+    },
+    [demoRef, state.activeDemoId, syncParameters, redraw]
+  );
+
+  // What the current demo does with a dropped file, or null if it takes none
+  const getDropHint = (e: React.DragEvent) => {
+    const demo = demoRef.current;
+    if (!demo || !e.dataTransfer.types.includes('Files')) return null;
+    if (demo.setMedia) return 'Drop a PNG or JPEG image, or an MP4 or WebM video';
+    if (demo.setMesh && demo.setPanorama) {
+      return 'Drop a .gltf, .glb or .obj model, or a .hdr, .png or .jpg panorama';
+    }
+    if (demo.setMesh) return 'Drop a .gltf, .glb or .obj model';
+    if (demo.setPanorama) return 'Drop a .hdr, .png or .jpg panorama';
+    return null;
+  };
+
+  /** Handlers for the element files are dropped on */
+  const dropHandlers = {
+    onDragOver: (e: React.DragEvent) => {
+      const hint = getDropHint(e);
+      if (!hint) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+      setDropHint(hint);
+    },
+    onDragLeave: () => setDropHint(null),
+    onDrop: (e: React.DragEvent) => {
+      setDropHint(null);
+      if (!getDropHint(e)) return;
+      e.preventDefault();
+      const file = e.dataTransfer.files[0];
+      if (!file) return;
+      const demo = demoRef.current;
+      if (demo?.setMedia) {
+        loadMedia(file);
+      } else if (demo?.setPanorama && (isPanoramaFile(file) || !demo.setMesh)) {
+        loadPanorama(file);
+      } else {
+        loadMesh(file);
+      }
+    },
+  };
+
+  return {
+    fileError,
+    dismissFileError: () => setFileError(null),
+    dropHint,
+    dropHandlers,
+    applyFiles,
+    loadMesh,
+    clearMesh,
+    loadMedia,
+    loadPanorama,
+    syncVideoToClock,
+    isShowingVideo,
+  };
+}
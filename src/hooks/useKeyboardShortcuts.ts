@@ -7,6 +7,7 @@
  * - Space: Toggle pause
  * - R: Reset demo
  * - F: Toggle fullscreen
+ * - . / ,: Step one frame forward / back
  */
 
 import { useEffect, useCallback } from 'react';
@@ -15,11 +16,12 @@ import { getAllDemos } from '../gl/demoRegistry';
 
 interface UseKeyboardShortcutsOptions {
   onReset?: () => void;
+  onStep?: (frames: number) => void;
   enabled?: boolean;
 }
 
 export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {}) {
-  const { onReset, enabled = true } = options;
+  const { onReset, onStep, enabled = true } = options;
   const { state, setActiveDemo, togglePause, toggleFullscreen } = usePlayground();
 
   const handleKeyDown = useCallback(
@@ -82,11 +84,27 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions = {})
           event.preventDefault();
           break;
 
+        case '.':
+          // Step forward
+          if (onStep) {
+            onStep(1);
+          }
+          event.preventDefault();
+          break;
+
+        case ',':
+          // Step back
+          if (onStep) {
+            onStep(-1);
+          }
+          event.preventDefault();
+          break;
+
         default:
           break;
       }
     },
-    [state.activeDemoId, setActiveDemo, togglePause, toggleFullscreen, onReset]
+    [state.activeDemoId, setActiveDemo, togglePause, toggleFullscreen, onReset, onStep]
   );
 
   useEffect(() => {
@@ -1,47 +1,72 @@
 /**
  * URL Sync Hook
  *
- * Synchronizes the active demo with the URL query parameter.
- * - Reads ?demo=xxx on mount to set initial demo
- * - Updates URL when demo changes
+ * Synchronizes shareable playground state with the URL query string:
+ * - ?demo=xxx selects the active demo
+ * - ?quality=low, ?reduceMotion=1, ?paused=1 for global settings
+ * - ?quality=auto&fps=30 for the auto quality governor and its target
+ * - ?<paramKey>=<value> for each non-default parameter of the active demo
+ *
+ * Incoming values are validated against the demo's ParameterDefinitions
+ * (slider min/max/step, select options) before they reach the store, and
+ * the URL's demo gets its complete parameter set (unlisted keys at their
+ * defaults) so stored values never leak into a shared link.
  */
 
-import { useEffect, useRef } from 'react';
+import { useEffect } from 'react';
 import { usePlayground } from '../context/PlaygroundContext';
 import { getDemoById } from '../gl/demoRegistry';
+import { getQualityLevels } from '../gl/core/qualityPresets';
+import { TARGET_FPS_OPTIONS } from '../gl/core/qualityGovernor';
+import { parseBoolean, parseParameterValue, roundParameterValue } from '../gl/core/parameters';
+import type {
+  ParameterDefinition,
+  ParameterValue,
+  ParameterValues,
+  PlaygroundState,
+  QualityLevel,
+  TargetFps,
+} from '../gl/core/types';
+
+// Query keys owned by the playground itself; never treated as demo parameters
+const RESERVED_KEYS = new Set(['demo', 'quality', 'fps', 'reduceMotion', 'paused']);
+
+const DEFAULT_QUALITY: QualityLevel = 'high';
+const DEFAULT_TARGET_FPS: TargetFps = 60;
 
 export function useURLSync() {
-  const { state, setActiveDemo } = usePlayground();
-  const isInitialMount = useRef(true);
+  const { state } = usePlayground();
+  const { activeDemoId, quality, autoQuality, targetFps, reduceMotion, isPaused } = state;
+  const demoParameters = state.parameters[activeDemoId];
 
-  // Read URL on mount
+  // Update URL when shareable state changes
   useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const demoId = params.get('demo');
-
-    if (demoId) {
-      // Verify demo exists
-      const demo = getDemoById(demoId);
-      if (demo) {
-        setActiveDemo(demoId);
-      }
+    const url = new URL(window.location.href);
+    const params = new URLSearchParams();
+    params.set('demo', activeDemoId);
+
+    if (autoQuality) {
+      params.set('quality', 'auto');
+      if (targetFps !== DEFAULT_TARGET_FPS) params.set('fps', String(targetFps));
+    } else if (quality !== DEFAULT_QUALITY) {
+      params.set('quality', quality);
     }
-  }, [setActiveDemo]);
+    if (reduceMotion) params.set('reduceMotion', '1');
+    if (isPaused) params.set('paused', '1');
 
-  // Update URL when demo changes
-  useEffect(() => {
-    // Skip initial mount to avoid duplicate URL update
-    if (isInitialMount.current) {
-      isInitialMount.current = false;
-      return;
+    const definitions = getDemoById(activeDemoId)?.parameters || [];
+    for (const definition of definitions) {
+      if (RESERVED_KEYS.has(definition.key)) continue;
+      const value = demoParameters?.[definition.key];
+      if (value === undefined || isDefaultValue(definition, value)) continue;
+      params.set(definition.key, formatParameterValue(definition, value));
     }
 
-    const url = new URL(window.location.href);
-    url.searchParams.set('demo', state.activeDemoId);
+    url.search = params.toString();
 
-    // Use replaceState to avoid creating history entries on every demo switch
+    // Use replaceState to avoid creating history entries on every change
     window.history.replaceState({}, '', url.toString());
-  }, [state.activeDemoId]);
+  }, [activeDemoId, quality, autoQuality, targetFps, reduceMotion, isPaused, demoParameters]);
 }
 
 /**
@@ -63,3 +88,83 @@ export function getInitialDemoFromURL(): string | null {
 
   return null;
 }
+
+/**
+ * Get all shareable state from the URL
+ * Only valid entries are returned; anything malformed is dropped.
+ */
+export function getInitialStateFromURL(): Partial<PlaygroundState> {
+  if (typeof window === 'undefined') return {};
+
+  const params = new URLSearchParams(window.location.search);
+  const initial: Partial<PlaygroundState> = {};
+
+  const quality = params.get('quality');
+  if (quality === 'auto') {
+    initial.autoQuality = true;
+    const fps = Number(params.get('fps'));
+    if ((TARGET_FPS_OPTIONS as number[]).includes(fps)) {
+      initial.targetFps = fps as TargetFps;
+    }
+  } else if (quality && (getQualityLevels() as string[]).includes(quality)) {
+    initial.quality = quality as QualityLevel;
+  }
+  if (params.has('reduceMotion')) {
+    initial.reduceMotion = parseBoolean(params.get('reduceMotion')) ?? false;
+  }
+  if (params.has('paused')) {
+    initial.isPaused = parseBoolean(params.get('paused')) ?? false;
+  }
+
+  const demoId = getInitialDemoFromURL();
+  if (demoId) {
+    initial.activeDemoId = demoId;
+
+    // The URL is authoritative for its demo: keys it leaves out are at their
+    // defaults (that is how they were shared), not whatever was stored locally
+    const values: ParameterValues = {};
+    for (const definition of getDemoById(demoId)?.parameters || []) {
+      const raw = params.get(definition.key);
+      const value = raw === null || RESERVED_KEYS.has(definition.key)
+        ? null
+        : parseParameterValue(definition, raw);
+      values[definition.key] = value ?? definition.default;
+    }
+    initial.parameters = { [demoId]: values };
+  }
+
+  return initial;
+}
+
+// ============================================================================
+// Parameter Encoding
+// ============================================================================
+
+function formatParameterValue(
+  definition: ParameterDefinition,
+  value: ParameterValue
+): string {
+  switch (definition.type) {
+    case 'slider':
+      return String(roundParameterValue(value as number));
+    case 'toggle':
+      return value ? '1' : '0';
+    case 'color':
+      return String(value).replace(/^#/, '');
+    default:
+      return String(value);
+  }
+}
+
+function isDefaultValue(
+  definition: ParameterDefinition,
+  value: ParameterValue
+): boolean {
+  if (definition.type === 'slider' && typeof value === 'number') {
+    return Math.abs(value - definition.default) < 1e-9;
+  }
+  if (definition.type === 'color' && typeof value === 'string') {
+    return value.toLowerCase() === definition.default.toLowerCase();
+  }
+  return value === definition.default;
+}
@@ -0,0 +1,176 @@
+/**
+ * Snapshot Page
+ *
+ * Entry point for snapshot.html, meant to be driven by a headless browser
+ * (e.g. Chrome with --use-angle=swiftshader for software WebGL2):
+ *
+ *   /snapshot.html?demo=voronoi&width=256&height=256&time=1
+ *   /snapshot.html?demo=voronoi&reference=/__snapshots__/voronoi.png&threshold=0.1&tolerance=0.001
+ *
+ * Renders one deterministic frame with default parameters and a seeded
+ * Math.random, then publishes the result on window.snapshotResult and
+ * sets document.title to 'done' (or 'error'). scripts/snapshots.ts (npm test)
+ * drives it for every demo against the references in __snapshots__/.
+ */
+
+import { getLoadableDemoIds, loadDemo } from './gl/demoRegistry';
+import {
+  compareSnapshots,
+  renderSnapshot,
+  DEFAULT_SNAPSHOT_OPTIONS,
+  type Snapshot,
+  type SnapshotOptions,
+} from './gl/core/snapshot';
+
+interface SnapshotResult {
+  demoIds: string[];
+  demo: string | null;
+  image: string | null;               // PNG data URL of the rendered frame
+  diff: string | null;                // PNG data URL, only when a reference was given
+  mismatchedPixels: number | null;
+  passed: boolean | null;             // null without a reference
+  error: string | null;
+}
+
+declare global {
+  interface Window {
+    snapshotResult?: SnapshotResult;
+  }
+}
+
+// Mismatching pixel ratio still accepted as a pass
+const DEFAULT_TOLERANCE = 0.001;
+
+function readNumber(params: URLSearchParams, key: string, fallback: number): number {
+  const value = parseFloat(params.get(key) ?? '');
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/** Mulberry32 - small, fast and good enough to make demo setup repeatable */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function toDataURL(snapshot: Snapshot): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = snapshot.width;
+  canvas.height = snapshot.height;
+  const ctx2d = canvas.getContext('2d')!;
+  ctx2d.putImageData(new ImageData(new Uint8ClampedArray(snapshot.data), snapshot.width, snapshot.height), 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+async function loadReference(url: string): Promise<Snapshot> {
+  const image = new Image();
+  image.src = url;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx2d = canvas.getContext('2d')!;
+  ctx2d.drawImage(image, 0, 0);
+  const { data, width, height } = ctx2d.getImageData(0, 0, canvas.width, canvas.height);
+  return { width, height, data };
+}
+
+function show(label: string, src: string): void {
+  const figure = document.createElement('figure');
+  const img = document.createElement('img');
+  const caption = document.createElement('figcaption');
+  img.src = src;
+  caption.textContent = label;
+  figure.append(img, caption);
+  document.body.append(figure);
+}
+
+async function run(): Promise<SnapshotResult> {
+  const params = new URLSearchParams(window.location.search);
+  const demoId = params.get('demo');
+  const result: SnapshotResult = {
+    demoIds: getLoadableDemoIds(),
+    demo: demoId,
+    image: null,
+    diff: null,
+    mismatchedPixels: null,
+    passed: null,
+    error: null,
+  };
+  if (!demoId) return result;
+
+  const entry = await loadDemo(demoId);
+  if (!entry) {
+    throw new Error(`Demo not found: ${demoId}`);
+  }
+
+  const options: SnapshotOptions = {
+    ...DEFAULT_SNAPSHOT_OPTIONS,
+    width: Math.round(readNumber(params, 'width', DEFAULT_SNAPSHOT_OPTIONS.width)),
+    height: Math.round(readNumber(params, 'height', DEFAULT_SNAPSHOT_OPTIONS.height)),
+    time: readNumber(params, 'time', DEFAULT_SNAPSHOT_OPTIONS.time),
+    mouseX: readNumber(params, 'mouseX', DEFAULT_SNAPSHOT_OPTIONS.mouseX),
+    mouseY: readNumber(params, 'mouseY', DEFAULT_SNAPSHOT_OPTIONS.mouseY),
+  };
+
+  const canvas = document.createElement('canvas');
+  const gl = canvas.getContext('webgl2', {
+    alpha: false,
+    antialias: false,
+    preserveDrawingBuffer: true,
+  });
+  if (!gl) {
+    throw new Error('WebGL2 not supported');
+  }
+
+  // Demos that scatter particles or noise on init get the same values every run
+  const random = Math.random;
+  Math.random = seededRandom(readNumber(params, 'seed', 1));
+  let snapshot: Snapshot;
+  try {
+    snapshot = await renderSnapshot(gl, entry.factory, options);
+  } finally {
+    Math.random = random;
+  }
+  result.image = toDataURL(snapshot);
+  show(demoId, result.image);
+
+  const referenceUrl = params.get('reference');
+  if (referenceUrl) {
+    const reference = await loadReference(referenceUrl);
+    const comparison = compareSnapshots(snapshot, reference, readNumber(params, 'threshold', 0.1));
+    result.mismatchedPixels = comparison.mismatchedPixels;
+    result.passed = comparison.mismatchRatio <= readNumber(params, 'tolerance', DEFAULT_TOLERANCE);
+    if (!result.passed) {
+      result.diff = toDataURL(comparison.diff);
+      show(`${demoId} diff (${comparison.mismatchedPixels} px)`, result.diff);
+    }
+  }
+
+  return result;
+}
+
+run()
+  .then((result) => {
+    window.snapshotResult = result;
+    document.title = 'done';
+  })
+  .catch((err: Error) => {
+    console.error('Snapshot failed:', err);
+    window.snapshotResult = {
+      demoIds: getLoadableDemoIds(),
+      demo: new URLSearchParams(window.location.search).get('demo'),
+      image: null,
+      diff: null,
+      mismatchedPixels: null,
+      passed: false,
+      error: err.message,
+    };
+    document.title = 'error';
+  });